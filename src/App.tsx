@@ -1,16 +1,29 @@
 import React, { useState } from "react";
 import OPFSFileSystem from "./components/OPFSFileSystem";
 import FileSystemAccessAPI from "./components/FileSystemAccessAPI";
+import OperationLogPanel from "./components/OperationLogPanel";
+import { confirmDiscard } from "./components/useOpenFiles";
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<"opfs" | "fsapi">("opfs"); // Default to OPFS
+  const [dirty, setDirty] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+
+  // Cambiando modalità l'esploratore corrente si chiude con le sue schede
+  const switchMode = (next: "opfs" | "fsapi") => {
+    if (next === mode || (dirty && !confirmDiscard("Cambiare modalità"))) {
+      return;
+    }
+    setDirty(false);
+    setMode(next);
+  };
 
   return (
     <div style={{ padding: "20px", fontFamily: "Arial, sans-serif" }}>
       <h1>File System Explorer Web App</h1>
       <div style={{ marginBottom: "20px" }}>
         <button
-          onClick={() => setMode("opfs")}
+          onClick={() => switchMode("opfs")}
           style={{
             padding: "10px 20px",
             marginRight: "10px",
@@ -24,7 +37,7 @@ const App: React.FC = () => {
           Origin Private File System
         </button>
         <button
-          onClick={() => setMode("fsapi")}
+          onClick={() => switchMode("fsapi")}
           style={{
             padding: "10px 20px",
             backgroundColor: mode === "fsapi" ? "#4CAF50" : "#f0f0f0",
@@ -36,9 +49,20 @@ const App: React.FC = () => {
         >
           File System Access API
         </button>
+        <button
+          onClick={() => setShowLog((show) => !show)}
+          style={{ padding: "10px 20px", marginLeft: "10px" }}
+        >
+          Registro operazioni
+        </button>
       </div>
+      {showLog && <OperationLogPanel />}
 
-      {mode === "opfs" ? <OPFSFileSystem /> : <FileSystemAccessAPI />}
+      {mode === "opfs" ? (
+        <OPFSFileSystem onDirtyChange={setDirty} />
+      ) : (
+        <FileSystemAccessAPI onDirtyChange={setDirty} />
+      )}
     </div>
   );
 };
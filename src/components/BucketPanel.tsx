@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from "react";
+import Modal from "./Modal";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import {
+  BucketInfo,
+  BucketStatus,
+  clearExpiry,
+  deleteBucket,
+  extendExpiry,
+  forgetBucket,
+  inspectBuckets,
+  persistBucket,
+} from "../storage/buckets";
+import { opfsBackendId } from "../storage/opfs";
+import { formatBytes } from "../storage/usage";
+
+type BucketPanelProps = {
+  buckets: string[]; // Ricarica il pannello quando cambia l'elenco
+  onChange: (message: string) => void;
+};
+
+const STATUS_LABELS: Record<BucketStatus, [string, string]> = {
+  active: ["attivo", "inherit"],
+  expired: ["scaduto", "#ff9800"],
+  evicted: ["eliminato dal browser", "#f44336"],
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const BucketPanel: React.FC<BucketPanelProps> = ({ buckets, onChange }) => {
+  const [infos, setInfos] = useState<BucketInfo[]>([]);
+  const [extending, setExtending] = useState<string | null>(null);
+  const { status, report } = useStatus();
+
+  const load = useCallback(async () => {
+    const loaded = await report(
+      { operation: "Lettura bucket", path: "", backend: "" },
+      () => inspectBuckets()
+    );
+    if (loaded) setInfos(loaded);
+  }, [report]);
+
+  useEffect(() => {
+    load();
+  }, [buckets, load]);
+
+  // Operazione sul bucket `name`, registrata come quelle dell'esploratore
+  const run = async (
+    operation: string,
+    name: string,
+    action: () => Promise<unknown>,
+    message: string
+  ) => {
+    const target = { operation, path: name, backend: opfsBackendId(name) };
+    const done = await report(target, async () => {
+      await action();
+      return true;
+    });
+    if (!done) return;
+    onChange(message);
+    await load();
+  };
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Bucket <button onClick={load}>Aggiorna</button>
+      </h2>
+      <StatusMessage status={status} />
+
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            {[
+              "Nome",
+              "Stato",
+              "Durabilità",
+              "Persistente",
+              "Scadenza",
+              "Uso / Quota",
+              "",
+            ].map((title) => (
+              <th key={title} style={cell}>
+                {title}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {infos.map((info) => {
+            const [label, color] = STATUS_LABELS[info.status];
+            return (
+              <tr key={info.name}>
+                <td style={cell}>{info.name}</td>
+                <td style={{ ...cell, color }}>{label}</td>
+                {info.status === "evicted" ? (
+                  <>
+                    <td style={cell} colSpan={4}>
+                      Il bucket e il suo contenuto non esistono più
+                    </td>
+                    <td style={cell}>
+                      <button
+                        onClick={() =>
+                          run(
+                            "Rimozione dall'elenco",
+                            info.name,
+                            async () => forgetBucket(info.name),
+                            `Bucket dimenticato: ${info.name}`
+                          )
+                        }
+                      >
+                        Dimentica
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td style={cell}>{info.durability}</td>
+                    <td style={cell}>{info.persisted ? "sì" : "no"}</td>
+                    <td style={cell}>
+                      {info.expires
+                        ? new Date(info.expires).toLocaleString()
+                        : "nessuna"}
+                    </td>
+                    <td style={cell}>
+                      {formatBytes(info.usage ?? 0)} /{" "}
+                      {info.quota === undefined ? "—" : formatBytes(info.quota)}
+                    </td>
+                    <td style={cell}>
+                      <button onClick={() => setExtending(info.name)}>
+                        Estendi scadenza
+                      </button>
+                      {info.expires && (
+                        <button
+                          onClick={() =>
+                            run(
+                              "Rimozione scadenza",
+                              info.name,
+                              () => clearExpiry(info.name),
+                              `Scadenza rimossa: ${info.name}`
+                            )
+                          }
+                        >
+                          Rimuovi scadenza
+                        </button>
+                      )}
+                      {!info.persisted && (
+                        <button
+                          onClick={() =>
+                            run(
+                              "Persistenza bucket",
+                              info.name,
+                              async () => {
+                                if (!(await persistBucket(info.name))) {
+                                  throw new DOMException(
+                                    `Persistenza negata dal browser per ${info.name}`,
+                                    "NotAllowedError"
+                                  );
+                                }
+                              },
+                              `Bucket reso persistente: ${info.name}`
+                            )
+                          }
+                        >
+                          Rendi persistente
+                        </button>
+                      )}
+                      <button
+                        onClick={() =>
+                          run(
+                            "Eliminazione bucket",
+                            info.name,
+                            () => deleteBucket(info.name),
+                            `Bucket eliminato: ${info.name}`
+                          )
+                        }
+                      >
+                        Elimina
+                      </button>
+                    </td>
+                  </>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {extending && (
+        <Modal
+          title={`Estendi la scadenza di ${extending}`}
+          placeholder=""
+          fields={[
+            { name: "Secondi", type: "number", placeholder: "Es. 86400" },
+          ]}
+          onConfirm={(values) => {
+            const seconds = parseInt(values.Secondi, 10);
+            if (seconds > 0) {
+              run(
+                "Estensione scadenza",
+                extending,
+                () => extendExpiry(extending, seconds),
+                `Scadenza estesa: ${extending}`
+              );
+            }
+            setExtending(null);
+          }}
+          onCancel={() => setExtending(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BucketPanel;
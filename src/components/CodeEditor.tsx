@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  HIGHLIGHT_LIMIT,
+  TokenType,
+  languageOf,
+  tokenize,
+} from "../editor/highlight";
+import {
+  FindOptions,
+  TextRange,
+  findMatches,
+  nextMatch,
+  replaceAll,
+  replaceMatch,
+} from "../editor/find";
+
+type CodeEditorProps = {
+  name: string; // Il linguaggio si sceglie dall'estensione
+  value: string;
+  onChange: (value: string) => void;
+  onSave: () => void; // Ctrl+S
+  readOnly?: boolean;
+};
+
+const COLORS: Record<TokenType, string> = {
+  plain: "#fff",
+  comment: "#6a9955",
+  string: "#ce9178",
+  number: "#b5cea8",
+  keyword: "#569cd6",
+  tag: "#4ec9b0",
+  heading: "#dcdcaa",
+};
+
+// Area di modifica e testo colorato devono coincidere al pixel
+const TEXT_STYLE: React.CSSProperties = {
+  margin: 0,
+  padding: "10px",
+  fontFamily: "monospace",
+  fontSize: "14px",
+  lineHeight: "20px",
+  whiteSpace: "pre",
+  boxSizing: "border-box",
+};
+
+type FindBarProps = {
+  text: string;
+  readOnly: boolean;
+  area: React.RefObject<HTMLTextAreaElement>;
+  onChange: (value: string) => void;
+  onClose: () => void;
+};
+
+const FindBar: React.FC<FindBarProps> = ({
+  text,
+  readOnly,
+  area,
+  onChange,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<FindOptions>({});
+
+  const [matches, error] = useMemo((): [TextRange[], string | null] => {
+    try {
+      return [findMatches(text, query, options), null];
+    } catch (error) {
+      return [[], (error as Error).message];
+    }
+  }, [text, query, options]);
+
+  const select = (range: TextRange | undefined) => {
+    if (!range || !area.current) return;
+    area.current.focus();
+    area.current.setSelectionRange(range.start, range.end);
+  };
+
+  const findNext = () =>
+    select(nextMatch(matches, area.current?.selectionEnd ?? 0));
+
+  const replaceCurrent = () => {
+    const selection = area.current;
+    const current = matches.find(
+      (match) =>
+        match.start === selection?.selectionStart &&
+        match.end === selection?.selectionEnd
+    );
+    // Come negli altri editor: prima si va all'occorrenza, poi si sostituisce
+    if (!current) return findNext();
+    onChange(replaceMatch(text, current, query, replacement, options));
+  };
+
+  return (
+    <div style={{ marginBottom: "5px" }}>
+      <input
+        autoFocus
+        placeholder="Trova"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") findNext();
+          if (e.key === "Escape") onClose();
+        }}
+      />{" "}
+      <input
+        placeholder="Sostituisci con"
+        value={replacement}
+        disabled={readOnly}
+        onChange={(e) => setReplacement(e.target.value)}
+      />{" "}
+      <label>
+        <input
+          type="checkbox"
+          checked={!!options.caseSensitive}
+          onChange={(e) =>
+            setOptions((prev) => ({ ...prev, caseSensitive: e.target.checked }))
+          }
+        />
+        Maiuscole/minuscole
+      </label>{" "}
+      <label>
+        <input
+          type="checkbox"
+          checked={!!options.regex}
+          onChange={(e) =>
+            setOptions((prev) => ({ ...prev, regex: e.target.checked }))
+          }
+        />
+        Regex
+      </label>{" "}
+      <button onClick={findNext} disabled={matches.length === 0}>
+        Successivo
+      </button>
+      <button
+        onClick={replaceCurrent}
+        disabled={readOnly || matches.length === 0}
+      >
+        Sostituisci
+      </button>
+      <button
+        onClick={() => onChange(replaceAll(text, query, replacement, options))}
+        disabled={readOnly || matches.length === 0}
+      >
+        Sostituisci tutto
+      </button>
+      <button onClick={onClose}>✕</button>{" "}
+      {error ? (
+        <span style={{ color: "#f44336" }}>{error}</span>
+      ) : (
+        query && `${matches.length} occorrenze`
+      )}
+    </div>
+  );
+};
+
+/**
+ * Editor di codice: una textarea trasparente sopra il testo colorato, con i
+ * numeri di riga a lato e la barra di ricerca (Ctrl+F).
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({
+  name,
+  value,
+  onChange,
+  onSave,
+  readOnly = false,
+}) => {
+  const [finding, setFinding] = useState(false);
+  const area = useRef<HTMLTextAreaElement>(null);
+  const highlight = useRef<HTMLPreElement>(null);
+  const gutter = useRef<HTMLPreElement>(null);
+
+  const language = languageOf(name);
+  // Oltre il limite niente testo colorato: né token né una seconda copia del
+  // testo da aggiornare a ogni tasto, la textarea mostra il testo da sola
+  const highlighted = value.length <= HIGHLIGHT_LIMIT;
+  const tokens = useMemo(
+    () => (highlighted ? tokenize(value, language) : []),
+    [highlighted, value, language]
+  );
+  const lineNumbers = useMemo(() => {
+    let count = 1;
+    let index = value.indexOf("\n");
+    while (index !== -1) {
+      count++;
+      index = value.indexOf("\n", index + 1);
+    }
+    return Array.from({ length: count }, (_, i) => i + 1).join("\n");
+  }, [value]);
+
+  const syncScroll = () => {
+    if (!area.current || !gutter.current) return;
+    gutter.current.scrollTop = area.current.scrollTop;
+    if (!highlight.current) return;
+    highlight.current.scrollTop = area.current.scrollTop;
+    highlight.current.scrollLeft = area.current.scrollLeft;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === "s") {
+      e.preventDefault();
+      if (!readOnly) onSave();
+    } else if (key === "f") {
+      e.preventDefault();
+      setFinding(true);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      {finding && (
+        <FindBar
+          text={value}
+          readOnly={readOnly}
+          area={area}
+          onChange={onChange}
+          onClose={() => {
+            setFinding(false);
+            area.current?.focus();
+          }}
+        />
+      )}
+      <div
+        style={{
+          display: "flex",
+          height: "300px",
+          textAlign: "left",
+          backgroundColor: "#1a1a1a",
+          border: "1px solid #646cff",
+          borderRadius: "4px",
+        }}
+      >
+        <pre
+          ref={gutter}
+          aria-hidden
+          style={{
+            ...TEXT_STYLE,
+            overflow: "hidden",
+            textAlign: "right",
+            color: "#858585",
+            borderRight: "1px solid #333",
+            userSelect: "none",
+          }}
+        >
+          {lineNumbers}
+        </pre>
+        <div style={{ position: "relative", flex: 1, overflow: "hidden" }}>
+          {highlighted && (
+            <pre
+              ref={highlight}
+              aria-hidden
+              style={{
+                ...TEXT_STYLE,
+                position: "absolute",
+                inset: 0,
+                overflow: "hidden",
+                pointerEvents: "none",
+              }}
+            >
+              {tokens.map((token, index) => (
+                <span key={index} style={{ color: COLORS[token.type] }}>
+                  {token.text}
+                </span>
+              ))}
+              {/* L'ultima riga vuota della textarea deve avere la sua altezza */}
+              {"\n"}
+            </pre>
+          )}
+          <textarea
+            ref={area}
+            value={value}
+            readOnly={readOnly}
+            spellCheck={false}
+            wrap="off"
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            style={{
+              ...TEXT_STYLE,
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              overflow: "auto",
+              resize: "none",
+              border: "none",
+              outline: "none",
+              color: highlighted ? "transparent" : COLORS.plain,
+              caretColor: "#fff",
+              backgroundColor: "transparent",
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
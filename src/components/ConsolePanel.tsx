@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import { decodeForPath, encodeForPath } from "../storage/encryption";
+import { browserEnvironment } from "../storage/opfs";
+import {
+  ShellContext,
+  completeLine,
+  createIndexedDBShellHistory,
+  runCommand,
+} from "../storage/shell";
+import { ChangeEvent } from "../storage/watch";
+
+type ConsolePanelProps = {
+  onChanges: (events: ChangeEvent[]) => void; // Percorsi completi dell'albero
+};
+
+type Line = { text: string; error?: boolean };
+
+const historyStore = createIndexedDBShellHistory();
+
+/**
+ * Console con comandi da shell (ls, cd, cat, mkdir, rm, mv, cp, ...) sulla
+ * radice OPFS e sui bucket. Tab completa comandi e percorsi, le frecce
+ * scorrono la cronologia salvata in IndexedDB.
+ */
+const ConsolePanel: React.FC<ConsolePanelProps> = ({ onChanges }) => {
+  const [lines, setLines] = useState<Line[]>([
+    { text: "Scrivi help per l'elenco dei comandi" },
+  ]);
+  const [cwd, setCwd] = useState("root");
+  const [input, setInput] = useState("");
+  const [history, setHistory] = useState<string[]>([]);
+  // Posizione nella cronologia durante la navigazione con le frecce
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  const ctx: ShellContext = {
+    env: browserEnvironment(),
+    decode: (fullPath, file) => decodeForPath(fullPath, file),
+    encode: (fullPath, data) => encodeForPath(fullPath, data),
+  };
+  const prompt = `opfs:/${cwd}$`;
+
+  useEffect(() => {
+    historyStore
+      .load()
+      .then(setHistory)
+      .catch((error) =>
+        console.error("Errore durante la lettura della cronologia:", error)
+      );
+  }, []);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo(0, outputRef.current.scrollHeight);
+  }, [lines]);
+
+  const print = (...added: Line[]) => setLines((prev) => [...prev, ...added]);
+
+  const remember = (line: string) => {
+    setHistoryIndex(null);
+    if (line === history[history.length - 1]) return;
+    setHistory((prev) => [...prev, line]);
+    historyStore
+      .add(line)
+      .catch((error) =>
+        console.error("Errore durante il salvataggio della cronologia:", error)
+      );
+  };
+
+  const submit = async () => {
+    const line = input.trim();
+    setInput("");
+    print({ text: `${prompt} ${line}` });
+    if (!line) return;
+    remember(line);
+
+    if (line === "clear") {
+      setLines([]);
+      return;
+    }
+    if (line === "history") {
+      print(
+        ...[...history, line].map((command, i) => ({
+          text: `${String(i + 1).padStart(4)}  ${command}`,
+        }))
+      );
+      return;
+    }
+    setBusy(true);
+    try {
+      const result = await runCommand(ctx, cwd, line);
+      print(...result.output.map((text) => ({ text, error: result.error })));
+      setCwd(result.cwd);
+      if (result.changes.length > 0) onChanges(result.changes);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const complete = async () => {
+    try {
+      const completion = await completeLine(ctx, cwd, input);
+      setInput(completion.line);
+      if (completion.candidates.length > 0) {
+        print(
+          { text: `${prompt} ${input}` },
+          { text: completion.candidates.join("  ") }
+        );
+      }
+    } catch (error) {
+      print({ text: (error as Error).message, error: true });
+    }
+  };
+
+  const browseHistory = (step: number) => {
+    if (history.length === 0) return;
+    const next =
+      historyIndex === null
+        ? step < 0
+          ? history.length - 1
+          : null
+        : historyIndex + step;
+    if (next === null || next >= history.length) {
+      setHistoryIndex(null);
+      setInput("");
+    } else {
+      const index = Math.max(0, next);
+      setHistoryIndex(index);
+      setInput(history[index]);
+    }
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" && !busy) submit();
+    else if (event.key === "Tab") {
+      event.preventDefault();
+      complete();
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      browseHistory(-1);
+    } else if (event.key === "ArrowDown") {
+      event.preventDefault();
+      browseHistory(1);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>Console</h2>
+      <pre
+        ref={outputRef}
+        style={{
+          maxHeight: "300px",
+          overflow: "auto",
+          margin: 0,
+          padding: "8px",
+          backgroundColor: "#111",
+          fontFamily: "monospace",
+        }}
+      >
+        {lines.map((line, i) => (
+          <div key={i} style={line.error ? { color: "#f44336" } : undefined}>
+            {line.text}
+          </div>
+        ))}
+      </pre>
+      <div style={{ display: "flex", fontFamily: "monospace" }}>
+        <span style={{ padding: "4px" }}>{prompt}</span>
+        <input
+          value={input}
+          onChange={(event) => {
+            setInput(event.target.value);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={onKeyDown}
+          disabled={busy}
+          spellCheck={false}
+          autoFocus
+          style={{ flex: 1, fontFamily: "monospace" }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ConsolePanel;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import type { SqlValue } from "@sqlite.org/sqlite-wasm";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { backendOfAddress } from "../storage/paths";
+import { QueryResult, TableSchema } from "../storage/sqlite";
+import { getSQLiteClient } from "../workers/sqliteClient";
+import { DatabaseInfo } from "../workers/sqliteProtocol";
+
+type DatabaseBrowserProps = {
+  path: string; // Percorso completo dell'albero
+  onChange: (message: string) => void; // Dopo una modifica in scrittura
+};
+
+const PAGE_SIZE = 50;
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const formatValue = (value: SqlValue) => {
+  if (value === null) return <i>NULL</i>;
+  if (value instanceof Uint8Array || value instanceof Int8Array) {
+    return <i>BLOB ({value.length} byte)</i>;
+  }
+  if (value instanceof ArrayBuffer) {
+    return <i>BLOB ({value.byteLength} byte)</i>;
+  }
+  return String(value);
+};
+
+const ResultTable: React.FC<{ result: QueryResult }> = ({ result }) => (
+  <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+    <thead>
+      <tr>
+        {result.columns.map((column, i) => (
+          <th key={i} style={cell}>
+            {column}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {result.rows.map((row, i) => (
+        <tr key={i}>
+          {row.map((value, j) => (
+            <td key={j} style={cell}>
+              {formatValue(value)}
+            </td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/**
+ * Browser di un database SQLite salvato in OPFS: tabelle e schemi, righe a
+ * pagine e query SQL ad hoc, eseguite nel worker SQLite. Il database è in
+ * sola lettura finché non si attiva la modalità scrittura.
+ */
+const DatabaseBrowser: React.FC<DatabaseBrowserProps> = ({
+  path,
+  onChange,
+}) => {
+  const [database, setDatabase] = useState<DatabaseInfo | null>(null);
+  const [write, setWrite] = useState(false);
+  const [table, setTable] = useState<TableSchema | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [rows, setRows] = useState<QueryResult | null>(null);
+  const [sql, setSql] = useState("");
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const { status, report } = useStatus();
+
+  const client = getSQLiteClient();
+
+  // Le operazioni sul database finiscono nel registro delle operazioni
+  const run = (operation: string, action: () => Promise<void>) =>
+    report({ operation, path, backend: backendOfAddress(path) }, action);
+
+  // Il database resta aperto nel worker finché il browser è visibile
+  useEffect(() => {
+    report(
+      { operation: "Apertura database", path, backend: backendOfAddress(path) },
+      () => getSQLiteClient().open(path, write)
+    ).then((info) => setDatabase(info ?? null));
+    return () => {
+      getSQLiteClient()
+        .close(path)
+        .catch((error) =>
+          console.error("Errore durante la chiusura del database:", error)
+        );
+    };
+  }, [path, write, report]);
+
+  const showRows = (schema: TableSchema, start: number) =>
+    run("Lettura righe", async () => {
+      setRows(await client.rows(path, schema.name, start, PAGE_SIZE));
+      setTable(schema);
+      setOffset(start);
+    });
+
+  const execute = () =>
+    run("Query", async () => {
+      const queryResult = await client.query(path, sql);
+      setResult(queryResult);
+      if (!write) return;
+      // Anche un'istruzione senza righe modificate può cambiare lo schema
+      const updated = await client.open(path, true);
+      setDatabase(updated);
+      onChange(
+        `Query eseguita su ${path}: ${queryResult.changes} righe modificate`
+      );
+    });
+
+  const toggleWrite = () => {
+    if (
+      !write &&
+      !window.confirm(
+        `Attivare la modalità scrittura? Le query potranno modificare ${path}.`
+      )
+    ) {
+      return;
+    }
+    setWrite(!write);
+    setRows(null);
+    setTable(null);
+  };
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>Database {path}</h2>
+      <label>
+        <input type="checkbox" checked={write} onChange={toggleWrite} />{" "}
+        Modalità scrittura
+      </label>
+      {database && (
+        <span style={{ marginLeft: "10px", fontSize: "small" }}>
+          {database.vfs === "opfs" ? "VFS OPFS" : "Copia in memoria"}
+        </span>
+      )}
+      <StatusMessage status={status} />
+
+      {database && (
+        <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+          <thead>
+            <tr>
+              {["Nome", "Tipo", "Colonne", "Righe", ""].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {database.tables.map((schema) => (
+              <tr key={schema.name}>
+                <td style={cell} title={schema.sql}>
+                  {schema.name}
+                </td>
+                <td style={cell}>
+                  {schema.type === "view" ? "vista" : "tabella"}
+                </td>
+                <td style={cell}>
+                  {schema.columns
+                    .map(
+                      (column) =>
+                        `${column.name} ${column.type}${
+                          column.primaryKey ? " PK" : ""
+                        }${column.notNull ? " NOT NULL" : ""}`
+                    )
+                    .join(", ")}
+                </td>
+                <td style={cell}>{schema.rows ?? "—"}</td>
+                <td style={cell}>
+                  <button onClick={() => showRows(schema, 0)}>Righe</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {table && rows && (
+        <>
+          <h3>
+            {table.name}: righe {offset + 1}–{offset + rows.rows.length}
+          </h3>
+          <button
+            onClick={() => showRows(table, Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+          >
+            Precedenti
+          </button>
+          <button
+            onClick={() => showRows(table, offset + PAGE_SIZE)}
+            disabled={rows.rows.length < PAGE_SIZE}
+          >
+            Successive
+          </button>
+          <ResultTable result={rows} />
+        </>
+      )}
+
+      <h3>Query SQL</h3>
+      <textarea
+        value={sql}
+        onChange={(event) => setSql(event.target.value)}
+        rows={4}
+        style={{ width: "100%", fontFamily: "monospace" }}
+        placeholder="SELECT * FROM ..."
+      />
+      <button onClick={execute} disabled={!sql.trim() || !database}>
+        Esegui
+      </button>
+      {result && (
+        <>
+          <p>
+            {result.columns.length > 0
+              ? `${result.rows.length} righe${
+                  result.truncated ? " (risultato troncato)" : ""
+                }`
+              : `${result.changes} righe modificate`}
+          </p>
+          {result.columns.length > 0 && <ResultTable result={result} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DatabaseBrowser;
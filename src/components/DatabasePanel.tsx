@@ -0,0 +1,46 @@
+import React, { useCallback, useEffect, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { getSQLiteClient } from "../workers/sqliteClient";
+
+type DatabasePanelProps = {
+  onOpen: (path: string) => void; // Percorso completo dell'albero
+};
+
+// Database SQLite trovati nella radice OPFS e nei bucket
+const DatabasePanel: React.FC<DatabasePanelProps> = ({ onOpen }) => {
+  const [paths, setPaths] = useState<string[] | null>(null);
+  const { status, clear, report } = useStatus();
+
+  const load = useCallback(async () => {
+    setPaths(null);
+    clear();
+    const found = await report(
+      { operation: "Ricerca database", path: "", backend: "" },
+      () => getSQLiteClient().findDatabases()
+    );
+    if (found) setPaths(found);
+  }, [clear, report]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Database SQLite <button onClick={load}>Aggiorna</button>
+      </h2>
+      <StatusMessage status={status} />
+      {!paths && !status && <p>Ricerca in corso…</p>}
+      {paths?.length === 0 && <p>Nessun database trovato</p>}
+      {paths?.map((path) => (
+        <div key={path}>
+          {path} <button onClick={() => onOpen(path)}>Apri</button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DatabasePanel;
@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import VirtualList from "./VirtualList";
+import { FileSystemNode, TreeRow, parentPath } from "../storage/tree";
+
+type DirectoryTreeProps = {
+  rows: TreeRow[];
+  loading: ReadonlySet<string>;
+  onToggle: (path: string) => void;
+  renderActions: (node: FileSystemNode) => React.ReactNode;
+  // Cartella di destinazione ("" = sfondo dell'albero) e voci trascinate
+  onDrop?: (path: string, entries: FileSystemEntry[]) => void;
+};
+
+const ROW_HEIGHT = 32;
+const INDENT = 20;
+
+const icons: Record<FileSystemNode["kind"], string> = {
+  directory: "📁",
+  bucket: "🗑️",
+  file: "📄",
+};
+
+// Trascinare su un file equivale a trascinare sulla sua cartella
+const dropTarget = (node: FileSystemNode) =>
+  node.kind === "file" ? parentPath(node.name) : node.name;
+
+const DirectoryTree: React.FC<DirectoryTreeProps> = ({
+  rows,
+  loading,
+  onToggle,
+  renderActions,
+  onDrop,
+}) => {
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  const dropHandlers = (path: string) =>
+    onDrop && {
+      onDragOver: (event: React.DragEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setDragOver(path);
+      },
+      onDragLeave: () => setDragOver(null),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setDragOver(null);
+        // Le voci vanno lette subito: il DataTransfer scade dopo l'evento
+        const entries = Array.from(event.dataTransfer.items)
+          .map((item) => item.webkitGetAsEntry())
+          .filter((entry): entry is FileSystemEntry => entry !== null);
+        if (entries.length > 0) onDrop(path, entries);
+      },
+    };
+
+  const highlight = (path: string): React.CSSProperties =>
+    dragOver === path ? { background: "#e3f2fd" } : {};
+
+  return (
+    <div
+      style={{ marginTop: "20px", textAlign: "left", ...highlight("") }}
+      {...dropHandlers("")}
+    >
+      <VirtualList
+        items={rows}
+        rowHeight={ROW_HEIGHT}
+        height={600}
+        getKey={(row) => row.node.name}
+        renderRow={({ node, depth, expanded }) => (
+          <div
+            style={{
+              paddingLeft: depth * INDENT,
+              ...highlight(dropTarget(node)),
+            }}
+            {...dropHandlers(dropTarget(node))}
+          >
+            {node.kind === "file" ? (
+              <span style={{ display: "inline-block", width: "24px" }} />
+            ) : (
+              <button
+                onClick={() => onToggle(node.name)}
+                style={{ width: "24px", padding: 0, marginRight: 0 }}
+              >
+                {expanded ? "▾" : "▸"}
+              </button>
+            )}{" "}
+            {icons[node.kind]} {node.name.split("/").pop()}{" "}
+            {loading.has(node.name) && "…"} {renderActions(node)}
+          </div>
+        )}
+      />
+    </div>
+  );
+};
+
+export default DirectoryTree;
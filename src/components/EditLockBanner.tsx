@@ -0,0 +1,26 @@
+import React from "react";
+
+type EditLockBannerProps = {
+  waiting: boolean;
+  onWait: () => void;
+};
+
+const EditLockBanner: React.FC<EditLockBannerProps> = ({ waiting, onWait }) => (
+  <div
+    style={{
+      marginTop: "10px",
+      padding: "8px",
+      border: "1px solid #2196f3",
+      color: "#2196f3",
+    }}
+  >
+    🔒 Il file è aperto in modifica in un'altra scheda: qui è in sola lettura.{" "}
+    {waiting ? (
+      "In attesa che l'altra scheda lo chiuda…"
+    ) : (
+      <button onClick={onWait}>Modifica quando si libera</button>
+    )}
+  </div>
+);
+
+export default EditLockBanner;
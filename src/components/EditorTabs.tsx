@@ -0,0 +1,56 @@
+import React from "react";
+import { Buffer, isDirty } from "../editor/buffers";
+
+type EditorTabsProps = {
+  buffers: Buffer<unknown>[];
+  active: string | null;
+  onActivate: (name: string) => void;
+  onClose: (name: string) => void;
+};
+
+const EditorTabs: React.FC<EditorTabsProps> = ({
+  buffers,
+  active,
+  onActivate,
+  onClose,
+}) => (
+  <div
+    style={{
+      display: "flex",
+      flexWrap: "wrap",
+      gap: "4px",
+      marginTop: "20px",
+      borderBottom: "1px solid #646cff",
+    }}
+  >
+    {buffers.map((buffer) => (
+      <div
+        key={buffer.name}
+        title={buffer.name}
+        onClick={() => onActivate(buffer.name)}
+        style={{
+          padding: "4px 8px",
+          cursor: "pointer",
+          borderRadius: "4px 4px 0 0",
+          backgroundColor: buffer.name === active ? "#646cff" : "#333",
+          color: "#fff",
+        }}
+      >
+        {isDirty(buffer) && "● "}
+        {buffer.name.split("/").pop()}{" "}
+        <span
+          role="button"
+          aria-label={`Chiudi ${buffer.name}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onClose(buffer.name);
+          }}
+        >
+          ×
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default EditorTabs;
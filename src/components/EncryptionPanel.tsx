@@ -0,0 +1,266 @@
+import React, { useState } from "react";
+import Modal from "./Modal";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import {
+  EncryptedArea,
+  decryptArea,
+  encryptArea,
+  getKeyring,
+  loadAreas,
+  requireKey,
+  rotateKey,
+} from "../storage/encryption";
+import { resolveOPFSPath } from "../storage/opfs";
+import {
+  backendOfAddress,
+  parseAddress,
+  toTreePath,
+} from "../storage/paths";
+import { trackUpdated } from "../workers/appChanges";
+
+type EncryptionPanelProps = {
+  onChange: (message: string) => void;
+};
+
+type Prompt =
+  | { kind: "create" }
+  | { kind: "unlock"; area: EncryptedArea }
+  | { kind: "rotate"; area: EncryptedArea };
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+/**
+ * Aree cifrate: cartelle o bucket i cui file sono scritti con AES-GCM. Da
+ * qui si creano, si sbloccano con la passphrase e se ne ruota la chiave.
+ */
+const EncryptionPanel: React.FC<EncryptionPanelProps> = ({ onChange }) => {
+  const [areas, setAreas] = useState<EncryptedArea[]>(() => loadAreas());
+  const [prompt, setPrompt] = useState<Prompt | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { status, report } = useStatus();
+
+  const keyring = getKeyring();
+
+  // Le operazioni sulle aree finiscono nel registro come quelle
+  // dell'esploratore; `label` resta visibile mentre sono in corso
+  const run = async (
+    label: string,
+    operation: string,
+    path: string,
+    action: () => Promise<string | undefined>
+  ) => {
+    setBusy(label);
+    const target = { operation, path, backend: backendOfAddress(path) };
+    const message = await report(target, action);
+    if (message) onChange(message);
+    setBusy(null);
+    setAreas(loadAreas());
+  };
+
+  const confirm = (values: Record<string, string>) => {
+    const current = prompt;
+    setPrompt(null);
+    if (!current) return;
+    const passphrase = values.Passphrase ?? "";
+    if (!passphrase) return;
+
+    if (current.kind === "create") {
+      const input = (values.Percorso ?? "").trim();
+      if (!input) return;
+      run(`Cifratura di ${input}`, "Cifratura area", input, async () => {
+        const fullPath = toTreePath(parseAddress(input));
+        const { backend, path } = resolveOPFSPath(fullPath);
+        const { encrypted } = await encryptArea(backend, path, {
+          fullPath,
+          passphrase,
+        });
+        trackUpdated([fullPath]);
+        return `Area cifrata creata: ${fullPath} (${encrypted} file cifrati)`;
+      });
+    } else if (current.kind === "unlock") {
+      const { area } = current;
+      run(`Sblocco di ${area.path}`, "Sblocco area", area.path, async () => {
+        await keyring.unlock(area, passphrase);
+        return `Area sbloccata: ${area.path}`;
+      });
+    } else {
+      const { area } = current;
+      run(
+        `Rotazione della chiave di ${area.path}`,
+        "Rotazione chiave",
+        area.path,
+        async () => {
+          const { backend, path } = resolveOPFSPath(area.path);
+          const { rewritten } = await rotateKey(
+            backend,
+            path,
+            area,
+            passphrase
+          );
+          trackUpdated([area.path]);
+          return `Chiave ruotata per ${area.path} (${rewritten} file riscritti)`;
+        }
+      );
+    }
+  };
+
+  // File in chiaro dell'area, ad esempio creati vuoti dall'esploratore
+  const encryptPlain = (area: EncryptedArea) =>
+    run(`Cifratura di ${area.path}`, "Cifratura area", area.path, async () => {
+      const { backend, path } = resolveOPFSPath(area.path);
+      const { encrypted } = await encryptArea(backend, path, {
+        fullPath: area.path,
+        area,
+        key: requireKey(keyring, area),
+      });
+      trackUpdated([area.path]);
+      return `File cifrati in ${area.path}: ${encrypted}`;
+    });
+
+  const removeEncryption = (area: EncryptedArea) => {
+    if (!window.confirm(`Riportare in chiaro tutti i file di ${area.path}?`)) {
+      return;
+    }
+    run(
+      `Decifratura di ${area.path}`,
+      "Decifratura area",
+      area.path,
+      async () => {
+        const { backend, path } = resolveOPFSPath(area.path);
+        const decrypted = await decryptArea(backend, path, area);
+        trackUpdated([area.path]);
+        return `Cifratura rimossa da ${area.path} (${decrypted} file)`;
+      }
+    );
+  };
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Cifratura{" "}
+        <button onClick={() => setPrompt({ kind: "create" })} disabled={!!busy}>
+          Cifra cartella o bucket
+        </button>
+      </h2>
+      <p style={{ fontSize: "small" }}>
+        La passphrase non viene salvata: se la perdi, i file cifrati non sono
+        più leggibili. Le aree si bloccano alla chiusura della pagina.
+      </p>
+      {busy && <p>{busy}…</p>}
+      <StatusMessage status={status} />
+
+      {areas.length === 0 ? (
+        <p>Nessuna area cifrata</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {["Percorso", "Stato", "Versione chiave", ""].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {areas.map((area) => {
+              const unlocked = !!keyring.keyOf(area);
+              return (
+                <tr key={area.path}>
+                  <td style={cell}>{area.path}</td>
+                  <td
+                    style={{ ...cell, color: unlocked ? "#4caf50" : "#ff9800" }}
+                  >
+                    {unlocked ? "sbloccata" : "bloccata"}
+                  </td>
+                  <td style={cell}>
+                    {area.keyVersion}
+                    {area.pending &&
+                      ` (rotazione a ${area.pending.keyVersion} interrotta)`}
+                  </td>
+                  <td style={cell}>
+                    {unlocked ? (
+                      <>
+                        <button
+                          onClick={() =>
+                            run("", "Blocco area", area.path, async () => {
+                              keyring.lock(area);
+                              return `Area bloccata: ${area.path}`;
+                            })
+                          }
+                          disabled={!!busy}
+                        >
+                          Blocca
+                        </button>
+                        <button
+                          onClick={() => setPrompt({ kind: "rotate", area })}
+                          disabled={!!busy}
+                        >
+                          {area.pending ? "Riprendi rotazione" : "Ruota chiave"}
+                        </button>
+                        <button
+                          onClick={() => encryptPlain(area)}
+                          disabled={!!busy}
+                        >
+                          Cifra file in chiaro
+                        </button>
+                        <button
+                          onClick={() => removeEncryption(area)}
+                          disabled={!!busy}
+                        >
+                          Rimuovi cifratura
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setPrompt({ kind: "unlock", area })}
+                        disabled={!!busy}
+                      >
+                        Sblocca
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {prompt && (
+        <Modal
+          title={
+            prompt.kind === "create"
+              ? "Cifra una cartella o un bucket"
+              : prompt.kind === "unlock"
+                ? `Sblocca ${prompt.area.path}`
+                : prompt.area.pending
+                  ? `Riprendi la rotazione di ${prompt.area.path}`
+                  : `Nuova passphrase per ${prompt.area.path}`
+          }
+          placeholder=""
+          fields={[
+            ...(prompt.kind === "create"
+              ? [
+                  {
+                    name: "Percorso",
+                    type: "text" as const,
+                    placeholder: "Es. root/segreti o il nome di un bucket",
+                  },
+                ]
+              : []),
+            { name: "Passphrase", type: "password" },
+          ]}
+          onConfirm={confirm}
+          onCancel={() => setPrompt(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EncryptionPanel;
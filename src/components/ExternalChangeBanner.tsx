@@ -0,0 +1,36 @@
+import React from "react";
+import { ChangeEvent } from "../storage/watch";
+
+type ExternalChangeBannerProps = {
+  change: ChangeEvent;
+  onReload: () => void;
+  onDismiss: () => void;
+};
+
+const describe = (change: ChangeEvent) => {
+  if (change.type === "deleted") return "è stato eliminato";
+  if (change.type === "moved") return `è stato spostato in ${change.path}`;
+  return "è stato modificato";
+};
+
+const ExternalChangeBanner: React.FC<ExternalChangeBannerProps> = ({
+  change,
+  onReload,
+  onDismiss,
+}) => (
+  <div
+    style={{
+      marginTop: "10px",
+      padding: "8px",
+      border: "1px solid #ff9800",
+      color: "#ff9800",
+    }}
+  >
+    ⚠️ Il file aperto {describe(change)} fuori da questa scheda. Le modifiche
+    non salvate potrebbero sovrascriverlo.{" "}
+    {change.type === "modified" && <button onClick={onReload}>Ricarica</button>}
+    <button onClick={onDismiss}>Ignora</button>
+  </div>
+);
+
+export default ExternalChangeBanner;
@@ -1,253 +1,495 @@
-import React, { useState, useEffect } from "react";
-import Modal from "./Modal";
-import { openDB } from "idb";
-
-type FileSystemNode = {
-  name: string;
-  kind: "file" | "directory";
-  children?: FileSystemNode[];
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import Modal, { ModalValues } from "./Modal";
+import DirectoryTree from "./DirectoryTree";
+import FileViewer from "./FileViewer";
+import EditorTabs from "./EditorTabs";
+import { useOpenFiles } from "./useOpenFiles";
+import { isDirty } from "../editor/buffers";
+import TransferModal, { TransferMode } from "./TransferModal";
+import ProgressIndicator from "./ProgressIndicator";
+import SearchPanel from "./SearchPanel";
+import ExternalChangeBanner from "./ExternalChangeBanner";
+import { refreshForChanges, useWatcher } from "./useWatcher";
+import { useEditLock, useTabChannel } from "./useTabs";
+import EditLockBanner from "./EditLockBanner";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import SaveConflictBanner from "./SaveConflictBanner";
+import VersionHistory from "./VersionHistory";
+import WorkspacePanel from "./WorkspacePanel";
+import PermissionsPanel from "./PermissionsPanel";
+import SyncPanel from "./SyncPanel";
+import { useLazyTree } from "./useLazyTree";
+import { joinPath } from "../storage/backend";
+import {
+  WorkspaceRoot,
+  createRootBackend,
+  loadWorkspace,
+} from "../storage/workspace";
+import {
+  checkPermissions,
+  requestRootPermission,
+} from "../storage/permissions";
+import {
+  EDITABLE_TEXT_LIMIT,
+  readBlobRange,
+  sniffContent,
+} from "../storage/content";
+import { ConflictPolicy, transferEntry } from "../storage/transfer";
+import { downloadDirectoryAsZip, downloadFile } from "../storage/download";
+import { collectDroppedItems, uploadItems } from "../storage/upload";
+import { FileSystemNode, listNodes, parentPath } from "../storage/tree";
+import { ChangeEvent, affectsPath, sameVersion } from "../storage/watch";
+import { withWriteLock } from "../storage/tabs";
+import { loadRetention, pruneHistory, saveVersion } from "../storage/history";
+import { getOperationLog } from "../storage/operationLog";
+import { normalizePath } from "../storage/paths";
+
+// Nomi delle operazioni nel registro delle operazioni
+const TRANSFER_OPERATIONS: Record<TransferMode, string> = {
+  rename: "Rinomina",
+  move: "Spostamento",
+  copy: "Copia",
 };
 
-const FileSystemAccessAPI: React.FC = () => {
-  const [directoryHandle, setDirectoryHandle] =
-    useState<FileSystemDirectoryHandle | null>(null);
-  const [fileSystem, setFileSystem] = useState<FileSystemNode[]>([]);
-  const [selectedFile, setSelectedFile] = useState<FileSystemNode | null>(null);
-  const [fileContent, setFileContent] = useState<string>("");
-  const [message, setMessage] = useState<string | null>(null);
+type FileSystemAccessAPIProps = {
+  onDirtyChange?: (dirty: boolean) => void; // Modifiche non salvate nelle schede
+};
+
+const FileSystemAccessAPI: React.FC<FileSystemAccessAPIProps> = ({
+  onDirtyChange,
+}) => {
+  const [roots, setRoots] = useState<WorkspaceRoot[]>([]);
+  const [activeRoot, setActiveRoot] = useState<WorkspaceRoot | null>(null);
+  const files = useOpenFiles(onDirtyChange);
+  const selectedFile = files.selectedFile;
+  const [externalChange, setExternalChange] = useState<ChangeEvent | null>(
+    null
+  );
+  const selectedRef = useRef(selectedFile);
+  selectedRef.current = selectedFile;
+  const savingRef = useRef(false);
+  const [saveConflict, setSaveConflict] = useState(false);
+  const fileContent = files.text;
+  const { status, setMessage, showError } = useStatus();
+  const [transfer, setTransfer] = useState<{
+    mode: TransferMode;
+    source: string;
+  } | null>(null);
   const [modalOpen, setModalOpen] = useState<{
     action: "createFile" | "createFolder";
     title: string;
     placeholder: string;
   } | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPermissions, setShowPermissions] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [progress, setProgress] = useState<{
+    label: string;
+    loaded: number;
+    total: number;
+  } | null>(null);
 
-  const DB_NAME = "fileSystemDB";
-  const STORE_NAME = "handles";
+  const backend = useMemo(
+    () => (activeRoot ? createRootBackend(activeRoot) : null),
+    [activeRoot]
+  );
+  // La ricerca e i caricamenti servono solo per le radici che sono cartelle
+  const directoryHandle =
+    activeRoot?.handle.kind === "directory"
+      ? (activeRoot.handle as FileSystemDirectoryHandle)
+      : null;
+
+  const tree = useLazyTree({
+    loadChildren: async (path) => (backend ? listNodes(backend, "", path) : []),
+    onError: (error, path) => {
+      showError(
+        `Errore durante il caricamento di ${path}:`,
+        error,
+        backend?.id
+      );
+    },
+  });
+
+  // Registra l'operazione su `path` della radice aperta
+  const logged = <T,>(
+    operation: string,
+    path: string,
+    action: () => Promise<T>
+  ) =>
+    getOperationLog().run(
+      { operation, path, backend: backend?.id ?? "" },
+      action
+    );
+
+  // Con un'altra radice non valgono né la cache né le cartelle aperte
+  const { reset: resetTree, reload: reloadTree } = tree;
+  useEffect(() => {
+    resetTree();
+    reloadTree();
+  }, [backend, resetTree, reloadTree]);
+
+  // Modifiche fatte da altre schede o da programmi esterni nella cartella
+  const handleChanges = async (events: ChangeEvent[]) => {
+    refreshForChanges(tree, events);
+    const opened = selectedRef.current;
+    const change = opened && events.find((e) => affectsPath(e, opened.name));
+    if (!backend || !opened || !change || savingRef.current) return;
+    if (change.type === "modified") {
+      // Ignora le notifiche dei salvataggi fatti da questa scheda
+      if (sameVersion(await backend.read(opened.name), opened.file)) return;
+    }
+    setExternalChange(change);
+  };
+
+  const watchMode = useWatcher(
+    backend ? [{ prefix: "", backend }] : [],
+    handleChanges,
+    (error) => console.error("Errore durante l'osservazione:", error),
+    tree.loadedPaths
+  );
+  // Le schede che hanno scelto la stessa cartella condividono l'id del backend
+  const announce = useTabChannel(backend?.id ?? null, handleChanges);
+  const editLock = useEditLock(
+    backend && selectedFile?.content.kind === "text"
+      ? `${backend.id}:${selectedFile.name}`
+      : null,
+    () => selectedRef.current && openFile(selectedRef.current.name, true)
+  );
+
+  const reloadRoots = async () => {
+    const loaded = await loadWorkspace();
+    setRoots(loaded);
+    if (!activeRoot) return;
+    // Il nome della radice aperta può essere cambiato, o la radice dimenticata
+    const current = loaded.find((root) => root.id === activeRoot.id) ?? null;
+    if (!current) files.closeAll();
+    setActiveRoot(current);
+  };
 
   useEffect(() => {
-    const loadDirectoryHandle = async () => {
-      const db = await openDB(DB_NAME, 1, {
-        upgrade(db) {
-          if (!db.objectStoreNames.contains(STORE_NAME)) {
-            db.createObjectStore(STORE_NAME);
-          }
-        },
-      });
-
-      const storedHandle = await db.get(STORE_NAME, "directoryHandle");
-      if (storedHandle) {
-        try {
-          const permission = await storedHandle.queryPermission();
-          if (permission === "granted") {
-            setDirectoryHandle(storedHandle);
-            const contents = await fetchDirectoryContents(storedHandle);
-            setFileSystem(contents);
-          }
-        } catch (error) {
-          console.error("Errore nel recupero del handle:", error);
+    const restoreWorkspace = async () => {
+      const loaded = await loadWorkspace();
+      setRoots(loaded);
+      // Senza un gesto dell'utente si riapre solo una radice ancora leggibile
+      for (const root of loaded) {
+        if ((await checkPermissions(root)).read === "granted") {
+          setActiveRoot(root);
+          return;
         }
       }
     };
 
-    loadDirectoryHandle();
-  }, []);
+    restoreWorkspace().catch((error) =>
+      showError("Errore nel recupero dell'area di lavoro:", error)
+    );
+  }, [showError]);
 
-  const saveDirectoryHandle = async (handle: FileSystemDirectoryHandle) => {
-    const db = await openDB(DB_NAME, 1, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME);
-        }
-      },
-    });
-    await db.put(STORE_NAME, handle, "directoryHandle");
+  const rootsChanged = (message: string) => {
+    setMessage(message);
+    reloadRoots().catch((error) =>
+      showError("Errore nel recupero dell'area di lavoro:", error)
+    );
   };
 
-  const fetchDirectoryContents = async (
-    directoryHandle: FileSystemDirectoryHandle,
-    parentPath: string = ""
-  ): Promise<FileSystemNode[]> => {
-    const nodes: FileSystemNode[] = [];
-    for await (const [name, handle] of directoryHandle.entries()) {
-      const fullPath = parentPath ? `${parentPath}/${name}` : name;
-      if (handle.kind === "directory") {
-        nodes.push({
-          name: fullPath,
-          kind: "directory",
-          children: await fetchDirectoryContents(
-            handle as FileSystemDirectoryHandle,
-            fullPath
-          ),
-        });
-      } else {
-        nodes.push({ name: fullPath, kind: "file" });
-      }
-    }
-    return nodes;
-  };
-
-  const selectDirectory = async () => {
+  const openRoot = async (root: WorkspaceRoot) => {
+    if (!files.canDiscard("", "Cambiare radice")) return;
     try {
-      const handle = await window.showDirectoryPicker();
-      setDirectoryHandle(handle);
-      saveDirectoryHandle(handle);
-      const contents = await fetchDirectoryContents(handle);
-      setFileSystem(contents);
-      setMessage("Cartella caricata con successo!");
-    } catch (error: any) {
-      console.error("Errore nella selezione della cartella:", error);
-      setMessage(`Errore: ${error.message}`);
+      if ((await requestRootPermission(root, "read")).read !== "granted") {
+        throw new DOMException(
+          `Permesso di lettura negato: ${root.name}`,
+          "NotAllowedError"
+        );
+      }
+      // Le schede aperte appartengono alla radice precedente
+      files.closeAll();
+      setActiveRoot(root);
+      setMessage(`Radice aperta: ${root.name}`);
+    } catch (error) {
+      showError("Errore nell'apertura della radice:", error);
     }
   };
 
-  const handleAction = async (formValues: { [key: string]: any }) => {
-    if (!directoryHandle || !modalOpen) return;
+  const handleAction = async (formValues: ModalValues) => {
+    if (!backend || !modalOpen) return;
 
     try {
-      const modalInput = formValues["Percorso"]; // Recupera il valore del campo "Percorso" dal form
-      const pathParts = modalInput.split("/");
-      const name = pathParts.pop()!;
-      let currentHandle = directoryHandle;
-
-      // Naviga nella struttura delle directory, creando directory intermedie se necessario
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part, {
-          create: true,
-        });
-      }
+      // Percorso del campo "Percorso", validato prima di qualsiasi chiamata
+      // agli handle
+      const modalInput = normalizePath(formValues["Percorso"] ?? "");
 
-      // Crea file o cartella a seconda dell'azione selezionata
+      // Crea file o cartella a seconda dell'azione selezionata, creando
+      // directory intermedie se necessario
       if (modalOpen.action === "createFile") {
-        await currentHandle.getFileHandle(name, { create: true });
+        await logged("Creazione file", modalInput, () =>
+          backend.createFile(modalInput)
+        );
         setMessage(`File creato: ${modalInput}`);
+        announce([{ type: "created", path: modalInput, kind: "file" }]);
       } else if (modalOpen.action === "createFolder") {
-        await currentHandle.getDirectoryHandle(name, { create: true });
+        await logged("Creazione cartella", modalInput, () =>
+          backend.mkdir(modalInput)
+        );
         setMessage(`Cartella creata: ${modalInput}`);
+        announce([{ type: "created", path: modalInput, kind: "directory" }]);
       }
 
-      // Aggiorna il file system per riflettere i cambiamenti
-      const contents = await fetchDirectoryContents(directoryHandle);
-      setFileSystem(contents);
-    } catch (error: any) {
-      console.error("Errore durante l'azione:", error);
-      setMessage(`Errore: ${error.message}`);
+      // Aggiorna solo la cartella che contiene il nuovo elemento
+      tree.refresh(parentPath(modalInput));
+    } catch (error) {
+      showError("Errore durante l'azione:", error, backend.id);
     } finally {
       setModalOpen(null);
     }
   };
 
-  const openFile = async (filePath: string) => {
-    if (!directoryHandle) {
+  // Un file già aperto si mostra nella sua scheda; `reload` lo rilegge dal
+  // disco, scartando le modifiche solo dopo conferma
+  const openFile = async (filePath: string, reload = false) => {
+    if (!backend) {
       setMessage("Nessuna cartella selezionata.");
       return;
     }
+    if (files.isOpen(filePath) && !reload) {
+      files.activate(filePath);
+      return;
+    }
+    if (reload && !files.canDiscard(filePath, `Ricaricare ${filePath}`)) return;
 
     try {
-      const pathParts = filePath.split("/");
-      const fileName = pathParts.pop()!;
-      let currentHandle = directoryHandle;
-
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part);
-      }
+      const file = await logged("Apertura", filePath, () =>
+        backend.read(filePath)
+      );
+      const content = await sniffContent(file);
 
-      const fileHandle = await currentHandle.getFileHandle(fileName);
-      const file = await fileHandle.getFile();
-      const content = await file.text();
+      const editable =
+        content.kind === "text" && file.size <= EDITABLE_TEXT_LIMIT;
 
-      setSelectedFile({ name: filePath, kind: "file" });
-      setFileContent(content);
+      files.open(
+        { name: filePath, file, content },
+        editable ? await file.text() : ""
+      );
+      setExternalChange(null);
+      setSaveConflict(false);
       setMessage(`File aperto: ${filePath}`);
-    } catch (error: any) {
-      console.error("Errore nell'apertura del file:", error);
-      setMessage(`Errore: ${error.message}`);
+    } catch (error) {
+      showError("Errore nell'apertura del file:", error, backend.id);
     }
   };
 
-  const saveFile = async () => {
-    if (!selectedFile || selectedFile.kind !== "file" || !directoryHandle) {
+  const saveFile = async (overwrite = false, text = fileContent) => {
+    if (!selectedFile || !backend) {
       setMessage("Nessun file selezionato.");
       return;
     }
+    if (selectedFile.content.kind !== "text") {
+      setMessage(`File binario in sola lettura: ${selectedFile.name}`);
+      return;
+    }
 
+    savingRef.current = true;
     try {
-      const pathParts = selectedFile.name.split("/");
-      const fileName = pathParts.pop()!;
-      let currentHandle = directoryHandle;
-
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part);
+      const name = selectedFile.name;
+      const write = () =>
+        withWriteLock(`${backend.id}:${name}`, async () => {
+          // Un'altra scheda ha salvato dopo l'apertura: si chiede prima
+          const current = await backend.read(name);
+          if (!overwrite && !sameVersion(current, selectedFile.file)) {
+            return null;
+          }
+          await saveVersion(`${backend.id}:${name}`, current);
+          await backend.write(name, text);
+          return backend.read(name);
+        });
+      const file = await logged("Salvataggio", name, write);
+      if (!file) {
+        setSaveConflict(true);
+        setMessage(`Conflitto di salvataggio: ${name}`);
+        return;
       }
 
-      const fileHandle = await currentHandle.getFileHandle(fileName);
-      const writable = await fileHandle.createWritable();
-      await writable.write(fileContent);
-      await writable.close();
-      setMessage(`File salvato: ${selectedFile.name}`);
-    } catch (error: any) {
-      console.error("Errore nel salvataggio del file:", error);
-      setMessage(`Errore: ${error.message}`);
+      files.markSaved({ ...selectedFile, file }, text);
+      setExternalChange(null);
+      setSaveConflict(false);
+      setMessage(`File salvato: ${name}`);
+      announce([{ type: "modified", path: name, kind: "file" }]);
+      pruneHistory(loadRetention()).catch((error) =>
+        console.error("Errore durante la pulizia della cronologia:", error)
+      );
+    } catch (error) {
+      showError("Errore nel salvataggio del file:", error, backend.id);
+    } finally {
+      savingRef.current = false;
     }
   };
 
+  const restoreVersion = async (version: File) => {
+    const text = await version.text();
+    files.edit(text);
+    await saveFile(true, text);
+  };
+
   const deleteEntry = async (path: string, kind: "file" | "directory") => {
-    if (!directoryHandle) {
+    if (!backend) {
       setMessage("Nessuna cartella selezionata.");
       return;
     }
 
     try {
-      const pathParts = path.split("/");
-      const entryName = pathParts.pop()!;
-      let currentHandle = directoryHandle;
+      await logged("Eliminazione", path, () =>
+        backend.remove(path, { recursive: kind === "directory" })
+      );
+      files.closeUnder(path);
+      announce([{ type: "deleted", path, kind }]);
 
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part);
-      }
+      tree.refresh(parentPath(path));
+      setMessage(
+        `${kind === "directory" ? "Cartella" : "File"} eliminato: ${path}`
+      );
+    } catch (error) {
+      showError(`Errore durante l'eliminazione di ${kind}:`, error, backend.id);
+    }
+  };
 
-      await currentHandle.removeEntry(entryName, {
-        recursive: kind === "directory",
-      });
+  const transferNode = async (
+    mode: TransferMode,
+    source: string,
+    destination: string,
+    conflict: ConflictPolicy
+  ) => {
+    if (!backend) return;
+
+    try {
+      // La destinazione si valida prima di qualsiasi chiamata agli handle
+      const target = normalizePath(destination);
+      const result = await logged(TRANSFER_OPERATIONS[mode], source, () =>
+        transferEntry(
+          { backend, path: source },
+          { backend, path: target },
+          { mode: mode === "copy" ? "copy" : "move", conflict }
+        )
+      );
 
-      const contents = await fetchDirectoryContents(directoryHandle);
-      setFileSystem(contents);
+      if (result.status === "skipped") {
+        setMessage(
+          `Destinazione già esistente, operazione saltata: ${result.path}`
+        );
+        return;
+      }
       setMessage(
-        `${kind === "directory" ? "Cartella" : "File"} eliminato: ${path}`
+        `${mode === "copy" ? "Copiato" : "Spostato"}: ${source} → ${result.path}`
+      );
+      if (mode !== "copy") {
+        files.closeUnder(source);
+        tree.refresh(parentPath(source));
+      }
+      tree.refresh(parentPath(result.path));
+      announce([
+        mode === "copy"
+          ? { type: "created", path: result.path }
+          : { type: "moved", path: result.path, oldPath: source },
+      ]);
+    } catch (error) {
+      showError("Errore durante lo spostamento o la copia:", error, backend.id);
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const uploadDropped = async (path: string, entries: FileSystemEntry[]) => {
+    if (!backend) {
+      setMessage("Nessuna cartella selezionata.");
+      return;
+    }
+
+    const label = `Caricamento in ${path || directoryHandle?.name}`;
+    try {
+      const items = await collectDroppedItems(entries);
+      setProgress({ label, loaded: 0, total: 0 });
+      await logged("Caricamento", path, () =>
+        uploadItems(backend, path, items, (loaded, total) =>
+          setProgress({ label, loaded, total })
+        )
       );
-    } catch (error: any) {
-      console.error(`Errore durante l'eliminazione di ${kind}:`, error);
-      setMessage(`Errore: ${error.message}`);
+      setMessage(`Caricati ${items.length} elementi`);
+      tree.refresh(path);
+      announce(
+        items.map((item) => ({
+          type: "created",
+          path: joinPath(path, item.path),
+          kind: item.file ? "file" : "directory",
+        }))
+      );
+    } catch (error) {
+      showError("Errore durante il caricamento:", error, backend.id);
+    } finally {
+      setProgress(null);
     }
   };
 
-  const renderTree = (nodes: FileSystemNode[]) => {
-    return nodes.map((node) => (
-      <li key={node.name}>
-        {node.kind === "directory" ? (
-          <>
-            📁 {node.name.split("/").pop()}{" "}
-            <button onClick={() => deleteEntry(node.name, "directory")}>
-              Elimina
-            </button>
-            <ul>{node.children && renderTree(node.children)}</ul>
-          </>
-        ) : (
-          <>
-            📄 {node.name.split("/").pop()}{" "}
-            <button onClick={() => openFile(node.name)}>Apri</button>
-            <button onClick={() => deleteEntry(node.name, "file")}>
-              Elimina
-            </button>
-          </>
-        )}
-      </li>
-    ));
+  const downloadNode = async (node: FileSystemNode) => {
+    if (!backend) return;
+
+    try {
+      if (node.kind === "file") {
+        await logged("Download", node.name, () =>
+          downloadFile(backend, node.name)
+        );
+      } else {
+        setMessage(`Creazione dello ZIP di ${node.name}…`);
+        await logged("Download ZIP", node.name, () =>
+          downloadDirectoryAsZip(
+            backend,
+            node.name,
+            node.name.split("/").pop() ?? node.name
+          )
+        );
+        setMessage(`ZIP creato: ${node.name}`);
+      }
+    } catch (error) {
+      showError("Errore durante il download:", error, backend.id);
+    }
   };
 
+  const renderActions = (node: FileSystemNode) => (
+    <>
+      {node.kind === "file" && (
+        <button onClick={() => openFile(node.name)}>Apri</button>
+      )}
+      <button onClick={() => downloadNode(node)}>
+        {node.kind === "file" ? "Scarica" : "Scarica ZIP"}
+      </button>
+      <button
+        onClick={() => setTransfer({ mode: "rename", source: node.name })}
+      >
+        Rinomina
+      </button>
+      <button onClick={() => setTransfer({ mode: "move", source: node.name })}>
+        Sposta
+      </button>
+      <button onClick={() => setTransfer({ mode: "copy", source: node.name })}>
+        Copia
+      </button>
+      <button
+        onClick={() =>
+          deleteEntry(node.name, node.kind === "file" ? "file" : "directory")
+        }
+      >
+        Elimina
+      </button>
+    </>
+  );
+
   return (
     <div style={{ padding: "20px" }}>
       <h1>File System Access API</h1>
-      <button onClick={selectDirectory}>Seleziona cartella</button>
+      <WorkspacePanel
+        roots={roots}
+        active={activeRoot?.id ?? null}
+        onOpen={openRoot}
+        onChange={rootsChanged}
+      />
       <button
         onClick={() =>
           setModalOpen({
@@ -272,54 +514,123 @@ const FileSystemAccessAPI: React.FC = () => {
       >
         Crea File
       </button>
+      <button
+        onClick={() => setShowSearch((show) => !show)}
+        disabled={!directoryHandle}
+      >
+        Cerca
+      </button>
+      <button
+        onClick={() => setShowSync((show) => !show)}
+        disabled={!directoryHandle}
+      >
+        Sincronizza
+      </button>
+      <button onClick={() => setShowPermissions((show) => !show)}>
+        Permessi
+      </button>
 
-      {message && (
-        <p style={{ marginTop: "10px", color: "#4caf50" }}>{message}</p>
+      <StatusMessage status={status} />
+      {watchMode && (
+        <p style={{ fontSize: "small" }}>
+          Aggiornamento automatico:{" "}
+          {watchMode === "observer" ? "FileSystemObserver" : "polling"}
+        </p>
+      )}
+      {progress && <ProgressIndicator {...progress} />}
+
+      {showSync && backend && directoryHandle && (
+        <SyncPanel
+          key={backend.id}
+          local={backend}
+          onDone={(message) => {
+            setMessage(message);
+            tree.reload();
+          }}
+        />
       )}
 
-      <ul style={{ listStyleType: "none", marginTop: "20px" }}>
-        {renderTree(fileSystem)}
-      </ul>
+      {showPermissions && (
+        <PermissionsPanel roots={roots} onChange={rootsChanged} />
+      )}
 
-      {selectedFile && selectedFile.kind === "file" && (
-        <div
-          style={{
-            marginTop: "20px",
-            borderTop: "1px solid #ddd",
-            paddingTop: "20px",
+      {showSearch && directoryHandle && (
+        <SearchPanel
+          scope={{ opfs: false, directory: directoryHandle }}
+          indexable={false}
+          onOpen={openFile}
+        />
+      )}
+
+      <DirectoryTree
+        rows={tree.rows}
+        loading={tree.loading}
+        onToggle={tree.toggle}
+        renderActions={renderActions}
+        onDrop={uploadDropped}
+      />
+
+      {files.buffers.length > 0 && (
+        <EditorTabs
+          buffers={files.buffers}
+          active={selectedFile?.name ?? null}
+          onActivate={(name) => {
+            // Avvisi e conflitti riguardano solo la scheda che li ha generati
+            files.activate(name);
+            setExternalChange(null);
+            setSaveConflict(false);
           }}
-        >
-          <h2>Modifica file: {selectedFile.name}</h2>
-          <textarea
-            value={fileContent}
-            onChange={(e) => setFileContent(e.target.value)}
-            style={{
-              width: "100%",
-              height: "200px",
-              marginBottom: "10px",
-              padding: "10px",
-              fontFamily: "monospace",
-              fontSize: "14px",
-              backgroundColor: "#1a1a1a",
-              color: "#fff",
-              border: "1px solid #646cff",
-              borderRadius: "4px",
-            }}
-          />
-          <button
-            onClick={saveFile}
-            style={{
-              padding: "10px 20px",
-              backgroundColor: "#4caf50",
-              color: "white",
-              border: "none",
-              borderRadius: "5px",
-              cursor: "pointer",
-            }}
-          >
-            Salva
-          </button>
-        </div>
+          onClose={files.close}
+        />
+      )}
+
+      {selectedFile && externalChange && (
+        <ExternalChangeBanner
+          change={externalChange}
+          onReload={() => openFile(selectedFile.name, true)}
+          onDismiss={() => setExternalChange(null)}
+        />
+      )}
+      {selectedFile && editLock.locked && (
+        <EditLockBanner
+          waiting={editLock.state === "waiting"}
+          onWait={editLock.wait}
+        />
+      )}
+      {selectedFile && saveConflict && (
+        <SaveConflictBanner
+          onOverwrite={() => saveFile(true)}
+          onReload={() => openFile(selectedFile.name, true)}
+          onCancel={() => setSaveConflict(false)}
+        />
+      )}
+      {selectedFile && (
+        <FileViewer
+          key={selectedFile.name}
+          name={selectedFile.name}
+          file={selectedFile.file}
+          content={selectedFile.content}
+          text={fileContent}
+          onTextChange={files.edit}
+          dirty={!!files.active && isDirty(files.active)}
+          onSave={() => saveFile()}
+          locked={editLock.locked}
+          readRange={(offset, length) =>
+            readBlobRange(selectedFile.file, offset, length)
+          }
+        />
+      )}
+      {selectedFile?.content.kind === "text" && (
+        <button onClick={() => setShowHistory((show) => !show)}>
+          Versioni
+        </button>
+      )}
+      {showHistory && backend && selectedFile?.content.kind === "text" && (
+        <VersionHistory
+          historyKey={`${backend.id}:${selectedFile.name}`}
+          current={selectedFile.file}
+          onRestore={editLock.locked ? undefined : restoreVersion}
+        />
       )}
 
       {modalOpen && (
@@ -339,6 +650,18 @@ const FileSystemAccessAPI: React.FC = () => {
           }}
         />
       )}
+
+      {transfer && (
+        <TransferModal
+          mode={transfer.mode}
+          source={transfer.source}
+          destinationPlaceholder="Percorso nella cartella (es. cartella/nome)"
+          onConfirm={(destination, conflict) =>
+            transferNode(transfer.mode, transfer.source, destination, conflict)
+          }
+          onCancel={() => setTransfer(null)}
+        />
+      )}
     </div>
   );
 };
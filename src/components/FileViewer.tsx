@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from "react";
+import CodeEditor from "./CodeEditor";
+import { ContentInfo, EDITABLE_TEXT_LIMIT, hexDump } from "../storage/content";
+
+export type OpenedFile = {
+  name: string; // Percorso completo nell'albero
+  file: File;
+  content: ContentInfo;
+};
+
+type FileViewerProps = {
+  name: string;
+  file: Blob;
+  content: ContentInfo;
+  text: string; // Solo per i file di testo
+  onTextChange: (text: string) => void;
+  onSave: () => void;
+  locked?: boolean; // In modifica in un'altra scheda: testo in sola lettura
+  dirty?: boolean; // Modifiche non ancora salvate
+  // Legge un intervallo di byte: dal worker per OPFS, da Blob.slice altrove
+  readRange: (offset: number, length: number) => Promise<Uint8Array>;
+};
+
+const PAGE_SIZE = 64 * 1024;
+
+type PagedViewProps = {
+  size: number;
+  mode: "hex" | "text";
+  readRange: (offset: number, length: number) => Promise<Uint8Array>;
+};
+
+// Mostra il file una pagina alla volta, senza mai caricarlo tutto in memoria
+const PagedView: React.FC<PagedViewProps> = ({ size, mode, readRange }) => {
+  const [page, setPage] = useState(0);
+  const [content, setContent] = useState("");
+  const reader = useRef(readRange);
+  reader.current = readRange;
+
+  const pageCount = Math.max(1, Math.ceil(size / PAGE_SIZE));
+
+  useEffect(() => {
+    let cancelled = false;
+    const offset = page * PAGE_SIZE;
+    reader.current(offset, PAGE_SIZE).then((bytes) => {
+      if (cancelled) return;
+      setContent(
+        mode === "hex"
+          ? hexDump(bytes, offset).join("\n")
+          : new TextDecoder().decode(bytes)
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [page, mode]);
+
+  return (
+    <>
+      <pre
+        style={{
+          maxHeight: "400px",
+          overflow: "auto",
+          padding: "10px",
+          fontSize: "13px",
+          textAlign: "left",
+          whiteSpace: mode === "text" ? "pre-wrap" : "pre",
+          backgroundColor: "#1a1a1a",
+          color: "#fff",
+          border: "1px solid #646cff",
+          borderRadius: "4px",
+        }}
+      >
+        {content}
+      </pre>
+      {pageCount > 1 && (
+        <div>
+          <button
+            disabled={page === 0}
+            onClick={() => setPage((prev) => prev - 1)}
+          >
+            ◀ Precedente
+          </button>{" "}
+          Pagina {page + 1} di {pageCount}{" "}
+          <button
+            disabled={page >= pageCount - 1}
+            onClick={() => setPage((prev) => prev + 1)}
+          >
+            Successiva ▶
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+const MediaPreview: React.FC<{ file: Blob; content: ContentInfo }> = ({
+  file,
+  content,
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Il Blob da OPFS non ha type: lo impostiamo per il player del browser
+    const objectUrl = URL.createObjectURL(
+      new Blob([file], { type: content.mime })
+    );
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file, content.mime]);
+
+  if (!url) return null;
+  if (content.kind === "image") {
+    return <img src={url} style={{ maxWidth: "100%", maxHeight: "400px" }} />;
+  }
+  if (content.kind === "audio") return <audio src={url} controls />;
+  return <video src={url} controls style={{ maxWidth: "100%" }} />;
+};
+
+const FileViewer: React.FC<FileViewerProps> = ({
+  name,
+  file,
+  content,
+  text,
+  onTextChange,
+  onSave,
+  locked = false,
+  dirty = false,
+  readRange,
+}) => {
+  const [showHex, setShowHex] = useState(false);
+  const isText = content.kind === "text";
+  const editable = isText && file.size <= EDITABLE_TEXT_LIMIT;
+
+  return (
+    <div
+      style={{
+        marginTop: "20px",
+        borderTop: "1px solid #ddd",
+        paddingTop: "20px",
+      }}
+    >
+      <h2>
+        {editable ? "Modifica file" : "Anteprima file"}: {name}
+        {dirty && " ●"}
+      </h2>
+      <p>
+        {content.mime} · {file.size} byte
+        {(!editable || locked) && " · sola lettura"}
+        {isText && !editable && " · troppo grande per l'editor"}
+      </p>
+
+      {editable ? (
+        <>
+          <CodeEditor
+            name={name}
+            value={text}
+            readOnly={locked}
+            onChange={onTextChange}
+            onSave={onSave}
+          />
+          <button
+            onClick={onSave}
+            disabled={locked || !dirty}
+            style={{
+              padding: "10px 20px",
+              backgroundColor: "#4caf50",
+              color: "white",
+              border: "none",
+              borderRadius: "5px",
+              cursor: "pointer",
+            }}
+          >
+            Salva
+          </button>
+        </>
+      ) : isText ? (
+        <PagedView size={file.size} mode="text" readRange={readRange} />
+      ) : (
+        <>
+          {content.kind !== "binary" && (
+            <button
+              onClick={() => setShowHex((prev) => !prev)}
+              style={{ marginBottom: "10px" }}
+            >
+              {showHex ? "Mostra anteprima" : "Mostra hex"}
+            </button>
+          )}
+          {content.kind === "binary" || showHex ? (
+            <PagedView size={file.size} mode="hex" readRange={readRange} />
+          ) : (
+            <MediaPreview file={file} content={content} />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FileViewer;
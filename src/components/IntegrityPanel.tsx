@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { joinPath } from "../storage/backend";
+import { DuplicateGroup, VerifyReport } from "../storage/integrity";
+import { formatBytes } from "../storage/usage";
+import { IntegrityTask, getIntegrityClient } from "../workers/integrityClient";
+import { IntegrityProgress } from "../workers/integrityProtocol";
+
+type IntegrityPanelProps = {
+  onOpen: (path: string) => void; // Percorso completo dell'albero
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const PathLink: React.FC<{ path: string; onOpen: (path: string) => void }> = ({
+  path,
+  onOpen,
+}) => (
+  <>
+    {path} <button onClick={() => onOpen(path)}>Apri</button>
+  </>
+);
+
+/**
+ * Impronte SHA-256 della radice OPFS e dei bucket: crea i manifest, li
+ * verifica e cerca i file duplicati. I calcoli avvengono in un worker.
+ */
+const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ onOpen }) => {
+  const [progress, setProgress] = useState<IntegrityProgress | null>(null);
+  const { status, setMessage, clear, report } = useStatus();
+  const [reports, setReports] = useState<VerifyReport[] | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateGroup[] | null>(null);
+  const running = useRef<IntegrityTask<unknown> | null>(null);
+
+  // Le operazioni riguardano tutte le radici: nel registro non hanno un
+  // percorso né un backend
+  const run = async <T,>(
+    operation: string,
+    start: (
+      onProgress: (progress: IntegrityProgress) => void
+    ) => IntegrityTask<T>,
+    onDone: (result: T) => void
+  ) => {
+    const task = start(setProgress);
+    running.current = task;
+    setProgress({ files: 0, bytes: 0 });
+    clear();
+    await report({ operation, path: "", backend: "" }, async () => {
+      try {
+        onDone(await task.done);
+      } catch (error) {
+        if ((error as DOMException).name !== "AbortError") throw error;
+        setMessage("Operazione annullata");
+      }
+    });
+    running.current = null;
+    setProgress(null);
+  };
+
+  const client = getIntegrityClient();
+
+  const build = () =>
+    run(
+      "Creazione manifest",
+      (onProgress) => client.buildManifests(undefined, onProgress),
+      (manifests) =>
+        setMessage(
+          `Manifest creati: ${manifests
+            .map(({ root, files }) => `${root} (${files} file)`)
+            .join(", ")}`
+        )
+    );
+
+  const verify = () =>
+    run(
+      "Verifica integrità",
+      (onProgress) => client.verify(undefined, onProgress),
+      setReports
+    );
+
+  const findDuplicates = () =>
+    run(
+      "Ricerca duplicati",
+      (onProgress) => client.findDuplicates(onProgress),
+      setDuplicates
+    );
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>Integrità</h2>
+      <button onClick={build} disabled={!!progress}>
+        Crea manifest
+      </button>
+      <button onClick={verify} disabled={!!progress}>
+        Verifica
+      </button>
+      <button onClick={findDuplicates} disabled={!!progress}>
+        Trova duplicati
+      </button>
+      {progress && (
+        <>
+          {" "}
+          {progress.files} file, {formatBytes(progress.bytes)} letti{" "}
+          <button onClick={() => running.current?.cancel()}>Annulla</button>
+        </>
+      )}
+      <StatusMessage status={status} />
+
+      {reports && (
+        <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+          <thead>
+            <tr>
+              {["Radice", "Manifest del", "Controllati", "Esito"].map(
+                (title) => (
+                  <th key={title} style={cell}>
+                    {title}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map((report) => {
+              const problems = report.mismatched.length + report.missing.length;
+              return (
+                <tr key={report.root}>
+                  <td style={cell}>{report.root}</td>
+                  <td style={cell}>
+                    {report.manifestCreatedAt === null
+                      ? "Nessun manifest"
+                      : new Date(report.manifestCreatedAt).toLocaleString()}
+                  </td>
+                  <td style={cell}>{report.checked}</td>
+                  <td style={cell}>
+                    {report.manifestCreatedAt !== null && problems === 0 && (
+                      <span style={{ color: "#4caf50" }}>Integro</span>
+                    )}
+                    {report.mismatched.map(({ path, expected, actual }) => (
+                      <div key={path} style={{ color: "#f44336" }}>
+                        Diverso:{" "}
+                        <PathLink
+                          path={joinPath(report.root, path)}
+                          onOpen={onOpen}
+                        />{" "}
+                        ({formatBytes(expected.size)} →{" "}
+                        {formatBytes(actual.size)})
+                      </div>
+                    ))}
+                    {report.missing.map((path) => (
+                      <div key={path} style={{ color: "#f44336" }}>
+                        Mancante: {path}
+                      </div>
+                    ))}
+                    {report.added.length > 0 && (
+                      <div>Non nel manifest: {report.added.length} file</div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {duplicates &&
+        (duplicates.length === 0 ? (
+          <p>Nessun file duplicato</p>
+        ) : (
+          <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+            <thead>
+              <tr>
+                {["Dimensione", "Copie", "File"].map((title) => (
+                  <th key={title} style={cell}>
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {duplicates.map((group) => (
+                <tr key={group.hash}>
+                  <td style={cell} title={group.hash}>
+                    {formatBytes(group.size)}
+                  </td>
+                  <td style={cell}>{group.paths.length}</td>
+                  <td style={cell}>
+                    {group.paths.map((path) => (
+                      <div key={path}>
+                        <PathLink path={path} onOpen={onOpen} />
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+    </div>
+  );
+};
+
+export default IntegrityPanel;
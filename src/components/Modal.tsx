@@ -1,15 +1,19 @@
 import React, { useState } from "react";
 
+export type ModalField = {
+  name: string;
+  type: "text" | "number" | "password" | "select";
+  placeholder?: string;
+  options?: string[]; // Only for select type
+};
+
+export type ModalValues = { [key: string]: string };
+
 type ModalProps = {
   title: string;
   placeholder: string;
-  fields: {
-    name: string;
-    type: "text" | "number" | "select";
-    placeholder?: string;
-    options?: string[]; // Only for select type
-  }[];
-  onConfirm: (input: { [key: string]: any }) => void;
+  fields: ModalField[];
+  onConfirm: (input: ModalValues) => void;
   onCancel: () => void;
 };
 
@@ -19,9 +23,9 @@ const Modal: React.FC<ModalProps> = ({
   onConfirm,
   onCancel,
 }) => {
-  const [formValues, setFormValues] = useState<{ [key: string]: any }>({});
+  const [formValues, setFormValues] = useState<ModalValues>({});
 
-  const handleChange = (field: string, value: any) => {
+  const handleChange = (field: string, value: string) => {
     setFormValues((prev) => ({ ...prev, [field]: value }));
   };
 
@@ -1,306 +1,802 @@
-import React, { useState, useEffect } from "react";
-import Modal from "./Modal";
+import React, { useState, useEffect, useRef } from "react";
+import Modal, { ModalField } from "./Modal";
+import DirectoryTree from "./DirectoryTree";
+import FileViewer, { OpenedFile } from "./FileViewer";
+import EditorTabs from "./EditorTabs";
+import { useOpenFiles } from "./useOpenFiles";
+import { isDirty } from "../editor/buffers";
+import TransferModal, { TransferMode } from "./TransferModal";
+import ProgressIndicator from "./ProgressIndicator";
+import RestorePreview from "./RestorePreview";
+import StorageDashboard from "./StorageDashboard";
+import ConsolePanel from "./ConsolePanel";
+import DatabaseBrowser from "./DatabaseBrowser";
+import DatabasePanel from "./DatabasePanel";
+import EncryptionPanel from "./EncryptionPanel";
+import IntegrityPanel from "./IntegrityPanel";
+import BucketPanel from "./BucketPanel";
+import SearchPanel from "./SearchPanel";
+import ExternalChangeBanner from "./ExternalChangeBanner";
+import { refreshForChanges, useWatcher } from "./useWatcher";
+import { useEditLock, useTabChannel } from "./useTabs";
+import EditLockBanner from "./EditLockBanner";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import SaveConflictBanner from "./SaveConflictBanner";
+import VersionHistory from "./VersionHistory";
+import { useLazyTree } from "./useLazyTree";
+import { joinPath, splitPath } from "../storage/backend";
+import {
+  OPFS_ROOT,
+  createBucketBackend,
+  createOPFSRootBackend,
+  getOPFSBackend,
+  resolveOPFSPath,
+} from "../storage/opfs";
+import { EDITABLE_TEXT_LIMIT, sniffContent } from "../storage/content";
+import { ConflictPolicy, transferEntry } from "../storage/transfer";
+import {
+  downloadDirectoryAsZip,
+  downloadFile,
+  saveStream,
+} from "../storage/download";
+import {
+  OPFSBackup,
+  RestorePlan,
+  createBackupStream,
+  planRestore,
+  readBackup,
+  restoreBackup,
+} from "../storage/backup";
+import { collectDroppedItems, uploadItems } from "../storage/upload";
+import {
+  createBucket,
+  deleteBucket,
+  rememberBuckets,
+} from "../storage/buckets";
+import { FileSystemNode, listNodes, parentPath } from "../storage/tree";
+import { getFileAccessClient, toFileTarget } from "../workers/fileAccessClient";
+import { trackRemoved, trackUpdated } from "../workers/appChanges";
+import { ChangeEvent, affectsPath, sameVersion } from "../storage/watch";
+import {
+  areaOf,
+  decodeForPath,
+  encodeFileForPath,
+  encodeForPath,
+  loadAreas,
+  requireSameArea,
+} from "../storage/encryption";
+import { SQLITE_MIME } from "../storage/sqlite";
+import {
+  ExplorerFile,
+  ExplorerOperations,
+  createExplorerApi,
+  installExplorerApi,
+} from "../storage/explorerApi";
+import { withWriteLock } from "../storage/tabs";
+import { bucketUnavailable } from "../storage/errors";
+import {
+  normalizePath,
+  parseAddress,
+  parseEntryAddress,
+  toTreePath,
+  validateBucketName,
+} from "../storage/paths";
+import { OperationTarget, getOperationLog } from "../storage/operationLog";
+import {
+  loadRetention,
+  opfsKey,
+  pruneHistory,
+  saveVersion,
+  visibleBuckets,
+} from "../storage/history";
 
-type FileSystemNode = {
-  name: string;
-  kind: "file" | "directory" | "bucket";
-  children?: FileSystemNode[]; // Only for directories or buckets
-};
+// Id del backend di un percorso dell'albero, per gli errori e il registro
+const backendOf = (fullPath: string) => resolveOPFSPath(fullPath).backend.id;
+
+// Registra l'operazione sul percorso indicato nel registro delle operazioni
+const logged = <T,>(
+  operation: string,
+  fullPath: string,
+  action: () => Promise<T>,
+  backend: OperationTarget["backend"] = backendOf(fullPath)
+) => getOperationLog().run({ operation, path: fullPath, backend }, action);
+
+// Solo i file di testo non troppo grandi si aprono nell'editor
+const isEditable = ({ file, content }: OpenedFile) =>
+  content.kind === "text" && file.size <= EDITABLE_TEXT_LIMIT;
+
+const explorerFile = (opened: OpenedFile, text: string): ExplorerFile => ({
+  path: opened.name,
+  kind: opened.content.kind,
+  mime: opened.content.mime,
+  size: opened.file.size,
+  lastModified: opened.file.lastModified,
+  text: isEditable(opened) ? text : null,
+});
 
 type BucketOptions = {
   bucketName?: string;
   durability?: "strict" | "relaxed";
+  persisted?: boolean;
   quota?: number;
   expires?: number;
 };
 
-const OPFSFileSystem: React.FC = () => {
-  const [fileSystem, setFileSystem] = useState<FileSystemNode[]>([]);
-  const [selectedFile, setSelectedFile] = useState<FileSystemNode | null>(null);
-  const [fileContent, setFileContent] = useState<string>("");
-  const [message, setMessage] = useState<string | null>(null);
-  const [modalFields, setModalFields] = useState<any[]>([]);
+// Nomi delle operazioni nel registro delle operazioni
+const TRANSFER_OPERATIONS: Record<TransferMode, string> = {
+  rename: "Rinomina",
+  move: "Spostamento",
+  copy: "Copia",
+};
+
+// I backup comprendono la radice OPFS e tutti i bucket
+const BACKUP_BACKEND = "opfs";
+
+const DURABILITY_OPTIONS = ["strict", "relaxed"];
+const PERSISTED_OPTIONS: Record<string, boolean> = { Sì: true, No: false };
+
+type OPFSFileSystemProps = {
+  onDirtyChange?: (dirty: boolean) => void; // Modifiche non salvate nelle schede
+};
+
+const OPFSFileSystem: React.FC<OPFSFileSystemProps> = ({ onDirtyChange }) => {
+  const files = useOpenFiles(onDirtyChange);
+  const selectedFile = files.selectedFile;
+  const [externalChange, setExternalChange] = useState<ChangeEvent | null>(
+    null
+  );
+  const selectedRef = useRef(selectedFile);
+  selectedRef.current = selectedFile;
+  const savingRef = useRef(false);
+  const [saveConflict, setSaveConflict] = useState(false);
+  const fileContent = files.text;
+  const { status, setMessage, showError } = useStatus();
+  const [modalFields, setModalFields] = useState<ModalField[]>([]);
   const [modalOpen, setModalOpen] = useState<{
     action: "createFile" | "createFolder";
     title: string;
   } | null>(null);
   const [bucketModalOpen, setBucketModalOpen] = useState(false);
   const [buckets, setBuckets] = useState<string[]>([]);
+  const [transfer, setTransfer] = useState<{
+    mode: TransferMode;
+    source: string;
+  } | null>(null);
+  const [progress, setProgress] = useState<{
+    label: string;
+    loaded: number;
+    total: number;
+  } | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showBuckets, setShowBuckets] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showIntegrity, setShowIntegrity] = useState(false);
+  const [showEncryption, setShowEncryption] = useState(false);
+  const [showDatabases, setShowDatabases] = useState(false);
+  const [showConsole, setShowConsole] = useState(false);
+  const [restore, setRestore] = useState<{
+    backup: OPFSBackup;
+    plan: RestorePlan;
+  } | null>(null);
 
-  const fetchDirectoryContents = async (
-    directoryHandle: FileSystemDirectoryHandle,
-    parentPath: string = ""
-  ): Promise<FileSystemNode[]> => {
-    const nodes: FileSystemNode[] = [];
-    for await (const [name, handle] of directoryHandle.entries()) {
-      const fullPath = parentPath ? `${parentPath}/${name}` : name;
-      if (handle.kind === "directory") {
-        nodes.push({
-          name: fullPath,
-          kind: "directory",
-          children: await fetchDirectoryContents(
-            handle as FileSystemDirectoryHandle,
-            fullPath
-          ),
-        });
-      } else {
-        nodes.push({ name: fullPath, kind: "file" });
-      }
+  const loadChildren = async (fullPath: string): Promise<FileSystemNode[]> => {
+    if (fullPath === "") {
+      // Primo livello: la radice OPFS e un nodo per ogni bucket
+      // Il bucket della cronologia si consulta solo dal pannello delle versioni
+      const existingBuckets = await visibleBuckets();
+      setBuckets(existingBuckets);
+      rememberBuckets(existingBuckets);
+      return [
+        { name: OPFS_ROOT, kind: "directory" },
+        ...existingBuckets.map((bucket): FileSystemNode => ({
+          name: bucket,
+          kind: "bucket",
+        })),
+      ];
     }
-    return nodes;
+    const { backend, path } = resolveOPFSPath(fullPath);
+    return listNodes(backend, splitPath(fullPath)[0], path);
   };
 
-  const fetchBucketContents = async (
-    bucketName: string
-  ): Promise<FileSystemNode[]> => {
-    try {
-      const bucketHandle = await navigator.storageBuckets.open(bucketName);
-      const directoryHandle = await bucketHandle.getDirectory();
-      return await fetchDirectoryContents(directoryHandle, bucketName);
-    } catch (error: any) {
-      console.error(
-        `Errore durante il caricamento del bucket ${bucketName}:`,
-        error
+  const tree = useLazyTree({
+    loadChildren,
+    onError: (error, path) => {
+      showError(
+        `Errore durante il caricamento di ${path || "OPFS"}:`,
+        error,
+        backendOf(path)
       );
-      return [];
+    },
+  });
+
+  // Modifiche arrivate dall'osservazione del file system o da altre schede
+  const handleChanges = async (events: ChangeEvent[]) => {
+    refreshForChanges(tree, events);
+    const opened = selectedRef.current;
+    const change = opened && events.find((e) => affectsPath(e, opened.name));
+    if (!opened || !change || savingRef.current) return;
+    if (change.type === "modified") {
+      // Ignora le notifiche dei salvataggi fatti da questa scheda
+      if (sameVersion(await readPlain(opened.name), opened.file)) return;
     }
+    setExternalChange(change);
   };
 
-  const loadFileSystem = async () => {
-    try {
-      const rootHandle = await navigator.storage.getDirectory();
-      const rootContent = await fetchDirectoryContents(rootHandle, "root");
-      const existingBuckets = await navigator.storageBuckets.keys();
-
-      const bucketContents = await Promise.all(
-        existingBuckets.map(async (bucket) => {
-          const children = await fetchBucketContents(bucket);
-          return { name: bucket, kind: "bucket", children };
-        })
-      );
+  const watchMode = useWatcher(
+    [
+      { prefix: OPFS_ROOT, backend: createOPFSRootBackend() },
+      ...buckets.map((bucket) => ({
+        prefix: bucket,
+        // Osservare un bucket non deve ricrearlo mentre viene eliminato
+        backend: createBucketBackend(bucket, undefined, { create: false }),
+      })),
+    ],
+    handleChanges,
+    (error) => console.error("Errore durante l'osservazione:", error),
+    tree.loadedPaths
+  );
+  const announce = useTabChannel("opfs", handleChanges);
+  const editLock = useEditLock(
+    selectedFile?.content.kind === "text" ? opfsKey(selectedFile.name) : null,
+    // Appena l'altra scheda chiude il file lo rileggiamo, con le sue modifiche
+    () => selectedRef.current && openFile(selectedRef.current.name, true)
+  );
 
-      setBuckets(existingBuckets);
-      setFileSystem([
-        { name: "root", kind: "directory", children: rootContent },
-        ...bucketContents,
-      ]);
-      setMessage("File system caricato con successo!");
-    } catch (error: any) {
-      console.error("Errore durante il caricamento del file system:", error);
-      setMessage(`Errore: ${error.message}`);
-    }
+  const loadFileSystem = async () => {
+    await tree.reload();
+    setMessage("File system caricato con successo!");
   };
 
   useEffect(() => {
     loadFileSystem();
   }, []);
 
-  const createBucket = async (name: string, options?: BucketOptions) => {
-    try {
-      await navigator.storageBuckets.open(name, {
+  // Le operazioni dei pulsanti mostrano gli errori nel messaggio di stato;
+  // l'API di automazione li riceve invece come eccezioni
+  const reportError = (label: string, fullPath: string) => (error: unknown) =>
+    showError(label, error, backendOf(fullPath));
+
+  // Aprire un bucket inesistente lo creerebbe
+  const requireRoot = async (bucketOrRoot: string) => {
+    if (bucketOrRoot === OPFS_ROOT) return;
+    if ((await navigator.storageBuckets.keys()).includes(bucketOrRoot)) return;
+    throw bucketUnavailable(bucketOrRoot);
+  };
+
+  const createBucketEntry = async (name: string, options?: BucketOptions) => {
+    await logged("Creazione bucket", name, () =>
+      createBucket(validateBucketName(name), {
         durability: options?.durability || "strict",
+        persisted: options?.persisted,
         expires: options?.expires
           ? Date.now() + options.expires * 1000
           : undefined,
         quota: options?.quota || undefined,
-      });
+      })
+    );
 
-      setBuckets((prev) => [...prev, name]);
-      setMessage(`Bucket creato: ${name}`);
-      loadFileSystem();
-    } catch (error: any) {
-      console.error("Errore durante la creazione del bucket:", error);
-      setMessage(`Errore: ${error.message}`);
-    }
+    setBuckets((prev) => (prev.includes(name) ? prev : [...prev, name]));
+    setMessage(`Bucket creato: ${name}`);
+    tree.refresh("");
+    announce([{ type: "created", path: name, kind: "directory" }]);
   };
 
-  const deleteEntry = async (
+  const addBucket = (name: string, options?: BucketOptions) =>
+    createBucketEntry(name, options).catch(
+      reportError("Errore durante la creazione del bucket:", name)
+    );
+
+  const removeEntry = async (
     fullPath: string,
     kind: "file" | "directory" | "bucket"
   ) => {
-    try {
-      let rootHandle;
+    if (kind === "bucket") {
+      // Eliminazione di un bucket
+      await logged("Eliminazione bucket", fullPath, () =>
+        deleteBucket(fullPath)
+      );
+      files.closeUnder(fullPath);
+      setBuckets((prev) => prev.filter((bucket) => bucket !== fullPath));
+      setMessage(`Bucket eliminato: ${fullPath}`);
+    } else {
+      // Eliminazione di file o directory
+      const { backend, path } = resolveOPFSPath(fullPath);
+      await logged("Eliminazione", fullPath, () =>
+        backend.remove(path, { recursive: kind === "directory" })
+      );
+      files.closeUnder(fullPath);
+      setMessage(
+        `${kind === "directory" ? "Cartella" : "File"} eliminato: ${fullPath}`
+      );
+    }
+    trackRemoved([fullPath]);
+    announce([
+      {
+        type: "deleted",
+        path: fullPath,
+        kind: kind === "file" ? "file" : "directory",
+      },
+    ]);
 
-      if (kind === "bucket") {
-        // Eliminazione di un bucket
-        await navigator.storageBuckets.delete(fullPath);
-        setBuckets((prev) => prev.filter((bucket) => bucket !== fullPath));
-        setMessage(`Bucket eliminato: ${fullPath}`);
-      } else {
-        // Eliminazione di file o directory
-        const pathParts = fullPath.split("/");
-        const bucketOrRoot = pathParts.shift()!;
-
-        if (bucketOrRoot === "root") {
-          rootHandle = await navigator.storage.getDirectory();
-        } else {
-          const bucketHandle = await navigator.storageBuckets.open(
-            bucketOrRoot
-          );
-          rootHandle = await bucketHandle.getDirectory();
-        }
+    tree.refresh(kind === "bucket" ? "" : parentPath(fullPath));
+  };
+
+  const deleteEntry = (
+    fullPath: string,
+    kind: "file" | "directory" | "bucket"
+  ) =>
+    removeEntry(fullPath, kind).catch(
+      reportError(`Errore durante l'eliminazione di ${kind}:`, fullPath)
+    );
+
+  // Contenuto in chiaro: i file delle aree cifrate si decifrano in lettura
+  const readPlain = async (filePath: string) => {
+    const { backend, path } = resolveOPFSPath(filePath);
+    return decodeForPath(filePath, await backend.read(path));
+  };
+
+  // Un file già aperto si mostra nella sua scheda; `reload` lo rilegge dal
+  // disco, scartando le modifiche solo dopo conferma
+  const openFile = async (filePath: string, reload = false) => {
+    if (files.isOpen(filePath) && !reload) {
+      files.activate(filePath);
+      return;
+    }
+    if (reload && !files.canDiscard(filePath, `Ricaricare ${filePath}`)) return;
+    await showFile(filePath).catch(
+      reportError("Errore durante l'apertura del file:", filePath)
+    );
+  };
 
-        const entryName = pathParts.pop()!;
-        let currentHandle = rootHandle;
+  // Legge il file dal disco e lo mostra nella sua scheda
+  const showFile = async (filePath: string) => {
+    const file = await logged("Apertura", filePath, () => readPlain(filePath));
+    const opened = { name: filePath, file, content: await sniffContent(file) };
+    const text = isEditable(opened) ? await file.text() : "";
 
-        for (const part of pathParts) {
-          currentHandle = await currentHandle.getDirectoryHandle(part);
-        }
+    files.open(opened, text);
+    setExternalChange(null);
+    setSaveConflict(false);
+    setMessage(`File aperto: ${filePath}`);
+    return { opened, text };
+  };
 
-        await currentHandle.removeEntry(entryName, {
-          recursive: kind === "directory",
+  // Scrive `text` nel file aperto e restituisce il file aggiornato, o null
+  // se un'altra scheda l'ha salvato dopo l'apertura
+  const storeFile = async (
+    opened: OpenedFile,
+    text: string,
+    overwrite: boolean
+  ): Promise<File | null> => {
+    savingRef.current = true;
+    try {
+      const { backend, path } = resolveOPFSPath(opened.name);
+      const write = () =>
+        withWriteLock(opfsKey(opened.name), async () => {
+          // Un'altra scheda ha salvato dopo l'apertura: si chiede prima
+          const current = await backend.read(path);
+          const plain = await decodeForPath(opened.name, current);
+          if (!overwrite && !sameVersion(plain, opened.file)) return null;
+          // La cronologia conserva il file com'è su disco, anche se cifrato
+          await saveVersion(opfsKey(opened.name), current);
+
+          // Scrittura a blocchi nel worker, con avanzamento
+          await getFileAccessClient().writeFile(
+            toFileTarget(opened.name),
+            await encodeForPath(opened.name, new TextEncoder().encode(text)),
+            (loaded, total) =>
+              setMessage(
+                `Salvataggio di ${opened.name}: ${Math.round(
+                  (loaded / total) * 100
+                )}%`
+              )
+          );
+          // Il file aggiornato serve a riconoscere le modifiche esterne
+          return readPlain(opened.name);
         });
-        setMessage(
-          `${kind === "directory" ? "Cartella" : "File"} eliminato: ${fullPath}`
-        );
+      const file = await logged("Salvataggio", opened.name, write);
+      if (!file) {
+        setSaveConflict(true);
+        setMessage(`Conflitto di salvataggio: ${opened.name}`);
+        return null;
       }
 
-      loadFileSystem();
-    } catch (error: any) {
-      console.error(`Errore durante l'eliminazione di ${kind}:`, error);
-      setMessage(`Errore: ${error.message}`);
+      files.markSaved({ ...opened, file }, text);
+      setExternalChange(null);
+      setSaveConflict(false);
+      setMessage(`File salvato: ${opened.name}`);
+      trackUpdated([opened.name]);
+      announce([{ type: "modified", path: opened.name, kind: "file" }]);
+      pruneHistory(loadRetention()).catch((error) =>
+        console.error("Errore durante la pulizia della cronologia:", error)
+      );
+      return file;
+    } finally {
+      savingRef.current = false;
     }
   };
 
-  const openFile = async (filePath: string) => {
-    try {
-      const pathParts = filePath.split("/");
-      const bucketOrRoot = pathParts.shift()!;
-      let rootHandle;
+  const saveFile = async (overwrite = false, text = fileContent) => {
+    if (!selectedFile) return;
+    if (selectedFile.content.kind !== "text") {
+      // Riscrivere come stringa un file binario lo corromperebbe
+      setMessage(`File binario in sola lettura: ${selectedFile.name}`);
+      return;
+    }
+    await storeFile(selectedFile, text, overwrite).catch(
+      reportError("Errore durante il salvataggio del file:", selectedFile.name)
+    );
+  };
 
-      if (bucketOrRoot === "root") {
-        rootHandle = await navigator.storage.getDirectory();
-      } else {
-        const bucketHandle = await navigator.storageBuckets.open(bucketOrRoot);
-        rootHandle = await bucketHandle.getDirectory();
+  // Il ripristino è un salvataggio: la versione sostituita resta in cronologia
+  const restoreVersion = async (version: File) => {
+    const text = await version.text();
+    files.edit(text);
+    await saveFile(true, text);
+  };
+
+  // Modifiche fatte dalla console: come quelle dei pulsanti dell'albero
+  const consoleChanged = (events: ChangeEvent[]) => {
+    refreshForChanges(tree, events);
+    for (const event of events) {
+      if (event.type === "deleted" || event.type === "moved") {
+        const removed = event.oldPath ?? event.path;
+        files.closeUnder(removed);
+        trackRemoved([removed]);
       }
+      if (event.type !== "deleted") trackUpdated([event.path]);
+    }
+    announce(events);
+  };
 
-      const fileName = pathParts.pop()!;
-      let currentHandle = rootHandle;
+  const createEntry = async (
+    action: "createFile" | "createFolder",
+    input: string,
+    bucketOrRoot: string
+  ) => {
+    const create = async () => {
+      // Il percorso si valida prima di qualsiasi chiamata agli handle
+      const path = normalizePath(input);
+      await requireRoot(bucketOrRoot);
+      const backend = getOPFSBackend(bucketOrRoot);
+      await (action === "createFolder"
+        ? backend.mkdir(path)
+        : backend.createFile(path));
+      return path;
+    };
+    const path = await logged(
+      action === "createFolder" ? "Creazione cartella" : "Creazione file",
+      joinPath(bucketOrRoot, input),
+      create
+    );
+    const fullPath = joinPath(bucketOrRoot, path);
 
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part);
-      }
+    if (action === "createFolder") {
+      setMessage(`Cartella creata: ${path}`);
+      announce([{ type: "created", path: fullPath, kind: "directory" }]);
+    } else {
+      setMessage(`File creato: ${path}`);
+      trackUpdated([fullPath]);
+      announce([{ type: "created", path: fullPath, kind: "file" }]);
+    }
 
-      const fileHandle = await currentHandle.getFileHandle(fileName);
-      const file = await fileHandle.getFile();
-      const content = await file.text();
+    tree.refresh(parentPath(fullPath));
+  };
 
-      setSelectedFile({ name: filePath, kind: "file" });
-      setFileContent(content);
-      setMessage(`File aperto: ${filePath}`);
-    } catch (error: any) {
-      console.error("Errore durante l'apertura del file:", error);
-      setMessage(`Errore: ${error.message}`);
+  const handleModalAction = async (input: string, bucketOrRoot: string) => {
+    if (modalOpen) {
+      await createEntry(modalOpen.action, input, bucketOrRoot).catch(
+        reportError(
+          "Errore durante l'azione sulla modale:",
+          joinPath(bucketOrRoot, input)
+        )
+      );
     }
+    setModalOpen(null);
   };
 
-  const saveFile = async () => {
-    if (!selectedFile || selectedFile.kind !== "file") return;
-    try {
-      const pathParts = selectedFile.name.split("/");
-      const bucketOrRoot = pathParts.shift()!;
-      let rootHandle;
+  // Indirizzo dell'API di un file o di una cartella: la radice o il bucket,
+  // il percorso relativo e il percorso completo dell'albero
+  const locateEntry = async (address: string) => {
+    const parsed = parseEntryAddress(address);
+    const name = toTreePath(parsed);
+    const bucketOrRoot = parsed.bucket ?? OPFS_ROOT;
+    await requireRoot(bucketOrRoot);
+    return { bucketOrRoot, path: parsed.path, name };
+  };
 
-      if (bucketOrRoot === "root") {
-        rootHandle = await navigator.storage.getDirectory();
-      } else {
-        const bucketHandle = await navigator.storageBuckets.open(bucketOrRoot);
-        rootHandle = await bucketHandle.getDirectory();
+  // Operazioni di `window.opfsExplorer`: le stesse dei pulsanti, così
+  // l'interfaccia resta allineata a quello che fanno i test automatici
+  const explorerOperations: ExplorerOperations = {
+    load: async () => {
+      await loadFileSystem();
+      return loadChildren("");
+    },
+    list: async (address) => {
+      if (!address.trim()) return loadChildren("");
+      const parsed = parseAddress(address);
+      const name = toTreePath(parsed);
+      await requireRoot(parsed.bucket ?? OPFS_ROOT);
+      return loadChildren(name);
+    },
+    createBucket: (name, options) => createBucketEntry(name, options),
+    createFolder: async (address) => {
+      const { bucketOrRoot, path } = await locateEntry(address);
+      await createEntry("createFolder", path, bucketOrRoot);
+    },
+    createFile: async (address) => {
+      const { bucketOrRoot, path } = await locateEntry(address);
+      await createEntry("createFile", path, bucketOrRoot);
+    },
+    openFile: async (address) => {
+      const { name } = await locateEntry(address);
+      const buffer = files.buffers.find((item) => item.name === name);
+      if (buffer) {
+        files.activate(name);
+        return explorerFile(buffer.opened, buffer.text);
+      }
+      const { opened, text } = await showFile(name);
+      return explorerFile(opened, text);
+    },
+    saveFile: async (address, text, overwrite) => {
+      const { name } = await locateEntry(address);
+      const opened =
+        files.buffers.find((item) => item.name === name)?.opened ??
+        (await showFile(name)).opened;
+      if (opened.content.kind !== "text") {
+        throw new DOMException(
+          `File binario in sola lettura: ${name}`,
+          "NoModificationAllowedError"
+        );
       }
+      // Il testo passa dalla scheda, come se l'avesse scritto l'utente
+      files.activate(name);
+      files.edit(text);
+      const file = await storeFile(opened, text, overwrite);
+      if (!file) {
+        throw new DOMException(
+          `Conflitto di salvataggio: ${name}`,
+          "InvalidModificationError"
+        );
+      }
+      return explorerFile({ ...opened, file }, text);
+    },
+    deleteEntry: async (address) => {
+      const parsed = parseAddress(address);
+      if (parsed.bucket !== null && !parsed.path) {
+        const name = toTreePath(parsed);
+        await requireRoot(name);
+        return removeEntry(name, "bucket");
+      }
+      // La radice OPFS invece non si elimina
+      const { path, name } = await locateEntry(address);
+      const { backend } = resolveOPFSPath(name);
+      await removeEntry(name, (await backend.stat(path)).kind);
+    },
+  };
+  const explorerRef = useRef(explorerOperations);
+  explorerRef.current = explorerOperations;
 
-      const fileName = pathParts.pop()!;
-      let currentHandle = rootHandle;
+  useEffect(
+    () => installExplorerApi(createExplorerApi(() => explorerRef.current)),
+    []
+  );
 
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part);
+  const transferNode = async (
+    mode: TransferMode,
+    source: string,
+    destination: string,
+    conflict: ConflictPolicy
+  ) => {
+    try {
+      // La destinazione si valida prima di qualsiasi chiamata agli handle
+      const target = parseEntryAddress(destination);
+      const targetPath = toTreePath(target);
+      const bucketOrRoot = target.bucket ?? OPFS_ROOT;
+      if (bucketOrRoot !== OPFS_ROOT && !buckets.includes(bucketOrRoot)) {
+        // Aprire un bucket inesistente lo creerebbe
+        throw bucketUnavailable(bucketOrRoot);
       }
 
-      const fileHandle = await currentHandle.getFileHandle(fileName);
-      const writable = await fileHandle.createWritable();
-      await writable.write(fileContent);
-      await writable.close();
+      const result = await logged(TRANSFER_OPERATIONS[mode], source, () => {
+        requireSameArea(source, targetPath);
+        return transferEntry(
+          resolveOPFSPath(source),
+          resolveOPFSPath(targetPath),
+          { mode: mode === "copy" ? "copy" : "move", conflict }
+        );
+      });
+      const finalPath = joinPath(bucketOrRoot, result.path);
 
-      setMessage(`File salvato: ${selectedFile.name}`);
-    } catch (error: any) {
-      console.error("Errore durante il salvataggio del file:", error);
-      setMessage(`Errore: ${error.message}`);
+      if (result.status === "skipped") {
+        setMessage(
+          `Destinazione già esistente, operazione saltata: ${finalPath}`
+        );
+        return;
+      }
+      setMessage(
+        `${mode === "copy" ? "Copiato" : "Spostato"}: ${source} → ${finalPath}`
+      );
+      if (mode !== "copy") {
+        files.closeUnder(source);
+        trackRemoved([source]);
+        tree.refresh(parentPath(source));
+      }
+      trackUpdated([finalPath]);
+      announce([
+        mode === "copy"
+          ? { type: "created", path: finalPath }
+          : { type: "moved", path: finalPath, oldPath: source },
+      ]);
+      tree.refresh(parentPath(finalPath));
+    } catch (error) {
+      showError(
+        "Errore durante lo spostamento o la copia:",
+        error,
+        backendOf(source)
+      );
+    } finally {
+      setTransfer(null);
     }
   };
 
-  const handleModalAction = async (input: string, bucketOrRoot: string) => {
+  const uploadDropped = async (target: string, entries: FileSystemEntry[]) => {
+    const fullPath = target || OPFS_ROOT; // Sfondo dell'albero = radice OPFS
+    const label = `Caricamento in ${fullPath}`;
     try {
-      let rootHandle;
+      const items = await collectDroppedItems(entries);
+      const { backend, path } = resolveOPFSPath(fullPath);
+      setProgress({ label, loaded: 0, total: 0 });
+      await logged("Caricamento", fullPath, () =>
+        uploadItems(
+          backend,
+          path,
+          items,
+          (loaded, total) => setProgress({ label, loaded, total }),
+          (itemPath, file) =>
+            encodeFileForPath(joinPath(fullPath, itemPath), file)
+        )
+      );
+      setMessage(`Caricati ${items.length} elementi in ${fullPath}`);
+      trackUpdated(
+        items
+          .filter((item) => item.file)
+          .map((item) => joinPath(fullPath, item.path))
+      );
+      announce(
+        items.map((item) => ({
+          type: "created",
+          path: joinPath(fullPath, item.path),
+          kind: item.file ? "file" : "directory",
+        }))
+      );
+      tree.refresh(fullPath);
+    } catch (error) {
+      showError("Errore durante il caricamento:", error, backendOf(fullPath));
+    } finally {
+      setProgress(null);
+    }
+  };
 
-      if (bucketOrRoot === "root") {
-        rootHandle = await navigator.storage.getDirectory();
+  const downloadNode = async (node: FileSystemNode) => {
+    try {
+      const { backend, path } = resolveOPFSPath(node.name);
+      if (node.kind === "file") {
+        await logged("Download", node.name, () => downloadFile(backend, path));
       } else {
-        const bucketHandle = await navigator.storageBuckets.open(bucketOrRoot);
-        rootHandle = await bucketHandle.getDirectory();
-      }
-
-      const pathParts = input.split("/");
-      const fileName = pathParts.pop()!;
-      let currentHandle = rootHandle;
-
-      for (const part of pathParts) {
-        currentHandle = await currentHandle.getDirectoryHandle(part, {
-          create: true,
-        });
+        setMessage(`Creazione dello ZIP di ${node.name}…`);
+        await logged("Download ZIP", node.name, () =>
+          downloadDirectoryAsZip(
+            backend,
+            path,
+            node.name.split("/").pop() ?? node.name
+          )
+        );
+        setMessage(`ZIP creato: ${node.name}`);
       }
+    } catch (error) {
+      showError("Errore durante il download:", error, backendOf(node.name));
+    }
+  };
 
-      if (modalOpen?.action === "createFolder") {
-        await currentHandle.getDirectoryHandle(fileName, { create: true });
-        setMessage(`Cartella creata: ${input}`);
-      } else if (modalOpen?.action === "createFile") {
-        await currentHandle.getFileHandle(fileName, { create: true });
-        setMessage(`File creato: ${input}`);
-      }
+  const exportBackup = async () => {
+    try {
+      setMessage("Creazione del backup…");
+      const date = new Date().toISOString().slice(0, 10);
+      await logged(
+        "Esportazione backup",
+        "",
+        async () =>
+          saveStream(await createBackupStream(), `opfs-backup-${date}.zip`),
+        BACKUP_BACKEND
+      );
+      setMessage("Backup esportato");
+    } catch (error) {
+      showError("Errore durante l'esportazione del backup:", error);
+    }
+  };
 
-      loadFileSystem();
-    } catch (error: any) {
-      console.error("Errore durante l'azione sulla modale:", error);
-      setMessage(`Errore: ${error.message}`);
-    } finally {
-      setModalOpen(null);
+  const previewRestore = async (file: File) => {
+    try {
+      const backup = await readBackup(file);
+      setRestore({ backup, plan: await planRestore(backup) });
+    } catch (error) {
+      showError("Errore durante la lettura del backup:", error);
     }
   };
 
-  const renderTree = (nodes: FileSystemNode[]) => {
-    return nodes.map((node) => {
-      const displayName = node.name.split("/").pop();
-      return (
-        <li key={node.name}>
-          {node.kind === "directory" ? (
-            <>
-              📁 {displayName}
-              <button onClick={() => deleteEntry(node.name, "directory")}>
-                Elimina
-              </button>
-              <ul>{node.children && renderTree(node.children)}</ul>
-            </>
-          ) : node.kind === "bucket" ? (
-            <>
-              🗑️ {displayName}
-              <button onClick={() => deleteEntry(node.name, "bucket")}>
-                Elimina
-              </button>
-              <ul>{node.children && renderTree(node.children)}</ul>
-            </>
-          ) : (
-            <>
-              📄 {displayName}
-              <button onClick={() => openFile(node.name)}>Apri</button>
-              <button onClick={() => deleteEntry(node.name, "file")}>
-                Elimina
-              </button>
-            </>
-          )}
-        </li>
+  const importBackup = async (backup: OPFSBackup) => {
+    setRestore(null);
+    if (!files.canDiscard("", "Ripristinare il backup")) return;
+    const label = "Ripristino del backup";
+    try {
+      setProgress({ label, loaded: 0, total: 0 });
+      const skipped = await logged(
+        "Ripristino backup",
+        "",
+        () =>
+          restoreBackup(backup, undefined, (loaded, total) =>
+            setProgress({ label, loaded, total })
+          ),
+        BACKUP_BACKEND
+      );
+      files.closeAll();
+      setMessage(
+        skipped.length > 0
+          ? `Backup ripristinato, ${skipped.length} elementi saltati: bucket assenti dal manifest o aree cifrate con un'altra chiave`
+          : "Backup ripristinato"
       );
-    });
+      trackUpdated([
+        OPFS_ROOT,
+        ...backup.manifest.buckets.map((bucket) => bucket.name),
+      ]);
+      // Le altre schede rileggono tutto l'albero
+      announce([{ type: "modified", path: "", kind: "directory" }]);
+      await tree.reload();
+    } catch (error) {
+      showError("Errore durante il ripristino del backup:", error);
+    } finally {
+      setProgress(null);
+    }
   };
 
+  const renderTransferActions = (node: FileSystemNode) => (
+    <>
+      <button
+        onClick={() => setTransfer({ mode: "rename", source: node.name })}
+      >
+        Rinomina
+      </button>
+      <button onClick={() => setTransfer({ mode: "move", source: node.name })}>
+        Sposta
+      </button>
+      <button onClick={() => setTransfer({ mode: "copy", source: node.name })}>
+        Copia
+      </button>
+    </>
+  );
+
+  const renderActions = (node: FileSystemNode) =>
+    node.kind === "file" ? (
+      <>
+        <button onClick={() => openFile(node.name)}>Apri</button>
+        <button onClick={() => downloadNode(node)}>Scarica</button>
+        {renderTransferActions(node)}
+        <button onClick={() => deleteEntry(node.name, "file")}>Elimina</button>
+      </>
+    ) : (
+      <>
+        {/* La radice OPFS e i bucket non si spostano */}
+        {node.name.includes("/") && renderTransferActions(node)}
+        <button onClick={() => downloadNode(node)}>Scarica ZIP</button>
+        <button onClick={() => deleteEntry(node.name, node.kind)}>
+          Elimina
+        </button>
+      </>
+    );
+
   return (
     <div style={{ padding: "20px", fontFamily: "Arial, sans-serif" }}>
       <h1>Origin Private File System</h1>
@@ -309,8 +805,8 @@ const OPFSFileSystem: React.FC = () => {
           setModalFields([
             {
               name: "Bucket",
-              type: "text",
-              placeholder: "Inserisci il nome del bucket (opzionale)",
+              type: "select",
+              options: buckets, // Nessuna selezione = radice OPFS
             },
             {
               name: "Percorso",
@@ -332,8 +828,8 @@ const OPFSFileSystem: React.FC = () => {
           setModalFields([
             {
               name: "Bucket",
-              type: "text",
-              placeholder: "Inserisci il nome del bucket (opzionale)",
+              type: "select",
+              options: buckets, // Nessuna selezione = radice OPFS
             },
             {
               name: "Percorso",
@@ -355,6 +851,16 @@ const OPFSFileSystem: React.FC = () => {
               type: "text",
               placeholder: "Inserisci il nome del bucket",
             },
+            {
+              name: "Durabilità",
+              type: "select",
+              options: DURABILITY_OPTIONS, // Nessuna selezione = strict
+            },
+            {
+              name: "Persistente",
+              type: "select",
+              options: Object.keys(PERSISTED_OPTIONS),
+            },
             { name: "Quota", type: "number", placeholder: "Quota in bytes" },
             {
               name: "Scadenza",
@@ -368,57 +874,199 @@ const OPFSFileSystem: React.FC = () => {
       >
         Crea Bucket
       </button>
+      <button
+        onClick={exportBackup}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Esporta backup
+      </button>
+      <label style={{ marginRight: "10px" }}>
+        Importa backup{" "}
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = ""; // Permette di riscegliere lo stesso file
+            if (file) previewRestore(file);
+          }}
+        />
+      </label>
+      <button
+        onClick={() => setShowSearch((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Cerca
+      </button>
+      <button
+        onClick={() => setShowBuckets((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Gestisci Bucket
+      </button>
+      <button
+        onClick={() => setShowUsage((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Spazio
+      </button>
+      <button
+        onClick={() => setShowIntegrity((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Integrità
+      </button>
+      <button
+        onClick={() => setShowEncryption((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Cifratura
+      </button>
+      <button
+        onClick={() => setShowDatabases((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Database
+      </button>
+      <button
+        onClick={() => setShowConsole((show) => !show)}
+        style={{ marginRight: "10px", padding: "10px 20px" }}
+      >
+        Console
+      </button>
       <button onClick={loadFileSystem} style={{ padding: "10px 20px" }}>
         Aggiorna
       </button>
 
-      {message && (
-        <p style={{ marginTop: "10px", color: "#4caf50" }}>{message}</p>
+      <StatusMessage status={status} />
+      {watchMode && (
+        <p style={{ fontSize: "small" }}>
+          Aggiornamento automatico:{" "}
+          {watchMode === "observer" ? "FileSystemObserver" : "polling"}
+        </p>
+      )}
+      {progress && <ProgressIndicator {...progress} />}
+      {showSearch && (
+        <SearchPanel scope={{ opfs: true }} indexable onOpen={openFile} />
+      )}
+      {showBuckets && (
+        <BucketPanel
+          buckets={buckets}
+          onChange={(text) => {
+            setMessage(text);
+            tree.refresh("");
+            announce([{ type: "modified", path: "", kind: "directory" }]);
+          }}
+        />
+      )}
+      {showUsage && <StorageDashboard />}
+      {showIntegrity && <IntegrityPanel onOpen={openFile} />}
+      {showDatabases && <DatabasePanel onOpen={openFile} />}
+      {showConsole && <ConsolePanel onChanges={consoleChanged} />}
+      {showEncryption && (
+        <EncryptionPanel
+          onChange={(text) => {
+            setMessage(text);
+            tree.refresh("");
+            announce([{ type: "modified", path: "", kind: "directory" }]);
+          }}
+        />
       )}
 
-      <ul style={{ listStyleType: "none", marginTop: "20px" }}>
-        {renderTree(fileSystem)}
-      </ul>
+      <DirectoryTree
+        rows={tree.rows}
+        loading={tree.loading}
+        onToggle={tree.toggle}
+        renderActions={renderActions}
+        onDrop={uploadDropped}
+      />
 
-      {selectedFile && selectedFile.kind === "file" && (
-        <div
-          style={{
-            marginTop: "20px",
-            borderTop: "1px solid #ddd",
-            paddingTop: "20px",
+      {files.buffers.length > 0 && (
+        <EditorTabs
+          buffers={files.buffers}
+          active={selectedFile?.name ?? null}
+          onActivate={(name) => {
+            // Avvisi e conflitti riguardano solo la scheda che li ha generati
+            files.activate(name);
+            setExternalChange(null);
+            setSaveConflict(false);
           }}
-        >
-          <h2>Modifica file: {selectedFile.name}</h2>
-          <textarea
-            value={fileContent}
-            onChange={(e) => setFileContent(e.target.value)}
-            style={{
-              width: "100%",
-              height: "200px",
-              marginBottom: "10px",
-              padding: "10px",
-              fontFamily: "monospace",
-              fontSize: "14px",
-              backgroundColor: "#1a1a1a",
-              color: "#fff",
-              border: "1px solid #646cff",
-              borderRadius: "4px",
-            }}
-          />
-          <button
-            onClick={saveFile}
-            style={{
-              padding: "10px 20px",
-              backgroundColor: "#4caf50",
-              color: "white",
-              border: "none",
-              borderRadius: "5px",
-              cursor: "pointer",
-            }}
-          >
-            Salva
-          </button>
-        </div>
+          onClose={files.close}
+        />
+      )}
+      {selectedFile && externalChange && (
+        <ExternalChangeBanner
+          change={externalChange}
+          onReload={() => openFile(selectedFile.name, true)}
+          onDismiss={() => setExternalChange(null)}
+        />
+      )}
+      {selectedFile && editLock.locked && (
+        <EditLockBanner
+          waiting={editLock.state === "waiting"}
+          onWait={editLock.wait}
+        />
+      )}
+      {selectedFile && saveConflict && (
+        <SaveConflictBanner
+          onOverwrite={() => saveFile(true)}
+          onReload={() => openFile(selectedFile.name, true)}
+          onCancel={() => setSaveConflict(false)}
+        />
+      )}
+      {selectedFile?.content.mime === SQLITE_MIME && (
+        <DatabaseBrowser
+          key={selectedFile.name}
+          path={selectedFile.name}
+          onChange={(text) => {
+            setMessage(text);
+            trackUpdated([selectedFile.name]);
+            announce([
+              { type: "modified", path: selectedFile.name, kind: "file" },
+            ]);
+          }}
+        />
+      )}
+      {selectedFile && selectedFile.content.mime !== SQLITE_MIME && (
+        <FileViewer
+          key={selectedFile.name}
+          name={selectedFile.name}
+          file={selectedFile.file}
+          content={selectedFile.content}
+          text={fileContent}
+          onTextChange={files.edit}
+          dirty={!!files.active && isDirty(files.active)}
+          onSave={() => saveFile()}
+          locked={editLock.locked}
+          readRange={async (offset, length) =>
+            // Nelle aree cifrate su disco c'è il testo cifrato: si pagina il
+            // file già decifrato all'apertura
+            areaOf(selectedFile.name, loadAreas())
+              ? new Uint8Array(
+                  await selectedFile.file
+                    .slice(offset, offset + length)
+                    .arrayBuffer()
+                )
+              : getFileAccessClient().readRange(
+                  toFileTarget(selectedFile.name),
+                  offset,
+                  length
+                )
+          }
+        />
+      )}
+      {selectedFile?.content.kind === "text" && (
+        <button onClick={() => setShowHistory((show) => !show)}>
+          Versioni
+        </button>
+      )}
+      {showHistory && selectedFile?.content.kind === "text" && (
+        <VersionHistory
+          historyKey={opfsKey(selectedFile.name)}
+          current={selectedFile.file}
+          onRestore={editLock.locked ? undefined : restoreVersion}
+          decode={(version) => decodeForPath(selectedFile.name, version)}
+        />
       )}
 
       {bucketModalOpen && (
@@ -427,8 +1075,11 @@ const OPFSFileSystem: React.FC = () => {
           placeholder="Inserisci il nome del bucket"
           fields={modalFields}
           onConfirm={(values) => {
-            createBucket(values.Nome, {
-              durability: values.Durabilità,
+            addBucket(values.Nome, {
+              durability: DURABILITY_OPTIONS.includes(values.Durabilità)
+                ? (values.Durabilità as BucketOptions["durability"])
+                : undefined,
+              persisted: PERSISTED_OPTIONS[values.Persistente],
               quota: values.Quota ? parseInt(values.Quota, 10) : undefined,
               expires: values.Scadenza
                 ? parseInt(values.Scadenza, 10)
@@ -446,11 +1097,31 @@ const OPFSFileSystem: React.FC = () => {
           placeholder=""
           fields={modalFields}
           onConfirm={(values) =>
-            handleModalAction(values.Percorso, values.Bucket || "root")
+            handleModalAction(values.Percorso, values.Bucket || OPFS_ROOT)
           }
           onCancel={() => setModalOpen(null)}
         />
       )}
+
+      {restore && (
+        <RestorePreview
+          plan={restore.plan}
+          onConfirm={() => importBackup(restore.backup)}
+          onCancel={() => setRestore(null)}
+        />
+      )}
+
+      {transfer && (
+        <TransferModal
+          mode={transfer.mode}
+          source={transfer.source}
+          destinationPlaceholder="Percorso completo (es. root/cartella/nome o bucket://dati/nome)"
+          onConfirm={(destination, conflict) =>
+            transferNode(transfer.mode, transfer.source, destination, conflict)
+          }
+          onCancel={() => setTransfer(null)}
+        />
+      )}
     </div>
   );
 };
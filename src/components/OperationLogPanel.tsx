@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { ERROR_CATEGORIES, ErrorCategory } from "../storage/errors";
+import {
+  ALL_OPERATIONS,
+  OperationEntry,
+  OperationFilter,
+  filterOperations,
+  getOperationLog,
+} from "../storage/operationLog";
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "medium",
+  });
+
+/**
+ * Registro delle operazioni di entrambi gli esploratori, dalla più recente,
+ * filtrabile per esito, categoria d'errore, backend e testo.
+ */
+const OperationLogPanel: React.FC = () => {
+  const [entries, setEntries] = useState<OperationEntry[]>([]);
+  const [filter, setFilter] = useState<OperationFilter>(ALL_OPERATIONS);
+  // Gli errori del registro stesso non si registrano: si mostrano soltanto
+  const { status, showError } = useStatus();
+
+  useEffect(() => {
+    const log = getOperationLog();
+    // Le operazioni registrate durante la lettura arrivano dalla sottoscrizione
+    const added: OperationEntry[] = [];
+    let loaded = false;
+    const unsubscribe = log.subscribe((entry) =>
+      loaded ? setEntries((prev) => [...prev, entry]) : added.push(entry)
+    );
+    log.store
+      .load()
+      .then((stored) => {
+        loaded = true;
+        setEntries([...stored, ...added]);
+      })
+      .catch((error) =>
+        showError("Errore durante la lettura del registro:", error)
+      );
+    return unsubscribe;
+  }, [showError]);
+
+  const clear = async () => {
+    if (!window.confirm("Svuotare il registro delle operazioni?")) return;
+    try {
+      await getOperationLog().store.clear();
+      setEntries([]);
+    } catch (error) {
+      showError("Errore durante la pulizia del registro:", error);
+    }
+  };
+
+  const update = (changes: Partial<OperationFilter>) =>
+    setFilter((prev) => ({ ...prev, ...changes }));
+
+  const backends = [...new Set(entries.map((entry) => entry.backend))].sort();
+  const shown = filterOperations(entries, filter).reverse();
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Registro operazioni{" "}
+        <button onClick={clear} disabled={entries.length === 0}>
+          Svuota
+        </button>
+      </h2>
+      <StatusMessage status={status} />
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+        <select
+          value={filter.outcome}
+          onChange={(event) =>
+            update({
+              outcome: event.target.value as OperationFilter["outcome"],
+            })
+          }
+        >
+          <option value="all">Tutti gli esiti</option>
+          <option value="success">Riuscite</option>
+          <option value="error">Fallite</option>
+        </select>
+        <select
+          value={filter.category}
+          onChange={(event) =>
+            update({ category: event.target.value as ErrorCategory | "" })
+          }
+        >
+          <option value="">Tutte le categorie</option>
+          {Object.entries(ERROR_CATEGORIES).map(([category, { title }]) => (
+            <option key={category} value={category}>
+              {title}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.backend}
+          onChange={(event) => update({ backend: event.target.value })}
+        >
+          <option value="">Tutti i backend</option>
+          {backends.map((backend) => (
+            <option key={backend} value={backend}>
+              {backend}
+            </option>
+          ))}
+        </select>
+        <input
+          value={filter.text}
+          onChange={(event) => update({ text: event.target.value })}
+          placeholder="Operazione o percorso"
+        />
+      </div>
+
+      {shown.length === 0 ? (
+        <p>Nessuna operazione</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+          <thead>
+            <tr>
+              {[
+                "Ora",
+                "Operazione",
+                "Percorso",
+                "Backend",
+                "Durata",
+                "Esito",
+              ].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((entry, i) => (
+              <tr key={i}>
+                <td style={cell}>{formatTime(entry.startedAt)}</td>
+                <td style={cell}>{entry.operation}</td>
+                <td style={cell}>{entry.path || "—"}</td>
+                <td style={cell}>{entry.backend}</td>
+                <td style={cell}>{entry.duration} ms</td>
+                {entry.error ? (
+                  <td
+                    style={{ ...cell, color: "#f44336" }}
+                    title={`${entry.error.explanation} ${entry.error.suggestion}`}
+                  >
+                    {ERROR_CATEGORIES[entry.error.category].title}:{" "}
+                    {entry.error.message}
+                  </td>
+                ) : (
+                  <td style={{ ...cell, color: "#4caf50" }}>riuscita</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default OperationLogPanel;
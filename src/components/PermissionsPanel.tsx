@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { Permission } from "./WorkspacePanel";
+import { useStatus } from "./useStatus";
+import { WorkspaceRoot, rootBackendId } from "../storage/workspace";
+import {
+  PermissionChange,
+  PermissionLog,
+  checkPermissions,
+  clearPermissionChanges,
+  dropRoot,
+  loadPermissionLog,
+  permissionStatus,
+  requestRootPermission,
+} from "../storage/permissions";
+
+type PermissionsPanelProps = {
+  roots: WorkspaceRoot[];
+  onChange: (message: string) => void; // Dopo aver tolto un handle
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const MODE_LABELS: Record<FileSystemPermissionMode, string> = {
+  read: "lettura",
+  readwrite: "scrittura",
+};
+
+const STATE_LABELS: Record<PermissionChange["to"], string> = {
+  granted: "concesso",
+  prompt: "da richiedere",
+  denied: "negato",
+  forgotten: "handle rimosso",
+};
+
+const formatTime = (time?: number) =>
+  time === undefined ? "—" : new Date(time).toLocaleString();
+
+/**
+ * Ispettore dei permessi: stato di lettura e scrittura di ogni handle salvato,
+ * quando è stato concesso, e il registro dei cambiamenti osservati.
+ */
+const PermissionsPanel: React.FC<PermissionsPanelProps> = ({
+  roots,
+  onChange,
+}) => {
+  const [log, setLog] = useState<PermissionLog>(() => loadPermissionLog());
+  const { status, report } = useStatus();
+
+  // Le operazioni sui permessi finiscono nel registro delle operazioni; senza
+  // `root` riguardano tutte le radici
+  const run = async (
+    operation: string,
+    root: WorkspaceRoot | null,
+    action: () => Promise<unknown>
+  ) => {
+    await report(
+      {
+        operation,
+        path: root?.name ?? "",
+        backend: root ? rootBackendId(root) : "",
+      },
+      action
+    );
+    setLog(loadPermissionLog());
+  };
+
+  const checkAll = useCallback(async () => {
+    await Promise.all(roots.map((root) => checkPermissions(root)));
+    setLog(loadPermissionLog());
+  }, [roots]);
+
+  useEffect(() => {
+    report(
+      { operation: "Controllo permessi", path: "", backend: "" },
+      checkAll
+    );
+  }, [checkAll, report]);
+
+  const changes = [...log.changes].reverse(); // Dal più recente
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Permessi{" "}
+        <button onClick={() => run("Controllo permessi", null, checkAll)}>
+          Controlla tutti
+        </button>
+      </h2>
+      <StatusMessage status={status} />
+
+      {roots.length === 0 ? (
+        <p>Nessun handle salvato</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {[
+                "Nome",
+                "Permesso",
+                "Stato",
+                "Concesso il",
+                "Controllato il",
+                "",
+              ].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {roots.flatMap((root) =>
+              (["read", "readwrite"] as const).map((mode) => {
+                const status = permissionStatus(log, root, mode);
+                return (
+                  <tr key={`${root.id}:${mode}`}>
+                    <td style={cell}>{mode === "read" && root.name}</td>
+                    <td style={cell}>{MODE_LABELS[mode]}</td>
+                    <td style={cell}>
+                      <Permission state={status?.state} />
+                    </td>
+                    <td style={cell}>{formatTime(status?.grantedAt)}</td>
+                    <td style={cell}>{formatTime(status?.checkedAt)}</td>
+                    <td style={cell}>
+                      <button
+                        onClick={() =>
+                          run("Controllo permessi", root, () =>
+                            checkPermissions(root)
+                          )
+                        }
+                      >
+                        Controlla
+                      </button>
+                      <button
+                        onClick={() =>
+                          run("Richiesta permesso", root, () =>
+                            requestRootPermission(root, mode)
+                          )
+                        }
+                      >
+                        Richiedi
+                      </button>
+                      {mode === "read" && (
+                        <button
+                          onClick={() =>
+                            run("Rimozione handle", root, async () => {
+                              await dropRoot(root);
+                              onChange(`Handle rimosso: ${root.name}`);
+                            })
+                          }
+                        >
+                          Rimuovi handle
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      )}
+
+      <p style={{ fontSize: "small" }}>
+        Il browser conserva i permessi per sito: si tolgono dall'icona a
+        sinistra della barra degli indirizzi (Impostazioni sito) oppure da
+        chrome://settings/content/filesystem. Dopo la revoca l'handle resta in
+        IndexedDB con lo stato "da richiedere"; "Rimuovi handle" lo cancella del
+        tutto, come se l'app non avesse mai avuto accesso.
+      </p>
+
+      <h3>
+        Registro{" "}
+        <button
+          onClick={() =>
+            run("Pulizia registro permessi", null, async () =>
+              clearPermissionChanges()
+            )
+          }
+          disabled={changes.length === 0}
+        >
+          Svuota
+        </button>
+      </h3>
+      {changes.length === 0 ? (
+        <p>Nessun cambiamento registrato</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {["Quando", "Nome", "Permesso", "Da", "A"].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change, index) => (
+              <tr key={index}>
+                <td style={cell}>{formatTime(change.at)}</td>
+                <td style={cell}>{change.name}</td>
+                <td style={cell}>{MODE_LABELS[change.mode]}</td>
+                <td style={cell}>
+                  {change.from ? STATE_LABELS[change.from] : "—"}
+                </td>
+                <td style={cell}>{STATE_LABELS[change.to]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default PermissionsPanel;
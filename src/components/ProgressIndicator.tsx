@@ -0,0 +1,21 @@
+import React from "react";
+
+type ProgressIndicatorProps = {
+  label: string;
+  loaded: number;
+  total: number;
+};
+
+const ProgressIndicator: React.FC<ProgressIndicatorProps> = ({
+  label,
+  loaded,
+  total,
+}) => (
+  <div style={{ marginTop: "10px" }}>
+    {label}{" "}
+    <progress value={loaded} max={total || 1} style={{ width: "200px" }} />{" "}
+    {total > 0 ? Math.round((loaded / total) * 100) : 100}%
+  </div>
+);
+
+export default ProgressIndicator;
@@ -0,0 +1,144 @@
+import React from "react";
+import { joinPath } from "../storage/backend";
+import { RestorePlan } from "../storage/backup";
+import { OPFS_ROOT } from "../storage/opfs";
+import { formatAddress } from "../storage/paths";
+
+type RestorePreviewProps = {
+  plan: RestorePlan;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const formatExpires = (expires: number | null) =>
+  expires ? new Date(expires).toLocaleString() : "nessuna";
+
+const RestorePreview: React.FC<RestorePreviewProps> = ({
+  plan,
+  onConfirm,
+  onCancel,
+}) => {
+  const overwritten = plan.files.filter((file) => file.status === "overwrite");
+  const skipped = plan.files.filter((file) => file.status === "skipped");
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        width: "100%",
+        height: "100%",
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: "rgb(26, 27, 25)",
+          padding: "20px",
+          borderRadius: "8px",
+          width: "500px",
+          maxHeight: "80%",
+          overflowY: "auto",
+          textAlign: "left",
+        }}
+      >
+        <h3>Anteprima del ripristino</h3>
+        <p>
+          {plan.files.length - skipped.length} file da ripristinare, di cui{" "}
+          {overwritten.length} già esistenti.
+        </p>
+
+        <h4>Bucket</h4>
+        <ul>
+          {plan.buckets.map((bucket) => (
+            <li key={bucket.name}>
+              {bucket.name}:{" "}
+              {bucket.exists
+                ? "esiste già, opzioni invariate"
+                : `verrà creato (durabilità ${bucket.durability}, quota ${
+                    bucket.quota ?? "predefinita"
+                  }, scadenza ${formatExpires(bucket.expires)})`}
+            </li>
+          ))}
+        </ul>
+
+        {overwritten.length > 0 && (
+          <>
+            <h4>File che verranno sovrascritti</h4>
+            <ul>
+              {overwritten.map((file) => (
+                <li key={joinPath(file.bucket, file.path)}>
+                  {joinPath(file.bucket, file.path)}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {skipped.length > 0 && (
+          <>
+            <h4>
+              File saltati (bucket assente dal manifest o riservato, oppure
+              area cifrata con un'altra chiave)
+            </h4>
+            <ul>
+              {skipped.map((file) => {
+                // Della radice si saltano solo i file delle aree in
+                // conflitto: gli altri sono di bucket, anche di uno chiamato
+                // "root", e l'indirizzo non li confonde con la radice
+                const root =
+                  file.area !== undefined && file.bucket === OPFS_ROOT;
+                const address = formatAddress({
+                  bucket: root ? null : file.bucket,
+                  path: file.path,
+                });
+                return <li key={address}>{address}</li>;
+              })}
+            </ul>
+          </>
+        )}
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            marginTop: "15px",
+          }}
+        >
+          <button
+            onClick={onConfirm}
+            style={{
+              backgroundColor: "#4CAF50",
+              color: "white",
+              padding: "8px 12px",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            Ripristina
+          </button>
+          <button
+            onClick={onCancel}
+            style={{
+              backgroundColor: "#f44336",
+              color: "white",
+              padding: "8px 12px",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            Annulla
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestorePreview;
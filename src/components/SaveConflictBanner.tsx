@@ -0,0 +1,30 @@
+import React from "react";
+
+type SaveConflictBannerProps = {
+  onOverwrite: () => void;
+  onReload: () => void;
+  onCancel: () => void;
+};
+
+const SaveConflictBanner: React.FC<SaveConflictBannerProps> = ({
+  onOverwrite,
+  onReload,
+  onCancel,
+}) => (
+  <div
+    style={{
+      marginTop: "10px",
+      padding: "8px",
+      border: "1px solid #f44336",
+      color: "#f44336",
+    }}
+  >
+    ⚠️ Il file è stato salvato altrove dopo che l'hai aperto: salvando ora
+    perderesti quelle modifiche.{" "}
+    <button onClick={onOverwrite}>Sovrascrivi</button>
+    <button onClick={onReload}>Ricarica</button>
+    <button onClick={onCancel}>Annulla</button>
+  </div>
+);
+
+export default SaveConflictBanner;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { SearchQuery, SearchResult } from "../storage/search";
+import { IndexStatus, SearchScope } from "../workers/searchProtocol";
+import { getSearchClient } from "../workers/searchClient";
+
+// Ricerca e indice riguardano tutte le radici: nel registro non hanno un
+// percorso né un backend
+const target = (operation: string) => ({ operation, path: "", backend: "" });
+
+type SearchPanelProps = {
+  scope: SearchScope;
+  indexable: boolean; // L'indice copre solo OPFS e bucket
+  onOpen: (path: string) => void;
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  scope,
+  indexable,
+  onOpen,
+}) => {
+  const [query, setQuery] = useState<SearchQuery>({
+    name: "",
+    nameMode: "glob",
+    text: "",
+    textMode: "plain",
+    caseSensitive: false,
+  });
+  const [useIndex, setUseIndex] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const { status, setMessage, report } = useStatus();
+  const [index, setIndex] = useState<IndexStatus | null>(null);
+  const [searching, setSearching] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // Annulla la ricerca in corso quando il pannello si chiude
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  useEffect(() => {
+    if (!indexable) return;
+    report(target("Stato indice"), () => getSearchClient().indexStatus()).then(
+      (summary) => {
+        if (!summary) return;
+        setIndex(summary.index);
+        setUseIndex(summary.index.enabled);
+      }
+    );
+  }, [indexable, report]);
+
+  const update = (changes: Partial<SearchQuery>) =>
+    setQuery((prev) => ({ ...prev, ...changes }));
+
+  const run = async () => {
+    cancelRef.current?.();
+    setResults([]);
+    setMessage("Ricerca in corso…");
+    setSearching(true);
+    const search = getSearchClient().search(query, scope, {
+      useIndex: indexable && useIndex,
+      onResult: (result) => setResults((prev) => [...prev, result]),
+      onProgress: (scanned) =>
+        setMessage(`Ricerca in corso… ${scanned} elementi esaminati`),
+    });
+    cancelRef.current = search.cancel;
+    await report(target("Ricerca"), async () => {
+      try {
+        const summary = await search.done;
+        setMessage(`Ricerca completata: ${summary.scanned} elementi esaminati`);
+        if (indexable) setIndex(summary.index);
+      } catch (error) {
+        if ((error as DOMException).name !== "AbortError") throw error;
+        setMessage("Ricerca annullata");
+      }
+    });
+    if (cancelRef.current === search.cancel) {
+      cancelRef.current = null;
+      setSearching(false);
+    }
+  };
+
+  const rebuildIndex = () =>
+    report(target("Costruzione indice"), async () => {
+      setMessage("Costruzione dell'indice…");
+      const summary = await getSearchClient().rebuildIndex((scanned) =>
+        setMessage(`Costruzione dell'indice… ${scanned} elementi`)
+      );
+      setIndex(summary.index);
+      setUseIndex(true);
+      setMessage(`Indice costruito: ${summary.index.files} file`);
+    });
+
+  const disableIndex = () =>
+    report(target("Eliminazione indice"), async () => {
+      const summary = await getSearchClient().disableIndex();
+      setIndex(summary.index);
+      setUseIndex(false);
+      setMessage("Indice eliminato");
+    });
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>Cerca</h2>
+      <div>
+        <input
+          placeholder="Nome (es. *.txt, src/**/*.ts)"
+          value={query.name}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+        <select
+          value={query.nameMode}
+          onChange={(e) =>
+            update({ nameMode: e.target.value as SearchQuery["nameMode"] })
+          }
+        >
+          <option value="glob">glob</option>
+          <option value="regex">regex</option>
+        </select>{" "}
+        <input
+          placeholder="Testo contenuto nei file"
+          value={query.text}
+          onChange={(e) => update({ text: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && run()}
+        />
+        <select
+          value={query.textMode}
+          onChange={(e) =>
+            update({ textMode: e.target.value as SearchQuery["textMode"] })
+          }
+        >
+          <option value="plain">testo</option>
+          <option value="regex">regex</option>
+        </select>{" "}
+        <label>
+          <input
+            type="checkbox"
+            checked={query.caseSensitive}
+            onChange={(e) => update({ caseSensitive: e.target.checked })}
+          />
+          Maiuscole/minuscole
+        </label>
+      </div>
+
+      <div style={{ marginTop: "5px" }}>
+        <button onClick={run}>Cerca</button>
+        <button onClick={() => cancelRef.current?.()} disabled={!searching}>
+          Annulla
+        </button>
+        {indexable && (
+          <>
+            <label>
+              <input
+                type="checkbox"
+                checked={useIndex}
+                disabled={!index?.enabled}
+                onChange={(e) => setUseIndex(e.target.checked)}
+              />
+              Usa indice
+              {index?.enabled && ` (${index.files} file)`}
+            </label>{" "}
+            <button onClick={rebuildIndex}>
+              {index?.enabled ? "Ricostruisci indice" : "Crea indice"}
+            </button>
+            {index?.enabled && (
+              <button onClick={disableIndex}>Elimina indice</button>
+            )}
+          </>
+        )}
+      </div>
+
+      <StatusMessage status={status} />
+
+      <ul style={{ listStyle: "none", padding: 0 }}>
+        {results.map((result) => (
+          <li key={result.path} style={{ marginBottom: "8px" }}>
+            {result.kind === "file" ? "📄" : "📁"} {result.path}{" "}
+            {result.kind === "file" && (
+              <button onClick={() => onOpen(result.path)}>Apri</button>
+            )}
+            {result.matches.map((match) => (
+              <div
+                key={match.line}
+                style={{ fontFamily: "monospace", paddingLeft: "24px" }}
+              >
+                {match.line}: {match.preview}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SearchPanel;
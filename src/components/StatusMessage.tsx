@@ -0,0 +1,30 @@
+import React from "react";
+import { ERROR_CATEGORIES } from "../storage/errors";
+import { Status } from "./useStatus";
+
+const StatusMessage: React.FC<{ status: Status | null }> = ({ status }) => {
+  if (!status) return null;
+  if (status.kind === "info") {
+    return <p style={{ marginTop: "10px", color: "#4caf50" }}>{status.text}</p>;
+  }
+  const { error } = status;
+  return (
+    <div
+      role="alert"
+      style={{
+        marginTop: "10px",
+        padding: "8px",
+        border: "1px solid #f44336",
+        color: "#f44336",
+      }}
+    >
+      <strong>{ERROR_CATEGORIES[error.category].title}:</strong> {error.message}
+      <p style={{ margin: "4px 0" }}>{error.explanation}</p>
+      <p style={{ margin: 0, fontSize: "small" }}>
+        Suggerimento: {error.suggestion}
+      </p>
+    </div>
+  );
+};
+
+export default StatusMessage;
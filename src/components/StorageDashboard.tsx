@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { getOPFSBackend, opfsBackendId } from "../storage/opfs";
+import {
+  StorageUsage,
+  directorySizes,
+  formatBytes,
+  readStorageUsage,
+  requestPersistence,
+} from "../storage/usage";
+import { splitPath } from "../storage/backend";
+
+const LEVEL_COLORS: Record<StorageUsage["level"], string> = {
+  ok: "inherit",
+  warning: "#ff9800",
+  full: "#f44336",
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const StorageDashboard: React.FC = () => {
+  const [usage, setUsage] = useState<StorageUsage[]>([]);
+  const [sizes, setSizes] = useState<{
+    name: string;
+    directories: [string, number][];
+  } | null>(null);
+  const { status, report } = useStatus();
+
+  // Operazione sulla radice OPFS o su un bucket
+  const target = (operation: string, name: string) => ({
+    operation,
+    path: name,
+    backend: opfsBackendId(name),
+  });
+
+  const load = useCallback(async () => {
+    const loaded = await report(
+      { operation: "Lettura spazio", path: "", backend: "" },
+      () => readStorageUsage()
+    );
+    if (loaded) setUsage(loaded);
+  }, [report]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const persist = async (name: string) => {
+    const granted = await report(target("Persistenza", name), async () => {
+      if (!(await requestPersistence(name))) {
+        throw new DOMException(
+          `Persistenza negata dal browser per ${name}`,
+          "NotAllowedError"
+        );
+      }
+      return true;
+    });
+    if (granted) await load();
+  };
+
+  const showSizes = async (name: string) => {
+    const totals = await report(target("Calcolo dimensioni", name), () =>
+      directorySizes(getOPFSBackend(name))
+    );
+    if (!totals) return;
+    setSizes({
+      name,
+      directories: [...totals].sort(([a], [b]) => a.localeCompare(b)),
+    });
+  };
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Spazio di archiviazione <button onClick={load}>Aggiorna</button>
+      </h2>
+      <StatusMessage status={status} />
+
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            {[
+              "Nome",
+              "Uso",
+              "Quota",
+              "Disponibile",
+              "Persistente",
+              "Durabilità",
+              "Scadenza",
+              "",
+            ].map((title) => (
+              <th key={title} style={cell}>
+                {title}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {usage.map((entry) => (
+            <tr key={entry.name} style={{ color: LEVEL_COLORS[entry.level] }}>
+              <td style={cell}>{entry.name}</td>
+              <td style={cell}>
+                {formatBytes(entry.usage)}
+                {entry.level === "warning" && " ⚠️ quasi pieno"}
+                {entry.level === "full" && " ⛔ pieno"}
+              </td>
+              <td style={cell}>
+                {entry.quota === undefined ? "—" : formatBytes(entry.quota)}
+              </td>
+              <td style={cell}>
+                {entry.remaining === undefined
+                  ? "—"
+                  : formatBytes(entry.remaining)}
+              </td>
+              <td style={cell}>{entry.persisted ? "sì" : "no"}</td>
+              <td style={cell}>{entry.durability ?? "—"}</td>
+              <td style={cell}>
+                {entry.expires ? new Date(entry.expires).toLocaleString() : "—"}
+              </td>
+              <td style={cell}>
+                {!entry.persisted && (
+                  <button onClick={() => persist(entry.name)}>
+                    Richiedi persistenza
+                  </button>
+                )}
+                <button onClick={() => showSizes(entry.name)}>
+                  Dimensioni cartelle
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {sizes && (
+        <div style={{ marginTop: "10px" }}>
+          <h3>Cartelle di {sizes.name}</h3>
+          {sizes.directories.map(([path, size]) => (
+            <div
+              key={path}
+              style={{ paddingLeft: splitPath(path).length * 20 }}
+            >
+              📁 {path.split("/").pop() || sizes.name}: {formatBytes(size)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageDashboard;
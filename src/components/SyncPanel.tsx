@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import ProgressIndicator from "./ProgressIndicator";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { StorageBackend } from "../storage/backend";
+import { requireOutsideAreas } from "../storage/encryption";
+import { ERROR_CATEGORIES, classifyError } from "../storage/errors";
+import { OPFS_ROOT, resolveOPFSPath } from "../storage/opfs";
+import { backendOfAddress } from "../storage/paths";
+import {
+  SyncAction,
+  SyncConflictPolicy,
+  SyncMode,
+  SyncPair,
+  SyncPlan,
+  SyncResult,
+  applySync,
+  planSync,
+} from "../storage/sync";
+import { trackUpdated } from "../workers/appChanges";
+
+type SyncPanelProps = {
+  local: StorageBackend; // Cartella scelta con showDirectoryPicker
+  onDone: (message: string) => void; // Dopo aver applicato il piano
+};
+
+const MODES: Record<SyncMode, string> = {
+  toRemote: "Specchio: disco → OPFS",
+  toLocal: "Specchio: OPFS → disco",
+  twoWay: "Bidirezionale",
+};
+
+const POLICIES: Record<SyncConflictPolicy, string> = {
+  skip: "Lascia irrisolti",
+  local: "Vince il disco",
+  remote: "Vince OPFS",
+  newer: "Vince il più recente",
+  keepBoth: "Tieni entrambi",
+};
+
+const SIDES = { local: "disco", remote: "OPFS" };
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const describe = (action: SyncAction): string => {
+  switch (action.type) {
+    case "copy":
+      return `${action.kind === "directory" ? "Crea" : "Copia"} da ${
+        SIDES[action.from]
+      }`;
+    case "delete":
+      return `Elimina da ${SIDES[action.side]}`;
+    case "keepBoth":
+      return `Tieni entrambi, la versione di OPFS come ${action.copyPath}`;
+    case "skip":
+      return "Conflitto irrisolto";
+  }
+};
+
+/**
+ * Sincronizza la cartella aperta con una cartella di OPFS o di un bucket,
+ * indicata come nell'albero OPFS ("root/..." o "<bucket>/..."). Il piano si
+ * vede sempre prima di applicarlo.
+ */
+const SyncPanel: React.FC<SyncPanelProps> = ({ local, onDone }) => {
+  const [target, setTarget] = useState(`${OPFS_ROOT}/${local.label}`);
+  const [mode, setMode] = useState<SyncMode>("twoWay");
+  const [conflict, setConflict] = useState<SyncConflictPolicy>("skip");
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const { status, setMessage, clear, report } = useStatus();
+  const [failed, setFailed] = useState<SyncResult["failed"]>([]);
+  const [progress, setProgress] = useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+
+  // I file si copiano come sono: in un'area cifrata resterebbero in chiaro
+  const pair = (): SyncPair => {
+    requireOutsideAreas(target);
+    return {
+      local: { backend: local, path: "" },
+      remote: resolveOPFSPath(target),
+    };
+  };
+
+  // Confronto e sincronizzazione finiscono nel registro delle operazioni
+  const run = async (operation: string, action: () => Promise<void>) => {
+    setFailed([]);
+    await report(
+      { operation, path: target, backend: backendOfAddress(target) },
+      action
+    );
+    setProgress(null);
+  };
+
+  const preview = () =>
+    run("Confronto sincronizzazione", async () => {
+      setMessage("Confronto in corso...");
+      const planned = await planSync(pair(), { mode, conflict });
+      setPlan(planned);
+      if (planned.actions.length === 0) {
+        setMessage("Le due cartelle sono già allineate");
+      } else clear();
+    });
+
+  const apply = () =>
+    run("Sincronizzazione", async () => {
+      if (!plan) return;
+      const result = await applySync(pair(), plan, (loaded, total) =>
+        setProgress({ loaded, total })
+      );
+      setPlan(null);
+      if (mode !== "toLocal") trackUpdated([target]);
+      setFailed(result.failed);
+      onDone(`Sincronizzazione completata: ${result.applied} operazioni`);
+    });
+
+  // Il piano vale solo per le scelte con cui è stato calcolato
+  const reset = () => setPlan(null);
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>Sincronizzazione con OPFS</h2>
+      <div>
+        <input
+          value={target}
+          placeholder="root/cartella oppure bucket/cartella"
+          onChange={(e) => {
+            setTarget(e.target.value);
+            reset();
+          }}
+        />{" "}
+        <select
+          value={mode}
+          onChange={(e) => {
+            setMode(e.target.value as SyncMode);
+            reset();
+          }}
+        >
+          {Object.entries(MODES).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>{" "}
+        <select
+          value={conflict}
+          disabled={mode !== "twoWay"}
+          onChange={(e) => {
+            setConflict(e.target.value as SyncConflictPolicy);
+            reset();
+          }}
+        >
+          {Object.entries(POLICIES).map(([value, label]) => (
+            <option key={value} value={value}>
+              Conflitti: {label}
+            </option>
+          ))}
+        </select>{" "}
+        <button onClick={preview}>Anteprima</button>
+        <button
+          onClick={apply}
+          disabled={!plan || plan.actions.length === 0 || !!progress}
+        >
+          Applica
+        </button>
+      </div>
+      <StatusMessage status={status} />
+      {failed.length > 0 && (
+        <div style={{ color: "#f44336" }}>
+          Operazioni non riuscite:
+          <ul>
+            {failed.map(({ path, error }) => {
+              const { category, message } = classifyError(error);
+              return (
+                <li key={path}>
+                  {path}: {ERROR_CATEGORIES[category].title} ({message})
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      {progress && <ProgressIndicator label="Sincronizzazione" {...progress} />}
+
+      {plan && plan.actions.length > 0 && (
+        <table style={{ borderCollapse: "collapse", marginTop: "10px" }}>
+          <thead>
+            <tr>
+              {["Percorso", "Azione", ""].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {plan.actions.map((action, index) => (
+              <tr key={index}>
+                <td style={cell}>{action.path}</td>
+                <td style={cell}>{describe(action)}</td>
+                <td style={{ ...cell, color: "#ff9800" }}>
+                  {(action.type === "keepBoth" ||
+                    action.type === "skip" ||
+                    action.conflict) &&
+                    "conflitto"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
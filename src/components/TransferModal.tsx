@@ -0,0 +1,69 @@
+import React from "react";
+import Modal from "./Modal";
+import { joinPath } from "../storage/backend";
+import { ConflictPolicy } from "../storage/transfer";
+import { parentPath } from "../storage/tree";
+
+export type TransferMode = "rename" | "move" | "copy";
+
+type TransferModalProps = {
+  mode: TransferMode;
+  source: string; // Percorso completo nell'albero
+  destinationPlaceholder: string;
+  onConfirm: (destination: string, conflict: ConflictPolicy) => void;
+  onCancel: () => void;
+};
+
+const CONFLICT_OPTIONS: Record<string, ConflictPolicy> = {
+  Salta: "skip",
+  Sovrascrivi: "overwrite",
+  "Mantieni entrambi": "keepBoth",
+};
+
+const TITLES: Record<TransferMode, string> = {
+  rename: "Rinomina",
+  move: "Sposta",
+  copy: "Copia",
+};
+
+const TransferModal: React.FC<TransferModalProps> = ({
+  mode,
+  source,
+  destinationPlaceholder,
+  onConfirm,
+  onCancel,
+}) => (
+  <Modal
+    title={`${TITLES[mode]} ${source}`}
+    placeholder=""
+    fields={[
+      mode === "rename"
+        ? {
+            name: "Nuovo nome",
+            type: "text",
+            placeholder: source.split("/").pop(),
+          }
+        : {
+            name: "Destinazione",
+            type: "text",
+            placeholder: destinationPlaceholder,
+          },
+      {
+        name: "Se esiste già",
+        type: "select",
+        options: Object.keys(CONFLICT_OPTIONS), // Nessuna selezione = salta
+      },
+    ]}
+    onConfirm={(values) =>
+      onConfirm(
+        mode === "rename"
+          ? joinPath(parentPath(source), values["Nuovo nome"] ?? "")
+          : (values.Destinazione ?? ""),
+        CONFLICT_OPTIONS[values["Se esiste già"]] ?? "skip"
+      )
+    }
+    onCancel={onCancel}
+  />
+);
+
+export default TransferModal;
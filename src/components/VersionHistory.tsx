@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from "react";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import { DiffLine, diffLines } from "../storage/diff";
+import {
+  FileVersion,
+  HISTORY_BUCKET,
+  RetentionPolicy,
+  deleteVersion,
+  listVersions,
+  loadRetention,
+  pruneHistory,
+  readVersion,
+  saveRetention,
+} from "../storage/history";
+import { opfsBackendId } from "../storage/opfs";
+import { formatBytes } from "../storage/usage";
+
+type VersionHistoryProps = {
+  historyKey: string; // Chiave del file nella cronologia
+  current: File; // Ricarica l'elenco dopo ogni salvataggio
+  onRestore?: (version: File) => void; // Assente se il file è in sola lettura
+  decode?: (version: File) => Promise<File>; // Per i file di un'area cifrata
+};
+
+const CURRENT = "attuale";
+
+const DIFF_COLORS: Record<DiffLine["type"], [string, string]> = {
+  same: [" ", "inherit"],
+  added: ["+", "#4caf50"],
+  removed: ["-", "#f44336"],
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+const parseLimit = (value: string) =>
+  value === "" ? undefined : Math.max(0, parseInt(value, 10));
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  historyKey,
+  current,
+  onRestore,
+  decode = async (version) => version,
+}) => {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [compare, setCompare] = useState<[string, string]>([CURRENT, CURRENT]);
+  const [diff, setDiff] = useState<DiffLine[] | null>(null);
+  const [retention, setRetention] = useState<RetentionPolicy>(loadRetention);
+  const { status, setMessage, clear, report } = useStatus();
+
+  // Le operazioni sulla cronologia finiscono nel registro con la chiave del
+  // file e il bucket delle versioni
+  const run = useCallback(
+    (operation: string, action: () => Promise<unknown>) =>
+      report(
+        {
+          operation,
+          path: historyKey,
+          backend: opfsBackendId(HISTORY_BUCKET),
+        },
+        action
+      ),
+    [historyKey, report]
+  );
+
+  const load = useCallback(
+    () =>
+      run("Lettura versioni", async () => {
+        const list = await listVersions(historyKey);
+        setVersions(list);
+        setCompare([list[0]?.id ?? CURRENT, CURRENT]);
+      }),
+    [historyKey, run]
+  );
+
+  useEffect(() => {
+    setDiff(null);
+    load();
+  }, [load, current]);
+
+  const contentOf = async (id: string) =>
+    (id === CURRENT
+      ? current
+      : await decode(await readVersion(historyKey, id))
+    ).text();
+
+  const showDiff = () =>
+    run("Confronto versioni", async () => {
+      const [before, after] = await Promise.all(compare.map(contentOf));
+      setDiff(diffLines(before, after));
+      clear();
+    });
+
+  const applyRetention = () =>
+    run("Conservazione versioni", async () => {
+      saveRetention(retention);
+      const removed = await pruneHistory(retention);
+      setMessage(`Conservazione applicata: ${removed} versioni eliminate`);
+      await load();
+    });
+
+  const label = (id: string) =>
+    id === CURRENT ? "Versione attuale" : new Date(Number(id)).toLocaleString();
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Versioni <button onClick={load}>Aggiorna</button>
+      </h2>
+      <StatusMessage status={status} />
+
+      {versions.length === 0 ? (
+        <p>Nessuna versione precedente</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {["Sostituita il", "Dimensione", ""].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map((version) => (
+              <tr key={version.id}>
+                <td style={cell}>{label(version.id)}</td>
+                <td style={cell}>{formatBytes(version.size)}</td>
+                <td style={cell}>
+                  {onRestore && (
+                    <button
+                      onClick={() =>
+                        run("Ripristino versione", async () =>
+                          onRestore(
+                            await decode(
+                              await readVersion(historyKey, version.id)
+                            )
+                          )
+                        )
+                      }
+                    >
+                      Ripristina
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      run("Eliminazione versione", async () => {
+                        await deleteVersion(historyKey, version.id);
+                        await load();
+                      })
+                    }
+                  >
+                    Elimina
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ marginTop: "10px" }}>
+        Confronta{" "}
+        {compare.map((selected, side) => (
+          <select
+            key={side}
+            value={selected}
+            onChange={(e) =>
+              setCompare((prev) =>
+                side === 0
+                  ? [e.target.value, prev[1]]
+                  : [prev[0], e.target.value]
+              )
+            }
+          >
+            {[CURRENT, ...versions.map((version) => version.id)].map((id) => (
+              <option key={id} value={id}>
+                {label(id)}
+              </option>
+            ))}
+          </select>
+        ))}{" "}
+        <button onClick={showDiff}>Confronta</button>
+      </div>
+      {diff && (
+        <pre
+          style={{
+            maxHeight: "400px",
+            overflow: "auto",
+            padding: "10px",
+            fontSize: "13px",
+            backgroundColor: "#1a1a1a",
+            border: "1px solid #646cff",
+            borderRadius: "4px",
+          }}
+        >
+          {diff.length === 0 || diff.every((line) => line.type === "same")
+            ? "Nessuna differenza"
+            : diff.map((line, index) => {
+                const [sign, color] = DIFF_COLORS[line.type];
+                return (
+                  <div key={index} style={{ color }}>
+                    {sign} {line.text}
+                  </div>
+                );
+              })}
+        </pre>
+      )}
+
+      <div style={{ marginTop: "10px" }}>
+        Conserva al massimo{" "}
+        <input
+          type="number"
+          min={0}
+          placeholder="versioni per file"
+          value={retention.maxVersions ?? ""}
+          onChange={(e) =>
+            setRetention((prev) => ({
+              ...prev,
+              maxVersions: parseLimit(e.target.value),
+            }))
+          }
+        />{" "}
+        <input
+          type="number"
+          min={0}
+          placeholder="giorni"
+          value={retention.maxAgeDays ?? ""}
+          onChange={(e) =>
+            setRetention((prev) => ({
+              ...prev,
+              maxAgeDays: parseLimit(e.target.value),
+            }))
+          }
+        />{" "}
+        <input
+          type="number"
+          min={0}
+          placeholder="byte in totale"
+          value={retention.maxBytes ?? ""}
+          onChange={(e) =>
+            setRetention((prev) => ({
+              ...prev,
+              maxBytes: parseLimit(e.target.value),
+            }))
+          }
+        />{" "}
+        <button onClick={applyRetention}>Applica</button>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
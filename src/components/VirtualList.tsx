@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+
+type VirtualListProps<T> = {
+  items: T[];
+  rowHeight: number;
+  height: number; // Altezza massima della lista in pixel
+  overscan?: number; // Righe extra renderizzate sopra e sotto l'area visibile
+  getKey: (item: T) => string;
+  renderRow: (item: T) => React.ReactNode;
+};
+
+// Lista a righe di altezza fissa che monta solo le righe visibili
+const VirtualList = <T,>({
+  items,
+  rowHeight,
+  height,
+  overscan = 10,
+  getKey,
+  renderRow,
+}: VirtualListProps<T>) => {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const totalHeight = items.length * rowHeight;
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(
+    items.length,
+    Math.ceil((scrollTop + height) / rowHeight) + overscan
+  );
+
+  return (
+    <div
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      style={{
+        height: Math.min(height, totalHeight),
+        overflowY: "auto",
+        position: "relative",
+      }}
+    >
+      <div style={{ height: totalHeight, position: "relative" }}>
+        {items.slice(first, last).map((item, index) => (
+          <div
+            key={getKey(item)}
+            style={{
+              position: "absolute",
+              top: (first + index) * rowHeight,
+              height: rowHeight,
+              left: 0,
+              right: 0,
+              display: "flex",
+              alignItems: "center",
+              whiteSpace: "nowrap",
+            }}
+          >
+            {renderRow(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from "react";
+import Modal from "./Modal";
+import StatusMessage from "./StatusMessage";
+import { useStatus } from "./useStatus";
+import {
+  RootPermissions,
+  WorkspaceRoot,
+  addRoots,
+  renameRoot,
+  rootBackendId,
+} from "../storage/workspace";
+import {
+  checkPermissions,
+  dropRoot,
+  requestRootPermission,
+} from "../storage/permissions";
+
+type WorkspacePanelProps = {
+  roots: WorkspaceRoot[];
+  active: string | null; // Id della radice mostrata nell'albero
+  onOpen: (root: WorkspaceRoot) => void;
+  onChange: (message: string) => void; // Dopo ogni modifica alle radici
+};
+
+const PERMISSION_LABELS: Record<PermissionState, [string, string]> = {
+  granted: ["concesso", "#4caf50"],
+  prompt: ["da richiedere", "#ff9800"],
+  denied: ["negato", "#f44336"],
+};
+
+const cell: React.CSSProperties = {
+  padding: "4px 8px",
+  borderBottom: "1px solid #555",
+};
+
+export const Permission: React.FC<{ state?: PermissionState }> = ({
+  state,
+}) => {
+  if (!state) return <>…</>;
+  const [label, color] = PERMISSION_LABELS[state];
+  return <span style={{ color }}>{label}</span>;
+};
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
+  roots,
+  active,
+  onOpen,
+  onChange,
+}) => {
+  const [permissions, setPermissions] = useState<
+    Record<string, RootPermissions>
+  >({});
+  const [renaming, setRenaming] = useState<WorkspaceRoot | null>(null);
+  const { status, report } = useStatus();
+
+  const loadPermissions = useCallback(async () => {
+    const entries = await Promise.all(
+      roots.map(async (root) => [root.id, await checkPermissions(root)])
+    );
+    setPermissions(Object.fromEntries(entries));
+  }, [roots]);
+
+  useEffect(() => {
+    report(
+      { operation: "Controllo permessi", path: "", backend: "" },
+      loadPermissions
+    );
+  }, [loadPermissions, report]);
+
+  // Le operazioni sulle radici finiscono nel registro delle operazioni; senza
+  // `root` riguardano una radice ancora da scegliere
+  const run = async (
+    operation: string,
+    root: WorkspaceRoot | null,
+    action: () => Promise<string | void>
+  ) => {
+    const target = {
+      operation,
+      path: root?.name ?? "",
+      backend: root ? rootBackendId(root) : "",
+    };
+    const message = await report(target, async () => {
+      try {
+        const message = await action();
+        await loadPermissions();
+        return message;
+      } catch (error) {
+        // Chiudere il picker senza scegliere nulla non è un errore
+        if ((error as DOMException).name !== "AbortError") throw error;
+      }
+    });
+    if (message) onChange(message);
+  };
+
+  const addDirectory = () =>
+    run("Aggiunta cartella", null, async () => {
+      const [root] = await addRoots([await window.showDirectoryPicker()]);
+      onOpen(root);
+      return `Cartella aggiunta: ${root.name}`;
+    });
+
+  const addFiles = () =>
+    run("Aggiunta file", null, async () => {
+      const added = await addRoots(
+        await window.showOpenFilePicker({ multiple: true })
+      );
+      return `File aggiunti: ${added.map((root) => root.name).join(", ")}`;
+    });
+
+  const grant = (root: WorkspaceRoot, mode: FileSystemPermissionMode) =>
+    run("Richiesta permesso", root, async () => {
+      const state = (await requestRootPermission(root, mode))[mode];
+      return `Permesso di ${mode === "read" ? "lettura" : "scrittura"} ${
+        PERMISSION_LABELS[state][0]
+      }: ${root.name}`;
+    });
+
+  return (
+    <div style={{ marginTop: "20px", textAlign: "left" }}>
+      <h2>
+        Area di lavoro <button onClick={addDirectory}>Aggiungi cartella</button>
+        <button onClick={addFiles}>Aggiungi file</button>
+      </h2>
+      <StatusMessage status={status} />
+
+      {roots.length === 0 ? (
+        <p>Nessuna cartella o file nell'area di lavoro</p>
+      ) : (
+        <table style={{ borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {["Nome", "Tipo", "Lettura", "Scrittura", ""].map((title) => (
+                <th key={title} style={cell}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {roots.map((root) => {
+              const permission = permissions[root.id];
+              return (
+                <tr
+                  key={root.id}
+                  style={{ fontWeight: root.id === active ? "bold" : "normal" }}
+                >
+                  <td style={cell} title={root.handle.name}>
+                    {root.handle.kind === "directory" ? "📁" : "📄"} {root.name}
+                  </td>
+                  <td style={cell}>
+                    {root.handle.kind === "directory" ? "cartella" : "file"}
+                  </td>
+                  <td style={cell}>
+                    <Permission state={permission?.read} />
+                  </td>
+                  <td style={cell}>
+                    <Permission state={permission?.readwrite} />
+                  </td>
+                  <td style={cell}>
+                    <button onClick={() => onOpen(root)}>Apri</button>
+                    {permission && permission.read !== "granted" && (
+                      <button onClick={() => grant(root, "read")}>
+                        Concedi lettura
+                      </button>
+                    )}
+                    {permission && permission.readwrite !== "granted" && (
+                      <button onClick={() => grant(root, "readwrite")}>
+                        Concedi scrittura
+                      </button>
+                    )}
+                    <button onClick={() => setRenaming(root)}>Rinomina</button>
+                    <button
+                      onClick={() =>
+                        run("Rimozione radice", root, async () => {
+                          await dropRoot(root);
+                          return `Rimosso dall'area di lavoro: ${root.name}`;
+                        })
+                      }
+                    >
+                      Dimentica
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {renaming && (
+        <Modal
+          title={`Rinomina ${renaming.name}`}
+          placeholder=""
+          fields={[{ name: "Nome", type: "text", placeholder: renaming.name }]}
+          onConfirm={(values) => {
+            run("Rinomina radice", renaming, async () => {
+              const renamed = await renameRoot(renaming, values.Nome ?? "");
+              return `Radice rinominata: ${renamed.name}`;
+            });
+            setRenaming(null);
+          }}
+          onCancel={() => setRenaming(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
@@ -0,0 +1,113 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  FileSystemNode,
+  TreeRow,
+  flattenTree,
+  parentPath,
+  pruneTreeCache,
+} from "../storage/tree";
+
+type LazyTreeOptions = {
+  // Figli di una cartella; "" indica il primo livello dell'albero
+  loadChildren: (path: string) => Promise<FileSystemNode[]>;
+  onError?: (error: unknown, path: string) => void;
+};
+
+/**
+ * Albero caricato su richiesta: i figli di una cartella vengono letti alla
+ * prima espansione e tenuti in cache; refresh() rilegge solo la cartella
+ * interessata da una modifica invece dell'intero file system.
+ */
+export const useLazyTree = ({ loadChildren, onError }: LazyTreeOptions) => {
+  const cache = useRef(new Map<string, FileSystemNode[]>());
+  // Copia della cache per il render: cambia a ogni cartella letta
+  const [entries, setEntries] = useState(
+    () => new Map<string, FileSystemNode[]>()
+  );
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const expandedRef = useRef(expanded);
+  expandedRef.current = expanded;
+  const [loading, setLoading] = useState<Set<string>>(new Set());
+
+  // I loader cambiano a ogni render del componente: teniamo l'ultimo
+  const loaders = useRef({ loadChildren, onError });
+  loaders.current = { loadChildren, onError };
+
+  const load = useCallback(async (path: string) => {
+    setLoading((prev) => new Set(prev).add(path));
+    try {
+      const nodes = await loaders.current.loadChildren(path);
+      pruneTreeCache(cache.current, path, nodes);
+      cache.current.set(path, nodes);
+    } catch (error) {
+      cache.current.delete(path);
+      loaders.current.onError?.(error, path);
+    } finally {
+      setLoading((prev) => {
+        const next = new Set(prev);
+        next.delete(path);
+        return next;
+      });
+      setEntries(new Map(cache.current));
+    }
+  }, []);
+
+  const toggle = useCallback(
+    (path: string) => {
+      const opening = !expanded.has(path);
+      setExpanded((prev) => {
+        const next = new Set(prev);
+        if (opening) next.add(path);
+        else next.delete(path);
+        return next;
+      });
+      if (opening && !cache.current.has(path)) load(path);
+    },
+    [expanded, load]
+  );
+
+  // Rilegge la cartella in cache più vicina a `path`, risalendo se la
+  // modifica ha creato cartelle intermedie mai caricate
+  const refresh = useCallback(
+    (path: string) => {
+      let current = path;
+      while (current !== "" && !cache.current.has(current)) {
+        current = parentPath(current);
+      }
+      return load(current);
+    },
+    [load]
+  );
+
+  // Rilegge il primo livello e le cartelle aperte; le altre escono dalla
+  // cache e verranno rilette alla prossima espansione
+  const reload = useCallback(async () => {
+    for (const key of [...cache.current.keys()]) {
+      if (key !== "" && !expandedRef.current.has(key)) {
+        cache.current.delete(key);
+      }
+    }
+    await load("");
+    const openPaths = [...cache.current.keys()].filter((key) => key !== "");
+    await Promise.all(openPaths.map(load));
+  }, [load]);
+
+  // Svuota la cache e chiude le cartelle, ad esempio quando cambia il file
+  // system mostrato: i percorsi del precedente non valgono più
+  const reset = useCallback(() => {
+    cache.current.clear();
+    expandedRef.current = new Set();
+    setExpanded(expandedRef.current);
+    setEntries(new Map());
+  }, []);
+
+  // Cartelle lette almeno una volta, "" compreso: quelle da tenere aggiornate
+  const loadedPaths = useCallback(() => [...cache.current.keys()], []);
+
+  const rows = useMemo<TreeRow[]>(
+    () => flattenTree(entries.get("") ?? [], entries, expanded),
+    [entries, expanded]
+  );
+
+  return { rows, loading, toggle, refresh, reload, reset, loadedPaths };
+};
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from "react";
+import { OpenedFile } from "./FileViewer";
+import {
+  Buffers,
+  activeBuffer,
+  buffersUnder,
+  closeBuffer,
+  editBuffer,
+  hasDirty,
+  isDirty,
+  markSaved,
+  openBuffer,
+} from "../editor/buffers";
+
+const DISCARD_PROMPT = "Ci sono modifiche non salvate che andranno perse.";
+
+// Chiede conferma prima di perdere modifiche non salvate
+export const confirmDiscard = (what: string) =>
+  window.confirm(`${DISCARD_PROMPT} ${what}?`);
+
+/**
+ * File aperti nelle schede dell'editor. Avvisa con `onDirtyChange` quando
+ * cambia la presenza di modifiche non salvate e, finché ce ne sono, chiede
+ * conferma prima di chiudere o ricaricare la pagina.
+ */
+export const useOpenFiles = (onDirtyChange?: (dirty: boolean) => void) => {
+  const [state, setState] = useState<Buffers<OpenedFile>>({
+    buffers: [],
+    active: null,
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const dirty = hasDirty(state);
+  const dirtyChanged = useRef(onDirtyChange);
+  dirtyChanged.current = onDirtyChange;
+
+  useEffect(() => {
+    dirtyChanged.current?.(dirty);
+    if (!dirty) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [dirty]);
+
+  // Modifiche non salvate nei file sotto `path`: chiede se scartarle
+  const canDiscard = (path: string, what: string) =>
+    !buffersUnder(stateRef.current, path).some(isDirty) || confirmDiscard(what);
+
+  const active = activeBuffer(state);
+
+  return {
+    buffers: state.buffers,
+    active,
+    selectedFile: active?.opened ?? null,
+    text: active?.text ?? "",
+    dirty,
+    isOpen: (name: string) =>
+      stateRef.current.buffers.some((buffer) => buffer.name === name),
+    canDiscard,
+    open: (opened: OpenedFile, text: string) =>
+      setState((prev) => openBuffer(prev, opened.name, opened, text)),
+    activate: (name: string) => setState((prev) => ({ ...prev, active: name })),
+    edit: (text: string) =>
+      setState((prev) =>
+        prev.active ? editBuffer(prev, prev.active, text) : prev
+      ),
+    markSaved: (opened: OpenedFile, text: string) =>
+      setState((prev) => markSaved(prev, opened.name, opened, text)),
+    // Chiude la scheda, chiedendo conferma se ha modifiche non salvate
+    close: (name: string) => {
+      if (!canDiscard(name, `Chiudere ${name}`)) return;
+      setState((prev) => closeBuffer(prev, name));
+    },
+    // Chiude senza chiedere le schede dei file che non esistono più
+    closeUnder: (path: string) =>
+      setState((prev) =>
+        buffersUnder(prev, path).reduce(
+          (next, buffer) => closeBuffer(next, buffer.name),
+          prev
+        )
+      ),
+    closeAll: () => setState({ buffers: [], active: null }),
+  };
+};
@@ -0,0 +1,53 @@
+import { useCallback, useState } from "react";
+import { ClassifiedError, classifyError } from "../storage/errors";
+import { OperationTarget, getOperationLog } from "../storage/operationLog";
+
+export type Status =
+  { kind: "info"; text: string } | { kind: "error"; error: ClassifiedError };
+
+/**
+ * Messaggio di stato di un esploratore o di un pannello: un avviso
+ * informativo oppure l'ultimo errore, classificato con spiegazione e
+ * suggerimento.
+ */
+export const useStatus = () => {
+  const [status, setStatus] = useState<Status | null>(null);
+
+  // L'eccezione originale resta nella console; `backend` è l'id del backend
+  // su cui è avvenuta
+  const showError = useCallback(
+    (label: string, error: unknown, backend?: string) => {
+      console.error(label, error);
+      setStatus({ kind: "error", error: classifyError(error, backend) });
+    },
+    []
+  );
+
+  // Esegue l'operazione di un pannello nel registro delle operazioni: se
+  // fallisce ne mostra l'errore e restituisce undefined, se riesce toglie
+  // l'errore precedente
+  const report = useCallback(
+    async <T>(
+      target: OperationTarget,
+      action: () => Promise<T>
+    ): Promise<T | undefined> => {
+      try {
+        const result = await getOperationLog().run(target, action);
+        setStatus((current) => (current?.kind === "error" ? null : current));
+        return result;
+      } catch (error) {
+        showError(`Errore: ${target.operation}`, error, target.backend);
+        return undefined;
+      }
+    },
+    [showError]
+  );
+
+  const setMessage = useCallback(
+    (text: string) => setStatus({ kind: "info", text }),
+    []
+  );
+  const clear = useCallback(() => setStatus(null), []);
+
+  return { status, setMessage, clear, showError, report };
+};
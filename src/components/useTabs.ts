@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  EditLock,
+  TabChannel,
+  createTabChannel,
+  tryEditLock,
+  waitForEditLock,
+} from "../storage/tabs";
+import { ChangeEvent } from "../storage/watch";
+
+/**
+ * Iscrive il componente alle modifiche annunciate dalle altre schede per lo
+ * stesso `scope` e restituisce la funzione per annunciare le proprie.
+ */
+export const useTabChannel = (
+  scope: string | null,
+  onChanges: (events: ChangeEvent[]) => void
+) => {
+  const handler = useRef(onChanges);
+  handler.current = onChanges;
+  const channel = useRef<TabChannel | null>(null);
+
+  useEffect(() => {
+    if (!scope) return;
+    channel.current = createTabChannel(scope, (events) =>
+      handler.current(events)
+    );
+    return () => {
+      channel.current?.close();
+      channel.current = null;
+    };
+  }, [scope]);
+
+  return (events: ChangeEvent[]) => channel.current?.announce(events);
+};
+
+type EditLockState = "none" | "owned" | "locked" | "waiting";
+
+/**
+ * Lock di modifica per il file aperto nell'editor: se lo tiene un'altra
+ * scheda il file resta in sola lettura finché `wait()` non lo ottiene.
+ */
+export const useEditLock = (key: string | null, onAcquired?: () => void) => {
+  const [state, setState] = useState<EditLockState>("none");
+  const lock = useRef<EditLock | null>(null);
+  const waiting = useRef<AbortController | null>(null);
+  const acquired = useRef(onAcquired);
+  acquired.current = onAcquired;
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    tryEditLock(key)
+      .then((granted) => {
+        if (cancelled) return granted?.release();
+        lock.current = granted;
+        setState(granted ? "owned" : "locked");
+      })
+      .catch((error) => console.error("Errore del lock di modifica:", error));
+
+    return () => {
+      cancelled = true;
+      waiting.current?.abort();
+      lock.current?.release();
+      lock.current = null;
+      setState("none");
+    };
+  }, [key]);
+
+  const wait = async () => {
+    if (!key) return;
+    const controller = new AbortController();
+    waiting.current = controller;
+    setState("waiting");
+    try {
+      const granted = await waitForEditLock(key, controller.signal);
+      if (controller.signal.aborted) return granted.release();
+      lock.current = granted;
+      setState("owned");
+      acquired.current?.();
+    } catch (error) {
+      if ((error as DOMException).name !== "AbortError") {
+        console.error("Errore del lock di modifica:", error);
+        setState("locked");
+      }
+    }
+  };
+
+  return { locked: state === "locked" || state === "waiting", state, wait };
+};
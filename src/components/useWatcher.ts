@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react";
+import { StorageBackend, joinPath } from "../storage/backend";
+import { ChangeEvent, Watcher, watchBackend } from "../storage/watch";
+import { parentPath } from "../storage/tree";
+import { useLazyTree } from "./useLazyTree";
+
+export type WatchSource = {
+  prefix: string; // Anteposto ai percorsi degli eventi, come nell'albero
+  backend: StorageBackend;
+};
+
+// Percorsi dell'albero sotto `prefix`, resi relativi alla radice del backend
+const directoriesOf = (paths: string[], prefix: string) =>
+  paths.flatMap((path) => {
+    if (prefix === "" || path === prefix) return [path.slice(prefix.length)];
+    return path.startsWith(`${prefix}/`) ? [path.slice(prefix.length + 1)] : [];
+  });
+
+/**
+ * Segue le modifiche di più backend finché il componente è montato o finché
+ * l'elenco delle sorgenti non cambia. Gli eventi arrivano con i percorsi
+ * completi dell'albero. Senza FileSystemObserver si controllano solo le
+ * cartelle restituite da `directories`, percorsi completi dell'albero.
+ */
+export const useWatcher = (
+  sources: WatchSource[],
+  onChanges: (events: ChangeEvent[]) => void,
+  onError?: (error: unknown) => void,
+  directories?: () => string[]
+) => {
+  const [mode, setMode] = useState<Watcher["mode"] | null>(null);
+  const handlers = useRef({ onChanges, onError, directories });
+  handlers.current = { onChanges, onError, directories };
+
+  // Le sorgenti si ricreano a ogni render: contano solo i backend
+  const key = sources.map((source) => source.backend.id).join("\n");
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+
+  useEffect(() => {
+    let cancelled = false;
+    const watchers: Watcher[] = [];
+
+    for (const { prefix, backend } of sourcesRef.current) {
+      watchBackend(
+        backend,
+        (events) =>
+          handlers.current.onChanges(
+            events.map((event) => ({
+              ...event,
+              path: joinPath(prefix, event.path),
+              oldPath:
+                event.oldPath === undefined
+                  ? undefined
+                  : joinPath(prefix, event.oldPath),
+            }))
+          ),
+        {
+          onError: (error) => handlers.current.onError?.(error),
+          directories: () =>
+            directoriesOf(handlers.current.directories?.() ?? [prefix], prefix),
+        }
+      )
+        .then((watcher) => {
+          if (cancelled) watcher.stop();
+          else {
+            watchers.push(watcher);
+            setMode(watcher.mode);
+          }
+        })
+        .catch((error) => handlers.current.onError?.(error));
+    }
+
+    return () => {
+      cancelled = true;
+      watchers.forEach((watcher) => watcher.stop());
+    };
+  }, [key]);
+
+  return mode;
+};
+
+/**
+ * Aggiorna l'albero dopo delle modifiche: rilegge le cartelle che
+ * contengono gli elementi cambiati, o tutto se il browser ha perso eventi.
+ */
+export const refreshForChanges = (
+  tree: Pick<ReturnType<typeof useLazyTree>, "refresh" | "reload">,
+  events: ChangeEvent[]
+) => {
+  if (
+    events.some(
+      (event) => event.kind === "directory" && event.type === "modified"
+    )
+  ) {
+    return tree.reload();
+  }
+  const directories = new Set<string>();
+  for (const event of events) {
+    directories.add(parentPath(event.path));
+    if (event.oldPath !== undefined) directories.add(parentPath(event.oldPath));
+  }
+  return Promise.all([...directories].map(tree.refresh));
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  Buffers,
+  activeBuffer,
+  buffersUnder,
+  closeBuffer,
+  editBuffer,
+  hasDirty,
+  isDirty,
+  markSaved,
+  openBuffer,
+} from "./buffers";
+
+const empty: Buffers<number> = { buffers: [], active: null };
+
+const openAll = (...names: string[]) =>
+  names.reduce((state, name) => openBuffer(state, name, 1, name), empty);
+
+describe("editor buffers", () => {
+  it("opens files in tabs and reuses the tab of a file already open", () => {
+    const state = openBuffer(openAll("a", "b"), "a", 2, "nuovo");
+
+    expect(state.buffers.map((buffer) => buffer.name)).toEqual(["a", "b"]);
+    expect(activeBuffer(state)).toMatchObject({ name: "a", text: "nuovo" });
+  });
+
+  it("tracks unsaved changes until the buffer is saved", () => {
+    let state = editBuffer(openAll("a", "b"), "a", "modificato");
+    expect(isDirty(state.buffers[0])).toBe(true);
+    expect(hasDirty(state)).toBe(true);
+
+    state = markSaved(state, "a", 2, "modificato");
+    expect(state.buffers[0]).toMatchObject({
+      opened: 2,
+      savedText: "modificato",
+    });
+    expect(hasDirty(state)).toBe(false);
+  });
+
+  it("stays dirty when typing continued during the save", () => {
+    let state = editBuffer(openAll("a"), "a", "uno");
+    state = editBuffer(state, "a", "uno due");
+    state = markSaved(state, "a", 1, "uno");
+
+    expect(hasDirty(state)).toBe(true);
+  });
+
+  it("activates a neighbour when the active tab closes", () => {
+    const state = { ...openAll("a", "b", "c"), active: "b" };
+
+    expect(closeBuffer(state, "b").active).toBe("c");
+    expect(closeBuffer(state, "a").active).toBe("b");
+    expect(closeBuffer(openAll("a"), "a")).toEqual(empty);
+  });
+
+  it("finds the tabs under a directory", () => {
+    const state = openAll("root/docs/a", "root/docs2/b", "root/docs/sub/c");
+
+    expect(buffersUnder(state, "root/docs").map((b) => b.name)).toEqual([
+      "root/docs/a",
+      "root/docs/sub/c",
+    ]);
+    expect(buffersUnder(state, "")).toHaveLength(3);
+  });
+});
@@ -0,0 +1,88 @@
+// File aperti nell'editor, uno per scheda. Il testo salvato resta accanto a
+// quello modificato, così si sa sempre se ci sono modifiche da salvare.
+
+export type Buffer<T> = {
+  name: string; // Percorso completo nell'albero
+  opened: T; // Il file aperto, così come lo descrive chi usa l'editor
+  text: string;
+  savedText: string;
+};
+
+export type Buffers<T> = {
+  buffers: Buffer<T>[];
+  active: string | null;
+};
+
+export const isDirty = <T>(buffer: Buffer<T>) =>
+  buffer.text !== buffer.savedText;
+
+export const hasDirty = <T>({ buffers }: Buffers<T>) => buffers.some(isDirty);
+
+export const activeBuffer = <T>({ buffers, active }: Buffers<T>) =>
+  buffers.find((buffer) => buffer.name === active) ?? null;
+
+// Apre un file in una nuova scheda o, se è già aperto, sostituisce il
+// contenuto di quella esistente
+export const openBuffer = <T>(
+  state: Buffers<T>,
+  name: string,
+  opened: T,
+  text: string
+): Buffers<T> => {
+  const buffer = { name, opened, text, savedText: text };
+  const exists = state.buffers.some((item) => item.name === name);
+  return {
+    buffers: exists
+      ? state.buffers.map((item) => (item.name === name ? buffer : item))
+      : [...state.buffers, buffer],
+    active: name,
+  };
+};
+
+const updateBuffer = <T>(
+  state: Buffers<T>,
+  name: string,
+  update: (buffer: Buffer<T>) => Buffer<T>
+): Buffers<T> => ({
+  ...state,
+  buffers: state.buffers.map((buffer) =>
+    buffer.name === name ? update(buffer) : buffer
+  ),
+});
+
+export const editBuffer = <T>(state: Buffers<T>, name: string, text: string) =>
+  updateBuffer(state, name, (buffer) => ({ ...buffer, text }));
+
+// Dopo un salvataggio: `text` è ciò che è stato scritto, che può differire
+// dal testo attuale se l'utente ha continuato a scrivere nel frattempo
+export const markSaved = <T>(
+  state: Buffers<T>,
+  name: string,
+  opened: T,
+  text: string
+) =>
+  updateBuffer(state, name, (buffer) => ({
+    ...buffer,
+    opened,
+    savedText: text,
+  }));
+
+// Chiude una scheda e attiva quella accanto
+export const closeBuffer = <T>(state: Buffers<T>, name: string): Buffers<T> => {
+  const index = state.buffers.findIndex((buffer) => buffer.name === name);
+  if (index < 0) return state;
+  const buffers = state.buffers.filter((buffer) => buffer.name !== name);
+  const active =
+    state.active === name
+      ? (buffers[Math.min(index, buffers.length - 1)]?.name ?? null)
+      : state.active;
+  return { buffers, active };
+};
+
+// Le schede dei file sotto `path`, ad esempio una cartella eliminata; ""
+// indica tutte le schede
+export const buffersUnder = <T>({ buffers }: Buffers<T>, path: string) =>
+  buffers.filter(
+    (buffer) =>
+      path === "" || buffer.name === path || buffer.name.startsWith(`${path}/`)
+  );
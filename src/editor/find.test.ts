@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { findMatches, nextMatch, replaceAll, replaceMatch } from "./find";
+
+describe("findMatches", () => {
+  it("finds plain text, ignoring case by default", () => {
+    expect(findMatches("Uno uno UNO", "uno")).toHaveLength(3);
+    expect(findMatches("Uno uno UNO", "uno", { caseSensitive: true })).toEqual([
+      { start: 4, end: 7 },
+    ]);
+  });
+
+  it("treats regex characters literally unless asked", () => {
+    expect(findMatches("a.b axb", "a.b")).toEqual([{ start: 0, end: 3 }]);
+    expect(findMatches("a.b axb", "a.b", { regex: true })).toHaveLength(2);
+  });
+
+  it("skips empty matches and rejects invalid patterns", () => {
+    expect(findMatches("baa", "a*", { regex: true })).toEqual([
+      { start: 1, end: 3 },
+    ]);
+    expect(() => findMatches("x", "(", { regex: true })).toThrow(SyntaxError);
+  });
+});
+
+describe("nextMatch", () => {
+  it("wraps around to the first match", () => {
+    const matches = findMatches("a b a b", "a");
+    expect(nextMatch(matches, 1)).toEqual({ start: 4, end: 5 });
+    expect(nextMatch(matches, 5)).toEqual({ start: 0, end: 1 });
+  });
+});
+
+describe("replace", () => {
+  it("replaces a single match", () => {
+    const text = "uno due uno";
+    const [, second] = findMatches(text, "uno");
+    expect(replaceMatch(text, second, "uno", "tre")).toBe("uno due tre");
+  });
+
+  it("uses capture groups only with regex", () => {
+    expect(
+      replaceAll("a=1, b=2", "(\\w)=(\\d)", "$2=$1", { regex: true })
+    ).toBe("1=a, 2=b");
+    expect(replaceAll("prezzo: X", "X", "$5")).toBe("prezzo: $5");
+  });
+});
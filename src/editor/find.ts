@@ -0,0 +1,74 @@
+// Trova e sostituisci dell'editor, su testo semplice o espressioni regolari.
+
+export type FindOptions = {
+  regex?: boolean;
+  caseSensitive?: boolean;
+};
+
+export type TextRange = { start: number; end: number };
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Lancia SyntaxError se `query` non è un'espressione regolare valida
+const compile = (query: string, { regex, caseSensitive }: FindOptions) =>
+  new RegExp(regex ? query : escapeRegExp(query), caseSensitive ? "g" : "gi");
+
+// Nel testo semplice "$" nella sostituzione non ha significati speciali
+const replacementFor = (replacement: string, { regex }: FindOptions) =>
+  regex ? replacement : replacement.replace(/\$/g, "$$$$");
+
+// Tutte le occorrenze, senza quelle vuote (ad esempio con la regex "a*")
+export const findMatches = (
+  text: string,
+  query: string,
+  options: FindOptions = {}
+): TextRange[] => {
+  if (!query) return [];
+  const ranges: TextRange[] = [];
+  for (const match of text.matchAll(compile(query, options))) {
+    if (match[0] === "") continue;
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+};
+
+// Prima occorrenza che inizia da `from` in poi, ricominciando dall'inizio
+export const nextMatch = (
+  matches: TextRange[],
+  from: number
+): TextRange | undefined =>
+  matches.find((match) => match.start >= from) ?? matches[0];
+
+/**
+ * Sostituisce l'occorrenza `range`; con le regex la sostituzione può usare
+ * i gruppi catturati ($1, $2, ...).
+ */
+export const replaceMatch = (
+  text: string,
+  range: TextRange,
+  query: string,
+  replacement: string,
+  options: FindOptions = {}
+): string => {
+  const matched = text.slice(range.start, range.end);
+  const pattern = compile(query, options);
+  return (
+    text.slice(0, range.start) +
+    matched.replace(pattern, replacementFor(replacement, options)) +
+    text.slice(range.end)
+  );
+};
+
+export const replaceAll = (
+  text: string,
+  query: string,
+  replacement: string,
+  options: FindOptions = {}
+): string =>
+  query
+    ? text.replace(
+        compile(query, options),
+        replacementFor(replacement, options)
+      )
+    : text;
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { HIGHLIGHT_LIMIT, Token, languageOf, tokenize } from "./highlight";
+
+const typed = (tokens: Token[]) =>
+  tokens
+    .filter((token) => token.type !== "plain")
+    .map((token) => `${token.type}:${token.text}`);
+
+describe("languageOf", () => {
+  it("picks the language from the extension", () => {
+    expect(languageOf("root/src/app.test.tsx")).toBe("javascript");
+    expect(languageOf("README.MD")).toBe("markdown");
+    expect(languageOf("docs/data.json")).toBe("json");
+    expect(languageOf("Makefile")).toBe("plain");
+  });
+});
+
+describe("tokenize", () => {
+  it("keeps the text intact", () => {
+    const text = 'const a = "x"; // commento\n/* lungo\nblocco */ let b = 42;';
+    expect(
+      tokenize(text, "javascript")
+        .map((token) => token.text)
+        .join("")
+    ).toBe(text);
+  });
+
+  it("recognizes comments, strings, keywords and numbers", () => {
+    expect(
+      typed(tokenize('const a = "x"; // fine\nreturn 0x1f;', "javascript"))
+    ).toEqual([
+      "keyword:const",
+      'string:"x"',
+      "comment:// fine",
+      "keyword:return",
+      "number:0x1f",
+    ]);
+  });
+
+  it("runs block comments and strings across lines to the end", () => {
+    expect(typed(tokenize("a /* uno\ndue */ b", "javascript"))).toEqual([
+      "comment:/* uno\ndue */",
+    ]);
+    expect(typed(tokenize("x = '''aperta\nsenza fine", "python"))).toEqual([
+      "string:'''aperta\nsenza fine",
+    ]);
+  });
+
+  it("matches markdown headings only at the start of a line", () => {
+    expect(
+      typed(tokenize("# Titolo\ntesto # no\n## Sotto", "markdown"))
+    ).toEqual(["heading:# Titolo", "heading:## Sotto"]);
+  });
+
+  it("leaves plain and very large texts uncolored", () => {
+    expect(tokenize("const a", "plain")).toEqual([
+      { type: "plain", text: "const a" },
+    ]);
+    const large = "let ".repeat(HIGHLIGHT_LIMIT / 4 + 1);
+    expect(tokenize(large, "javascript")).toHaveLength(1);
+  });
+});
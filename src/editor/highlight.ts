@@ -0,0 +1,169 @@
+// Evidenziazione della sintassi a espressioni regolari: niente analisi vera
+// del linguaggio, solo commenti, stringhe, numeri, parole chiave e tag, che
+// bastano a rendere leggibile il codice nell'editor.
+
+export type Language =
+  | "javascript"
+  | "json"
+  | "css"
+  | "html"
+  | "markdown"
+  | "python"
+  | "shell"
+  | "plain";
+
+export type TokenType =
+  "plain" | "comment" | "string" | "number" | "keyword" | "tag" | "heading";
+
+export type Token = { type: TokenType; text: string };
+
+// Oltre questa dimensione il testo si mostra senza colori: tokenizzare a
+// ogni tasto premuto renderebbe l'editor lento
+export const HIGHLIGHT_LIMIT = 256 * 1024;
+
+const EXTENSIONS: Record<string, Language> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "javascript",
+  tsx: "javascript",
+  mts: "javascript",
+  cts: "javascript",
+  json: "json",
+  css: "css",
+  html: "html",
+  htm: "html",
+  xml: "html",
+  svg: "html",
+  md: "markdown",
+  markdown: "markdown",
+  py: "python",
+  sh: "shell",
+  bash: "shell",
+};
+
+export const languageOf = (name: string): Language => {
+  const extension = name.split("/").pop()?.split(".").slice(1).pop();
+  return EXTENSIONS[extension?.toLowerCase() ?? ""] ?? "plain";
+};
+
+const words = (list: string) =>
+  new RegExp(`\\b(?:${list.split(" ").join("|")})\\b`);
+
+const NUMBER = /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/;
+const HASH_COMMENT = /#.*/;
+
+// Regole in ordine di priorità; nessuna deve avere gruppi di cattura e "$"
+// indica sempre la fine del testo, per i commenti e le stringhe non chiusi
+const RULES: Record<Language, [TokenType, RegExp][]> = {
+  javascript: [
+    ["comment", /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+    ["string", /`(?:[^`\\]|\\[\s\S])*`?/],
+    [
+      "keyword",
+      words(
+        "as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of return static super switch this throw true try type typeof undefined var void while yield"
+      ),
+    ],
+    ["number", NUMBER],
+  ],
+  json: [
+    ["string", DOUBLE_QUOTED],
+    ["keyword", words("true false null")],
+    ["number", /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/],
+  ],
+  css: [
+    ["comment", /\/\*[\s\S]*?(?:\*\/|$)/],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+    ["keyword", /@[\w-]+|!important/],
+    ["number", /-?\d*\.?\d+(?:%|[a-z]+)?/],
+    ["tag", /#[\da-fA-F]{3,8}\b/],
+  ],
+  html: [
+    ["comment", /<!--[\s\S]*?(?:-->|$)/],
+    ["tag", /<\/?[\w:-]+|\/?>/],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+  ],
+  markdown: [
+    ["heading", /(?<![^\n])#{1,6} .*/], // Solo a inizio riga
+    ["string", /```[\s\S]*?(?:```|$)|`[^`\n]*`/],
+    ["keyword", /\*\*[^*\n]+\*\*|__[^_\n]+__/],
+    ["tag", /\[[^\]\n]*\]\([^)\n]*\)/],
+  ],
+  python: [
+    ["comment", HASH_COMMENT],
+    ["string", /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)/],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+    [
+      "keyword",
+      words(
+        "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield"
+      ),
+    ],
+    ["number", NUMBER],
+  ],
+  shell: [
+    ["comment", HASH_COMMENT],
+    ["string", DOUBLE_QUOTED],
+    ["string", SINGLE_QUOTED],
+    [
+      "keyword",
+      words(
+        "case do done elif else esac export fi for function if in local return then until while"
+      ),
+    ],
+    ["tag", /\$\{[^}\n]*\}|\$\w+/],
+  ],
+  plain: [],
+};
+
+const compiled = new Map<Language, RegExp>();
+
+const patternOf = (language: Language) => {
+  let pattern = compiled.get(language);
+  if (!pattern) {
+    const sources = RULES[language].map(([, rule]) => `(${rule.source})`);
+    pattern = new RegExp(sources.join("|"), "g");
+    compiled.set(language, pattern);
+  }
+  return pattern;
+};
+
+/**
+ * Divide il testo in token consecutivi: concatenandoli si riottiene il testo
+ * originale, così l'evidenziazione resta allineata con l'area di modifica.
+ */
+export const tokenize = (text: string, language: Language): Token[] => {
+  const rules = RULES[language];
+  if (rules.length === 0 || text.length > HIGHLIGHT_LIMIT) {
+    return text ? [{ type: "plain", text }] : [];
+  }
+
+  const pattern = patternOf(language);
+  const tokens: Token[] = [];
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match[0] === "") {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > last) {
+      tokens.push({ type: "plain", text: text.slice(last, match.index) });
+    }
+    const rule = match.slice(1).findIndex((group) => group !== undefined);
+    tokens.push({ type: rules[rule][0], text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length)
+    tokens.push({ type: "plain", text: text.slice(last) });
+  return tokens;
+};
@@ -0,0 +1,147 @@
+// Tipi per le API di Chromium non ancora presenti in lib.dom.d.ts:
+// permessi e picker della File System Access API, move(), Storage Buckets e
+// FileSystemObserver.
+
+type FileSystemPermissionMode = "read" | "readwrite";
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: FileSystemPermissionMode;
+}
+
+interface FileSystemHandle {
+  queryPermission(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+  requestPermission(
+    descriptor?: FileSystemHandlePermissionDescriptor
+  ): Promise<PermissionState>;
+  // Disponibile solo in alcuni browser (OPFS in Chromium e Safari).
+  move?: {
+    (newName: string): Promise<void>;
+    (destination: FileSystemDirectoryHandle, newName?: string): Promise<void>;
+  };
+}
+
+interface FilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string | string[]>;
+}
+
+interface DirectoryPickerOptions {
+  id?: string;
+  mode?: FileSystemPermissionMode;
+  startIn?: FileSystemHandle | string;
+}
+
+interface OpenFilePickerOptions {
+  id?: string;
+  multiple?: boolean;
+  excludeAcceptAllOption?: boolean;
+  types?: FilePickerAcceptType[];
+  startIn?: FileSystemHandle | string;
+}
+
+interface SaveFilePickerOptions {
+  id?: string;
+  suggestedName?: string;
+  excludeAcceptAllOption?: boolean;
+  types?: FilePickerAcceptType[];
+  startIn?: FileSystemHandle | string;
+}
+
+interface Window {
+  showDirectoryPicker(
+    options?: DirectoryPickerOptions
+  ): Promise<FileSystemDirectoryHandle>;
+  showOpenFilePicker(
+    options?: OpenFilePickerOptions
+  ): Promise<FileSystemFileHandle[]>;
+  showSaveFilePicker?(
+    options?: SaveFilePickerOptions
+  ): Promise<FileSystemFileHandle>;
+}
+
+type StorageBucketDurability = "strict" | "relaxed";
+
+interface StorageBucketOptions {
+  persisted?: boolean;
+  durability?: StorageBucketDurability;
+  quota?: number;
+  expires?: number;
+}
+
+interface StorageBucket {
+  readonly name: string;
+  persist(): Promise<boolean>;
+  persisted(): Promise<boolean>;
+  estimate(): Promise<StorageEstimate>;
+  durability(): Promise<StorageBucketDurability>;
+  setExpires(expires: number): Promise<void>;
+  expires(): Promise<number | null>;
+  getDirectory(): Promise<FileSystemDirectoryHandle>;
+}
+
+interface StorageBucketManager {
+  open(name: string, options?: StorageBucketOptions): Promise<StorageBucket>;
+  keys(): Promise<string[]>;
+  delete(name: string): Promise<void>;
+}
+
+interface Navigator {
+  readonly storageBuckets: StorageBucketManager;
+}
+
+// FileSystemSyncAccessHandle è dichiarato solo in lib.webworker.d.ts, che non
+// può convivere con lib.dom.d.ts nello stesso progetto.
+interface FileSystemReadWriteOptions {
+  at?: number;
+}
+
+interface FileSystemSyncAccessHandle {
+  close(): void;
+  flush(): void;
+  getSize(): number;
+  read(buffer: BufferSource, options?: FileSystemReadWriteOptions): number;
+  truncate(newSize: number): void;
+  write(buffer: BufferSource, options?: FileSystemReadWriteOptions): number;
+}
+
+interface FileSystemFileHandle {
+  // Disponibile solo nei Dedicated Worker e solo per i file in OPFS
+  createSyncAccessHandle(): Promise<FileSystemSyncAccessHandle>;
+}
+
+// FileSystemObserver (Chromium 129+): notifica le modifiche sotto un handle.
+type FileSystemChangeType =
+  "appeared" | "disappeared" | "modified" | "moved" | "unknown" | "errored";
+
+interface FileSystemChangeRecord {
+  readonly root: FileSystemHandle;
+  readonly changedHandle: FileSystemHandle | null;
+  readonly relativePathComponents: string[];
+  readonly type: FileSystemChangeType;
+  readonly relativePathMovedFrom: string[] | null;
+}
+
+interface FileSystemObserverObserveOptions {
+  recursive?: boolean;
+}
+
+type FileSystemObserverCallback = (
+  records: FileSystemChangeRecord[],
+  observer: FileSystemObserver
+) => void;
+
+interface FileSystemObserver {
+  observe(
+    handle: FileSystemHandle,
+    options?: FileSystemObserverObserveOptions
+  ): Promise<void>;
+  unobserve(handle: FileSystemHandle): void;
+  disconnect(): void;
+}
+
+// Opzionale: va verificato con typeof prima dell'uso
+declare const FileSystemObserver:
+  | { new (callback: FileSystemObserverCallback): FileSystemObserver }
+  | undefined;
@@ -0,0 +1,37 @@
+export type EntryKind = "file" | "directory";
+
+export type EntryInfo = {
+  name: string;
+  path: string; // Relativo alla radice del backend, "" per la radice stessa
+  kind: EntryKind;
+  size?: number; // Solo per i file, valorizzato da stat()
+  lastModified?: number; // Solo per i file, valorizzato da stat()
+  type?: string; // MIME type, solo per i file, valorizzato da stat()
+};
+
+export type WriteData = FileSystemWriteChunkType;
+
+/**
+ * Operazioni comuni a ogni sorgente di file: la radice OPFS, uno Storage
+ * Bucket o una cartella scelta con showDirectoryPicker. I percorsi sono
+ * sempre relativi alla radice del backend e separati da "/".
+ */
+export interface StorageBackend {
+  readonly id: string;
+  readonly label: string;
+  root(): Promise<FileSystemDirectoryHandle>;
+  list(path?: string): Promise<EntryInfo[]>;
+  stat(path: string): Promise<EntryInfo>;
+  read(path: string): Promise<File>;
+  write(path: string, data: WriteData): Promise<void>;
+  createFile(path: string): Promise<void>; // Crea anche le cartelle intermedie
+  mkdir(path: string): Promise<void>; // Crea anche le cartelle intermedie
+  remove(path: string, options?: { recursive?: boolean }): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+}
+
+export const splitPath = (path: string): string[] =>
+  path.split("/").filter((part) => part !== "");
+
+export const joinPath = (...parts: string[]): string =>
+  parts.filter((part) => part !== "").join("/");
@@ -0,0 +1,290 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  BACKUP_MANIFEST,
+  OPFSBackup,
+  createBackupStream,
+  planRestore,
+  readBackup,
+  restoreBackup,
+} from "./backup";
+import { configuredQuota, createBucket } from "./buckets";
+import {
+  createKeyring,
+  decodeForPath,
+  encryptArea,
+  loadAreas,
+} from "./encryption";
+import { createMemoryEnvironment, createMemoryStorage } from "./memory";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+import { createZipStream, readZip } from "./zip";
+
+const toBlob = async (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream).blob();
+
+const readText = async (env: OPFSEnvironment, bucket: string, path: string) =>
+  (await getOPFSBackend(bucket, env).read(path)).text();
+
+describe("OPFS backup", () => {
+  let source: OPFSEnvironment;
+  let archive: Blob;
+  const expires = Date.now() + 3_600_000;
+
+  beforeEach(async () => {
+    source = createMemoryEnvironment();
+    const root = getOPFSBackend("root", source);
+    await root.mkdir("config");
+    await root.mkdir("vuota");
+    await root.write("config/app.json", "{}");
+    const registry = createMemoryStorage();
+    await createBucket(
+      "media",
+      { durability: "strict", quota: 1024, expires, persisted: true },
+      source,
+      registry
+    );
+    await getOPFSBackend("media", source).mkdir("foto");
+    await getOPFSBackend("media", source).write("foto/a.jpg", "JPEG");
+    archive = await toBlob(await createBackupStream(source, registry));
+  });
+
+  it("stores the manifest first, then the root and each bucket", async () => {
+    const paths = (await readZip(archive)).map((entry) => entry.path);
+
+    expect(paths[0]).toBe(BACKUP_MANIFEST);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        "opfs/config/app.json",
+        "opfs/vuota",
+        "buckets/media/foto/a.jpg",
+      ])
+    );
+  });
+
+  it("records bucket durability, quota, expiry and persistence", async () => {
+    const { manifest } = await readBackup(archive);
+
+    expect(manifest.buckets).toEqual([
+      {
+        name: "media",
+        durability: "strict",
+        quota: 1024,
+        expires,
+        persisted: true,
+      },
+    ]);
+  });
+
+  it("does not record the effective quota as the configured one", async () => {
+    // Creato fuori dall'app: estimate() riporta 2048, ma non è la quota scelta
+    await source.buckets.open("esterno", { quota: 2048 });
+
+    const { manifest } = await readBackup(
+      await toBlob(await createBackupStream(source, createMemoryStorage()))
+    );
+
+    expect(manifest.buckets.map((bucket) => bucket.quota)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("carries the encrypted areas, whose files stay encrypted", async () => {
+    const registry = createMemoryStorage();
+    const keyring = createKeyring();
+    await encryptArea(
+      getOPFSBackend("root", source),
+      "config",
+      { fullPath: "root/config", passphrase: "segreta" },
+      keyring,
+      registry,
+      1000,
+      source
+    );
+    const backup = await readBackup(
+      await toBlob(await createBackupStream(source, registry))
+    );
+    expect(backup.manifest.areas).toEqual(loadAreas(registry));
+
+    const target = createMemoryEnvironment();
+    const restored = createMemoryStorage();
+    await restoreBackup(backup, target, undefined, restored);
+
+    expect(loadAreas(restored)).toEqual(loadAreas(registry));
+    const file = await getOPFSBackend("root", target).read("config/app.json");
+    expect(await file.text()).not.toBe("{}");
+    expect(
+      await (
+        await decodeForPath("root/config/app.json", file, keyring, restored)
+      ).text()
+    ).toBe("{}");
+  });
+
+  it("skips files of an area encrypted here with another key", async () => {
+    const registry = createMemoryStorage();
+    await encryptArea(
+      getOPFSBackend("root", source),
+      "config",
+      { fullPath: "root/config", passphrase: "segreta" },
+      createKeyring(),
+      registry,
+      1000,
+      source
+    );
+    const backup = await readBackup(
+      await toBlob(await createBackupStream(source, registry))
+    );
+    const target = createMemoryEnvironment();
+    const local = createMemoryStorage();
+    await getOPFSBackend("root", target).mkdir("config");
+    await encryptArea(
+      getOPFSBackend("root", target),
+      "config",
+      { fullPath: "root/config", passphrase: "altra" },
+      createKeyring(),
+      local,
+      1000,
+      target
+    );
+    const areas = loadAreas(local);
+
+    expect((await planRestore(backup, target, local)).files).toContainEqual({
+      bucket: "root",
+      path: "config/app.json",
+      size: expect.any(Number),
+      status: "skipped",
+      area: "root/config",
+    });
+    expect(await restoreBackup(backup, target, undefined, local)).toEqual([
+      "opfs/config",
+      "opfs/config/app.json",
+    ]);
+    expect(loadAreas(local)).toEqual(areas);
+  });
+
+  describe("restore", () => {
+    let target: OPFSEnvironment;
+    let backup: OPFSBackup;
+
+    beforeEach(async () => {
+      target = createMemoryEnvironment();
+      backup = await readBackup(archive);
+    });
+
+    it("previews overwrites without touching the target", async () => {
+      await getOPFSBackend("root", target).createFile("config/app.json");
+      await getOPFSBackend("root", target).write("config/app.json", "vecchio");
+
+      const plan = await planRestore(backup, target, createMemoryStorage());
+
+      expect(plan.buckets).toMatchObject([{ name: "media", exists: false }]);
+      expect(plan.files).toEqual([
+        {
+          bucket: "root",
+          path: "config/app.json",
+          size: 2,
+          status: "overwrite",
+        },
+        { bucket: "media", path: "foto/a.jpg", size: 4, status: "create" },
+      ]);
+      expect(await target.buckets.keys()).toEqual([]);
+      expect(await readText(target, "root", "config/app.json")).toBe("vecchio");
+    });
+
+    it("recreates buckets with their options and restores content", async () => {
+      const progress: number[] = [];
+
+      const registry = createMemoryStorage();
+
+      await restoreBackup(
+        backup,
+        target,
+        (loaded) => progress.push(loaded),
+        registry
+      );
+
+      const bucket = await target.buckets.open("media");
+      expect(configuredQuota("media", registry)).toBe(1024);
+      expect(await bucket.durability()).toBe("strict");
+      expect((await bucket.estimate()).quota).toBe(1024);
+      expect(await bucket.expires()).toBe(expires);
+      expect(await bucket.persisted()).toBe(true);
+      expect(await readText(target, "media", "foto/a.jpg")).toBe("JPEG");
+      expect(await readText(target, "root", "config/app.json")).toBe("{}");
+      expect((await getOPFSBackend("root", target).stat("vuota")).kind).toBe(
+        "directory"
+      );
+      expect(progress).toEqual([2, 6]);
+    });
+  });
+
+  it("skips content of buckets missing from the manifest", async () => {
+    const manifest = { version: 1, createdAt: 0, buckets: [] };
+    async function* entries() {
+      yield {
+        path: BACKUP_MANIFEST,
+        kind: "file" as const,
+        read: async () => new Blob([JSON.stringify(manifest)]),
+      };
+      yield {
+        path: "buckets/ignoto/x.txt",
+        kind: "file" as const,
+        read: async () => new Blob(["X"]),
+      };
+    }
+    const backup = await readBackup(await toBlob(createZipStream(entries())));
+    const target = createMemoryEnvironment();
+    const registry = createMemoryStorage();
+
+    expect((await planRestore(backup, target, registry)).files).toEqual([
+      { bucket: "ignoto", path: "x.txt", size: 1, status: "skipped" },
+    ]);
+    expect(await restoreBackup(backup, target, undefined, registry)).toEqual([
+      "buckets/ignoto/x.txt",
+    ]);
+    expect(await target.buckets.keys()).toEqual([]);
+  });
+
+  it("never restores a bucket named root into the OPFS root", async () => {
+    const manifest = {
+      version: 1,
+      createdAt: 0,
+      buckets: [{ name: "root", durability: "relaxed", expires: null }],
+    };
+    async function* entries() {
+      yield {
+        path: BACKUP_MANIFEST,
+        kind: "file" as const,
+        read: async () => new Blob([JSON.stringify(manifest)]),
+      };
+      yield {
+        path: "buckets/root/x.txt",
+        kind: "file" as const,
+        read: async () => new Blob(["X"]),
+      };
+    }
+    const backup = await readBackup(await toBlob(createZipStream(entries())));
+    const target = createMemoryEnvironment();
+    const registry = createMemoryStorage();
+
+    const plan = await planRestore(backup, target, registry);
+    expect(plan.buckets).toEqual([]);
+    expect(plan.files).toEqual([
+      { bucket: "root", path: "x.txt", size: 1, status: "skipped" },
+    ]);
+    expect(await restoreBackup(backup, target, undefined, registry)).toEqual([
+      "buckets/root/x.txt",
+    ]);
+    expect(await target.buckets.keys()).toEqual([]);
+    await expect(
+      getOPFSBackend("root", target).stat("x.txt")
+    ).rejects.toMatchObject({ name: "NotFoundError" });
+  });
+
+  it("rejects archives without a manifest", async () => {
+    const stream = new Blob(["non è uno zip"]);
+
+    await expect(readBackup(stream)).rejects.toMatchObject({
+      name: "NotReadableError",
+    });
+  });
+});
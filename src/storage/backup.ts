@@ -0,0 +1,326 @@
+import { joinPath, splitPath } from "./backend";
+import {
+  BucketRegistry,
+  configuredQuota,
+  createBucket,
+  readExpiry,
+} from "./buckets";
+import { zipEntriesOf } from "./download";
+import {
+  EncryptedArea,
+  areaOf,
+  conflictingAreas,
+  loadAreas,
+  restoreAreas,
+} from "./encryption";
+import {
+  OPFSEnvironment,
+  OPFS_ROOT,
+  browserEnvironment,
+  getOPFSBackend,
+} from "./opfs";
+import { OPFSAddress, toTreePath } from "./paths";
+import { parentPath } from "./tree";
+import { ZipArchiveEntry, ZipEntry, createZipStream, readZip } from "./zip";
+
+// Struttura dell'archivio:
+//   opfs-backup.json     manifest con i metadati dei bucket e delle aree
+//                        cifrate, senza chiavi: i file restano cifrati
+//   opfs/...             contenuto della radice OPFS
+//   buckets/<nome>/...   contenuto di ogni bucket
+export const BACKUP_MANIFEST = "opfs-backup.json";
+export const BACKUP_VERSION = 1;
+const ROOT_FOLDER = "opfs";
+const BUCKETS_FOLDER = "buckets";
+
+export type BucketMetadata = {
+  name: string;
+  durability: StorageBucketDurability;
+  quota?: number;
+  expires: number | null; // Timestamp in millisecondi
+  persisted: boolean;
+};
+
+export type BackupManifest = {
+  version: number;
+  createdAt: number;
+  buckets: BucketMetadata[];
+  areas?: EncryptedArea[]; // Assente nei backup precedenti
+};
+
+export type OPFSBackup = {
+  manifest: BackupManifest;
+  entries: ZipArchiveEntry[]; // Senza il manifest
+};
+
+export type RestoreAction = {
+  bucket: string; // OPFS_ROOT o nome del bucket
+  path: string;
+  size: number;
+  // "skipped": il bucket non è nel manifest, o si chiama "root", e non verrà
+  // creato; oppure il file è in un'area cifrata che qui ha un'altra chiave
+  status: "create" | "overwrite" | "skipped";
+  area?: string; // L'area in conflitto, se il file è saltato per questo
+};
+
+export type RestorePlan = {
+  buckets: (BucketMetadata & { exists: boolean })[];
+  files: RestoreAction[];
+};
+
+// La quota è quella scelta alla creazione, se l'app la conosce: quella di
+// estimate() è il limite effettivo del browser e gonfierebbe il ripristino
+export const readBucketMetadata = async (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment(),
+  registry?: BucketRegistry
+): Promise<BucketMetadata> => {
+  const bucket = await env.buckets.open(name);
+  const [durability, expires, persisted] = await Promise.all([
+    bucket.durability(),
+    readExpiry(bucket),
+    bucket.persisted(),
+  ]);
+  const quota = configuredQuota(name, registry);
+  return { name, durability, quota, expires, persisted };
+};
+
+async function* backupEntries(
+  manifest: BackupManifest,
+  env: OPFSEnvironment
+): AsyncGenerator<ZipEntry> {
+  const json = JSON.stringify(manifest, null, 2);
+  yield {
+    path: BACKUP_MANIFEST,
+    kind: "file",
+    read: async () => new Blob([json], { type: "application/json" }),
+  };
+
+  const sources: [string, string][] = [
+    [OPFS_ROOT, ROOT_FOLDER],
+    ...manifest.buckets.map(({ name }): [string, string] => [
+      name,
+      joinPath(BUCKETS_FOLDER, name),
+    ]),
+  ];
+  for (const [bucketOrRoot, folder] of sources) {
+    yield { path: folder, kind: "directory" };
+    for await (const entry of zipEntriesOf(getOPFSBackend(bucketOrRoot, env))) {
+      yield { ...entry, path: joinPath(folder, entry.path) };
+    }
+  }
+}
+
+/**
+ * Esporta la radice OPFS e tutti i bucket in un unico archivio ZIP, letto
+ * in streaming man mano che viene salvato. `registry` conserva le quote dei
+ * bucket e le aree cifrate: nel browser è localStorage.
+ */
+export const createBackupStream = async (
+  env: OPFSEnvironment = browserEnvironment(),
+  registry?: BucketRegistry
+): Promise<ReadableStream<Uint8Array>> => {
+  // Un bucket chiamato come la radice non si potrebbe ripristinare
+  const names = (await env.buckets.keys()).filter((name) => name !== OPFS_ROOT);
+  const manifest: BackupManifest = {
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    buckets: await Promise.all(
+      names.map((name) => readBucketMetadata(name, env, registry))
+    ),
+    areas: loadAreas(registry),
+  };
+  return createZipStream(backupEntries(manifest, env));
+};
+
+export const readBackup = async (blob: Blob): Promise<OPFSBackup> => {
+  const entries = await readZip(blob);
+  const manifestEntry = entries.find((entry) => entry.path === BACKUP_MANIFEST);
+  if (!manifestEntry?.read) {
+    throw new DOMException(
+      `Backup non valido: manca ${BACKUP_MANIFEST}`,
+      "NotReadableError"
+    );
+  }
+  const manifest: BackupManifest = JSON.parse(
+    await (await manifestEntry.read()).text()
+  );
+  if (manifest.version !== BACKUP_VERSION) {
+    throw new DOMException(
+      `Versione del backup non supportata: ${manifest.version}`,
+      "NotSupportedError"
+    );
+  }
+  return {
+    manifest,
+    entries: entries.filter((entry) => entry !== manifestEntry),
+  };
+};
+
+// "opfs/a/b.txt" -> radice OPFS e "a/b.txt", "buckets/x/a" -> bucket "x" e
+// "a". Il bucket resta distinto dalla radice anche se si chiama "root".
+const locate = (archivePath: string): OPFSAddress | null => {
+  const [folder, ...rest] = splitPath(archivePath);
+  if (folder === ROOT_FOLDER) return { bucket: null, path: joinPath(...rest) };
+  if (folder === BUCKETS_FOLDER && rest.length > 0) {
+    const [bucket, ...path] = rest;
+    return { bucket, path: joinPath(...path) };
+  }
+  return null;
+};
+
+const exists = async (
+  bucketOrRoot: string,
+  path: string,
+  env: OPFSEnvironment
+): Promise<boolean> => {
+  try {
+    await getOPFSBackend(bucketOrRoot, env).stat(path);
+    return true;
+  } catch (error) {
+    const name = (error as DOMException).name;
+    if (name === "NotFoundError" || name === "TypeMismatchError") return false;
+    throw error;
+  }
+};
+
+// Bucket del manifest che si possono ricreare: uno chiamato "root" si
+// confonderebbe con la radice OPFS
+const manifestBuckets = (backup: OPFSBackup) =>
+  backup.manifest.buckets.filter(({ name }) => name !== OPFS_ROOT);
+
+// Aree del manifest la cui radice o il cui bucket verrà ripristinato
+const manifestAreas = (backup: OPFSBackup) => {
+  const names = new Set(manifestBuckets(backup).map(({ name }) => name));
+  return (backup.manifest.areas ?? []).filter(({ path }) => {
+    const [top] = splitPath(path);
+    return top === OPFS_ROOT || names.has(top);
+  });
+};
+
+// Contenuti di un bucket assente dal manifest non hanno opzioni da
+// ripristinare: aprirlo lo creerebbe con quelle predefinite. Nemmeno i file
+// di un'area che qui ha un'altra chiave, che non si potrebbero decifrare.
+// Restituisce la radice o il bucket di destinazione, null se il contenuto
+// va saltato, con l'area in conflitto se è questo il motivo.
+const restorableTarget = (backup: OPFSBackup, registry?: BucketRegistry) => {
+  const names = new Set(manifestBuckets(backup).map(({ name }) => name));
+  const conflicts = conflictingAreas(manifestAreas(backup), registry);
+  return (location: OPFSAddress): { target: string | null; area?: string } => {
+    const { bucket } = location;
+    const target =
+      bucket === null ? OPFS_ROOT : names.has(bucket) ? bucket : null;
+    if (target === null) return { target };
+    const area = areaOf(toTreePath(location), conflicts);
+    return area ? { target: null, area: area.path } : { target };
+  };
+};
+
+/**
+ * Anteprima del ripristino, senza modificare nulla: quali bucket verranno
+ * creati e quali file esistono già e verrebbero sovrascritti.
+ */
+export const planRestore = async (
+  backup: OPFSBackup,
+  env: OPFSEnvironment = browserEnvironment(),
+  registry?: BucketRegistry
+): Promise<RestorePlan> => {
+  // Non si apre un bucket che non esiste: open() lo creerebbe
+  const existing = new Set([OPFS_ROOT, ...(await env.buckets.keys())]);
+
+  const targetOf = restorableTarget(backup, registry);
+
+  const files: RestoreAction[] = [];
+  for (const entry of backup.entries) {
+    const location = locate(entry.path);
+    if (!location || entry.kind !== "file") continue;
+    const { path } = location;
+    const { target: bucket, area } = targetOf(location);
+    // Della radice si saltano solo i file delle aree in conflitto
+    if (bucket === null) {
+      const name = location.bucket ?? OPFS_ROOT;
+      const size = entry.size;
+      files.push({ bucket: name, path, size, status: "skipped", area });
+      continue;
+    }
+    const overwrite = existing.has(bucket) && (await exists(bucket, path, env));
+    files.push({
+      bucket,
+      path,
+      size: entry.size,
+      status: overwrite ? "overwrite" : "create",
+    });
+  }
+
+  return {
+    buckets: manifestBuckets(backup).map((metadata) => ({
+      ...metadata,
+      exists: existing.has(metadata.name),
+    })),
+    files,
+  };
+};
+
+// Le opzioni valgono solo alla creazione; una scadenza passata viene ignorata
+const bucketOptions = (metadata: BucketMetadata): StorageBucketOptions => ({
+  durability: metadata.durability,
+  quota: metadata.quota,
+  expires:
+    metadata.expires && metadata.expires > Date.now()
+      ? metadata.expires
+      : undefined,
+  persisted: metadata.persisted,
+});
+
+/**
+ * Ricrea i bucket mancanti con le opzioni salvate e scrive il contenuto
+ * dell'archivio, sovrascrivendo i file già presenti. I bucket esistenti
+ * mantengono le proprie opzioni. Registra le aree cifrate mancanti; i file
+ * si scrivono come sono nell'archivio, quindi restano cifrati. Restituisce
+ * i percorsi dell'archivio saltati perché il loro bucket non è nel manifest
+ * o la loro area qui ha un'altra chiave.
+ */
+export const restoreBackup = async (
+  backup: OPFSBackup,
+  env: OPFSEnvironment = browserEnvironment(),
+  onProgress?: (loaded: number, total: number) => void,
+  registry?: BucketRegistry
+): Promise<string[]> => {
+  const existing = new Set(await env.buckets.keys());
+  for (const metadata of manifestBuckets(backup)) {
+    if (!existing.has(metadata.name)) {
+      await createBucket(metadata.name, bucketOptions(metadata), env, registry);
+    }
+  }
+
+  const targetOf = restorableTarget(backup, registry);
+  restoreAreas(manifestAreas(backup), registry);
+  const entries: [ZipArchiveEntry, string, string][] = [];
+  const skipped: string[] = [];
+  for (const entry of backup.entries) {
+    const location = locate(entry.path);
+    if (!location) continue;
+    const bucketOrRoot = targetOf(location).target;
+    if (bucketOrRoot !== null) {
+      entries.push([entry, bucketOrRoot, location.path]);
+    } else skipped.push(entry.path);
+  }
+
+  const total = entries.reduce(
+    (sum, [entry]) => sum + (entry.kind === "file" ? entry.size : 0),
+    0
+  );
+  let loaded = 0;
+  for (const [entry, bucketOrRoot, path] of entries) {
+    const backend = getOPFSBackend(bucketOrRoot, env);
+    if (entry.kind === "directory") {
+      await backend.mkdir(path);
+    } else if (entry.read) {
+      await backend.mkdir(parentPath(path));
+      await backend.write(path, await entry.read());
+      loaded += entry.size;
+      onProgress?.(loaded, total);
+    }
+  }
+  return skipped;
+};
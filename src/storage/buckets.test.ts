@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  BucketRegistry,
+  NO_EXPIRY,
+  clearExpiry,
+  createBucket,
+  deleteBucket,
+  extendExpiry,
+  inspectBuckets,
+  knownBuckets,
+} from "./buckets";
+import { createMemoryEnvironment, createMemoryStorage } from "./memory";
+import { OPFSEnvironment } from "./opfs";
+
+describe("bucket management", () => {
+  let env: OPFSEnvironment;
+  let registry: BucketRegistry;
+
+  beforeEach(() => {
+    env = createMemoryEnvironment();
+    registry = createMemoryStorage();
+  });
+
+  it("creates a bucket with every option and remembers it", async () => {
+    await createBucket(
+      "media",
+      { durability: "strict", persisted: true, quota: 100, expires: 5000 },
+      env,
+      registry
+    );
+
+    const [info] = await inspectBuckets(env, registry, 1000);
+    expect(info).toMatchObject({
+      name: "media",
+      status: "active",
+      durability: "strict",
+      persisted: true,
+      expires: 5000,
+      quota: 100,
+    });
+    expect(knownBuckets(registry)).toEqual(["media"]);
+  });
+
+  it("flags expired buckets and those evicted by the browser", async () => {
+    await createBucket("vecchio", { expires: 500 }, env, registry);
+    await createBucket("sparito", {}, env, registry);
+    await env.buckets.delete("sparito"); // Come farebbe il browser
+
+    const infos = await inspectBuckets(env, registry, 1000);
+
+    expect(infos).toEqual([
+      { name: "sparito", status: "evicted" },
+      expect.objectContaining({ name: "vecchio", status: "expired" }),
+    ]);
+  });
+
+  it("forgets buckets deleted from the app", async () => {
+    await createBucket("temp", {}, env, registry);
+
+    await deleteBucket("temp", env, registry);
+
+    expect(await inspectBuckets(env, registry)).toEqual([]);
+  });
+
+  it("extends the expiry from the current one or from now", async () => {
+    await createBucket("a", { expires: 10_000 }, env, registry);
+    await createBucket("b", {}, env, registry);
+
+    expect(await extendExpiry("a", 5, env, 1000)).toBe(15_000);
+    expect(await extendExpiry("b", 5, env, 1000)).toBe(6000);
+  });
+
+  it("clears the expiry", async () => {
+    await createBucket("a", { expires: 10_000 }, env, registry);
+
+    await clearExpiry("a", env);
+
+    const bucket = await env.buckets.open("a");
+    expect(await bucket.expires()).toBe(NO_EXPIRY);
+    const [info] = await inspectBuckets(env, registry, 20_000);
+    expect(info).toMatchObject({ status: "active", expires: null });
+  });
+});
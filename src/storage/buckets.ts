@@ -0,0 +1,167 @@
+import { OPFSEnvironment, browserEnvironment } from "./opfs";
+
+export type BucketStatus = "active" | "expired" | "evicted";
+
+export type BucketInfo = {
+  name: string;
+  status: BucketStatus;
+  // Proprietà lette dal bucket; assenti per quelli eliminati dal browser
+  durability?: StorageBucketDurability;
+  persisted?: boolean;
+  expires?: number | null;
+  usage?: number;
+  quota?: number;
+};
+
+// L'API non permette di togliere una scadenza: la si sposta all'ultima data
+// rappresentabile, che viene poi letta come "nessuna scadenza".
+export const NO_EXPIRY = 8.64e15;
+
+export const readExpiry = async (
+  bucket: StorageBucket
+): Promise<number | null> => {
+  const expires = await bucket.expires();
+  return expires === null || expires >= NO_EXPIRY ? null : expires;
+};
+
+// Elenco dei bucket visti dall'app, per accorgersi di quelli che il browser
+// ha eliminato per scadenza o per liberare spazio.
+export type BucketRegistry = Pick<Storage, "getItem" | "setItem">;
+
+const REGISTRY_KEY = "opfs-poc:buckets";
+
+const browserRegistry = (): BucketRegistry => localStorage;
+
+export const knownBuckets = (
+  registry: BucketRegistry = browserRegistry()
+): string[] => JSON.parse(registry.getItem(REGISTRY_KEY) ?? "[]");
+
+export const rememberBuckets = (
+  names: string[],
+  registry: BucketRegistry = browserRegistry()
+) => {
+  const known = new Set([...knownBuckets(registry), ...names]);
+  registry.setItem(REGISTRY_KEY, JSON.stringify([...known]));
+};
+
+export const forgetBucket = (
+  name: string,
+  registry: BucketRegistry = browserRegistry()
+) => {
+  registry.setItem(
+    REGISTRY_KEY,
+    JSON.stringify(knownBuckets(registry).filter((known) => known !== name))
+  );
+};
+
+// La quota chiesta alla creazione: estimate() restituisce invece quella
+// effettiva decisa dal browser, di solito più alta
+const QUOTAS_KEY = "opfs-poc:bucket-quotas";
+
+const readQuotas = (registry: BucketRegistry): Record<string, number> =>
+  JSON.parse(registry.getItem(QUOTAS_KEY) ?? "{}");
+
+export const configuredQuota = (
+  name: string,
+  registry: BucketRegistry = browserRegistry()
+): number | undefined => readQuotas(registry)[name];
+
+const rememberQuota = (
+  name: string,
+  quota: number | undefined,
+  registry: BucketRegistry
+) => {
+  const quotas = readQuotas(registry);
+  if (quota === undefined) delete quotas[name];
+  else quotas[name] = quota;
+  registry.setItem(QUOTAS_KEY, JSON.stringify(quotas));
+};
+
+/**
+ * Stato di ogni bucket esistente o ricordato: le proprietà correnti, se è
+ * scaduto e, per quelli che non esistono più, che è stato eliminato.
+ */
+export const inspectBuckets = async (
+  env: OPFSEnvironment = browserEnvironment(),
+  registry: BucketRegistry = browserRegistry(),
+  now = Date.now()
+): Promise<BucketInfo[]> => {
+  const names = await env.buckets.keys();
+  rememberBuckets(names, registry);
+
+  const existing = await Promise.all(
+    names.map(async (name): Promise<BucketInfo> => {
+      const bucket = await env.buckets.open(name);
+      const [durability, persisted, expires, estimate] = await Promise.all([
+        bucket.durability(),
+        bucket.persisted(),
+        readExpiry(bucket),
+        bucket.estimate(),
+      ]);
+      return {
+        name,
+        status: expires !== null && expires <= now ? "expired" : "active",
+        durability,
+        persisted,
+        expires,
+        usage: estimate.usage,
+        quota: estimate.quota,
+      };
+    })
+  );
+  const evicted = knownBuckets(registry)
+    .filter((name) => !names.includes(name))
+    .map((name): BucketInfo => ({ name, status: "evicted" }));
+
+  return [...existing, ...evicted].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createBucket = async (
+  name: string,
+  options: StorageBucketOptions,
+  env: OPFSEnvironment = browserEnvironment(),
+  registry: BucketRegistry = browserRegistry()
+): Promise<void> => {
+  const existed = (await env.buckets.keys()).includes(name);
+  const bucket = await env.buckets.open(name, options);
+  // Le opzioni valgono solo alla creazione: per un bucket già esistente la
+  // persistenza va richiesta esplicitamente
+  if (options.persisted && !(await bucket.persisted())) await bucket.persist();
+  rememberBuckets([name], registry);
+  if (!existed) rememberQuota(name, options.quota, registry);
+};
+
+export const deleteBucket = async (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment(),
+  registry: BucketRegistry = browserRegistry()
+): Promise<void> => {
+  await env.buckets.delete(name);
+  forgetBucket(name, registry);
+  rememberQuota(name, undefined, registry);
+};
+
+// Sposta la scadenza di `seconds` in avanti, partendo da adesso se il bucket
+// non ha scadenza o è già scaduto
+export const extendExpiry = async (
+  name: string,
+  seconds: number,
+  env: OPFSEnvironment = browserEnvironment(),
+  now = Date.now()
+): Promise<number> => {
+  const bucket = await env.buckets.open(name);
+  const expires =
+    Math.max((await readExpiry(bucket)) ?? now, now) + seconds * 1000;
+  await bucket.setExpires(expires);
+  return expires;
+};
+
+export const clearExpiry = async (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<void> => (await env.buckets.open(name)).setExpires(NO_EXPIRY);
+
+export const persistBucket = async (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<boolean> => (await env.buckets.open(name)).persist();
@@ -0,0 +1,46 @@
+import { IDBPDatabase, openDB } from "idb";
+
+// Elenchi conservati in IndexedDB che tengono solo gli ultimi elementi, come
+// il registro delle operazioni e la cronologia della console.
+
+export type CappedStore<T> = {
+  load(): Promise<T[]>; // Il più vecchio per primo
+  add(value: T): Promise<void>;
+  clear(): Promise<void>;
+};
+
+/**
+ * Object store con chiavi crescenti: `add` aggiunge in fondo e, nella stessa
+ * transazione, elimina i più vecchi oltre `limit`.
+ */
+export const createCappedStore = <T>(
+  dbName: string,
+  storeName: string,
+  limit: number
+): CappedStore<T> => {
+  // Una sola connessione, aperta al primo uso
+  let connection: Promise<IDBPDatabase> | undefined;
+  const db = () =>
+    (connection ??= openDB(dbName, 1, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { autoIncrement: true });
+        }
+      },
+    }));
+  return {
+    load: async () => (await db()).getAll(storeName),
+    add: async (value) => {
+      const tx = (await db()).transaction(storeName, "readwrite");
+      await tx.store.add(value);
+      let excess = (await tx.store.count()) - limit;
+      let cursor = await tx.store.openCursor();
+      while (cursor && excess-- > 0) {
+        await cursor.delete();
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+    },
+    clear: async () => (await db()).clear(storeName),
+  };
+};
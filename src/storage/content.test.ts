@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { hexDump, looksLikeText, mimeFromName, sniffContent } from "./content";
+
+const fileOf = (bytes: number[] | string, name: string) =>
+  new File([typeof bytes === "string" ? bytes : new Uint8Array(bytes)], name);
+
+describe("sniffContent", () => {
+  it("recognizes binary formats by magic bytes regardless of the name", async () => {
+    const sqlite = fileOf("SQLite format 3\0rest", "data.txt");
+    const wasm = fileOf([0x00, 0x61, 0x73, 0x6d, 0x01, 0, 0, 0], "module");
+    const png = fileOf([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], "x");
+
+    expect(await sniffContent(sqlite)).toEqual({
+      kind: "binary",
+      mime: "application/vnd.sqlite3",
+    });
+    expect((await sniffContent(wasm)).mime).toBe("application/wasm");
+    expect(await sniffContent(png)).toEqual({
+      kind: "image",
+      mime: "image/png",
+    });
+  });
+
+  it("falls back to the extension for media without a signature", async () => {
+    expect((await sniffContent(fileOf("<svg/>", "logo.svg"))).kind).toBe(
+      "image"
+    );
+  });
+
+  it("treats UTF-8 without NUL bytes as text", async () => {
+    expect(await sniffContent(fileOf("città €", "note"))).toEqual({
+      kind: "text",
+      mime: "text/plain",
+    });
+    expect(await sniffContent(fileOf('{"a":1}', "conf.json"))).toEqual({
+      kind: "text",
+      mime: "application/json",
+    });
+  });
+
+  it("treats invalid UTF-8 as binary even with a text extension", async () => {
+    expect((await sniffContent(fileOf([0xc3, 0x28, 0x41], "a.txt"))).kind).toBe(
+      "binary"
+    );
+  });
+});
+
+describe("looksLikeText", () => {
+  it("accepts a multi-byte sequence cut by the sample only when truncated", () => {
+    const cut = new TextEncoder().encode("€").subarray(0, 2);
+
+    expect(looksLikeText(cut, true)).toBe(true);
+    expect(looksLikeText(cut, false)).toBe(false);
+  });
+});
+
+describe("mimeFromName", () => {
+  it("maps known extensions case-insensitively", () => {
+    expect(mimeFromName("DB.SQLITE")).toBe("application/vnd.sqlite3");
+    expect(mimeFromName("README")).toBeUndefined();
+  });
+});
+
+describe("hexDump", () => {
+  it("prints offsets, hex bytes and printable characters", () => {
+    const bytes = new TextEncoder().encode("Hello, OPFS!\n\0\x01\x02ABC");
+
+    expect(hexDump(bytes, 0x100)).toEqual([
+      "00000100  48 65 6c 6c 6f 2c 20 4f  50 46 53 21 0a 00 01 02  |Hello, OPFS!....|",
+      "00000110  41 42 43                                          |ABC|",
+    ]);
+  });
+});
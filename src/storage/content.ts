@@ -0,0 +1,164 @@
+export type ContentKind = "text" | "image" | "audio" | "video" | "binary";
+
+export type ContentInfo = {
+  kind: ContentKind;
+  mime: string;
+};
+
+type Signature = {
+  offset: number;
+  bytes: number[];
+  mime: string;
+};
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+// Firme dei formati più comuni in OPFS: immagini, media, database, archivi
+const SIGNATURES: Signature[] = [
+  { offset: 0, bytes: [0x89, ...ascii("PNG\r\n\x1a\n")], mime: "image/png" },
+  { offset: 0, bytes: [0xff, 0xd8, 0xff], mime: "image/jpeg" },
+  { offset: 0, bytes: ascii("GIF8"), mime: "image/gif" },
+  { offset: 8, bytes: ascii("WEBP"), mime: "image/webp" },
+  { offset: 0, bytes: [0x00, 0x00, 0x01, 0x00], mime: "image/x-icon" },
+  { offset: 8, bytes: ascii("WAVE"), mime: "audio/wav" },
+  { offset: 0, bytes: ascii("ID3"), mime: "audio/mpeg" },
+  { offset: 0, bytes: ascii("OggS"), mime: "audio/ogg" },
+  { offset: 0, bytes: ascii("fLaC"), mime: "audio/flac" },
+  { offset: 4, bytes: ascii("ftyp"), mime: "video/mp4" },
+  { offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3], mime: "video/webm" },
+  {
+    offset: 0,
+    bytes: ascii("SQLite format 3\0"),
+    mime: "application/vnd.sqlite3",
+  },
+  { offset: 0, bytes: [0x00, ...ascii("asm")], mime: "application/wasm" },
+  { offset: 0, bytes: ascii("%PDF-"), mime: "application/pdf" },
+  { offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04], mime: "application/zip" },
+  { offset: 0, bytes: [0x1f, 0x8b], mime: "application/gzip" },
+];
+
+// Usato quando il browser non fornisce un type (sempre vuoto in OPFS)
+const EXTENSIONS: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  js: "text/javascript",
+  ts: "text/typescript",
+  html: "text/html",
+  css: "text/css",
+  xml: "application/xml",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  bmp: "image/bmp",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  sqlite: "application/vnd.sqlite3",
+  sqlite3: "application/vnd.sqlite3",
+  db: "application/vnd.sqlite3",
+  wasm: "application/wasm",
+  zip: "application/zip",
+  pdf: "application/pdf",
+};
+
+const SNIFF_LENGTH = 8192;
+
+// Oltre questa dimensione un file di testo si legge a pagine e non si modifica
+export const EDITABLE_TEXT_LIMIT = 8 * 1024 * 1024;
+
+const matches = (bytes: Uint8Array, signature: Signature) =>
+  signature.bytes.every(
+    (byte, index) => bytes[signature.offset + index] === byte
+  );
+
+const kindOf = (mime: string): ContentKind => {
+  if (mime === "image/svg+xml") return "image";
+  const [type] = mime.split("/");
+  if (type === "image" || type === "audio" || type === "video") return type;
+  return "binary";
+};
+
+// Testo se non ci sono byte NUL e i primi byte sono UTF-8 valido. L'ultima
+// sequenza può essere troncata dal campionamento, quindi non è un errore.
+export const looksLikeText = (bytes: Uint8Array, truncated = false) => {
+  if (bytes.includes(0)) return false;
+  try {
+    const decoder = new TextDecoder("utf-8", { fatal: true });
+    decoder.decode(bytes, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const mimeFromName = (name: string): string | undefined => {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return name.includes(".") ? EXTENSIONS[extension] : undefined;
+};
+
+/**
+ * Riconosce il contenuto di un file guardando prima i magic bytes, poi il
+ * MIME type dichiarato o dedotto dall'estensione, infine se i primi byte sono
+ * testo UTF-8. Serve a non aprire (e salvare) come testo un file binario.
+ */
+export const sniffContent = async (
+  file: Blob,
+  name = file instanceof File ? file.name : ""
+): Promise<ContentInfo> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+
+  const signature = SIGNATURES.find((candidate) => matches(bytes, candidate));
+  if (signature) return { kind: kindOf(signature.mime), mime: signature.mime };
+
+  const declared = file.type || mimeFromName(name);
+  if (declared && kindOf(declared) !== "binary") {
+    return { kind: kindOf(declared), mime: declared };
+  }
+
+  if (looksLikeText(bytes, file.size > SNIFF_LENGTH)) {
+    return { kind: "text", mime: declared ?? "text/plain" };
+  }
+  return { kind: "binary", mime: declared ?? "application/octet-stream" };
+};
+
+/**
+ * Dump esadecimale nel formato di `hexdump -C`: offset, 16 byte in hex e la
+ * loro resa ASCII. `offset` è la posizione di `bytes` nel file.
+ */
+export const hexDump = (bytes: Uint8Array, offset = 0): string[] => {
+  const lines: string[] = [];
+  for (let start = 0; start < bytes.length; start += 16) {
+    const row = bytes.subarray(start, start + 16);
+    const hex = [...row]
+      .map(
+        (byte, index) =>
+          (index === 8 ? " " : "") + byte.toString(16).padStart(2, "0")
+      )
+      .join(" ");
+    const text = [...row]
+      .map((byte) =>
+        byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."
+      )
+      .join("");
+    lines.push(
+      `${(offset + start).toString(16).padStart(8, "0")}  ${hex.padEnd(
+        48
+      )}  |${text}|`
+    );
+  }
+  return lines;
+};
+
+export const readBlobRange = async (
+  blob: Blob,
+  offset: number,
+  length: number
+): Promise<Uint8Array> =>
+  new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { diffLines } from "./diff";
+
+const render = (before: string, after: string) =>
+  diffLines(before, after).map(
+    (line) =>
+      `${{ same: " ", added: "+", removed: "-" }[line.type]}${line.text}`
+  );
+
+describe("diffLines", () => {
+  it("marks added, removed and unchanged lines", () => {
+    expect(render("a\nb\nc\nd", "a\nc\nx\nd")).toEqual([
+      " a",
+      "-b",
+      " c",
+      "+x",
+      " d",
+    ]);
+  });
+
+  it("lists removals before additions for a changed line", () => {
+    expect(render("uno\ndue", "uno\nDUE")).toEqual([" uno", "-due", "+DUE"]);
+  });
+
+  it("handles empty texts", () => {
+    expect(render("", "a\nb")).toEqual(["+a", "+b"]);
+    expect(render("a", "")).toEqual(["-a"]);
+    expect(render("", "")).toEqual([]);
+  });
+
+  it("refuses inputs too different to compare", () => {
+    const lines = (prefix: string) =>
+      Array.from({ length: 2500 }, (_, i) => `${prefix}${i}`).join("\n");
+    expect(() => diffLines(lines("a"), lines("b"))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,73 @@
+// Confronto riga per riga tra due testi, con la sottosequenza comune più
+// lunga. Prefisso e suffisso uguali si tolgono prima, così il costo dipende
+// solo dalla parte che cambia.
+
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Oltre questa dimensione della tabella (righe × righe) il confronto
+// richiederebbe troppa memoria
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (text: string) => (text === "" ? [] : text.split("\n"));
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const columns = endB - start;
+  if ((rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+    throw new RangeError("Versioni troppo diverse per il confronto");
+  }
+
+  // lengths[i][j]: sottosequenza comune più lunga da a[start+i] e b[start+j]
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a
+    .slice(0, start)
+    .map((text) => ({ type: "same", text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && a[start + i] === b[start + j]) {
+      lines.push({ type: "same", text: a[start + i] });
+      i++;
+      j++;
+    } else if (
+      i < rows &&
+      (j === columns ||
+        lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+    ) {
+      lines.push({ type: "removed", text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: b[start + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) lines.push({ type: "same", text });
+  return lines;
+};
@@ -0,0 +1,56 @@
+import { StorageBackend } from "./backend";
+import { walkBackend } from "./walk";
+import { ZipEntry, createZipStream } from "./zip";
+
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Il download parte in modo asincrono: revochiamo l'URL più tardi
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+/**
+ * Salva uno stream su disco. Con showSaveFilePicker i dati vanno dritti nel
+ * file scelto dall'utente; altrimenti si passa da un Blob, che il browser può
+ * comunque appoggiare su disco se è grande.
+ */
+export const saveStream = async (
+  stream: ReadableStream<Uint8Array>,
+  suggestedName: string
+): Promise<void> => {
+  if (window.showSaveFilePicker) {
+    const handle = await window.showSaveFilePicker({ suggestedName });
+    await stream.pipeTo(await handle.createWritable());
+    return;
+  }
+  downloadBlob(await new Response(stream).blob(), suggestedName);
+};
+
+// Voci ZIP per il contenuto di una cartella, con percorsi relativi a `path`
+export async function* zipEntriesOf(
+  backend: StorageBackend,
+  path = ""
+): AsyncGenerator<ZipEntry> {
+  for await (const entry of walkBackend(backend, path)) {
+    yield {
+      path: path ? entry.path.slice(path.length + 1) : entry.path,
+      kind: entry.kind,
+      read: () => backend.read(entry.path),
+    };
+  }
+}
+
+export const downloadFile = async (backend: StorageBackend, path: string) => {
+  const file = await backend.read(path);
+  downloadBlob(file, file.name);
+};
+
+export const downloadDirectoryAsZip = (
+  backend: StorageBackend,
+  path: string,
+  name: string
+): Promise<void> =>
+  saveStream(createZipStream(zipEntriesOf(backend, path)), `${name}.zip`);
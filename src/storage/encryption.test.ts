@@ -0,0 +1,281 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import {
+  AreaRegistry,
+  Keyring,
+  areaOf,
+  createKeyring,
+  decodeForPath,
+  decryptArea,
+  encodeForPath,
+  encryptArea,
+  isEncrypted,
+  loadAreas,
+  rotateKey,
+} from "./encryption";
+import { opfsKey, readVersion, saveVersion } from "./history";
+import {
+  createMemoryDirectory,
+  createMemoryEnvironment,
+  createMemoryStorage,
+} from "./memory";
+import { OPFSEnvironment, createDirectoryBackend } from "./opfs";
+
+// Poche iterazioni: PBKDF2 reale renderebbe i test lenti
+const ITERATIONS = 1000;
+
+const writeText = async (
+  backend: StorageBackend,
+  path: string,
+  text: string
+) => {
+  await backend.createFile(path);
+  await backend.write(path, text);
+};
+
+describe("encryption", () => {
+  let backend: StorageBackend;
+  let keyring: Keyring;
+  let registry: AreaRegistry;
+  let env: OPFSEnvironment;
+
+  const readPlain = async (path: string) =>
+    (
+      await decodeForPath(
+        `root/${path}`,
+        await backend.read(path),
+        keyring,
+        registry
+      )
+    ).text();
+
+  const encryptSecrets = (passphrase = "segreta") =>
+    encryptArea(
+      backend,
+      "segreti",
+      { fullPath: "root/segreti", passphrase },
+      keyring,
+      registry,
+      ITERATIONS,
+      env
+    );
+
+  beforeEach(async () => {
+    backend = createDirectoryBackend(createMemoryDirectory("root"));
+    keyring = createKeyring();
+    registry = createMemoryStorage();
+    env = createMemoryEnvironment();
+    await backend.mkdir("segreti/sub");
+    await writeText(backend, "segreti/a.txt", "alfa");
+    await writeText(backend, "segreti/sub/b.txt", "beta");
+    await writeText(backend, "pubblico.txt", "in chiaro");
+  });
+
+  it("encrypts the files of an area and decrypts them transparently", async () => {
+    const { area, encrypted } = await encryptSecrets();
+
+    expect(encrypted).toBe(2);
+    expect(loadAreas(registry)).toEqual([area]);
+    expect(await isEncrypted(await backend.read("segreti/a.txt"))).toBe(true);
+    expect(await (await backend.read("segreti/a.txt")).text()).not.toContain(
+      "alfa"
+    );
+    expect(await readPlain("segreti/a.txt")).toBe("alfa");
+    expect(await readPlain("segreti/sub/b.txt")).toBe("beta");
+    expect(await isEncrypted(await backend.read("pubblico.txt"))).toBe(false);
+    expect(await readPlain("pubblico.txt")).toBe("in chiaro");
+  });
+
+  it("writes through encodeForPath only inside an area", async () => {
+    await encryptSecrets();
+    const data = new TextEncoder().encode("nuovo");
+
+    await backend.write(
+      "segreti/a.txt",
+      await encodeForPath("root/segreti/a.txt", data, keyring, registry)
+    );
+    await backend.write(
+      "pubblico.txt",
+      await encodeForPath("root/pubblico.txt", data, keyring, registry)
+    );
+
+    expect(await isEncrypted(await backend.read("segreti/a.txt"))).toBe(true);
+    expect(await readPlain("segreti/a.txt")).toBe("nuovo");
+    expect(await (await backend.read("pubblico.txt")).text()).toBe("nuovo");
+  });
+
+  it("refuses locked areas and wrong passphrases", async () => {
+    const { area } = await encryptSecrets();
+    keyring.lock(area);
+
+    await expect(readPlain("segreti/a.txt")).rejects.toMatchObject({
+      name: "InvalidStateError",
+    });
+    await expect(
+      encodeForPath("root/segreti/a.txt", new Uint8Array(), keyring, registry)
+    ).rejects.toMatchObject({ name: "InvalidStateError" });
+    await expect(keyring.unlock(area, "sbagliata")).rejects.toMatchObject({
+      name: "InvalidAccessError",
+    });
+    expect(keyring.keyOf(area)).toBeUndefined();
+
+    await keyring.unlock(area, "segreta");
+    expect(await readPlain("segreti/a.txt")).toBe("alfa");
+  });
+
+  it("rotates the key and rejects files of the previous version", async () => {
+    const { area } = await encryptSecrets();
+    const oldFile = await backend.read("segreti/a.txt");
+
+    const rotated = await rotateKey(
+      backend,
+      "segreti",
+      area,
+      "nuova",
+      keyring,
+      registry,
+      ITERATIONS,
+      env
+    );
+
+    expect(rotated.rewritten).toBe(2);
+    expect(rotated.area.keyVersion).toBe(2);
+    expect(loadAreas(registry)).toEqual([rotated.area]);
+    expect(await readPlain("segreti/sub/b.txt")).toBe("beta");
+
+    // Una versione salvata prima della rotazione non è più leggibile
+    await expect(
+      decodeForPath("root/segreti/a.txt", oldFile, keyring, registry)
+    ).rejects.toMatchObject({
+      name: "InvalidAccessError",
+      message: expect.stringContaining("versione 1"),
+    });
+
+    keyring.lock(rotated.area);
+    await expect(keyring.unlock(rotated.area, "segreta")).rejects.toThrow();
+    await keyring.unlock(rotated.area, "nuova");
+    expect(await readPlain("segreti/a.txt")).toBe("alfa");
+  });
+
+  it("resumes an interrupted rotation with the same passphrase", async () => {
+    const { area } = await encryptSecrets();
+    // La seconda scrittura fallisce, come una scheda chiusa a metà
+    let writes = 0;
+    const failing: StorageBackend = {
+      ...backend,
+      write: async (path, data) => {
+        if (++writes === 2) throw new DOMException("Chiusa", "AbortError");
+        return backend.write(path, data);
+      },
+    };
+    const rotate = (target: StorageBackend, passphrase: string) =>
+      rotateKey(
+        target,
+        "segreti",
+        area,
+        passphrase,
+        keyring,
+        registry,
+        ITERATIONS,
+        env
+      );
+
+    await expect(rotate(failing, "nuova")).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    const [interrupted] = loadAreas(registry);
+    expect(interrupted.keyVersion).toBe(1);
+    expect(interrupted.pending?.keyVersion).toBe(2);
+    // Un file è già alla nuova versione, l'altro ancora alla vecchia
+    expect(await readPlain("segreti/a.txt")).toBe("alfa");
+    expect(await readPlain("segreti/sub/b.txt")).toBe("beta");
+
+    await expect(rotate(backend, "altra")).rejects.toMatchObject({
+      name: "InvalidAccessError",
+    });
+    const resumed = await rotate(backend, "nuova");
+
+    expect(resumed.rewritten).toBe(1);
+    expect(loadAreas(registry)).toEqual([resumed.area]);
+    expect(resumed.area.pending).toBeUndefined();
+    expect(await readPlain("segreti/a.txt")).toBe("alfa");
+    expect(await readPlain("segreti/sub/b.txt")).toBe("beta");
+  });
+
+  it("rotates the history versions of the area's files", async () => {
+    const { area } = await encryptSecrets();
+    const key = opfsKey("root/segreti/a.txt");
+    await saveVersion(key, await backend.read("segreti/a.txt"), env, 1000);
+
+    await rotateKey(
+      backend,
+      "segreti",
+      area,
+      "nuova",
+      keyring,
+      registry,
+      ITERATIONS,
+      env
+    );
+
+    const version = await readVersion(key, "1000", env);
+    expect(
+      await (
+        await decodeForPath("root/segreti/a.txt", version, keyring, registry)
+      ).text()
+    ).toBe("alfa");
+  });
+
+  it("encrypts the plaintext history versions of the area's files", async () => {
+    const key = opfsKey("root/segreti/a.txt");
+    await saveVersion(key, await backend.read("segreti/a.txt"), env, 1000);
+
+    await encryptSecrets();
+
+    const version = await readVersion(key, "1000", env);
+    expect(await isEncrypted(version)).toBe(true);
+    expect(
+      await (
+        await decodeForPath("root/segreti/a.txt", version, keyring, registry)
+      ).text()
+    ).toBe("alfa");
+  });
+
+  it("encrypts files added later and removes the encryption", async () => {
+    const { area } = await encryptSecrets();
+    await writeText(backend, "segreti/caricato.txt", "gamma");
+
+    const { encrypted } = await encryptArea(
+      backend,
+      "segreti",
+      { fullPath: area.path, area, key: keyring.keyOf(area) },
+      keyring,
+      registry,
+      ITERATIONS,
+      env
+    );
+    expect(encrypted).toBe(1);
+
+    expect(
+      await decryptArea(backend, "segreti", area, keyring, registry, env)
+    ).toBe(3);
+    expect(loadAreas(registry)).toEqual([]);
+    expect(await (await backend.read("segreti/caricato.txt")).text()).toBe(
+      "gamma"
+    );
+    expect(await (await backend.read("segreti/a.txt")).text()).toBe("alfa");
+  });
+
+  it("picks the innermost area of a path", () => {
+    const areas = ["root/segreti", "root/segreti/sub", "bucket"].map(
+      (path) => ({ path, salt: "", iterations: 1, keyVersion: 1, verifier: "" })
+    );
+
+    expect(areaOf("root/segreti/sub/b.txt", areas)?.path).toBe(
+      "root/segreti/sub"
+    );
+    expect(areaOf("root/segreti/a.txt", areas)?.path).toBe("root/segreti");
+    expect(areaOf("bucket/x.txt", areas)?.path).toBe("bucket");
+    expect(areaOf("root/segretissimi/x.txt", areas)).toBeUndefined();
+  });
+});
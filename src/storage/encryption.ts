@@ -0,0 +1,555 @@
+import { StorageBackend } from "./backend";
+import { opfsKey, rewriteVersions } from "./history";
+import { OPFSEnvironment, browserEnvironment } from "./opfs";
+import { walkBackend } from "./walk";
+
+// Cifratura a riposo di cartelle e bucket OPFS. I file di un'area cifrata
+// sono scritti con AES-GCM e una chiave derivata dalla passphrase con
+// PBKDF2; la chiave resta solo in memoria, finché l'area non viene bloccata.
+//
+// Formato di un file cifrato: "OPFSENC1", versione della chiave (uint32),
+// IV di 12 byte, poi il testo cifrato con il tag di autenticazione.
+
+export type AreaKey = {
+  salt: string; // Base64, non segreto
+  iterations: number;
+  keyVersion: number; // Cresce a ogni rotazione della chiave
+  verifier: string; // VERIFIER cifrato, per riconoscere una passphrase errata
+};
+
+export type EncryptedArea = AreaKey & {
+  path: string; // Percorso dell'albero OPFS: "root/segreti" o "<bucket>"
+  // Chiave di una rotazione non terminata, salvata prima di riscrivere i
+  // file: finché c'è, i file possono avere l'una o l'altra versione
+  pending?: AreaKey;
+};
+
+export type AreaRegistry = Pick<Storage, "getItem" | "setItem">;
+
+// Raccomandazione OWASP per PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600_000;
+
+const MAGIC = new TextEncoder().encode("OPFSENC1");
+const HEADER_SIZE = MAGIC.length + 4 + 12;
+const VERIFIER = new TextEncoder().encode("opfs-poc");
+const REGISTRY_KEY = "opfs-poc:encrypted-areas";
+
+const browserRegistry = (): AreaRegistry => localStorage;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const wrongKey = (message: string) =>
+  new DOMException(message, "InvalidAccessError");
+
+export const loadAreas = (
+  registry: AreaRegistry = browserRegistry()
+): EncryptedArea[] => JSON.parse(registry.getItem(REGISTRY_KEY) ?? "[]");
+
+const saveArea = (area: EncryptedArea, registry: AreaRegistry) =>
+  registry.setItem(
+    REGISTRY_KEY,
+    JSON.stringify([
+      ...loadAreas(registry).filter((other) => other.path !== area.path),
+      area,
+    ])
+  );
+
+const forgetArea = (area: EncryptedArea, registry: AreaRegistry) =>
+  registry.setItem(
+    REGISTRY_KEY,
+    JSON.stringify(
+      loadAreas(registry).filter((other) => other.path !== area.path)
+    )
+  );
+
+// Aree di un backup con lo stesso percorso di un'area locale ma un'altra
+// chiave: i loro file non si potrebbero decifrare
+export const conflictingAreas = (
+  areas: EncryptedArea[],
+  registry: AreaRegistry = browserRegistry()
+): EncryptedArea[] => {
+  const local = loadAreas(registry);
+  return areas.filter((area) =>
+    local.some(
+      (other) =>
+        other.path === area.path &&
+        (other.salt !== area.salt || other.keyVersion !== area.keyVersion)
+    )
+  );
+};
+
+// Registra le aree di un backup ripristinato; quelle già presenti restano
+export const restoreAreas = (
+  areas: EncryptedArea[],
+  registry: AreaRegistry = browserRegistry()
+) => {
+  const local = loadAreas(registry);
+  for (const area of areas) {
+    if (!local.some((other) => other.path === area.path)) {
+      saveArea(area, registry);
+    }
+  }
+};
+
+// L'area più interna che contiene il percorso dell'albero
+export const areaOf = (
+  fullPath: string,
+  areas: EncryptedArea[]
+): EncryptedArea | undefined =>
+  areas
+    .filter(
+      (area) => fullPath === area.path || fullPath.startsWith(`${area.path}/`)
+    )
+    .sort((a, b) => b.path.length - a.path.length)[0];
+
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const headerOf = (keyVersion: number, iv: Uint8Array) => {
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(MAGIC);
+  new DataView(header.buffer).setUint32(MAGIC.length, keyVersion);
+  header.set(iv, MAGIC.length + 4);
+  return header;
+};
+
+const hasMagic = (bytes: Uint8Array) =>
+  bytes.length >= HEADER_SIZE && MAGIC.every((byte, i) => bytes[i] === byte);
+
+// Versione della chiave indicata nell'intestazione di un file cifrato
+const versionOf = (data: Uint8Array) =>
+  new DataView(data.buffer, data.byteOffset).getUint32(MAGIC.length);
+
+export const encryptBytes = async (
+  key: CryptoKey,
+  keyVersion: number,
+  data: Uint8Array
+): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const header = headerOf(keyVersion, iv);
+  // L'intestazione è autenticata: non si può cambiare la versione indicata
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: header },
+    key,
+    data
+  );
+  const result = new Uint8Array(HEADER_SIZE + encrypted.byteLength);
+  result.set(header);
+  result.set(new Uint8Array(encrypted), HEADER_SIZE);
+  return result;
+};
+
+export const decryptBytes = async (
+  key: CryptoKey,
+  keyVersion: number,
+  data: Uint8Array
+): Promise<Uint8Array> => {
+  if (!hasMagic(data)) {
+    throw new DOMException("Il file non è cifrato", "DataError");
+  }
+  const header = data.subarray(0, HEADER_SIZE);
+  const version = versionOf(data);
+  if (version !== keyVersion) {
+    throw wrongKey(
+      `Il file è cifrato con la versione ${version} della chiave, l'area usa la ${keyVersion}`
+    );
+  }
+  try {
+    const plain = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: header.subarray(MAGIC.length + 4),
+        additionalData: header,
+      },
+      key,
+      data.subarray(HEADER_SIZE)
+    );
+    return new Uint8Array(plain);
+  } catch {
+    // AES-GCM non distingue una chiave errata da un file alterato
+    throw wrongKey("Chiave errata o file danneggiato: impossibile decifrarlo");
+  }
+};
+
+export const isEncrypted = async (blob: Blob): Promise<boolean> =>
+  hasMagic(new Uint8Array(await blob.slice(0, HEADER_SIZE).arrayBuffer()));
+
+// Chiavi delle aree sbloccate, solo in memoria. Durante una rotazione
+// un'area ha due chiavi, una per versione.
+export const createKeyring = () => {
+  const keys = new Map<string, Map<number, CryptoKey>>();
+  const keep = (area: EncryptedArea, key: CryptoKey) => {
+    const versions = keys.get(area.path) ?? new Map<number, CryptoKey>();
+    keys.set(area.path, versions.set(area.keyVersion, key));
+  };
+  return {
+    keyOf: (area: EncryptedArea, keyVersion = area.keyVersion) =>
+      keys.get(area.path)?.get(keyVersion),
+    set: keep,
+    lock: (area: EncryptedArea) => void keys.delete(area.path),
+    lockAll: () => keys.clear(),
+    // Deriva la chiave e la verifica prima di tenerla
+    unlock: async (area: EncryptedArea, passphrase: string) => {
+      const key = await deriveKey(
+        passphrase,
+        fromBase64(area.salt),
+        area.iterations
+      );
+      try {
+        await decryptBytes(key, area.keyVersion, fromBase64(area.verifier));
+      } catch {
+        throw wrongKey(`Passphrase errata per ${area.path}`);
+      }
+      keep(area, key);
+      return key;
+    },
+  };
+};
+
+export type Keyring = ReturnType<typeof createKeyring>;
+
+let sharedKeyring: Keyring | null = null;
+
+export const getKeyring = (): Keyring => (sharedKeyring ??= createKeyring());
+
+// Chiave dell'area, o errore se l'area è bloccata
+export const requireKey = (
+  keyring: Keyring,
+  area: EncryptedArea,
+  keyVersion = area.keyVersion
+) => {
+  const key = keyring.keyOf(area, keyVersion);
+  if (key) return key;
+  throw new DOMException(
+    keyVersion === area.keyVersion
+      ? `Area cifrata bloccata: ${area.path}. Sbloccala con la passphrase`
+      : `Rotazione della chiave interrotta per ${area.path}: riprendila con la nuova passphrase`,
+    "InvalidStateError"
+  );
+};
+
+/**
+ * Contenuto in chiaro di un file dell'area, con lo stesso nome e la stessa
+ * data. Un file non ancora cifrato, ad esempio caricato, resta com'è; uno
+ * già riscritto da una rotazione interrotta si decifra con la nuova chiave.
+ */
+export const decryptFile = async (
+  file: File,
+  area: EncryptedArea,
+  keyring: Keyring
+): Promise<File> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  if (!hasMagic(data)) return file;
+  const keyVersion =
+    versionOf(data) === area.pending?.keyVersion
+      ? area.pending.keyVersion
+      : area.keyVersion;
+  const plain = await decryptBytes(
+    requireKey(keyring, area, keyVersion),
+    keyVersion,
+    data
+  );
+  return new File([plain], file.name, {
+    type: file.type,
+    lastModified: file.lastModified,
+  });
+};
+
+const newKey = async (
+  path: string,
+  passphrase: string,
+  keyVersion: number,
+  iterations: number
+) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, iterations);
+  const area: EncryptedArea = {
+    path,
+    salt: toBase64(salt),
+    iterations,
+    keyVersion,
+    verifier: toBase64(await encryptBytes(key, keyVersion, VERIFIER)),
+  };
+  return { area, key };
+};
+
+// Chiave della rotazione interrotta, se `passphrase` è quella usata allora
+const pendingKey = async (
+  path: string,
+  pending: AreaKey,
+  passphrase: string
+) => {
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(pending.salt),
+    pending.iterations
+  );
+  try {
+    await decryptBytes(key, pending.keyVersion, fromBase64(pending.verifier));
+  } catch {
+    throw wrongKey(
+      `Passphrase diversa da quella della rotazione interrotta di ${path}`
+    );
+  }
+  return { area: { ...pending, path }, key };
+};
+
+// Le versioni nella cronologia dei file dell'area
+const inArea = (area: EncryptedArea) => (key: string) =>
+  key === opfsKey(area.path) || key.startsWith(`${opfsKey(area.path)}/`);
+
+// Riscrive ogni file della cartella con `transform`, che restituisce null
+// per lasciarlo com'è. Restituisce il numero di file riscritti.
+const rewriteFiles = async (
+  backend: StorageBackend,
+  path: string,
+  transform: (data: Uint8Array) => Promise<Uint8Array | null>
+) => {
+  let rewritten = 0;
+  const files: string[] = [];
+  for await (const entry of walkBackend(backend, path)) {
+    if (entry.kind === "file") files.push(entry.path);
+  }
+  for (const file of files) {
+    const data = new Uint8Array(await (await backend.read(file)).arrayBuffer());
+    const result = await transform(data);
+    if (!result) continue;
+    await backend.write(file, result);
+    rewritten++;
+  }
+  return rewritten;
+};
+
+/**
+ * Cifra i file in chiaro della cartella `path` del backend, e le loro
+ * versioni nella cronologia. Con `area` assente la cartella diventa un'area
+ * cifrata con una nuova chiave.
+ */
+export const encryptArea = async (
+  backend: StorageBackend,
+  path: string,
+  {
+    fullPath,
+    passphrase,
+    area,
+    key,
+  }: {
+    fullPath: string; // Lo stesso percorso, nell'albero OPFS
+    passphrase?: string;
+    area?: EncryptedArea;
+    key?: CryptoKey;
+  },
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry(),
+  iterations = PBKDF2_ITERATIONS,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<{ area: EncryptedArea; encrypted: number }> => {
+  if (!area || !key) {
+    if (!passphrase) {
+      throw new DOMException("Serve una passphrase", "SyntaxError");
+    }
+    ({ area, key } = await newKey(fullPath, passphrase, 1, iterations));
+    saveArea(area, registry);
+    keyring.set(area, key);
+  }
+  const { keyVersion } = area;
+  const areaKey = key;
+  const encrypt = async (data: Uint8Array) =>
+    hasMagic(data) ? null : encryptBytes(areaKey, keyVersion, data);
+  const encrypted = await rewriteFiles(backend, path, encrypt);
+  // Anche le versioni salvate prima della cifratura
+  await rewriteVersions(inArea(area), encrypt, env);
+  return { area, encrypted };
+};
+
+/**
+ * Cifra di nuovo tutti i file, e le loro versioni nella cronologia, con una
+ * chiave derivata dalla nuova passphrase. L'area deve essere sbloccata. La
+ * nuova chiave si salva prima di riscrivere qualsiasi file: se la rotazione
+ * si interrompe, ripeterla con la stessa nuova passphrase riprende da dove
+ * si era fermata, saltando i file già riscritti.
+ */
+export const rotateKey = async (
+  backend: StorageBackend,
+  path: string,
+  area: EncryptedArea,
+  passphrase: string,
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry(),
+  iterations = PBKDF2_ITERATIONS,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<{ area: EncryptedArea; rewritten: number }> => {
+  const current =
+    loadAreas(registry).find((saved) => saved.path === area.path) ?? area;
+  const oldKey = requireKey(keyring, current);
+  let next;
+  if (current.pending) {
+    next = await pendingKey(current.path, current.pending, passphrase);
+  } else {
+    next = await newKey(
+      current.path,
+      passphrase,
+      current.keyVersion + 1,
+      iterations
+    );
+    const { salt, keyVersion, verifier } = next.area;
+    saveArea(
+      { ...current, pending: { salt, iterations, keyVersion, verifier } },
+      registry
+    );
+  }
+  const { key, area: rotated } = next;
+  // Serve per leggere i file già riscritti finché la rotazione non termina
+  keyring.set(rotated, key);
+
+  // I file già riscritti da una rotazione interrotta si lasciano com'erano
+  const reencrypt = async (data: Uint8Array) =>
+    versionOf(data) === rotated.keyVersion
+      ? null
+      : encryptBytes(
+          key,
+          rotated.keyVersion,
+          await decryptBytes(oldKey, current.keyVersion, data)
+        );
+  const rotate = async (data: Uint8Array) =>
+    hasMagic(data)
+      ? reencrypt(data)
+      : encryptBytes(key, rotated.keyVersion, data);
+  const rewritten = await rewriteFiles(backend, path, rotate);
+  await rewriteVersions(inArea(current), rotate, env);
+
+  saveArea(rotated, registry);
+  keyring.lock(current);
+  keyring.set(rotated, key);
+  return { area: rotated, rewritten };
+};
+
+// Riporta in chiaro tutti i file, e le loro versioni nella cronologia, poi
+// toglie l'area dall'elenco
+export const decryptArea = async (
+  backend: StorageBackend,
+  path: string,
+  area: EncryptedArea,
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry(),
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<number> => {
+  const current =
+    loadAreas(registry).find((saved) => saved.path === area.path) ?? area;
+  if (current.pending) {
+    throw new DOMException(
+      `Rotazione della chiave interrotta per ${current.path}: completala prima`,
+      "InvalidStateError"
+    );
+  }
+  const key = requireKey(keyring, current);
+  const decrypt = async (data: Uint8Array) =>
+    hasMagic(data) ? decryptBytes(key, current.keyVersion, data) : null;
+  const decrypted = await rewriteFiles(backend, path, decrypt);
+  await rewriteVersions(inArea(current), decrypt, env);
+  forgetArea(current, registry);
+  keyring.lock(current);
+  return decrypted;
+};
+
+// Contenuto da scrivere nel file `fullPath`: cifrato se è in un'area
+export const encodeForPath = async (
+  fullPath: string,
+  data: Uint8Array,
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry()
+): Promise<Uint8Array> => {
+  const area = areaOf(fullPath, loadAreas(registry));
+  if (!area) return data;
+  return encryptBytes(requireKey(keyring, area), area.keyVersion, data);
+};
+
+// Contenuto in chiaro del file `fullPath`, decifrato se è in un'area
+export const decodeForPath = async (
+  fullPath: string,
+  file: File,
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry()
+): Promise<File> => {
+  const area = areaOf(fullPath, loadAreas(registry));
+  if (!area) return file;
+  return decryptFile(file, area, keyring);
+};
+
+// Un file da scrivere in `fullPath`, cifrato se è in un'area
+export const encodeFileForPath = async (
+  fullPath: string,
+  file: File,
+  keyring: Keyring = getKeyring(),
+  registry: AreaRegistry = browserRegistry()
+): Promise<Blob> => {
+  if (!areaOf(fullPath, loadAreas(registry))) return file;
+  const data = new Uint8Array(await file.arrayBuffer());
+  return new Blob([await encodeForPath(fullPath, data, keyring, registry)]);
+};
+
+const crossesArea = (message: string) =>
+  new DOMException(message, "InvalidModificationError");
+
+// Aree che coincidono con `fullPath` o si trovano al suo interno
+const areasUnder = (fullPath: string, areas: EncryptedArea[]) =>
+  areas.filter(
+    (area) => area.path === fullPath || area.path.startsWith(`${fullPath}/`)
+  );
+
+/**
+ * Uno spostamento o una copia fra percorsi dell'albero OPFS si fa solo
+ * dentro la stessa area, o fuori da tutte: altrimenti i file resterebbero
+ * cifrati fuori dall'area, o in chiaro dentro. Un'area non si sposta né si
+ * copia: la sua chiave è legata al percorso.
+ */
+export const requireSameArea = (
+  source: string,
+  target: string,
+  registry: AreaRegistry = browserRegistry()
+) => {
+  const areas = loadAreas(registry);
+  if (
+    areasUnder(source, areas).length > 0 ||
+    areaOf(source, areas) !== areaOf(target, areas)
+  ) {
+    throw crossesArea(
+      `${source} → ${target}: si sposta e si copia solo all'interno della stessa area cifrata`
+    );
+  }
+};
+
+// La sincronizzazione scrive il contenuto così com'è: niente aree cifrate
+export const requireOutsideAreas = (
+  fullPath: string,
+  registry: AreaRegistry = browserRegistry()
+) => {
+  const areas = loadAreas(registry);
+  const area = areaOf(fullPath, areas) ?? areasUnder(fullPath, areas)[0];
+  if (area) {
+    throw crossesArea(
+      `${fullPath} tocca l'area cifrata ${area.path}: non si può sincronizzare`
+    );
+  }
+};
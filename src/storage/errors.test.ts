@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { ERROR_CATEGORIES, bucketUnavailable, classifyError } from "./errors";
+
+describe("classifyError", () => {
+  it("recognizes file system exceptions by name", () => {
+    const cases: [string, string][] = [
+      ["NotFoundError", "NotFound"],
+      ["TypeMismatchError", "TypeMismatch"],
+      ["QuotaExceededError", "QuotaExceeded"],
+      ["NotAllowedError", "NotAllowed"],
+      ["NoModificationAllowedError", "NotAllowed"],
+      ["InvalidCharacterError", "InvalidName"],
+    ];
+    for (const [name, category] of cases) {
+      expect(classifyError(new DOMException("x", name)).category).toBe(
+        category
+      );
+    }
+  });
+
+  it("adds the category explanation and hint", () => {
+    const error = classifyError(
+      new DOMException("Manca a.txt", "NotFoundError")
+    );
+
+    expect(error).toEqual({
+      category: "NotFound",
+      name: "NotFoundError",
+      message: "Manca a.txt",
+      explanation: ERROR_CATEGORIES.NotFound.explanation,
+      suggestion: ERROR_CATEGORIES.NotFound.suggestion,
+    });
+  });
+
+  it("recognizes unavailable buckets", () => {
+    expect(classifyError(bucketUnavailable("dati")).category).toBe(
+      "BucketUnavailable"
+    );
+    const expired = new DOMException("Bucket scaduto", "InvalidStateError");
+    expect(classifyError(expired, "bucket:dati").category).toBe(
+      "BucketUnavailable"
+    );
+    // Fuori da un bucket lo stato non valido ha altre cause
+    expect(classifyError(expired, "opfs:root").category).toBe("Unknown");
+  });
+
+  it("recognizes names rejected by the browser and unexpected errors", () => {
+    expect(classifyError(new TypeError("Name is not allowed.")).category).toBe(
+      "InvalidName"
+    );
+    expect(classifyError(new TypeError("x is undefined")).category).toBe(
+      "Unknown"
+    );
+    expect(classifyError("guasto")).toMatchObject({
+      category: "Unknown",
+      name: "Error",
+      message: "guasto",
+    });
+  });
+
+  it("tells corrupt data apart from invalid names", () => {
+    let parseError: unknown;
+    try {
+      JSON.parse("{ non json");
+    } catch (error) {
+      parseError = error;
+    }
+    expect(classifyError(parseError).category).toBe("CorruptData");
+    expect(
+      classifyError(new DOMException("Manca il manifest", "NotReadableError"))
+        .category
+    ).toBe("CorruptData");
+    expect(
+      classifyError(new DOMException("Percorso vuoto", "SyntaxError")).category
+    ).toBe("InvalidName");
+  });
+});
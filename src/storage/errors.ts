@@ -0,0 +1,125 @@
+// Modello degli errori mostrati all'utente: ogni eccezione dei backend e
+// delle API del browser ricade in una categoria, con una spiegazione e un
+// suggerimento su come rimediare.
+
+export type ErrorCategory =
+  | "NotFound"
+  | "TypeMismatch"
+  | "QuotaExceeded"
+  | "NotAllowed"
+  | "InvalidName"
+  | "BucketUnavailable"
+  | "CorruptData"
+  | "Unknown";
+
+export type ClassifiedError = {
+  category: ErrorCategory;
+  name: string; // Nome dell'eccezione originale, es. "NotFoundError"
+  message: string; // Messaggio dell'eccezione originale
+  explanation: string;
+  suggestion: string;
+};
+
+// Nome delle eccezioni per un bucket inesistente, scaduto o non supportato
+export const BUCKET_UNAVAILABLE = "BucketUnavailableError";
+
+export const bucketUnavailable = (name: string) =>
+  new DOMException(`Bucket non disponibile: ${name}`, BUCKET_UNAVAILABLE);
+
+export const ERROR_CATEGORIES: Record<
+  ErrorCategory,
+  { title: string; explanation: string; suggestion: string }
+> = {
+  NotFound: {
+    title: "Elemento non trovato",
+    explanation:
+      "Il file o la cartella non esiste più, oppure il percorso è sbagliato.",
+    suggestion:
+      "Ricarica l'albero e controlla il percorso: un'altra scheda potrebbe averlo spostato o eliminato.",
+  },
+  TypeMismatch: {
+    title: "Tipo di elemento sbagliato",
+    explanation:
+      "Il percorso indica una cartella dove serviva un file, o un file dove serviva una cartella.",
+    suggestion:
+      "Controlla se l'elemento è un file o una cartella e scegli un altro nome o un'altra operazione.",
+  },
+  QuotaExceeded: {
+    title: "Spazio esaurito",
+    explanation:
+      "Lo spazio concesso dal browser al sito, o la quota del bucket, è finito.",
+    suggestion:
+      "Elimina file o bucket che non servono più, oppure crea un bucket con una quota maggiore.",
+  },
+  NotAllowed: {
+    title: "Operazione non consentita",
+    explanation:
+      "Il browser non concede il permesso, oppure l'elemento è in sola lettura o bloccato.",
+    suggestion:
+      "Concedi di nuovo il permesso dal pannello Permessi, oppure attendi che l'altra scheda rilasci il file.",
+  },
+  InvalidName: {
+    title: "Nome non valido",
+    explanation:
+      "Il nome è vuoto o contiene caratteri che il file system non accetta.",
+    suggestion:
+      'Usa un nome non vuoto, senza "/" o "\\", diverso da "." e "..".',
+  },
+  BucketUnavailable: {
+    title: "Bucket non disponibile",
+    explanation:
+      "Il bucket non esiste, è scaduto o è stato eliminato, oppure il browser non supporta gli Storage Bucket.",
+    suggestion:
+      "Ricarica l'elenco dei bucket e, se serve, ricrealo dal pulsante Crea Bucket.",
+  },
+  CorruptData: {
+    title: "Dati illeggibili",
+    explanation:
+      "Il contenuto è danneggiato, in un formato inatteso o è cambiato durante la lettura.",
+    suggestion:
+      "Controlla che il file sia quello giusto e integro, ad esempio un backup esportato da questa app.",
+  },
+  Unknown: {
+    title: "Errore imprevisto",
+    explanation: "L'operazione non è riuscita per un motivo non previsto.",
+    suggestion:
+      "Riprova; se l'errore si ripete, il dettaglio è nella console del browser.",
+  },
+};
+
+const CATEGORY_BY_NAME: Record<string, ErrorCategory> = {
+  NotFoundError: "NotFound",
+  TypeMismatchError: "TypeMismatch",
+  QuotaExceededError: "QuotaExceeded",
+  NotAllowedError: "NotAllowed",
+  SecurityError: "NotAllowed",
+  NoModificationAllowedError: "NotAllowed",
+  InvalidCharacterError: "InvalidName",
+  SyntaxError: "InvalidName",
+  NotReadableError: "CorruptData",
+  [BUCKET_UNAVAILABLE]: "BucketUnavailable",
+};
+
+/**
+ * Classifica un'eccezione. `backend` è l'id del backend su cui è avvenuta:
+ * per i bucket InvalidStateError indica un bucket scaduto o eliminato.
+ */
+export const classifyError = (
+  error: unknown,
+  backend?: string
+): ClassifiedError => {
+  const name = error instanceof Error ? error.name : "Error";
+  const message = error instanceof Error ? error.message : String(error);
+
+  let category = CATEGORY_BY_NAME[name] ?? "Unknown";
+  // Chrome rifiuta i nomi non validi con un TypeError ("Name is not allowed")
+  if (name === "TypeError" && /name/i.test(message)) category = "InvalidName";
+  // I percorsi non validi sono DOMException "SyntaxError"; un SyntaxError
+  // semplice viene da JSON.parse, ad esempio sul manifest di un backup
+  if (error instanceof SyntaxError) category = "CorruptData";
+  if (name === "InvalidStateError" && backend?.startsWith("bucket:")) {
+    category = "BucketUnavailable";
+  }
+  const { explanation, suggestion } = ERROR_CATEGORIES[category];
+  return { category, name, message, explanation, suggestion };
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ExplorerOperations,
+  OpfsExplorerApi,
+  createExplorerApi,
+  installExplorerApi,
+} from "./explorerApi";
+
+const createOperations = (
+  overrides: Partial<ExplorerOperations> = {}
+): ExplorerOperations => ({
+  load: async () => [{ name: "root", kind: "directory" }],
+  list: async () => [],
+  createBucket: async () => {},
+  createFolder: async () => {},
+  createFile: async () => {},
+  openFile: async (fullPath) => ({
+    path: fullPath,
+    kind: "text",
+    mime: "text/plain",
+    size: 4,
+    lastModified: 0,
+    text: "ciao",
+  }),
+  saveFile: async (fullPath, text) => ({
+    path: fullPath,
+    kind: "text",
+    mime: "text/plain",
+    size: text.length,
+    lastModified: 0,
+    text,
+  }),
+  deleteEntry: async () => {},
+  ...overrides,
+});
+
+describe("createExplorerApi", () => {
+  it("returns the value of successful operations", async () => {
+    const api = createExplorerApi(() => createOperations());
+
+    expect(await api.load()).toEqual({
+      ok: true,
+      value: [{ name: "root", kind: "directory" }],
+    });
+    const opened = await api.openFile("root/a.txt");
+    expect(opened.ok && opened.value.text).toBe("ciao");
+  });
+
+  it("turns exceptions into structured errors", async () => {
+    const api = createExplorerApi(() =>
+      createOperations({
+        deleteEntry: async (fullPath) => {
+          throw new DOMException(`Non trovato: ${fullPath}`, "NotFoundError");
+        },
+        createFile: async () => {
+          throw "guasto";
+        },
+      })
+    );
+
+    expect(await api.deleteEntry("root/x")).toMatchObject({
+      ok: false,
+      error: {
+        category: "NotFound",
+        name: "NotFoundError",
+        message: "Non trovato: root/x",
+      },
+    });
+    expect(await api.createFile("root/y")).toMatchObject({
+      ok: false,
+      error: { category: "Unknown", name: "Error", message: "guasto" },
+    });
+  });
+
+  it("classifies errors by the backend of the path", async () => {
+    const api = createExplorerApi(() =>
+      createOperations({
+        createFile: async () => {
+          throw new DOMException("Stato non valido", "InvalidStateError");
+        },
+      })
+    );
+
+    expect(await api.createFile("bucket://dati/a.txt")).toMatchObject({
+      ok: false,
+      error: { category: "BucketUnavailable" },
+    });
+    expect(await api.createFile("dati/a.txt")).toMatchObject({
+      ok: false,
+      error: { category: "BucketUnavailable" },
+    });
+    expect(await api.createFile("opfs://a.txt")).toMatchObject({
+      ok: false,
+      error: { category: "Unknown" },
+    });
+  });
+
+  it("uses the latest operations and the default options", async () => {
+    const saveFile = vi.fn(createOperations().saveFile);
+    const createBucket = vi.fn(async () => {});
+    let operations = createOperations();
+    const api = createExplorerApi(() => operations);
+    operations = createOperations({ saveFile, createBucket });
+
+    await api.saveFile("root/a.txt", "nuovo");
+    await api.saveFile("root/a.txt", "forzato", { overwrite: true });
+    await api.createBucket("dati");
+
+    expect(saveFile.mock.calls).toEqual([
+      ["root/a.txt", "nuovo", false],
+      ["root/a.txt", "forzato", true],
+    ]);
+    expect(createBucket).toHaveBeenCalledWith("dati", {});
+  });
+});
+
+describe("installExplorerApi", () => {
+  it("exposes the API and removes it only if it is still the installed one", () => {
+    const target: { opfsExplorer?: OpfsExplorerApi } = {};
+    const first = createExplorerApi(() => createOperations());
+    const second = createExplorerApi(() => createOperations());
+
+    const uninstallFirst = installExplorerApi(first, target);
+    expect(target.opfsExplorer).toBe(first);
+    const uninstallSecond = installExplorerApi(second, target);
+    uninstallFirst();
+    expect(target.opfsExplorer).toBe(second);
+    uninstallSecond();
+    expect(target.opfsExplorer).toBeUndefined();
+  });
+});
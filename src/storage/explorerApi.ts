@@ -0,0 +1,140 @@
+import { ContentKind } from "./content";
+import { ClassifiedError, classifyError } from "./errors";
+import { opfsBackendId } from "./opfs";
+import { backendOfAddress } from "./paths";
+import { FileSystemNode } from "./tree";
+
+// API programmatica dell'esploratore OPFS, esposta come `window.opfsExplorer`
+// per i test automatici (Playwright) e per gli snippet da devtools. Le
+// operazioni sono quelle dei pulsanti dell'interfaccia, che resta allineata.
+
+// Categoria, spiegazione e suggerimento come nei messaggi dell'interfaccia
+export type ExplorerError = ClassifiedError;
+
+// Risultati e errori sono oggetti semplici, serializzabili da page.evaluate()
+export type ExplorerResult<T> =
+  { ok: true; value: T } | { ok: false; error: ExplorerError };
+
+export type ExplorerBucketOptions = {
+  durability?: "strict" | "relaxed";
+  persisted?: boolean;
+  quota?: number; // Byte
+  expires?: number; // Secondi da adesso
+};
+
+export type ExplorerFile = {
+  path: string; // Percorso completo dell'albero
+  kind: ContentKind;
+  mime: string;
+  size: number;
+  lastModified: number;
+  text: string | null; // Solo per i file di testo modificabili
+};
+
+// Operazioni del componente: lanciano un'eccezione in caso di errore
+export type ExplorerOperations = {
+  load: () => Promise<FileSystemNode[]>;
+  list: (fullPath: string) => Promise<FileSystemNode[]>;
+  createBucket: (name: string, options: ExplorerBucketOptions) => Promise<void>;
+  createFolder: (fullPath: string) => Promise<void>;
+  createFile: (fullPath: string) => Promise<void>;
+  openFile: (fullPath: string) => Promise<ExplorerFile>;
+  saveFile: (
+    fullPath: string,
+    text: string,
+    overwrite: boolean
+  ) => Promise<ExplorerFile>;
+  deleteEntry: (fullPath: string) => Promise<void>;
+};
+
+/**
+ * API di `window.opfsExplorer`. I percorsi sono indirizzi "opfs://..." per la
+ * radice OPFS e "bucket://<nome>/..." per i bucket (vedi paths.ts), oppure
+ * percorsi completi dell'albero. Ogni funzione restituisce una promise che
+ * non viene mai rifiutata: l'esito è in `ok`.
+ *
+ *   await opfsExplorer.createBucket("dati");
+ *   await opfsExplorer.createFile("bucket://dati/note.txt");
+ *   await opfsExplorer.saveFile("bucket://dati/note.txt", "ciao");
+ *   (await opfsExplorer.openFile("bucket://dati/note.txt")).value.text; // "ciao"
+ */
+export type OpfsExplorerApi = {
+  // Ricarica l'albero e restituisce il primo livello (radice e bucket)
+  load: () => Promise<ExplorerResult<FileSystemNode[]>>;
+  // Contenuto della radice, di una cartella o di un bucket, "" per il primo
+  // livello
+  list: (fullPath: string) => Promise<ExplorerResult<FileSystemNode[]>>;
+  createBucket: (
+    name: string,
+    options?: ExplorerBucketOptions
+  ) => Promise<ExplorerResult<void>>;
+  // Crea anche le cartelle intermedie
+  createFolder: (fullPath: string) => Promise<ExplorerResult<void>>;
+  createFile: (fullPath: string) => Promise<ExplorerResult<void>>;
+  // Apre il file in una scheda dell'editor e ne restituisce il contenuto
+  openFile: (fullPath: string) => Promise<ExplorerResult<ExplorerFile>>;
+  // Apre il file se serve e lo salva con `text`. Se un'altra scheda l'ha
+  // modificato dopo l'apertura fallisce con InvalidModificationError, a meno
+  // di `overwrite`
+  saveFile: (
+    fullPath: string,
+    text: string,
+    options?: { overwrite?: boolean }
+  ) => Promise<ExplorerResult<ExplorerFile>>;
+  // Elimina un file, una cartella con il suo contenuto o un bucket
+  deleteEntry: (fullPath: string) => Promise<ExplorerResult<void>>;
+};
+
+declare global {
+  interface Window {
+    opfsExplorer?: OpfsExplorerApi;
+  }
+}
+
+// `backend` serve a riconoscere negli errori i bucket scaduti
+const settle = async <T>(
+  operation: () => Promise<T>,
+  backend?: string
+): Promise<ExplorerResult<T>> => {
+  try {
+    return { ok: true, value: await operation() };
+  } catch (error) {
+    return { ok: false, error: classifyError(error, backend) };
+  }
+};
+
+// Le operazioni si leggono a ogni chiamata: `current` restituisce quelle del
+// render più recente del componente
+export const createExplorerApi = (
+  current: () => ExplorerOperations
+): OpfsExplorerApi => ({
+  load: () => settle(() => current().load()),
+  list: (fullPath) =>
+    settle(() => current().list(fullPath), backendOfAddress(fullPath)),
+  createBucket: (name, options = {}) =>
+    settle(() => current().createBucket(name, options), opfsBackendId(name)),
+  createFolder: (fullPath) =>
+    settle(() => current().createFolder(fullPath), backendOfAddress(fullPath)),
+  createFile: (fullPath) =>
+    settle(() => current().createFile(fullPath), backendOfAddress(fullPath)),
+  openFile: (fullPath) =>
+    settle(() => current().openFile(fullPath), backendOfAddress(fullPath)),
+  saveFile: (fullPath, text, options = {}) =>
+    settle(
+      () => current().saveFile(fullPath, text, !!options.overwrite),
+      backendOfAddress(fullPath)
+    ),
+  deleteEntry: (fullPath) =>
+    settle(() => current().deleteEntry(fullPath), backendOfAddress(fullPath)),
+});
+
+// Rende disponibile l'API su `target`; la funzione restituita la rimuove
+export const installExplorerApi = (
+  api: OpfsExplorerApi,
+  target: Pick<Window, "opfsExplorer"> = window
+) => {
+  target.opfsExplorer = api;
+  return () => {
+    if (target.opfsExplorer === api) delete target.opfsExplorer;
+  };
+};
@@ -0,0 +1,88 @@
+import { EntryInfo, StorageBackend, WriteData, splitPath } from "./backend";
+
+const notSupported = () =>
+  new DOMException(
+    "Un file aggiunto da solo non contiene altri elementi",
+    "NotSupportedError"
+  );
+
+/**
+ * Backend con un solo file, per i file aggiunti all'area di lavoro con
+ * showOpenFilePicker: la radice contiene soltanto quel file, che si può
+ * leggere e riscrivere ma non spostare, eliminare o affiancare ad altri.
+ */
+export const createFileBackend = (
+  id: string,
+  handle: FileSystemFileHandle
+): StorageBackend => {
+  // L'unico percorso valido è il nome del file
+  const check = (path: string) => {
+    const parts = splitPath(path);
+    if (parts.length !== 1 || parts[0] !== handle.name) {
+      throw new DOMException(`Elemento non trovato: ${path}`, "NotFoundError");
+    }
+  };
+
+  const list = async (path = ""): Promise<EntryInfo[]> => {
+    if (splitPath(path).length > 0) {
+      check(path);
+      throw new DOMException(
+        `Non è una cartella: ${path}`,
+        "TypeMismatchError"
+      );
+    }
+    return [{ name: handle.name, path: handle.name, kind: "file" }];
+  };
+
+  const stat = async (path: string): Promise<EntryInfo> => {
+    if (splitPath(path).length === 0) {
+      return { name: "", path: "", kind: "directory" };
+    }
+    check(path);
+    const file = await handle.getFile();
+    return {
+      name: handle.name,
+      path: handle.name,
+      kind: "file",
+      size: file.size,
+      lastModified: file.lastModified,
+      type: file.type,
+    };
+  };
+
+  const read = async (path: string): Promise<File> => {
+    check(path);
+    return handle.getFile();
+  };
+
+  const write = async (path: string, data: WriteData): Promise<void> => {
+    check(path);
+    const writable = await handle.createWritable();
+    await writable.write(data);
+    await writable.close();
+  };
+
+  return {
+    id,
+    label: handle.name,
+    root: async () => {
+      throw notSupported();
+    },
+    list,
+    stat,
+    read,
+    write,
+    createFile: async () => {
+      throw notSupported();
+    },
+    mkdir: async () => {
+      throw notSupported();
+    },
+    remove: async () => {
+      throw notSupported();
+    },
+    move: async () => {
+      throw notSupported();
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import { copyHandle, createHandleBackend } from "./handleBackend";
+import { createMemoryDirectory } from "./memory";
+import { walkBackend } from "./walk";
+
+describe("createHandleBackend", () => {
+  let root: FileSystemDirectoryHandle;
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    root = createMemoryDirectory();
+    backend = createHandleBackend("test", "test", async () => root);
+  });
+
+  it("creates intermediate folders for new files and folders", async () => {
+    await backend.createFile("a/b/c.txt");
+    await backend.mkdir("x/y");
+
+    const entries = [];
+    for await (const { path, kind } of walkBackend(backend)) {
+      entries.push({ path, kind });
+    }
+    expect(entries).toEqual([
+      { path: "a", kind: "directory" },
+      { path: "a/b", kind: "directory" },
+      { path: "a/b/c.txt", kind: "file" },
+      { path: "x", kind: "directory" },
+      { path: "x/y", kind: "directory" },
+    ]);
+  });
+
+  it("does not truncate an existing file when creating it again", async () => {
+    await backend.createFile("note.txt");
+    await backend.write("note.txt", "contenuto");
+    await backend.createFile("note.txt");
+
+    expect(await (await backend.read("note.txt")).text()).toBe("contenuto");
+  });
+
+  it("round-trips text and binary content", async () => {
+    const bytes = new Uint8Array([0, 255, 1, 128]);
+    await backend.mkdir("data");
+    await backend.write("data/text.txt", "ciao");
+    await backend.write("data/blob.bin", bytes);
+
+    expect(await (await backend.read("data/text.txt")).text()).toBe("ciao");
+    const file = await backend.read("data/blob.bin");
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(bytes);
+    expect((await backend.stat("data/blob.bin")).size).toBe(4);
+  });
+
+  it("requires recursive to remove a non-empty folder", async () => {
+    await backend.createFile("dir/sub/file.txt");
+
+    await expect(backend.remove("dir")).rejects.toMatchObject({
+      name: "InvalidModificationError",
+    });
+    await backend.remove("dir", { recursive: true });
+    expect(await backend.list()).toEqual([]);
+  });
+
+  it("reports missing entries and kind mismatches", async () => {
+    await backend.mkdir("dir");
+
+    await expect(backend.read("missing.txt")).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+    await expect(backend.read("dir")).rejects.toMatchObject({
+      name: "TypeMismatchError",
+    });
+    expect((await backend.stat("dir")).kind).toBe("directory");
+  });
+
+  it("moves files and folders", async () => {
+    await backend.createFile("src/a.txt");
+    await backend.write("src/a.txt", "A");
+    await backend.move("src/a.txt", "dst/b.txt");
+    await backend.move("src", "old");
+
+    expect(await (await backend.read("dst/b.txt")).text()).toBe("A");
+    expect((await backend.list()).map((entry) => entry.path)).toEqual([
+      "dst",
+      "old",
+    ]);
+  });
+});
+
+describe("copyHandle", () => {
+  it("copies a directory tree recursively", async () => {
+    const source = createMemoryDirectory();
+    const target = createMemoryDirectory();
+    const sourceBackend = createHandleBackend("s", "s", async () => source);
+    const targetBackend = createHandleBackend("t", "t", async () => target);
+    await sourceBackend.createFile("tree/deep/file.txt");
+    await sourceBackend.write("tree/deep/file.txt", "copia");
+
+    await copyHandle(await source.getDirectoryHandle("tree"), target, "copy");
+
+    expect(await (await targetBackend.read("copy/deep/file.txt")).text()).toBe(
+      "copia"
+    );
+    expect(await sourceBackend.stat("tree/deep/file.txt")).toBeTruthy();
+  });
+});
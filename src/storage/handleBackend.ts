@@ -0,0 +1,246 @@
+import {
+  EntryInfo,
+  StorageBackend,
+  WriteData,
+  joinPath,
+  splitPath,
+} from "./backend";
+
+const walk = async (
+  root: FileSystemDirectoryHandle,
+  parts: string[],
+  create = false
+): Promise<FileSystemDirectoryHandle> => {
+  let currentHandle = root;
+  for (const part of parts) {
+    currentHandle = await currentHandle.getDirectoryHandle(part, { create });
+  }
+  return currentHandle;
+};
+
+const splitParent = (path: string): { parent: string[]; name: string } => {
+  const parent = splitPath(path);
+  const name = parent.pop();
+  if (!name) {
+    throw new DOMException(
+      "Il percorso non indica nessun elemento",
+      "NotFoundError"
+    );
+  }
+  return { parent, name };
+};
+
+// Risolve un elemento di cui non si conosce il tipo: prima come file, poi
+// come cartella se il browser segnala un TypeMismatchError.
+const getChildHandle = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemHandle> => {
+  try {
+    return await directory.getFileHandle(name);
+  } catch (error) {
+    if ((error as DOMException).name !== "TypeMismatchError") throw error;
+    return await directory.getDirectoryHandle(name);
+  }
+};
+
+const describe = async (
+  handle: FileSystemHandle,
+  path: string
+): Promise<EntryInfo> => {
+  if (handle.kind === "directory") {
+    return { name: handle.name, path, kind: "directory" };
+  }
+  const file = await (handle as FileSystemFileHandle).getFile();
+  return {
+    name: handle.name,
+    path,
+    kind: "file",
+    size: file.size,
+    lastModified: file.lastModified,
+    type: file.type,
+  };
+};
+
+export const resolveFileHandle = async (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  options?: { create?: boolean }
+): Promise<FileSystemFileHandle> => {
+  const { parent, name } = splitParent(path);
+  const directory = await walk(root, parent, options?.create);
+  return directory.getFileHandle(name, options);
+};
+
+export const resolveDirectory = (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create = false
+): Promise<FileSystemDirectoryHandle> => walk(root, splitPath(path), create);
+
+// Handle di un file o di una cartella; il percorso vuoto indica la radice
+export const resolveHandle = async (
+  root: FileSystemDirectoryHandle,
+  path: string
+): Promise<FileSystemHandle> => {
+  if (splitPath(path).length === 0) return root;
+  const { parent, name } = splitParent(path);
+  return getChildHandle(await walk(root, parent), name);
+};
+
+export const findChild = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemHandle | null> => {
+  try {
+    return await getChildHandle(directory, name);
+  } catch (error) {
+    if ((error as DOMException).name === "NotFoundError") return null;
+    throw error;
+  }
+};
+
+export const copyHandle = async (
+  source: FileSystemHandle,
+  destination: FileSystemDirectoryHandle,
+  name: string = source.name
+): Promise<void> => {
+  if (source.kind === "file") {
+    const file = await (source as FileSystemFileHandle).getFile();
+    const target = await destination.getFileHandle(name, { create: true });
+    const writable = await target.createWritable();
+    await writable.write(file);
+    await writable.close();
+    return;
+  }
+
+  const directory = await destination.getDirectoryHandle(name, {
+    create: true,
+  });
+  for await (const [childName, child] of (
+    source as FileSystemDirectoryHandle
+  ).entries()) {
+    await copyHandle(child, directory, childName);
+  }
+};
+
+// Errori con cui move() nativo rifiuta spostamenti che la copia può fare,
+// ad esempio tra la radice OPFS e un bucket
+const MOVE_FALLBACK_ERRORS = ["NotSupportedError", "InvalidModificationError"];
+
+/**
+ * Sposta un elemento con move() nativo dove esiste, altrimenti (o se il
+ * browser lo rifiuta) copiandolo e poi eliminando l'originale.
+ */
+export const moveHandle = async (
+  handle: FileSystemHandle,
+  sourceDirectory: FileSystemDirectoryHandle,
+  targetDirectory: FileSystemDirectoryHandle,
+  name: string
+): Promise<void> => {
+  const sourceName = handle.name;
+  if (handle.move) {
+    try {
+      await handle.move(targetDirectory, name);
+      return;
+    } catch (error) {
+      if (!MOVE_FALLBACK_ERRORS.includes((error as DOMException).name)) {
+        throw error;
+      }
+    }
+  }
+
+  await copyHandle(handle, targetDirectory, name);
+  await sourceDirectory.removeEntry(sourceName, {
+    recursive: handle.kind === "directory",
+  });
+};
+
+/**
+ * Backend generico costruito su un FileSystemDirectoryHandle. La radice viene
+ * richiesta a ogni operazione, così un bucket eliminato e ricreato o un
+ * handle sostituito vengono sempre riletti.
+ */
+export const createHandleBackend = (
+  id: string,
+  label: string,
+  getRoot: () => Promise<FileSystemDirectoryHandle>
+): StorageBackend => {
+  const list = async (path = ""): Promise<EntryInfo[]> => {
+    const directory = await walk(await getRoot(), splitPath(path));
+    const entries: EntryInfo[] = [];
+    for await (const [name, handle] of directory.entries()) {
+      // Niente getFile() qui: con decine di migliaia di file l'elenco deve
+      // restare economico, dimensioni e date si leggono con stat()
+      entries.push({ name, path: joinPath(path, name), kind: handle.kind });
+    }
+    return entries;
+  };
+
+  const stat = async (path: string): Promise<EntryInfo> => {
+    const root = await getRoot();
+    if (splitPath(path).length === 0) return describe(root, "");
+    const { parent, name } = splitParent(path);
+    const directory = await walk(root, parent);
+    return describe(await getChildHandle(directory, name), path);
+  };
+
+  const read = async (path: string): Promise<File> => {
+    const fileHandle = await resolveFileHandle(await getRoot(), path);
+    return fileHandle.getFile();
+  };
+
+  const write = async (path: string, data: WriteData): Promise<void> => {
+    const { parent, name } = splitParent(path);
+    const directory = await walk(await getRoot(), parent);
+    const fileHandle = await directory.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(data);
+    await writable.close();
+  };
+
+  const createFile = async (path: string): Promise<void> => {
+    const { parent, name } = splitParent(path);
+    const directory = await walk(await getRoot(), parent, true);
+    await directory.getFileHandle(name, { create: true });
+  };
+
+  const mkdir = async (path: string): Promise<void> => {
+    await walk(await getRoot(), splitPath(path), true);
+  };
+
+  const remove = async (
+    path: string,
+    options?: { recursive?: boolean }
+  ): Promise<void> => {
+    const { parent, name } = splitParent(path);
+    const directory = await walk(await getRoot(), parent);
+    await directory.removeEntry(name, {
+      recursive: options?.recursive ?? false,
+    });
+  };
+
+  const move = async (from: string, to: string): Promise<void> => {
+    const root = await getRoot();
+    const source = splitParent(from);
+    const target = splitParent(to);
+    const sourceDirectory = await walk(root, source.parent);
+    const targetDirectory = await walk(root, target.parent, true);
+    const handle = await getChildHandle(sourceDirectory, source.name);
+    await moveHandle(handle, sourceDirectory, targetDirectory, target.name);
+  };
+
+  return {
+    id,
+    label,
+    root: getRoot,
+    list,
+    stat,
+    read,
+    write,
+    createFile,
+    mkdir,
+    remove,
+    move,
+  };
+};
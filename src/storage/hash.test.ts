@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { STREAM_THRESHOLD, createSha256, sha256 } from "./hash";
+
+const webCrypto = async (data: Uint8Array) =>
+  Array.from(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", data)),
+    (byte) => byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const bytes = (length: number) =>
+  Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256);
+
+describe("sha256", () => {
+  it("matches the known digests", async () => {
+    expect(await sha256(new Blob(["abc"]))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    const hash = createSha256();
+    hash.update(new TextEncoder().encode("abc"));
+    expect(hash.digest()).toBe(await sha256(new Blob(["abc"])));
+  });
+
+  it("gives the same digest as Web Crypto for any chunking", async () => {
+    // Lunghezze intorno ai confini del blocco e del padding
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const data = bytes(length);
+      for (const chunk of [1, 7, 64, 100]) {
+        const hash = createSha256();
+        for (let i = 0; i < length; i += chunk) {
+          hash.update(data.subarray(i, i + chunk));
+        }
+        expect(hash.digest()).toBe(await webCrypto(data));
+      }
+    }
+  });
+
+  it("streams large files and reports the bytes read", async () => {
+    const data = bytes(STREAM_THRESHOLD + 1000);
+    let read = 0;
+
+    const hash = await sha256(new Blob([data]), {
+      onBytes: (bytes) => (read += bytes),
+    });
+
+    expect(hash).toBe(await webCrypto(data));
+    expect(read).toBe(data.length);
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      sha256(new Blob(["abc"]), { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,166 @@
+// Impronte SHA-256 dei file. Web Crypto calcola l'impronta solo su un buffer
+// intero: fino a STREAM_THRESHOLD il file si legge in memoria e si usa
+// crypto.subtle, oltre si legge a blocchi con l'implementazione incrementale
+// qui sotto, così anche i file enormi occupano poca memoria.
+
+export const STREAM_THRESHOLD = 16 * 1024 * 1024;
+
+export type HashOptions = {
+  signal?: AbortSignal;
+  onBytes?: (bytes: number) => void; // Byte letti dall'ultima chiamata
+};
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Costanti di FIPS 180-4: radici cubiche dei primi 64 numeri primi
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * SHA-256 incrementale: `update` accetta blocchi di qualsiasi lunghezza,
+ * `digest` chiude il calcolo e restituisce l'impronta in esadecimale.
+ */
+export const createSha256 = () => {
+  const state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+  const block = new Uint8Array(64);
+  let buffered = 0;
+  let length = 0;
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] =
+        (data[j] << 24) |
+        (data[j + 1] << 16) |
+        (data[j + 2] << 8) |
+        data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const a = words[i - 15];
+      const b = words[i - 2];
+      const s0 = rotr(a, 7) ^ rotr(a, 18) ^ (a >>> 3);
+      const s1 = rotr(b, 17) ^ rotr(b, 19) ^ (b >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + K[i] + words[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (data: Uint8Array) => {
+    length += data.length;
+    let offset = 0;
+    if (buffered > 0) {
+      const take = Math.min(64 - buffered, data.length);
+      block.set(data.subarray(0, take), buffered);
+      buffered += take;
+      offset = take;
+      if (buffered < 64) return;
+      compress(block, 0);
+      buffered = 0;
+    }
+    for (; offset + 64 <= data.length; offset += 64) compress(data, offset);
+    block.set(data.subarray(offset), 0);
+    buffered = data.length - offset;
+  };
+
+  const digest = (): string => {
+    const bits = length * 8;
+    const padding = new Uint8Array(
+      buffered < 56 ? 64 - buffered : 128 - buffered
+    );
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 2 ** 32));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    update(padding);
+    const out = new DataView(new ArrayBuffer(32));
+    state.forEach((word, i) => out.setUint32(i * 4, word));
+    return toHex(new Uint8Array(out.buffer));
+  };
+
+  return { update, digest };
+};
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Calcolo dell'impronta annullato", "AbortError");
+  }
+};
+
+/**
+ * Impronta SHA-256 del contenuto, in esadecimale. I file grandi si leggono
+ * come stream e il calcolo si può annullare tra un blocco e l'altro.
+ */
+export const sha256 = async (
+  blob: Blob,
+  { signal, onBytes }: HashOptions = {}
+): Promise<string> => {
+  checkAborted(signal);
+  if (blob.size <= STREAM_THRESHOLD) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      await blob.arrayBuffer()
+    );
+    onBytes?.(blob.size);
+    return toHex(new Uint8Array(digest));
+  }
+
+  const hash = createSha256();
+  const reader = blob.stream().getReader();
+  try {
+    for (
+      let chunk = await reader.read();
+      !chunk.done;
+      chunk = await reader.read()
+    ) {
+      checkAborted(signal);
+      hash.update(chunk.value);
+      onBytes?.(chunk.value.length);
+    }
+  } catch (error) {
+    await reader.cancel();
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+  return hash.digest();
+};
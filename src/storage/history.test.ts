@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment, createMemoryStorage } from "./memory";
+import { OPFSEnvironment } from "./opfs";
+import {
+  DEFAULT_RETENTION,
+  HISTORY_BUCKET,
+  deleteVersion,
+  listVersions,
+  loadRetention,
+  pruneHistory,
+  readVersion,
+  saveRetention,
+  saveVersion,
+  visibleRoots,
+} from "./history";
+
+const DAY = 24 * 60 * 60 * 1000;
+const KEY = "opfs:root/docs/a.txt";
+
+describe("version history", () => {
+  let env: OPFSEnvironment;
+
+  beforeEach(() => {
+    env = createMemoryEnvironment();
+  });
+
+  it("keeps replaced contents in the history bucket, newest first", async () => {
+    await saveVersion(KEY, new Blob(["uno"]), env, 1000);
+    await saveVersion(KEY, new Blob(["due due"]), env, 2000);
+
+    expect(await listVersions(KEY, env)).toEqual([
+      { id: "2000", savedAt: 2000, size: 7 },
+      { id: "1000", savedAt: 1000, size: 3 },
+    ]);
+    expect(await (await readVersion(KEY, "1000", env)).text()).toBe("uno");
+    expect(await env.buckets.keys()).toEqual([HISTORY_BUCKET]);
+  });
+
+  it("skips a version identical to the latest one", async () => {
+    await saveVersion(KEY, new Blob(["uno"]), env, 1000);
+
+    expect(await saveVersion(KEY, new Blob(["uno"]), env, 2000)).toBeNull();
+    expect(await listVersions(KEY, env)).toHaveLength(1);
+  });
+
+  it("never reuses an id within the same millisecond", async () => {
+    await saveVersion(KEY, new Blob(["uno"]), env, 1000);
+    const second = await saveVersion(KEY, new Blob(["due"]), env, 1000);
+
+    expect(second?.id).toBe("1001");
+  });
+
+  it("keeps files with the same name in different sources apart", async () => {
+    await saveVersion(KEY, new Blob(["opfs"]), env, 1000);
+    await saveVersion("picked:docs:a.txt", new Blob(["cartella"]), env, 1000);
+
+    expect(await listVersions(KEY, env)).toHaveLength(1);
+    expect(await listVersions("picked:docs:other.txt", env)).toEqual([]);
+  });
+
+  it("hides its bucket and one that would clash with the root", async () => {
+    await saveVersion(KEY, new Blob(["uno"]), env, 1000);
+    await env.buckets.open("root");
+    await env.buckets.open("media");
+
+    expect(await visibleRoots(env)).toEqual(["root", "media"]);
+  });
+
+  it("deletes a single version", async () => {
+    await saveVersion(KEY, new Blob(["uno"]), env, 1000);
+    await saveVersion(KEY, new Blob(["due"]), env, 2000);
+    await deleteVersion(KEY, "1000", env);
+
+    expect((await listVersions(KEY, env)).map((v) => v.id)).toEqual(["2000"]);
+  });
+
+  describe("pruneHistory", () => {
+    beforeEach(async () => {
+      for (const [index, text] of ["a", "bb", "ccc", "dddd"].entries()) {
+        await saveVersion(KEY, new Blob([text]), env, (index + 1) * DAY);
+      }
+      await saveVersion("opfs:root/b.txt", new Blob(["eeeee"]), env, 5 * DAY);
+    });
+
+    const ids = async (key = KEY) =>
+      (await listVersions(key, env)).map((version) => version.savedAt / DAY);
+
+    it("limits the number of versions per file", async () => {
+      expect(await pruneHistory({ maxVersions: 2 }, env, 6 * DAY)).toBe(2);
+      expect(await ids()).toEqual([4, 3]);
+      expect(await ids("opfs:root/b.txt")).toEqual([5]);
+    });
+
+    it("drops versions older than the maximum age", async () => {
+      await pruneHistory({ maxAgeDays: 2 }, env, 5 * DAY);
+      expect(await ids()).toEqual([4, 3]);
+    });
+
+    it("removes the oldest versions to stay within the total size", async () => {
+      // 1 + 2 + 3 + 4 + 5 byte: per stare in 9 restano le ultime due
+      await pruneHistory({ maxBytes: 9 }, env, 6 * DAY);
+      expect(await ids()).toEqual([4]);
+      expect(await ids("opfs:root/b.txt")).toEqual([5]);
+    });
+  });
+
+  it("stores the retention policy", () => {
+    const store = createMemoryStorage();
+    expect(loadRetention(store)).toEqual(DEFAULT_RETENTION);
+
+    saveRetention({ maxAgeDays: 30, maxBytes: 1024 }, store);
+    expect(loadRetention(store)).toEqual({ maxAgeDays: 30, maxBytes: 1024 });
+  });
+});
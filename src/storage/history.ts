@@ -0,0 +1,240 @@
+import { OPFSEnvironment, OPFS_ROOT, browserEnvironment } from "./opfs";
+
+// Cronologia delle versioni dei file salvati dall'editor. Le versioni stanno
+// in un bucket dedicato, nascosto dall'albero e dalla ricerca, con una
+// cartella per file e un file per versione chiamato con l'istante in cui è
+// stata sostituita.
+export const HISTORY_BUCKET = "opfs-poc-history";
+
+// Bucket con i file dell'utente, senza quello della cronologia. Un bucket
+// chiamato "root", creato fuori dall'app, si confonderebbe con la radice OPFS
+// nei percorsi dell'albero: non si mostra e non si salva nei backup.
+export const visibleBuckets = async (
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<string[]> =>
+  (await env.buckets.keys()).filter(
+    (name) => name !== HISTORY_BUCKET && name !== OPFS_ROOT
+  );
+
+// Radice OPFS e bucket con i file dell'utente
+export const visibleRoots = async (
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<string[]> => [OPFS_ROOT, ...(await visibleBuckets(env))];
+
+// Chiave di un file dell'albero OPFS, nei lock tra schede e nella cronologia
+export const opfsKey = (fullPath: string) => `opfs:${fullPath}`;
+
+export type FileVersion = {
+  id: string;
+  savedAt: number; // Quando il contenuto è stato sostituito da un salvataggio
+  size: number;
+};
+
+export type RetentionPolicy = {
+  maxVersions?: number; // Per file
+  maxAgeDays?: number;
+  maxBytes?: number; // Per tutta la cronologia, si eliminano le più vecchie
+};
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxVersions: 20 };
+
+export type RetentionStore = Pick<Storage, "getItem" | "setItem">;
+
+const RETENTION_KEY = "opfs-poc:history-retention";
+
+const browserStore = (): RetentionStore => localStorage;
+
+export const loadRetention = (
+  store: RetentionStore = browserStore()
+): RetentionPolicy => {
+  const saved = store.getItem(RETENTION_KEY);
+  return saved ? JSON.parse(saved) : DEFAULT_RETENTION;
+};
+
+export const saveRetention = (
+  policy: RetentionPolicy,
+  store: RetentionStore = browserStore()
+) => store.setItem(RETENTION_KEY, JSON.stringify(policy));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const historyDirectory = async (env: OPFSEnvironment) =>
+  (
+    await env.buckets.open(HISTORY_BUCKET, { durability: "relaxed" })
+  ).getDirectory();
+
+// `key` identifica il file come nei lock tra schede ("opfs:root/a.txt"):
+// codificata diventa un solo nome di cartella
+const versionsDirectory = async (
+  key: string,
+  env: OPFSEnvironment,
+  create = false
+): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await (
+      await historyDirectory(env)
+    ).getDirectoryHandle(encodeURIComponent(key), { create });
+  } catch (error) {
+    if ((error as DOMException).name === "NotFoundError") return null;
+    throw error;
+  }
+};
+
+const readVersions = async (directory: FileSystemDirectoryHandle) => {
+  const versions: FileVersion[] = [];
+  for await (const [id, handle] of directory.entries()) {
+    if (handle.kind !== "file") continue;
+    const file = await (handle as FileSystemFileHandle).getFile();
+    versions.push({ id, savedAt: Number(id), size: file.size });
+  }
+  return versions.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Versioni di un file, dalla più recente
+export const listVersions = async (
+  key: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<FileVersion[]> => {
+  const directory = await versionsDirectory(key, env);
+  return directory ? readVersions(directory) : [];
+};
+
+export const readVersion = async (
+  key: string,
+  id: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<File> => {
+  const directory = await versionsDirectory(key, env);
+  if (!directory) {
+    throw new DOMException(`Nessuna cronologia per ${key}`, "NotFoundError");
+  }
+  return (await directory.getFileHandle(id)).getFile();
+};
+
+const sameContent = async (a: Blob, b: Blob) =>
+  a.size === b.size && (await a.text()) === (await b.text());
+
+/**
+ * Conserva `data`, il contenuto che un salvataggio sta per sostituire. Se è
+ * identico all'ultima versione non ne crea un'altra e restituisce null.
+ */
+export const saveVersion = async (
+  key: string,
+  data: Blob,
+  env: OPFSEnvironment = browserEnvironment(),
+  now = Date.now()
+): Promise<FileVersion | null> => {
+  const directory = (await versionsDirectory(key, env, true))!;
+  const [latest] = await readVersions(directory);
+  if (latest) {
+    const file = await (await directory.getFileHandle(latest.id)).getFile();
+    if (await sameContent(file, data)) return null;
+  }
+
+  // Due salvataggi nello stesso millisecondo non si sovrascrivono
+  const savedAt = Math.max(now, (latest?.savedAt ?? 0) + 1);
+  const id = String(savedAt);
+  const handle = await directory.getFileHandle(id, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+  return { id, savedAt, size: data.size };
+};
+
+/**
+ * Riscrive con `transform` le versioni dei file la cui chiave soddisfa
+ * `matches`; se restituisce null la versione resta com'è. Serve alla
+ * cifratura, che cambia la chiave anche delle versioni conservate.
+ */
+export const rewriteVersions = async (
+  matches: (key: string) => boolean,
+  transform: (data: Uint8Array) => Promise<Uint8Array | null>,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<number> => {
+  // Aprire il bucket della cronologia lo creerebbe
+  if (!(await env.buckets.keys()).includes(HISTORY_BUCKET)) return 0;
+  let rewritten = 0;
+  for await (const [name, handle] of (await historyDirectory(env)).entries()) {
+    if (handle.kind !== "directory" || !matches(decodeURIComponent(name))) {
+      continue;
+    }
+    const directory = handle as FileSystemDirectoryHandle;
+    for (const { id } of await readVersions(directory)) {
+      const file = await directory.getFileHandle(id);
+      const data = new Uint8Array(await (await file.getFile()).arrayBuffer());
+      const result = await transform(data);
+      if (!result) continue;
+      const writable = await file.createWritable();
+      await writable.write(result);
+      await writable.close();
+      rewritten++;
+    }
+  }
+  return rewritten;
+};
+
+export const deleteVersion = async (
+  key: string,
+  id: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<void> => {
+  await (await versionsDirectory(key, env))?.removeEntry(id);
+};
+
+/**
+ * Applica la politica di conservazione a tutta la cronologia: per ogni file
+ * al massimo `maxVersions` versioni e nessuna più vecchia di `maxAgeDays`,
+ * poi le versioni più vecchie finché il totale non sta in `maxBytes`.
+ * Restituisce quante versioni sono state eliminate.
+ */
+export const pruneHistory = async (
+  policy: RetentionPolicy,
+  env: OPFSEnvironment = browserEnvironment(),
+  now = Date.now()
+): Promise<number> => {
+  const root = await historyDirectory(env);
+  const kept: (FileVersion & { directory: FileSystemDirectoryHandle })[] = [];
+  let removed = 0;
+
+  const directories: [string, FileSystemDirectoryHandle][] = [];
+  for await (const [name, handle] of root.entries()) {
+    if (handle.kind === "directory") {
+      directories.push([name, handle as FileSystemDirectoryHandle]);
+    }
+  }
+
+  for (const [name, directory] of directories) {
+    const versions = await readVersions(directory);
+    let remaining = versions.length;
+    for (const [index, version] of versions.entries()) {
+      const tooMany =
+        policy.maxVersions !== undefined && index >= policy.maxVersions;
+      const tooOld =
+        policy.maxAgeDays !== undefined &&
+        now - version.savedAt > policy.maxAgeDays * DAY;
+      if (tooMany || tooOld) {
+        await directory.removeEntry(version.id);
+        remaining--;
+        removed++;
+      } else {
+        kept.push({ ...version, directory });
+      }
+    }
+    if (remaining === 0) {
+      // Cartella rimasta vuota: il file non ha più cronologia
+      await root.removeEntry(name, { recursive: true });
+    }
+  }
+
+  if (policy.maxBytes !== undefined) {
+    let total = kept.reduce((sum, version) => sum + version.size, 0);
+    kept.sort((a, b) => a.savedAt - b.savedAt);
+    for (const version of kept) {
+      if (total <= policy.maxBytes) break;
+      await version.directory.removeEntry(version.id);
+      total -= version.size;
+      removed++;
+    }
+  }
+  return removed;
+};
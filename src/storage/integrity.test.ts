@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import { sha256 } from "./hash";
+import { buildManifest, findDuplicates, verifyManifest } from "./integrity";
+import { createMemoryEnvironment } from "./memory";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+
+describe("integrity", () => {
+  let env: OPFSEnvironment;
+  let root: StorageBackend;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    root = getOPFSBackend("root", env);
+    await root.write("a.txt", "contenuto");
+    await root.createFile("docs/b.txt");
+    await root.write("docs/b.txt", "altro contenuto");
+  });
+
+  it("builds a manifest with size and hash of every file", async () => {
+    const manifest = await buildManifest(root, "root", {}, 1000);
+
+    expect(manifest).toEqual({
+      root: "root",
+      createdAt: 1000,
+      files: {
+        "a.txt": { size: 9, hash: await sha256(new Blob(["contenuto"])) },
+        "docs/b.txt": {
+          size: 15,
+          hash: await sha256(new Blob(["altro contenuto"])),
+        },
+      },
+    });
+  });
+
+  it("reports truncated, changed, missing and new files", async () => {
+    const manifest = await buildManifest(root, "root");
+    await root.write("a.txt", "conten"); // Scrittura interrotta
+    await root.write("docs/b.txt", "ALTRO CONTENUTO"); // Stessa dimensione
+    await root.write("nuovo.txt", "x");
+    await root.createFile("c.txt");
+    manifest.files["sparito.txt"] = { size: 1, hash: "" };
+
+    const report = await verifyManifest(root, manifest);
+
+    expect(report.checked).toBe(2);
+    expect(report.mismatched.map((mismatch) => mismatch.path).sort()).toEqual([
+      "a.txt",
+      "docs/b.txt",
+    ]);
+    expect(report.missing).toEqual(["sparito.txt"]);
+    expect(report.added.sort()).toEqual(["c.txt", "nuovo.txt"]);
+  });
+
+  it("reports nothing when the files are intact", async () => {
+    const report = await verifyManifest(
+      root,
+      await buildManifest(root, "root")
+    );
+
+    expect(report).toMatchObject({ mismatched: [], missing: [], added: [] });
+  });
+
+  it("groups identical files across the root and the buckets", async () => {
+    const photos = getOPFSBackend("photos", env);
+    await photos.write("copia.txt", "contenuto");
+    await photos.write("diverso.txt", "CONTENUTO"); // Stessa dimensione
+    await photos.write("vuoto.txt", "");
+    await root.write("vuoto.txt", "");
+
+    const groups = await findDuplicates([
+      { name: "root", backend: root },
+      { name: "photos", backend: photos },
+    ]);
+
+    expect(groups).toEqual([
+      {
+        hash: await sha256(new Blob(["contenuto"])),
+        size: 9,
+        paths: ["root/a.txt", "photos/copia.txt"],
+      },
+    ]);
+  });
+});
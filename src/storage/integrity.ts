@@ -0,0 +1,228 @@
+import { IDBPDatabase, openDB } from "idb";
+import { EntryInfo, StorageBackend, joinPath } from "./backend";
+import { HashOptions, sha256 } from "./hash";
+import { walkBackend } from "./walk";
+
+// Manifest delle impronte: per ogni radice OPFS o bucket la dimensione e lo
+// SHA-256 di ogni file, per accorgersi in seguito di file troncati da una
+// scrittura interrotta o spariti.
+
+export type ManifestEntry = { size: number; hash: string };
+
+export type Manifest = {
+  root: string; // OPFS_ROOT o nome del bucket
+  createdAt: number;
+  files: Record<string, ManifestEntry>; // Percorsi relativi alla radice
+};
+
+export type Mismatch = {
+  path: string;
+  expected: ManifestEntry;
+  actual: ManifestEntry;
+};
+
+export type VerifyReport = {
+  root: string;
+  manifestCreatedAt: number | null; // null se la radice non ha un manifest
+  checked: number;
+  mismatched: Mismatch[];
+  missing: string[]; // Nel manifest ma non più presenti
+  added: string[]; // Presenti ma non nel manifest
+};
+
+export type DuplicateGroup = {
+  hash: string;
+  size: number;
+  paths: string[]; // Percorsi completi dell'albero ("root/a.txt", ...)
+};
+
+export type ManifestStore = {
+  load(root: string): Promise<Manifest | undefined>;
+  save(manifest: Manifest): Promise<void>;
+};
+
+// `onProgress` riceve incrementi: un file finito o dei byte letti
+export type IntegrityOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: { files: number; bytes: number }) => void;
+};
+
+const DB_NAME = "manifestDB";
+const STORE_NAME = "manifests";
+
+export const createIndexedDBManifestStore = (): ManifestStore => {
+  // Una sola connessione, aperta al primo uso
+  let connection: Promise<IDBPDatabase> | undefined;
+  const db = () =>
+    (connection ??= openDB(DB_NAME, 1, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "root" });
+        }
+      },
+    }));
+  return {
+    load: async (root) => (await db()).get(STORE_NAME, root),
+    save: async (manifest) => {
+      await (await db()).put(STORE_NAME, manifest);
+    },
+  };
+};
+
+// Visita i file della radice calcolandone l'impronta
+async function* hashFiles(
+  backend: StorageBackend,
+  { signal, onProgress }: IntegrityOptions,
+  filter: (path: string, size: number) => boolean = () => true
+): AsyncGenerator<[string, ManifestEntry]> {
+  const hashOptions: HashOptions = {
+    signal,
+    onBytes: (bytes) => onProgress?.({ files: 0, bytes }),
+  };
+  for await (const entry of walkBackend(backend)) {
+    if (entry.kind !== "file") continue;
+    const file = await backend.read(entry.path);
+    if (!filter(entry.path, file.size)) continue;
+    const hash = await sha256(file, hashOptions);
+    onProgress?.({ files: 1, bytes: 0 });
+    yield [entry.path, { size: file.size, hash }];
+  }
+}
+
+export const buildManifest = async (
+  backend: StorageBackend,
+  root: string,
+  options: IntegrityOptions = {},
+  now = Date.now()
+): Promise<Manifest> => {
+  const files: Record<string, ManifestEntry> = {};
+  for await (const [path, entry] of hashFiles(backend, options)) {
+    files[path] = entry;
+  }
+  return { root, createdAt: now, files };
+};
+
+/**
+ * Aggiorna il manifest dopo una modifica fatta dall'app, così la verifica
+ * segnala solo quelle avvenute fuori dall'app: rilegge `path` (un file o
+ * tutto il contenuto di una cartella) o, con `removed`, ne toglie le voci.
+ */
+export const refreshManifest = async (
+  backend: StorageBackend,
+  manifest: Manifest,
+  path: string,
+  removed = false
+): Promise<void> => {
+  for (const key of Object.keys(manifest.files)) {
+    if (path === "" || key === path || key.startsWith(`${path}/`)) {
+      delete manifest.files[key];
+    }
+  }
+  if (removed) return;
+
+  let info: EntryInfo;
+  try {
+    info = await backend.stat(path);
+  } catch (error) {
+    // Spostato o eliminato subito dopo: basta aver tolto le voci
+    if ((error as DOMException).name === "NotFoundError") return;
+    throw error;
+  }
+  const entries = info.kind === "file" ? [info] : walkBackend(backend, path);
+  for await (const entry of entries) {
+    if (entry.kind !== "file") continue;
+    const file = await backend.read(entry.path);
+    manifest.files[entry.path] = { size: file.size, hash: await sha256(file) };
+  }
+};
+
+/**
+ * Confronta la radice con il suo manifest. Un file con dimensione diversa da
+ * quella registrata non viene neanche letto: è già una discrepanza.
+ */
+export const verifyManifest = async (
+  backend: StorageBackend,
+  manifest: Manifest,
+  options: IntegrityOptions = {}
+): Promise<VerifyReport> => {
+  const report: VerifyReport = {
+    root: manifest.root,
+    manifestCreatedAt: manifest.createdAt,
+    checked: 0,
+    mismatched: [],
+    missing: [],
+    added: [],
+  };
+  const seen = new Set<string>();
+  const wrongSize = new Map<string, number>();
+  const sameSize = (path: string, size: number) => {
+    seen.add(path);
+    const expected = manifest.files[path];
+    if (!expected) {
+      report.added.push(path);
+      return false;
+    }
+    if (expected.size !== size) wrongSize.set(path, size);
+    return expected.size === size;
+  };
+
+  for await (const [path, actual] of hashFiles(backend, options, sameSize)) {
+    report.checked++;
+    const expected = manifest.files[path];
+    if (expected.hash !== actual.hash) {
+      report.mismatched.push({ path, expected, actual });
+    }
+  }
+  for (const [path, size] of wrongSize) {
+    report.checked++;
+    report.mismatched.push({
+      path,
+      expected: manifest.files[path],
+      actual: { size, hash: "" },
+    });
+  }
+  report.missing = Object.keys(manifest.files).filter(
+    (path) => !seen.has(path)
+  );
+  return report;
+};
+
+/**
+ * Raggruppa i file con lo stesso contenuto in tutte le radici indicate. Si
+ * calcola l'impronta solo dei file con una dimensione condivisa da altri.
+ */
+export const findDuplicates = async (
+  roots: { name: string; backend: StorageBackend }[],
+  options: IntegrityOptions = {}
+): Promise<DuplicateGroup[]> => {
+  const bySize = new Map<number, number>();
+  for (const { backend } of roots) {
+    for await (const entry of walkBackend(backend)) {
+      if (entry.kind !== "file") continue;
+      const { size = 0 } = await backend.stat(entry.path);
+      bySize.set(size, (bySize.get(size) ?? 0) + 1);
+    }
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const { name, backend } of roots) {
+    // I file vuoti sarebbero tutti uguali tra loro: non si contano
+    const candidates = (_path: string, size: number) =>
+      size > 0 && (bySize.get(size) ?? 0) > 1;
+    for await (const [path, { size, hash }] of hashFiles(
+      backend,
+      options,
+      candidates
+    )) {
+      const group = groups.get(hash) ?? { hash, size, paths: [] };
+      group.paths.push(joinPath(name, path));
+      groups.set(hash, group);
+    }
+  }
+  // Prima i gruppi che sprecano più spazio
+  return [...groups.values()]
+    .filter((group) => group.paths.length > 1)
+    .sort(
+      (a, b) => b.size * (b.paths.length - 1) - a.size * (a.paths.length - 1)
+    );
+};
@@ -0,0 +1,370 @@
+import { OPFSEnvironment } from "./opfs";
+
+// Implementazione in memoria della superficie di FileSystemDirectoryHandle e
+// FileSystemFileHandle usata dall'app, per eseguire la logica fuori da un
+// browser Chromium (test in Node, demo senza OPFS). Gli errori replicano i
+// nomi dei DOMException lanciati dal browser.
+
+const notFound = (name: string) =>
+  new DOMException(`Elemento non trovato: ${name}`, "NotFoundError");
+
+const typeMismatch = (name: string) =>
+  new DOMException(
+    `Tipo di elemento non corrispondente: ${name}`,
+    "TypeMismatchError"
+  );
+
+const toBytes = async (
+  data: BufferSource | Blob | string
+): Promise<Uint8Array> => {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(
+      data.buffer,
+      data.byteOffset,
+      data.byteLength
+    ).slice();
+  }
+  return new Uint8Array(data).slice();
+};
+
+abstract class MemoryHandle {
+  abstract readonly kind: FileSystemHandleKind;
+  parent: MemoryDirectoryHandle | null = null;
+
+  constructor(public name: string) {}
+
+  async isSameEntry(other: FileSystemHandle): Promise<boolean> {
+    return (other as unknown) === this;
+  }
+
+  async queryPermission(): Promise<PermissionState> {
+    return "granted";
+  }
+
+  async requestPermission(): Promise<PermissionState> {
+    return "granted";
+  }
+
+  async move(
+    destinationOrName: FileSystemDirectoryHandle | string,
+    newName?: string
+  ): Promise<void> {
+    const destination =
+      typeof destinationOrName === "string"
+        ? this.parent
+        : (destinationOrName as unknown as MemoryDirectoryHandle);
+    const name =
+      typeof destinationOrName === "string"
+        ? destinationOrName
+        : (newName ?? this.name);
+    if (!destination) throw notFound(this.name);
+
+    this.parent?.children.delete(this.name);
+    destination.children.set(name, this as unknown as MemoryEntry);
+    this.parent = destination;
+    this.name = name;
+  }
+}
+
+class MemoryFileHandle extends MemoryHandle {
+  readonly kind = "file" as const;
+  data = new Uint8Array();
+  lastModified = Date.now();
+
+  async getFile(): Promise<File> {
+    return new File([this.data], this.name, {
+      lastModified: this.lastModified,
+    });
+  }
+
+  async createWritable(options?: {
+    keepExistingData?: boolean;
+  }): Promise<FileSystemWritableFileStream> {
+    // Come nel browser, le modifiche diventano visibili solo su close()
+    let buffer = options?.keepExistingData
+      ? this.data.slice()
+      : new Uint8Array();
+    let position = 0;
+
+    const writeAt = (bytes: Uint8Array, at: number) => {
+      const end = at + bytes.length;
+      if (end > buffer.length) {
+        const grown = new Uint8Array(end);
+        grown.set(buffer);
+        buffer = grown;
+      }
+      buffer.set(bytes, at);
+      position = end;
+    };
+
+    const truncate = (size: number) => {
+      const resized = new Uint8Array(size);
+      resized.set(buffer.subarray(0, size));
+      buffer = resized;
+      position = Math.min(position, size);
+    };
+
+    const write = async (chunk: FileSystemWriteChunkType) => {
+      if (
+        typeof chunk === "object" &&
+        !(chunk instanceof Blob) &&
+        !ArrayBuffer.isView(chunk) &&
+        !(chunk instanceof ArrayBuffer) &&
+        "type" in chunk
+      ) {
+        if (chunk.type === "seek") position = chunk.position ?? 0;
+        else if (chunk.type === "truncate") truncate(chunk.size ?? 0);
+        else if (chunk.data != null) {
+          writeAt(await toBytes(chunk.data), chunk.position ?? position);
+        }
+        return;
+      }
+      writeAt(await toBytes(chunk as BufferSource | Blob | string), position);
+    };
+
+    const stream = {
+      write,
+      seek: async (at: number) => {
+        position = at;
+      },
+      truncate: async (size: number) => truncate(size),
+      close: async () => {
+        this.data = buffer;
+        this.lastModified = Date.now();
+      },
+      abort: async () => {},
+    };
+    return stream as unknown as FileSystemWritableFileStream;
+  }
+
+  async createSyncAccessHandle(): Promise<FileSystemSyncAccessHandle> {
+    // A differenza di createWritable le scritture sono visibili subito
+    const view = (buffer: BufferSource) =>
+      ArrayBuffer.isView(buffer)
+        ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+        : new Uint8Array(buffer);
+
+    const resize = (size: number) => {
+      const resized = new Uint8Array(size);
+      resized.set(this.data.subarray(0, size));
+      this.data = resized;
+      this.lastModified = Date.now();
+    };
+
+    return {
+      getSize: () => this.data.length,
+      read: (buffer, options) => {
+        const target = view(buffer);
+        const chunk = this.data.subarray(
+          options?.at ?? 0,
+          (options?.at ?? 0) + target.length
+        );
+        target.set(chunk);
+        return chunk.length;
+      },
+      write: (buffer, options) => {
+        const bytes = view(buffer);
+        const at = options?.at ?? 0;
+        if (at + bytes.length > this.data.length) resize(at + bytes.length);
+        this.data.set(bytes, at);
+        this.lastModified = Date.now();
+        return bytes.length;
+      },
+      truncate: resize,
+      flush: () => {},
+      close: () => {},
+    };
+  }
+}
+
+type MemoryEntry = MemoryFileHandle | MemoryDirectoryHandle;
+
+class MemoryDirectoryHandle extends MemoryHandle {
+  readonly kind = "directory" as const;
+  readonly children = new Map<string, MemoryEntry>();
+
+  private child<T extends MemoryEntry>(
+    name: string,
+    kind: T["kind"],
+    create: boolean | undefined,
+    make: () => T
+  ): T {
+    const existing = this.children.get(name);
+    if (existing) {
+      if (existing.kind !== kind) throw typeMismatch(name);
+      return existing as T;
+    }
+    if (!create) throw notFound(name);
+    if (!name || name === "." || name === ".." || name.includes("/")) {
+      throw new TypeError(`Nome non valido: "${name}"`);
+    }
+    const entry = make();
+    entry.parent = this;
+    this.children.set(name, entry);
+    return entry;
+  }
+
+  async getDirectoryHandle(
+    name: string,
+    options?: FileSystemGetDirectoryOptions
+  ): Promise<FileSystemDirectoryHandle> {
+    return this.child(
+      name,
+      "directory",
+      options?.create,
+      () => new MemoryDirectoryHandle(name)
+    ) as unknown as FileSystemDirectoryHandle;
+  }
+
+  async getFileHandle(
+    name: string,
+    options?: FileSystemGetFileOptions
+  ): Promise<FileSystemFileHandle> {
+    return this.child(
+      name,
+      "file",
+      options?.create,
+      () => new MemoryFileHandle(name)
+    ) as unknown as FileSystemFileHandle;
+  }
+
+  async removeEntry(
+    name: string,
+    options?: FileSystemRemoveOptions
+  ): Promise<void> {
+    const entry = this.children.get(name);
+    if (!entry) throw notFound(name);
+    if (
+      entry.kind === "directory" &&
+      entry.children.size > 0 &&
+      !options?.recursive
+    ) {
+      throw new DOMException(
+        `La cartella non è vuota: ${name}`,
+        "InvalidModificationError"
+      );
+    }
+    this.children.delete(name);
+    entry.parent = null;
+  }
+
+  async resolve(
+    possibleDescendant: FileSystemHandle
+  ): Promise<string[] | null> {
+    const path: string[] = [];
+    let current = possibleDescendant as unknown as MemoryEntry | null;
+    while (current && current !== this) {
+      path.unshift(current.name);
+      current = current.parent;
+    }
+    return current === this ? path : null;
+  }
+
+  async *entries(): AsyncGenerator<[string, FileSystemHandle]> {
+    for (const [name, entry] of [...this.children]) {
+      yield [name, entry as unknown as FileSystemHandle];
+    }
+  }
+
+  async *keys(): AsyncGenerator<string> {
+    for await (const [name] of this.entries()) yield name;
+  }
+
+  async *values(): AsyncGenerator<FileSystemHandle> {
+    for await (const [, handle] of this.entries()) yield handle;
+  }
+
+  [Symbol.asyncIterator]() {
+    return this.entries();
+  }
+}
+
+export const createMemoryDirectory = (name = ""): FileSystemDirectoryHandle =>
+  new MemoryDirectoryHandle(name) as unknown as FileSystemDirectoryHandle;
+
+// Byte occupati dai file, come stima dell'uso di una radice o di un bucket
+const usageOf = (handle: FileSystemDirectoryHandle): number => {
+  let usage = 0;
+  for (const entry of (
+    handle as unknown as MemoryDirectoryHandle
+  ).children.values()) {
+    usage +=
+      entry.kind === "file"
+        ? entry.data.length
+        : usageOf(entry as unknown as FileSystemDirectoryHandle);
+  }
+  return usage;
+};
+
+type MemoryBucket = {
+  directory: FileSystemDirectoryHandle;
+  options: StorageBucketOptions;
+  persisted: boolean;
+};
+
+const createMemoryBucket = (
+  name: string,
+  state: MemoryBucket
+): StorageBucket => ({
+  name,
+  persist: async () => (state.persisted = true),
+  persisted: async () => state.persisted,
+  estimate: async () => ({
+    usage: usageOf(state.directory),
+    quota: state.options.quota,
+  }),
+  durability: async () => state.options.durability ?? "relaxed",
+  setExpires: async (expires) => {
+    state.options.expires = expires;
+  },
+  expires: async () => state.options.expires ?? null,
+  getDirectory: async () => state.directory,
+});
+
+// Coppie chiave-valore come localStorage, per i registri dell'app
+export const createMemoryStorage = (): Pick<Storage, "getItem" | "setItem"> => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+};
+
+/**
+ * Ambiente OPFS completamente in memoria: una radice e un gestore di Storage
+ * Bucket che si comporta come navigator.storageBuckets.
+ */
+export const createMemoryEnvironment = (): OPFSEnvironment => {
+  const root = createMemoryDirectory();
+  const buckets = new Map<string, MemoryBucket>();
+  let persisted = false;
+
+  return {
+    storage: {
+      getDirectory: async () => root,
+      estimate: async () => ({ usage: usageOf(root) }),
+      persist: async () => (persisted = true),
+      persisted: async () => persisted,
+    },
+    buckets: {
+      open: async (name, options) => {
+        let state = buckets.get(name);
+        if (!state) {
+          state = {
+            directory: createMemoryDirectory(),
+            options: { ...options },
+            persisted: options?.persisted ?? false,
+          };
+          buckets.set(name, state);
+        }
+        return createMemoryBucket(name, state);
+      },
+      keys: async () => [...buckets.keys()],
+      delete: async (name) => {
+        buckets.delete(name);
+      },
+    },
+  };
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_OPERATIONS,
+  OperationEntry,
+  OperationLogStore,
+  createOperationLog,
+  filterOperations,
+} from "./operationLog";
+
+const createMemoryStore = (): OperationLogStore & {
+  entries: OperationEntry[];
+} => {
+  const entries: OperationEntry[] = [];
+  return {
+    entries,
+    load: async () => [...entries],
+    add: async (entry) => {
+      entries.push(entry);
+    },
+    clear: async () => {
+      entries.length = 0;
+    },
+  };
+};
+
+// Orologio finto: ogni lettura avanza di 5 ms
+const createClock = (start = 1000) => {
+  let time = start;
+  return () => {
+    const now = time;
+    time += 5;
+    return now;
+  };
+};
+
+describe("createOperationLog", () => {
+  it("records duration and outcome of successful operations", async () => {
+    const store = createMemoryStore();
+    const log = createOperationLog(store, createClock());
+    const notified: OperationEntry[] = [];
+    log.subscribe((entry) => notified.push(entry));
+
+    const result = await log.run(
+      { operation: "Apertura", path: "root/a.txt", backend: "opfs:root" },
+      async () => "contenuto"
+    );
+
+    expect(result).toBe("contenuto");
+    expect(store.entries).toEqual([
+      {
+        operation: "Apertura",
+        path: "root/a.txt",
+        backend: "opfs:root",
+        startedAt: 1000,
+        duration: 5,
+        outcome: "success",
+      },
+    ]);
+    expect(notified).toEqual(store.entries);
+  });
+
+  it("records the classified error and rethrows it", async () => {
+    const store = createMemoryStore();
+    const log = createOperationLog(store, createClock());
+    const failure = new DOMException("Spazio finito", "QuotaExceededError");
+
+    await expect(
+      log.run(
+        {
+          operation: "Salvataggio",
+          path: "dati/b.txt",
+          backend: "bucket:dati",
+        },
+        async () => {
+          throw failure;
+        }
+      )
+    ).rejects.toBe(failure);
+
+    expect(store.entries[0]).toMatchObject({
+      outcome: "error",
+      error: { category: "QuotaExceeded", message: "Spazio finito" },
+    });
+  });
+
+  it("stops notifying after unsubscribing", async () => {
+    const log = createOperationLog(createMemoryStore(), createClock());
+    const notified: OperationEntry[] = [];
+    const unsubscribe = log.subscribe((entry) => notified.push(entry));
+    unsubscribe();
+
+    await log.run(
+      { operation: "Eliminazione", path: "root/c", backend: "opfs:root" },
+      async () => {}
+    );
+
+    expect(notified).toEqual([]);
+  });
+});
+
+describe("filterOperations", () => {
+  const entry = (
+    operation: string,
+    path: string,
+    backend: string,
+    category?: "NotFound" | "NotAllowed"
+  ): OperationEntry => ({
+    operation,
+    path,
+    backend,
+    startedAt: 0,
+    duration: 1,
+    outcome: category ? "error" : "success",
+    error: category
+      ? {
+          category,
+          name: "",
+          message: "",
+          explanation: "",
+          suggestion: "",
+        }
+      : undefined,
+  });
+  const entries = [
+    entry("Apertura", "root/a.txt", "opfs:root"),
+    entry("Salvataggio", "dati/Note.txt", "bucket:dati", "NotAllowed"),
+    entry("Eliminazione", "root/b", "opfs:root", "NotFound"),
+  ];
+
+  it("filters by outcome, category and backend", () => {
+    const names = (filtered: OperationEntry[]) =>
+      filtered.map((item) => item.operation);
+
+    expect(names(filterOperations(entries, ALL_OPERATIONS))).toEqual([
+      "Apertura",
+      "Salvataggio",
+      "Eliminazione",
+    ]);
+    expect(
+      names(filterOperations(entries, { ...ALL_OPERATIONS, outcome: "error" }))
+    ).toEqual(["Salvataggio", "Eliminazione"]);
+    expect(
+      names(
+        filterOperations(entries, { ...ALL_OPERATIONS, category: "NotFound" })
+      )
+    ).toEqual(["Eliminazione"]);
+    expect(
+      names(
+        filterOperations(entries, { ...ALL_OPERATIONS, backend: "opfs:root" })
+      )
+    ).toEqual(["Apertura", "Eliminazione"]);
+  });
+
+  it("searches operation and path text case-insensitively", () => {
+    expect(
+      filterOperations(entries, { ...ALL_OPERATIONS, text: "note" })
+    ).toHaveLength(1);
+    expect(
+      filterOperations(entries, { ...ALL_OPERATIONS, text: " APERTURA " })
+    ).toHaveLength(1);
+  });
+});
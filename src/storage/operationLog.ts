@@ -0,0 +1,122 @@
+import { createCappedStore } from "./cappedStore";
+import { ClassifiedError, ErrorCategory, classifyError } from "./errors";
+
+// Registro delle operazioni degli esploratori: per ognuna la durata, il
+// percorso, il backend e l'esito, conservati in IndexedDB tra le sessioni.
+
+export type OperationTarget = {
+  operation: string; // Es. "Salvataggio"
+  path: string; // Percorso completo dell'albero
+  backend: string; // Id del backend, es. "opfs:root" o "bucket:dati"
+};
+
+export type OperationEntry = OperationTarget & {
+  startedAt: number;
+  duration: number; // Millisecondi
+  outcome: "success" | "error";
+  error?: ClassifiedError;
+};
+
+export type OperationLogStore = {
+  load(): Promise<OperationEntry[]>; // La più vecchia per prima
+  add(entry: OperationEntry): Promise<void>;
+  clear(): Promise<void>;
+};
+
+export type OperationLog = {
+  store: OperationLogStore;
+  // Esegue `action` registrandone durata ed esito; l'errore resta dell'action
+  run<T>(target: OperationTarget, action: () => Promise<T>): Promise<T>;
+  subscribe(listener: (entry: OperationEntry) => void): () => void;
+};
+
+export type OperationFilter = {
+  outcome: "all" | "success" | "error";
+  category: ErrorCategory | "";
+  backend: string; // "" per tutti
+  text: string; // Cercato nell'operazione e nel percorso
+};
+
+export const ALL_OPERATIONS: OperationFilter = {
+  outcome: "all",
+  category: "",
+  backend: "",
+  text: "",
+};
+
+const MAX_ENTRIES = 1000;
+
+export const createOperationLog = (
+  store: OperationLogStore,
+  now: () => number = Date.now
+): OperationLog => {
+  const listeners = new Set<(entry: OperationEntry) => void>();
+
+  const record = (entry: OperationEntry) => {
+    listeners.forEach((listener) => listener(entry));
+    // Un registro non salvato non deve far fallire l'operazione
+    store
+      .add(entry)
+      .catch((error) =>
+        console.error("Errore durante il salvataggio del registro:", error)
+      );
+  };
+
+  return {
+    store,
+    run: async (target, action) => {
+      const startedAt = now();
+      try {
+        const result = await action();
+        record({
+          ...target,
+          startedAt,
+          duration: now() - startedAt,
+          outcome: "success",
+        });
+        return result;
+      } catch (error) {
+        record({
+          ...target,
+          startedAt,
+          duration: now() - startedAt,
+          outcome: "error",
+          error: classifyError(error, target.backend),
+        });
+        throw error;
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export const filterOperations = (
+  entries: OperationEntry[],
+  filter: OperationFilter
+): OperationEntry[] => {
+  const text = filter.text.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (filter.outcome === "all" || entry.outcome === filter.outcome) &&
+      (!filter.category || entry.error?.category === filter.category) &&
+      (!filter.backend || entry.backend === filter.backend) &&
+      (!text ||
+        entry.operation.toLowerCase().includes(text) ||
+        entry.path.toLowerCase().includes(text))
+  );
+};
+
+const DB_NAME = "operationLogDB";
+const STORE_NAME = "operations";
+
+// Si tengono solo le ultime MAX_ENTRIES operazioni
+export const createIndexedDBOperationLog = (): OperationLogStore =>
+  createCappedStore<OperationEntry>(DB_NAME, STORE_NAME, MAX_ENTRIES);
+
+let sharedLog: OperationLog | null = null;
+
+export const getOperationLog = (): OperationLog =>
+  (sharedLog ??= createOperationLog(createIndexedDBOperationLog()));
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment } from "./memory";
+import {
+  OPFSEnvironment,
+  OPFS_ROOT,
+  createBucketBackend,
+  createOPFSRootBackend,
+  getOPFSBackend,
+  resolveOPFSPath,
+} from "./opfs";
+
+describe("resolveOPFSPath", () => {
+  let env: OPFSEnvironment;
+
+  beforeEach(() => {
+    env = createMemoryEnvironment();
+  });
+
+  it("resolves the root prefix to the OPFS root", async () => {
+    const { backend, path } = resolveOPFSPath("root/docs/a.txt", env);
+
+    expect(backend.id).toBe("opfs:root");
+    expect(path).toBe("docs/a.txt");
+  });
+
+  it("resolves any other prefix to the bucket with that name", async () => {
+    const { backend, path } = resolveOPFSPath("photos/2024/img.png", env);
+
+    expect(backend.id).toBe("bucket:photos");
+    expect(path).toBe("2024/img.png");
+  });
+
+  it("keeps root and bucket contents separate", async () => {
+    await getOPFSBackend(OPFS_ROOT, env).createFile("same.txt");
+    await getOPFSBackend("bucket", env).createFile("other.txt");
+
+    const rootEntries = await createOPFSRootBackend(env).list();
+    const bucketEntries = await createBucketBackend("bucket", env).list();
+    expect(rootEntries.map((entry) => entry.name)).toEqual(["same.txt"]);
+    expect(bucketEntries.map((entry) => entry.name)).toEqual(["other.txt"]);
+    expect(await env.buckets.keys()).toEqual(["bucket"]);
+  });
+
+  it("saves and reopens a file through its full tree path", async () => {
+    await getOPFSBackend("notes", env).createFile("dir/todo.md");
+
+    const target = resolveOPFSPath("notes/dir/todo.md", env);
+    await target.backend.write(target.path, "# Da fare");
+
+    const reopened = resolveOPFSPath("notes/dir/todo.md", env);
+    const file = await reopened.backend.read(reopened.path);
+    expect(await file.text()).toBe("# Da fare");
+  });
+
+  it("deletes a directory recursively inside a bucket", async () => {
+    const bucket = getOPFSBackend("cache", env);
+    await bucket.createFile("tmp/a/b.txt");
+    await bucket.createFile("keep.txt");
+
+    const { backend, path } = resolveOPFSPath("cache/tmp", env);
+    await backend.remove(path, { recursive: true });
+
+    expect((await bucket.list()).map((entry) => entry.name)).toEqual([
+      "keep.txt",
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { StorageBackend, joinPath, splitPath } from "./backend";
+import { createHandleBackend } from "./handleBackend";
+
+// Prefisso usato nei percorsi dell'albero per la radice OPFS; ogni altro
+// primo segmento è il nome di uno Storage Bucket.
+export const OPFS_ROOT = "root";
+
+export type OPFSEnvironment = {
+  storage: Pick<
+    StorageManager,
+    "getDirectory" | "estimate" | "persist" | "persisted"
+  >;
+  buckets: StorageBucketManager;
+};
+
+// Id del backend della radice OPFS o di un bucket, negli errori e nel
+// registro delle operazioni
+export const opfsBackendId = (bucketOrRoot: string) =>
+  bucketOrRoot === OPFS_ROOT ? "opfs:root" : `bucket:${bucketOrRoot}`;
+
+export const browserEnvironment = (): OPFSEnvironment => ({
+  storage: navigator.storage,
+  buckets: navigator.storageBuckets,
+});
+
+export const createOPFSRootBackend = (
+  env: OPFSEnvironment = browserEnvironment()
+): StorageBackend =>
+  createHandleBackend(opfsBackendId(OPFS_ROOT), OPFS_ROOT, () =>
+    env.storage.getDirectory()
+  );
+
+// Con `create` false un bucket inesistente dà NotFoundError invece di essere
+// creato da open(), ad esempio per chi lo osserva mentre viene eliminato
+export const createBucketBackend = (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment(),
+  { create = true }: { create?: boolean } = {}
+): StorageBackend =>
+  createHandleBackend(opfsBackendId(name), name, async () => {
+    if (!create && !(await env.buckets.keys()).includes(name)) {
+      throw new DOMException(`Bucket inesistente: ${name}`, "NotFoundError");
+    }
+    const bucket = await env.buckets.open(name);
+    return bucket.getDirectory();
+  });
+
+// `id` distingue due cartelle con lo stesso nome, ad esempio le radici
+// dell'area di lavoro
+export const createDirectoryBackend = (
+  handle: FileSystemDirectoryHandle,
+  id = `picked:${handle.name}`
+): StorageBackend => createHandleBackend(id, handle.name, async () => handle);
+
+// Restituisce il backend della radice OPFS o del bucket indicato.
+export const getOPFSBackend = (
+  bucketOrRoot: string,
+  env: OPFSEnvironment = browserEnvironment()
+): StorageBackend =>
+  bucketOrRoot === OPFS_ROOT
+    ? createOPFSRootBackend(env)
+    : createBucketBackend(bucketOrRoot, env);
+
+/**
+ * Divide un percorso dell'albero OPFS ("root/a/b.txt" o "bucket/a/b.txt")
+ * nel backend corrispondente e nel percorso relativo alla sua radice.
+ */
+export const resolveOPFSPath = (
+  fullPath: string,
+  env: OPFSEnvironment = browserEnvironment()
+): { backend: StorageBackend; path: string } => {
+  const [bucketOrRoot = OPFS_ROOT, ...rest] = splitPath(fullPath);
+  return {
+    backend: getOPFSBackend(bucketOrRoot, env),
+    path: joinPath(...rest),
+  };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { classifyError } from "./errors";
+import {
+  formatAddress,
+  nameProblem,
+  normalizePath,
+  parseAddress,
+  parseEntryAddress,
+  toTreePath,
+  validateBucketName,
+} from "./paths";
+
+// Il messaggio dell'errore di validazione, che deve essere un nome non valido
+const problemOf = (action: () => unknown) => {
+  try {
+    action();
+  } catch (error) {
+    expect(classifyError(error).category).toBe("InvalidName");
+    return (error as Error).message;
+  }
+  throw new Error("Nessun errore di validazione");
+};
+
+describe("normalizePath", () => {
+  it("trims spaces and leading and trailing slashes", () => {
+    expect(normalizePath(" /a/b/c.txt/ ")).toBe("a/b/c.txt");
+    expect(normalizePath("//a")).toBe("a");
+    expect(normalizePath("/", { allowEmpty: true })).toBe("");
+  });
+
+  it("rejects empty paths, empty segments and reserved names", () => {
+    expect(problemOf(() => normalizePath(""))).toMatch("percorso vuoto");
+    expect(problemOf(() => normalizePath("/"))).toMatch("percorso vuoto");
+    expect(problemOf(() => normalizePath("a//b"))).toMatch("segmento vuoto");
+    expect(problemOf(() => normalizePath("a/../b"))).toMatch(
+      '".." è riservato'
+    );
+    expect(problemOf(() => normalizePath("./a"))).toMatch('"." è riservato');
+    expect(problemOf(() => normalizePath("a\\b"))).toMatch("contiene");
+  });
+});
+
+describe("nameProblem", () => {
+  it("accepts common names and rejects control characters and long names", () => {
+    expect(nameProblem("nota uno.txt")).toBeNull();
+    expect(nameProblem("è già.md")).toBeNull();
+    expect(nameProblem("a\u0000b")).toMatch("controllo");
+    expect(nameProblem("x".repeat(256))).toMatch("255 byte");
+  });
+});
+
+describe("validateBucketName", () => {
+  it("rejects reserved and out-of-spec names", () => {
+    expect(validateBucketName("dati-2024_a")).toBe("dati-2024_a");
+    expect(problemOf(() => validateBucketName("root"))).toMatch("riservato");
+    expect(problemOf(() => validateBucketName("opfs-poc-history"))).toMatch(
+      "riservato"
+    );
+    expect(problemOf(() => validateBucketName("Dati"))).toMatch("non valido");
+    expect(problemOf(() => validateBucketName("-dati"))).toMatch("non valido");
+    expect(problemOf(() => validateBucketName(""))).toMatch("non valido");
+  });
+});
+
+describe("parseAddress", () => {
+  it("tells the OPFS root apart from buckets", () => {
+    expect(parseAddress("opfs://a/b.txt")).toEqual({
+      bucket: null,
+      path: "a/b.txt",
+    });
+    expect(parseAddress("bucket://dati/a/b.txt")).toEqual({
+      bucket: "dati",
+      path: "a/b.txt",
+    });
+    expect(parseAddress("bucket://dati/")).toEqual({
+      bucket: "dati",
+      path: "",
+    });
+    expect(parseAddress("opfs://")).toEqual({ bucket: null, path: "" });
+  });
+
+  it("accepts full tree paths", () => {
+    expect(parseAddress("root/a.txt")).toEqual({ bucket: null, path: "a.txt" });
+    expect(parseAddress("/dati/a.txt")).toEqual({
+      bucket: "dati",
+      path: "a.txt",
+    });
+  });
+
+  it("decodes segments without introducing separators or reserved names", () => {
+    expect(parseAddress("bucket://dati/nota%20uno.txt").path).toBe(
+      "nota uno.txt"
+    );
+    expect(problemOf(() => parseAddress("opfs://a%2Fb"))).toMatch("contiene");
+    expect(problemOf(() => parseAddress("opfs://%2E%2E/a"))).toMatch(
+      "riservato"
+    );
+    expect(problemOf(() => parseAddress("opfs://%E0%A4%A"))).toMatch(
+      "codifica"
+    );
+    expect(problemOf(() => parseAddress("bucket://Dati/a"))).toMatch(
+      "nome di bucket"
+    );
+  });
+
+  it("requires a path for files and folders", () => {
+    expect(problemOf(() => parseEntryAddress("bucket://dati"))).toMatch(
+      "manca il percorso"
+    );
+    expect(problemOf(() => parseEntryAddress("root"))).toMatch(
+      "manca il percorso"
+    );
+  });
+});
+
+describe("formatAddress and toTreePath", () => {
+  it("encode and rebuild addresses", () => {
+    const address = { bucket: "dati", path: "cartella/nota uno.txt" };
+
+    expect(formatAddress(address)).toBe(
+      "bucket://dati/cartella/nota%20uno.txt"
+    );
+    expect(parseAddress(formatAddress(address))).toEqual(address);
+    expect(toTreePath(address)).toBe("dati/cartella/nota uno.txt");
+    expect(toTreePath({ bucket: null, path: "a" })).toBe("root/a");
+  });
+
+  it("does not confuse a bucket named root with the OPFS root", () => {
+    const address = parseAddress("bucket://root/a.txt");
+
+    expect(address).toEqual({ bucket: "root", path: "a.txt" });
+    expect(problemOf(() => toTreePath(address))).toMatch("radice OPFS");
+  });
+});
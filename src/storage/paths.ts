@@ -0,0 +1,166 @@
+import { joinPath, splitPath } from "./backend";
+import { HISTORY_BUCKET } from "./history";
+import { OPFS_ROOT, opfsBackendId } from "./opfs";
+
+// Percorsi inseriti dall'utente o passati all'API: si normalizzano e si
+// validano qui, prima di qualsiasi chiamata agli handle, così un nome non
+// valido dà un errore chiaro invece di uno del browser o di un file "".
+//
+// Gli indirizzi distinguono senza ambiguità la radice OPFS dai bucket:
+// "opfs://a/b.txt" e "bucket://dati/a/b.txt". I segmenti sono codificati
+// come in un URL, ad esempio "bucket://dati/nota%20uno.txt".
+
+export const ROOT_SCHEME = "opfs://";
+export const BUCKET_SCHEME = "bucket://";
+
+export type OPFSAddress = {
+  bucket: string | null; // null per la radice OPFS
+  path: string; // Normalizzato, "" per la radice o il bucket stesso
+};
+
+// Nomi validi per gli Storage Bucket secondo la specifica
+const BUCKET_NAME = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// "root" si confonderebbe con la radice OPFS nei percorsi dell'albero
+export const RESERVED_BUCKETS = [OPFS_ROOT, HISTORY_BUCKET];
+
+const MAX_NAME_BYTES = 255;
+
+// Gli errori di validazione ricadono nella categoria InvalidName
+const invalidPath = (input: string, reason: string) =>
+  new DOMException(`Percorso non valido "${input}": ${reason}`, "SyntaxError");
+
+// Motivo per cui `name` non può essere il nome di un file o di una cartella,
+// null se è valido
+export const nameProblem = (name: string): string | null => {
+  if (name === "") return "nome vuoto";
+  if (name === "." || name === "..") return `"${name}" è riservato`;
+  if (/[/\\]/.test(name)) return 'contiene "/" o "\\"';
+  if ([...name].some((char) => char.charCodeAt(0) < 0x20)) {
+    return "contiene caratteri di controllo";
+  }
+  if (new TextEncoder().encode(name).length > MAX_NAME_BYTES) {
+    return `più lungo di ${MAX_NAME_BYTES} byte`;
+  }
+  return null;
+};
+
+/**
+ * Normalizza un percorso relativo: toglie gli spazi attorno e le "/" iniziali
+ * e finali, poi valida ogni segmento. Un percorso vuoto è ammesso solo con
+ * `allowEmpty`.
+ */
+export const normalizePath = (
+  input: string,
+  { allowEmpty = false }: { allowEmpty?: boolean } = {}
+): string => {
+  const trimmed = input.trim().replace(/^\/+|\/+$/g, "");
+  if (trimmed === "") {
+    if (allowEmpty) return "";
+    throw invalidPath(input, "percorso vuoto");
+  }
+  const segments = trimmed.split("/");
+  for (const segment of segments) {
+    const problem =
+      segment === "" ? 'segmento vuoto ("//")' : nameProblem(segment);
+    if (problem) throw invalidPath(input, problem);
+  }
+  return segments.join("/");
+};
+
+export const validateBucketName = (name: string): string => {
+  if (RESERVED_BUCKETS.includes(name)) {
+    throw new DOMException(`Nome di bucket riservato: ${name}`, "SyntaxError");
+  }
+  if (!BUCKET_NAME.test(name)) {
+    throw new DOMException(
+      `Nome di bucket non valido: "${name}" (minuscole, cifre, "-" e "_", al più 64 caratteri)`,
+      "SyntaxError"
+    );
+  }
+  return name;
+};
+
+export const escapePath = (path: string) =>
+  splitPath(path).map(encodeURIComponent).join("/");
+
+// Decodifica i segmenti di un indirizzo già normalizzato, validando i nomi
+// decodificati: "%2E%2E" resta ".." e "%2F" non diventa un separatore
+const unescapePath = (input: string, path: string) =>
+  splitPath(path)
+    .map((segment) => {
+      let name: string;
+      try {
+        name = decodeURIComponent(segment);
+      } catch {
+        throw invalidPath(input, "codifica non valida");
+      }
+      const problem = nameProblem(name);
+      if (problem) throw invalidPath(input, problem);
+      return name;
+    })
+    .join("/");
+
+/**
+ * Interpreta un indirizzo "opfs://..." o "bucket://nome/...". Per
+ * compatibilità accetta anche i percorsi completi dell'albero ("root/..." o
+ * "<bucket>/..."), dove però un bucket chiamato "root" non è raggiungibile.
+ */
+export const parseAddress = (input: string): OPFSAddress => {
+  const address = input.trim();
+  if (address.startsWith(ROOT_SCHEME)) {
+    const path = normalizePath(address.slice(ROOT_SCHEME.length), {
+      allowEmpty: true,
+    });
+    return { bucket: null, path: unescapePath(input, path) };
+  }
+  if (address.startsWith(BUCKET_SCHEME)) {
+    const [bucket, ...rest] = address.slice(BUCKET_SCHEME.length).split("/");
+    // Un bucket esistente può avere un nome riservato: si controlla solo il
+    // formato
+    if (!BUCKET_NAME.test(bucket)) {
+      throw invalidPath(input, `nome di bucket non valido "${bucket}"`);
+    }
+    const path = normalizePath(rest.join("/"), { allowEmpty: true });
+    return { bucket, path: unescapePath(input, path) };
+  }
+
+  const [first, ...rest] = normalizePath(address).split("/");
+  return {
+    bucket: first === OPFS_ROOT ? null : first,
+    path: joinPath(...rest),
+  };
+};
+
+// Id del backend di un indirizzo, negli errori e nel registro delle
+// operazioni; "" per il primo livello o un indirizzo non valido
+export const backendOfAddress = (input: string): string => {
+  try {
+    return opfsBackendId(parseAddress(input).bucket ?? OPFS_ROOT);
+  } catch {
+    return "";
+  }
+};
+
+// Come parseAddress, ma l'indirizzo deve indicare un file o una cartella
+export const parseEntryAddress = (input: string): OPFSAddress => {
+  const address = parseAddress(input);
+  if (!address.path) throw invalidPath(input, "manca il percorso");
+  return address;
+};
+
+export const formatAddress = ({ bucket, path }: OPFSAddress) =>
+  bucket === null
+    ? `${ROOT_SCHEME}${escapePath(path)}`
+    : `${BUCKET_SCHEME}${bucket}/${escapePath(path)}`;
+
+// Percorso completo dell'albero: "root/..." o "<bucket>/..."
+export const toTreePath = ({ bucket, path }: OPFSAddress): string => {
+  if (bucket === OPFS_ROOT) {
+    throw new DOMException(
+      `Il bucket "${OPFS_ROOT}" si confonde con la radice OPFS nell'albero`,
+      "SyntaxError"
+    );
+  }
+  return joinPath(bucket ?? OPFS_ROOT, path);
+};
@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./memory";
+import {
+  WorkspaceRoot,
+  WorkspaceStore,
+  addRoots,
+  loadWorkspace,
+} from "./workspace";
+import {
+  MAX_LOGGED_CHANGES,
+  PermissionLogStore,
+  checkPermissions,
+  clearPermissionChanges,
+  dropRoot,
+  loadPermissionLog,
+  permissionStatus,
+  requestRootPermission,
+} from "./permissions";
+
+const createWorkspaceStore = (): WorkspaceStore => {
+  const roots = new Map<string, WorkspaceRoot>();
+  return {
+    list: async () => [...roots.values()],
+    put: async (root) => void roots.set(root.id, root),
+    remove: async (id) => void roots.delete(id),
+  };
+};
+
+// Handle con permessi controllati dal test, come dopo una revoca nel browser
+const createHandle = () => {
+  const states: Record<FileSystemPermissionMode, PermissionState> = {
+    read: "prompt",
+    readwrite: "prompt",
+  };
+  const handle = {
+    kind: "directory",
+    name: "progetto",
+    queryPermission: async ({ mode }: FileSystemHandlePermissionDescriptor) =>
+      states[mode ?? "read"],
+    requestPermission: async ({
+      mode,
+    }: FileSystemHandlePermissionDescriptor) => {
+      if (mode === "readwrite") states.read = "granted";
+      return (states[mode ?? "read"] = "granted");
+    },
+    isSameEntry: async (other: unknown) => other === handle,
+  };
+  return { handle: handle as unknown as FileSystemDirectoryHandle, states };
+};
+
+describe("permission log", () => {
+  let store: PermissionLogStore;
+  let workspace: WorkspaceStore;
+  let root: WorkspaceRoot;
+  let states: Record<FileSystemPermissionMode, PermissionState>;
+
+  beforeEach(async () => {
+    store = createMemoryStorage();
+    workspace = createWorkspaceStore();
+    const created = createHandle();
+    states = created.states;
+    [root] = await addRoots([created.handle], workspace);
+  });
+
+  it("records the first reading and then only changes", async () => {
+    await checkPermissions(root, store, 1000);
+    await checkPermissions(root, store, 2000);
+
+    const log = loadPermissionLog(store);
+    expect(
+      log.changes.map((change) => [change.mode, change.from, change.to])
+    ).toEqual([
+      ["read", null, "prompt"],
+      ["readwrite", null, "prompt"],
+    ]);
+    expect(permissionStatus(log, root, "read")).toEqual({
+      state: "prompt",
+      checkedAt: 2000,
+      grantedAt: undefined,
+    });
+  });
+
+  it("tracks when a permission was granted and when it was revoked", async () => {
+    await checkPermissions(root, store, 1000);
+    await requestRootPermission(root, "readwrite", store, 2000);
+    await checkPermissions(root, store, 3000);
+    states.readwrite = "prompt";
+    await checkPermissions(root, store, 4000);
+
+    const log = loadPermissionLog(store);
+    expect(permissionStatus(log, root, "read")).toMatchObject({
+      state: "granted",
+      grantedAt: 2000,
+    });
+    expect(permissionStatus(log, root, "readwrite")).toMatchObject({
+      state: "prompt",
+      grantedAt: 2000,
+      checkedAt: 4000,
+    });
+    expect(
+      log.changes.slice(2).map((change) => [change.mode, change.to])
+    ).toEqual([
+      ["read", "granted"],
+      ["readwrite", "granted"],
+      ["readwrite", "prompt"],
+    ]);
+  });
+
+  it("drops the stored handle and logs it", async () => {
+    await requestRootPermission(root, "read", store, 1000);
+    await dropRoot(root, workspace, store, 2000);
+
+    expect(await loadWorkspace(workspace)).toEqual([]);
+    const log = loadPermissionLog(store);
+    expect(permissionStatus(log, root, "read")).toBeUndefined();
+    expect(log.changes.slice(-2)).toEqual([
+      {
+        rootId: root.id,
+        name: "progetto",
+        mode: "read",
+        from: "granted",
+        to: "forgotten",
+        at: 2000,
+      },
+      {
+        rootId: root.id,
+        name: "progetto",
+        mode: "readwrite",
+        from: "prompt",
+        to: "forgotten",
+        at: 2000,
+      },
+    ]);
+  });
+
+  it("keeps a bounded log that can be cleared", async () => {
+    for (let i = 0; i < MAX_LOGGED_CHANGES; i++) {
+      states.read = i % 2 ? "granted" : "denied";
+      await checkPermissions(root, store, i);
+    }
+    expect(loadPermissionLog(store).changes).toHaveLength(MAX_LOGGED_CHANGES);
+
+    clearPermissionChanges(store);
+    const log = loadPermissionLog(store);
+    expect(log.changes).toEqual([]);
+    // Lo stato attuale resta
+    expect(permissionStatus(log, root, "read")?.state).toBe("granted");
+  });
+});
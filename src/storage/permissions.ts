@@ -0,0 +1,160 @@
+import {
+  RootPermissions,
+  WorkspaceRoot,
+  WorkspaceStore,
+  forgetRoot,
+  grantPermission,
+  readPermissions,
+} from "./workspace";
+
+// Registro dei permessi delle radici salvate: l'ultimo stato visto per ogni
+// radice e modalità, quando è stato concesso e l'elenco dei cambiamenti, per
+// verificare a mano cosa succede quando il browser revoca un permesso.
+
+export type PermissionLogStore = Pick<Storage, "getItem" | "setItem">;
+
+export type PermissionStatus = {
+  state: PermissionState;
+  checkedAt: number;
+  grantedAt?: number; // Ultima volta in cui è passato a "granted"
+};
+
+export type PermissionChange = {
+  rootId: string;
+  name: string;
+  mode: FileSystemPermissionMode;
+  from: PermissionState | null; // null alla prima lettura
+  to: PermissionState | "forgotten"; // "forgotten": handle tolto da IndexedDB
+  at: number;
+};
+
+export type PermissionLog = {
+  statuses: Record<string, PermissionStatus>; // Chiave: `${rootId}:${mode}`
+  changes: PermissionChange[]; // Dal più vecchio
+};
+
+// Oltre questo numero si scartano i cambiamenti più vecchi
+export const MAX_LOGGED_CHANGES = 200;
+
+const MODES: FileSystemPermissionMode[] = ["read", "readwrite"];
+
+const LOG_KEY = "opfs-poc:permission-log";
+
+const browserStore = (): PermissionLogStore => localStorage;
+
+const statusKey = (rootId: string, mode: FileSystemPermissionMode) =>
+  `${rootId}:${mode}`;
+
+export const loadPermissionLog = (
+  store: PermissionLogStore = browserStore()
+): PermissionLog => {
+  const saved = store.getItem(LOG_KEY);
+  return saved ? JSON.parse(saved) : { statuses: {}, changes: [] };
+};
+
+const savePermissionLog = (log: PermissionLog, store: PermissionLogStore) =>
+  store.setItem(
+    LOG_KEY,
+    JSON.stringify({
+      statuses: log.statuses,
+      changes: log.changes.slice(-MAX_LOGGED_CHANGES),
+    })
+  );
+
+export const clearPermissionChanges = (
+  store: PermissionLogStore = browserStore()
+) => savePermissionLog({ ...loadPermissionLog(store), changes: [] }, store);
+
+export const permissionStatus = (
+  log: PermissionLog,
+  root: WorkspaceRoot,
+  mode: FileSystemPermissionMode
+): PermissionStatus | undefined => log.statuses[statusKey(root.id, mode)];
+
+/**
+ * Confronta i permessi letti con l'ultimo stato registrato e salva i
+ * cambiamenti. Restituisce solo quelli nuovi.
+ */
+export const recordPermissions = (
+  root: WorkspaceRoot,
+  permissions: RootPermissions,
+  store: PermissionLogStore = browserStore(),
+  now = Date.now()
+): PermissionChange[] => {
+  const log = loadPermissionLog(store);
+  const changes: PermissionChange[] = [];
+  for (const mode of MODES) {
+    const key = statusKey(root.id, mode);
+    const previous = log.statuses[key];
+    const state = permissions[mode];
+    log.statuses[key] = {
+      state,
+      checkedAt: now,
+      grantedAt:
+        state === "granted" && previous?.state !== "granted"
+          ? now
+          : previous?.grantedAt,
+    };
+    if (previous?.state === state) continue;
+    changes.push({
+      rootId: root.id,
+      name: root.name,
+      mode,
+      from: previous?.state ?? null,
+      to: state,
+      at: now,
+    });
+  }
+  log.changes.push(...changes);
+  savePermissionLog(log, store);
+  return changes;
+};
+
+// Legge di nuovo i permessi, senza chiedere nulla all'utente
+export const checkPermissions = async (
+  root: WorkspaceRoot,
+  store: PermissionLogStore = browserStore(),
+  now = Date.now()
+): Promise<RootPermissions> => {
+  const permissions = await readPermissions(root);
+  recordPermissions(root, permissions, store, now);
+  return permissions;
+};
+
+// Mostra la richiesta del browser: va chiamata dal gestore di un click
+export const requestRootPermission = async (
+  root: WorkspaceRoot,
+  mode: FileSystemPermissionMode,
+  store: PermissionLogStore = browserStore(),
+  now = Date.now()
+): Promise<RootPermissions> => {
+  await grantPermission(root, mode);
+  return checkPermissions(root, store, now);
+};
+
+/**
+ * Toglie l'handle da IndexedDB, come se il permesso fosse stato revocato:
+ * senza handle l'app non può più raggiungere la cartella o il file.
+ */
+export const dropRoot = async (
+  root: WorkspaceRoot,
+  workspace?: WorkspaceStore,
+  store: PermissionLogStore = browserStore(),
+  now = Date.now()
+): Promise<void> => {
+  await forgetRoot(root, workspace);
+  const log = loadPermissionLog(store);
+  for (const mode of MODES) {
+    const key = statusKey(root.id, mode);
+    log.changes.push({
+      rootId: root.id,
+      name: root.name,
+      mode,
+      from: log.statuses[key]?.state ?? null,
+      to: "forgotten",
+      at: now,
+    });
+    delete log.statuses[key];
+  }
+  savePermissionLog(log, store);
+};
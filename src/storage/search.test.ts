@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import { createMemoryEnvironment } from "./memory";
+import { getOPFSBackend } from "./opfs";
+import { SearchQuery, globToRegExp, searchBackend } from "./search";
+import {
+  SearchIndexChanges,
+  createSearchIndex,
+  tokenize,
+} from "./searchIndex";
+
+const collect = async (
+  backend: StorageBackend,
+  query: SearchQuery,
+  signal?: AbortSignal
+) => {
+  const results = [];
+  for await (const result of searchBackend(backend, "root", query, {
+    signal,
+  })) {
+    results.push(result);
+  }
+  return results;
+};
+
+describe("globToRegExp", () => {
+  it.each([
+    ["*.txt", "note.txt", true],
+    ["*.txt", "dir/note.txt", false],
+    ["**/*.ts", "src/a/b.ts", true],
+    ["**/*.ts", "b.ts", true],
+    ["file?.{js,ts}", "file1.ts", true],
+    ["file?.{js,ts}", "file10.ts", false],
+    ["[!a]*", "bcd", true],
+    ["[!a]*", "abc", false],
+    ["a+b(1).txt", "a+b(1).txt", true],
+  ])("%s on %s -> %s", (glob, path, expected) => {
+    expect(globToRegExp(glob).test(path)).toBe(expected);
+  });
+});
+
+describe("searchBackend", () => {
+  let backend: StorageBackend;
+
+  beforeEach(async () => {
+    backend = getOPFSBackend("root", createMemoryEnvironment());
+    await backend.mkdir("docs/sub");
+    await backend.write("docs/readme.md", "# Titolo\nciao Mondo\nfine");
+    await backend.write("docs/sub/notes.txt", "niente da vedere");
+    await backend.write("docs/image.png", new Uint8Array([137, 80, 78, 71]));
+  });
+
+  it("matches names with a glob", async () => {
+    const results = await collect(backend, { name: "*.{md,txt}" });
+
+    expect(results.map((result) => result.path).sort()).toEqual([
+      "root/docs/readme.md",
+      "root/docs/sub/notes.txt",
+    ]);
+  });
+
+  it("matches paths with a regex", async () => {
+    const results = await collect(backend, {
+      name: "^docs/sub",
+      nameMode: "regex",
+    });
+
+    expect(results.map((result) => result.path)).toEqual([
+      "root/docs/sub",
+      "root/docs/sub/notes.txt",
+    ]);
+  });
+
+  it("finds text with line previews, skipping binary files", async () => {
+    const results = await collect(backend, { text: "mondo" });
+
+    expect(results).toEqual([
+      {
+        path: "root/docs/readme.md",
+        kind: "file",
+        matches: [{ line: 2, preview: "ciao Mondo" }],
+      },
+    ]);
+    expect(
+      await collect(backend, { text: "mondo", caseSensitive: true })
+    ).toEqual([]);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      collect(backend, { name: "*" }, controller.signal)
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("search index", () => {
+  const file = new File(["ciao"], "a.txt", { lastModified: 1 });
+
+  it("excludes fresh entries that cannot contain the text", async () => {
+    let saved: SearchIndexChanges | undefined;
+    const index = createSearchIndex({
+      load: async () => undefined,
+      save: async (changes) => void (saved = changes),
+      clear: async () => undefined,
+    });
+    index.enable();
+    index.add("root/a.txt", file, "Ciao, mondo!");
+    await index.save();
+
+    expect(saved?.put["root/a.txt"].terms).toEqual(["ciao", "mondo"]);
+    expect(index.excludes("root/a.txt", file, { text: "mond" })).toBe(false);
+    expect(index.excludes("root/a.txt", file, { text: "altro" })).toBe(true);
+    // Un file modificato fuori dall'app va riletto
+    const changed = new File(["ciao"], "a.txt", { lastModified: 2 });
+    expect(index.excludes("root/a.txt", changed, { text: "altro" })).toBe(
+      false
+    );
+  });
+
+  it("removes a directory and everything below it", () => {
+    const index = createSearchIndex({
+      load: async () => undefined,
+      save: async () => undefined,
+      clear: async () => undefined,
+    });
+    index.enable();
+    index.add("root/docs/a.txt", file, "a");
+    index.add("root/docs2/b.txt", file, "b");
+
+    index.remove("root/docs");
+
+    expect(index.size).toBe(1);
+  });
+
+  it("saves only the entries changed since the last save", async () => {
+    const saved: SearchIndexChanges[] = [];
+    const index = createSearchIndex({
+      load: async () => ({
+        version: 1,
+        files: {
+          "root/a.txt": { size: 4, lastModified: 1, terms: ["ciao"] },
+          "root/docs/b.txt": { size: 4, lastModified: 1, terms: ["ciao"] },
+        },
+      }),
+      save: async (changes) => void saved.push(changes),
+      clear: async () => undefined,
+    });
+    await index.load();
+
+    index.add("root/c.txt", file, "nuovo");
+    index.remove("root/docs");
+    await index.save();
+    await index.save();
+
+    expect(saved).toEqual([
+      {
+        reset: false,
+        put: {
+          "root/c.txt": { size: 4, lastModified: 1, terms: ["nuovo"] },
+        },
+        delete: ["root/docs/b.txt"],
+      },
+    ]);
+  });
+
+  it("tokenizes Unicode words", () => {
+    expect(tokenize("Perché 42_volte?")).toEqual(["perché", "42_volte"]);
+  });
+});
@@ -0,0 +1,165 @@
+import { EntryKind, StorageBackend, joinPath } from "./backend";
+import { sniffContent } from "./content";
+import { walkBackend } from "./walk";
+
+export type SearchQuery = {
+  name?: string; // Pattern sul nome, o sul percorso se contiene "/"
+  nameMode?: "glob" | "regex"; // Predefinito: "glob"
+  text?: string; // Testo da cercare nel contenuto dei file
+  textMode?: "plain" | "regex"; // Predefinito: "plain"
+  caseSensitive?: boolean;
+};
+
+export type SearchMatch = {
+  line: number; // A partire da 1
+  preview: string;
+};
+
+export type SearchResult = {
+  path: string; // Percorso completo, con il prefisso della sorgente
+  kind: EntryKind;
+  matches: SearchMatch[]; // Vuoto se la ricerca è solo sul nome
+};
+
+// Limiti per non trasformare una ricerca in una copia dei file in memoria
+export const SEARCH_TEXT_LIMIT = 32 * 1024 * 1024;
+export const MAX_MATCHES_PER_FILE = 20;
+const PREVIEW_LENGTH = 120;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Converte un glob in espressione regolare: `*` non attraversa le cartelle,
+ * `**` sì, `?` è un carattere, `{a,b}` un'alternativa e `[...]` una classe.
+ */
+export const globToRegExp = (glob: string, caseSensitive = false): RegExp => {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" corrisponde anche a nessuna cartella
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) source += "|";
+    else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) source += "\\[";
+      else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^");
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else source += escapeRegExp(char);
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? "" : "i");
+};
+
+export type CompiledQuery = {
+  matchesName: (path: string) => boolean;
+  findInText: ((text: string) => SearchMatch[]) | null;
+};
+
+export const compileQuery = (query: SearchQuery): CompiledQuery => {
+  const flags = query.caseSensitive ? "" : "i";
+
+  let matchesName: (path: string) => boolean = () => true;
+  if (query.name) {
+    const onPath = query.name.includes("/");
+    const pattern =
+      query.nameMode === "regex"
+        ? new RegExp(query.name, flags)
+        : globToRegExp(query.name, query.caseSensitive);
+    matchesName = (path) =>
+      pattern.test(onPath ? path : (path.split("/").pop() ?? ""));
+  }
+
+  if (!query.text) return { matchesName, findInText: null };
+  const pattern = new RegExp(
+    query.textMode === "regex" ? query.text : escapeRegExp(query.text),
+    flags
+  );
+  const findInText = (text: string): SearchMatch[] => {
+    const matches: SearchMatch[] = [];
+    const lines = text.split("\n");
+    for (let index = 0; index < lines.length; index++) {
+      const match = pattern.exec(lines[index]);
+      if (!match) continue;
+      // Anteprima centrata sulla corrispondenza
+      const start = Math.max(0, match.index - PREVIEW_LENGTH / 3);
+      const line = lines[index].replace(/\r$/, "");
+      matches.push({
+        line: index + 1,
+        preview:
+          (start > 0 ? "…" : "") +
+          line.slice(start, start + PREVIEW_LENGTH) +
+          (start + PREVIEW_LENGTH < line.length ? "…" : ""),
+      });
+      if (matches.length === MAX_MATCHES_PER_FILE) break;
+    }
+    return matches;
+  };
+  return { matchesName, findInText };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Ricerca annullata", "AbortError");
+  }
+};
+
+export type SearchOptions = {
+  signal?: AbortSignal;
+  // Chiamata per ogni file di testo letto, ad esempio per aggiornare l'indice
+  onText?: (path: string, file: File, text: string) => void;
+  // Se restituisce true il contenuto del file non viene letto: l'indice sa
+  // già che non può contenere il testo cercato
+  skipContent?: (path: string, file: File) => boolean;
+  onScanned?: (count: number) => void;
+};
+
+/**
+ * Cerca in un backend, restituendo i risultati man mano che li trova. Senza
+ * `text` confronta solo i nomi; con `text` legge i file di testo che
+ * superano il filtro sul nome. `prefix` viene anteposto ai percorsi.
+ */
+export async function* searchBackend(
+  backend: StorageBackend,
+  prefix: string,
+  query: SearchQuery,
+  { signal, onText, skipContent, onScanned }: SearchOptions = {}
+): AsyncGenerator<SearchResult> {
+  const { matchesName, findInText } = compileQuery(query);
+  let scanned = 0;
+
+  for await (const entry of walkBackend(backend)) {
+    throwIfAborted(signal);
+    onScanned?.(++scanned);
+    const path = joinPath(prefix, entry.path);
+    if (!matchesName(entry.path)) continue;
+
+    if (!findInText) {
+      yield { path, kind: entry.kind, matches: [] };
+      continue;
+    }
+    if (entry.kind !== "file") continue;
+
+    const file = await backend.read(entry.path);
+    if (file.size > SEARCH_TEXT_LIMIT || skipContent?.(path, file)) continue;
+    if ((await sniffContent(file)).kind !== "text") continue;
+    const text = await file.text();
+    onText?.(path, file, text);
+    const matches = findInText(text);
+    if (matches.length > 0) yield { path, kind: "file", matches };
+  }
+}
@@ -0,0 +1,200 @@
+import { IDBPDatabase, openDB } from "idb";
+import { SearchQuery } from "./search";
+
+// Indice del contenuto dei file OPFS: per ogni file le parole che contiene,
+// con dimensione e data di modifica per riconoscere le voci non aggiornate.
+// Serve solo a scartare i file che non possono contenere il testo cercato;
+// i file cambiati fuori dall'app vengono comunque riletti.
+
+export type IndexedFile = {
+  size: number;
+  lastModified: number;
+  terms: string[];
+};
+
+export type SearchIndexData = {
+  version: 1;
+  files: Record<string, IndexedFile>; // Chiave: percorso completo dell'albero
+};
+
+// Modifiche dall'ultimo salvataggio: lo store riscrive solo queste voci
+export type SearchIndexChanges = {
+  reset: boolean; // L'indice è stato ricostruito: le voci salvate non valgono
+  put: Record<string, IndexedFile>;
+  delete: string[];
+};
+
+export type SearchIndexStore = {
+  load(): Promise<SearchIndexData | undefined>;
+  save(changes: SearchIndexChanges): Promise<void>;
+  clear(): Promise<void>;
+};
+
+// Un record per file, con chiave il percorso e un indice sulle parole; il
+// record in META_STORE indica che l'indice è attivo anche se vuoto
+const DB_NAME = "searchIndexDB";
+const FILES_STORE = "files";
+const META_STORE = "meta";
+const META_KEY = "opfs";
+
+export const createIndexedDBStore = (): SearchIndexStore => {
+  // Il worker apre la connessione alla prima lettura e poi la riusa
+  let connection: Promise<IDBPDatabase> | undefined;
+  const db = () =>
+    (connection ??= openDB(DB_NAME, 2, {
+      upgrade(db, oldVersion) {
+        // La versione 1 teneva l'intero indice in un solo record
+        if (oldVersion < 2 && db.objectStoreNames.contains("index")) {
+          db.deleteObjectStore("index");
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE, { keyPath: "path" }).createIndex(
+            "terms",
+            "terms",
+            { multiEntry: true }
+          );
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      },
+    }));
+  return {
+    load: async () => {
+      const tx = (await db()).transaction([FILES_STORE, META_STORE]);
+      if (!(await tx.objectStore(META_STORE).get(META_KEY))) return undefined;
+      const files: Record<string, IndexedFile> = {};
+      for (const { path, ...entry } of await tx
+        .objectStore(FILES_STORE)
+        .getAll()) {
+        files[path] = entry;
+      }
+      return { version: 1, files };
+    },
+    save: async (changes) => {
+      const tx = (await db()).transaction(
+        [FILES_STORE, META_STORE],
+        "readwrite"
+      );
+      const files = tx.objectStore(FILES_STORE);
+      if (changes.reset) await files.clear();
+      await tx.objectStore(META_STORE).put({ version: 1 }, META_KEY);
+      for (const path of changes.delete) await files.delete(path);
+      for (const [path, entry] of Object.entries(changes.put)) {
+        await files.put({ path, ...entry });
+      }
+      await tx.done;
+    },
+    clear: async () => {
+      const tx = (await db()).transaction(
+        [FILES_STORE, META_STORE],
+        "readwrite"
+      );
+      await tx.objectStore(FILES_STORE).clear();
+      await tx.objectStore(META_STORE).delete(META_KEY);
+      await tx.done;
+    },
+  };
+};
+
+const MAX_TERMS_PER_FILE = 50_000;
+
+// Parole in minuscolo, lettere e cifre Unicode
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+
+const isFresh = (entry: IndexedFile, file: File) =>
+  entry.size === file.size && entry.lastModified === file.lastModified;
+
+/**
+ * Indice in memoria con salvataggio su uno store. `enabled` è false finché
+ * l'indice non viene costruito: senza indice gli aggiornamenti sono ignorati.
+ */
+export const createSearchIndex = (store: SearchIndexStore) => {
+  let data: SearchIndexData | undefined;
+  // Percorsi aggiunti o rimossi dall'ultimo salvataggio
+  let changed = new Set<string>();
+  let reset = false;
+
+  const load = async () => {
+    data = await store.load();
+  };
+
+  const save = async () => {
+    if (!data || (!reset && changed.size === 0)) return;
+    const changes: SearchIndexChanges = { reset, put: {}, delete: [] };
+    for (const path of changed) {
+      const entry = data.files[path];
+      if (entry) changes.put[path] = entry;
+      else if (!reset) changes.delete.push(path);
+    }
+    changed = new Set();
+    reset = false;
+    await store.save(changes);
+  };
+
+  const enable = () => {
+    data = { version: 1, files: {} };
+    changed = new Set();
+    reset = true;
+  };
+
+  const disable = async () => {
+    data = undefined;
+    changed = new Set();
+    reset = false;
+    await store.clear();
+  };
+
+  const add = (path: string, file: File, text: string) => {
+    if (!data) return;
+    data.files[path] = {
+      size: file.size,
+      lastModified: file.lastModified,
+      terms: [...new Set(tokenize(text))].slice(0, MAX_TERMS_PER_FILE),
+    };
+    changed.add(path);
+  };
+
+  // Rimuove un file o, con i percorsi che iniziano con `path/`, una cartella
+  const remove = (path: string) => {
+    if (!data) return;
+    for (const key of Object.keys(data.files)) {
+      if (key === path || key.startsWith(`${path}/`)) {
+        delete data.files[key];
+        changed.add(key);
+      }
+    }
+  };
+
+  /**
+   * True se l'indice è aggiornato per `file` e nessuna sua parola contiene
+   * una di quelle cercate. Le ricerche con regex non usano l'indice.
+   */
+  const excludes = (path: string, file: File, query: SearchQuery) => {
+    const entry = data?.files[path];
+    if (!entry || !query.text || query.textMode === "regex") return false;
+    if (!isFresh(entry, file)) return false;
+    return !tokenize(query.text).every((token) =>
+      entry.terms.some((term) => term.includes(token))
+    );
+  };
+
+  return {
+    load,
+    save,
+    enable,
+    disable,
+    add,
+    remove,
+    excludes,
+    get enabled() {
+      return data !== undefined;
+    },
+    get size() {
+      return data ? Object.keys(data.files).length : 0;
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createKeyring,
+  decodeForPath,
+  encodeForPath,
+  encryptArea,
+  isEncrypted,
+} from "./encryption";
+import { createMemoryEnvironment, createMemoryStorage } from "./memory";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+import {
+  ShellContext,
+  completeLine,
+  parseCommandLine,
+  resolveShellPath,
+  runCommand,
+} from "./shell";
+
+describe("shell", () => {
+  let env: OPFSEnvironment;
+  let ctx: ShellContext;
+
+  // Esegue i comandi in sequenza, come li scriverebbe l'utente
+  const session = async (...lines: string[]) => {
+    let cwd = "";
+    const output: string[] = [];
+    for (const line of lines) {
+      const result = await runCommand(ctx, cwd, line);
+      cwd = result.cwd;
+      output.push(...result.output);
+    }
+    return { cwd, output };
+  };
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    ctx = { env, registry: createMemoryStorage() };
+    const root = getOPFSBackend("root", env);
+    await root.mkdir("docs");
+    await root.write("docs/nota.txt", "ciao\nmondo");
+    await root.write("docs/foto.png", "x");
+    await getOPFSBackend("photos", env).write("a.txt", "12345");
+  });
+
+  it("parses quotes and escapes like a shell", () => {
+    expect(parseCommandLine(`mv "a b.txt" c\\ d.txt ''`)).toEqual([
+      "mv",
+      "a b.txt",
+      "c d.txt",
+      "",
+    ]);
+    expect(resolveShellPath("root/docs", "../x/./y")).toBe("root/x/y");
+    expect(resolveShellPath("root/docs", "/photos")).toBe("photos");
+  });
+
+  it("resolves addresses and validates names like the rest of the app", () => {
+    expect(resolveShellPath("photos", "opfs://docs/nota%20uno.txt")).toBe(
+      "root/docs/nota uno.txt"
+    );
+    expect(resolveShellPath("root", "bucket://photos/a.png")).toBe(
+      "photos/a.png"
+    );
+    expect(() => resolveShellPath("root", "bucket://root/a")).toThrow(
+      "radice OPFS"
+    );
+    expect(() => resolveShellPath("root", "a\\b")).toThrow(
+      "Percorso non valido"
+    );
+  });
+
+  it("navigates and lists the root and the buckets", async () => {
+    expect((await session("ls")).output).toEqual(["root/", "photos/"]);
+    expect(await session("cd root/docs", "ls", "pwd")).toEqual({
+      cwd: "root/docs",
+      output: ["foto.png", "nota.txt", "/root/docs"],
+    });
+    expect((await session("cat /root/docs/nota.txt")).output).toEqual([
+      "ciao",
+      "mondo",
+    ]);
+  });
+
+  it("creates, copies, moves and removes entries", async () => {
+    await session(
+      "mkdir -p /root/a/b",
+      "touch /root/a/b/x.txt",
+      "cp /root/docs/nota.txt /photos",
+      "mv /root/a /root/c"
+    );
+
+    expect((await session("find /root/c")).output).toEqual([
+      "/root/c/b",
+      "/root/c/b/x.txt",
+    ]);
+    expect(
+      await (await getOPFSBackend("photos", env).read("nota.txt")).text()
+    ).toBe("ciao\nmondo");
+
+    expect((await runCommand(ctx, "", "rm /root/c")).output).toEqual([
+      "rm: È una cartella: /root/c (usa -r)",
+    ]);
+    const { changes } = await runCommand(ctx, "", "rm -r /root/c");
+    expect(changes).toEqual([
+      { type: "deleted", path: "root/c", kind: "directory" },
+    ]);
+  });
+
+  it("reports errors without losing earlier changes", async () => {
+    const mkdir = await runCommand(ctx, "root", "mkdir nuova manca/sotto");
+    expect(mkdir.error).toBe(true);
+    expect(mkdir.changes).toEqual([
+      { type: "created", path: "root/nuova", kind: "directory" },
+    ]);
+
+    const cp = await runCommand(ctx, "root", "cp docs/nota.txt /photos/a.txt");
+    expect(cp.output).toEqual([
+      "cp: Esiste già: /photos/a.txt (usa -f per sovrascrivere)",
+    ]);
+    await runCommand(ctx, "root", "cp -f docs/nota.txt /photos/a.txt");
+    expect(
+      await (await getOPFSBackend("photos", env).read("a.txt")).text()
+    ).toBe("ciao\nmondo");
+
+    expect(
+      (await session("rm /root", "cat /root/docs/foto.png", "boh")).output
+    ).toEqual([
+      "rm: Impossibile eliminare /root: usa il comando bucket",
+      "cat: File binario: /root/docs/foto.png",
+      "boh: Comando sconosciuto: boh",
+    ]);
+  });
+
+  it("refuses mv -f onto a folder that contains the source", async () => {
+    await session("mkdir -p /root/x/x", "touch /root/x/x/f.txt");
+
+    const mv = await runCommand(ctx, "root/x", "mv -f x ..");
+    expect(mv.error).toBe(true);
+    expect(mv.changes).toEqual([]);
+    expect((await session("find /root/x")).output).toEqual([
+      "/root/x/x",
+      "/root/x/x/f.txt",
+    ]);
+  });
+
+  it("keeps moves and copies inside the same encrypted area", async () => {
+    const keyring = createKeyring();
+    const registry = ctx.registry;
+    await encryptArea(
+      getOPFSBackend("root", env),
+      "docs",
+      { fullPath: "root/docs", passphrase: "segreta" },
+      keyring,
+      registry,
+      1000,
+      env
+    );
+    ctx = {
+      ...ctx,
+      decode: (fullPath, file) =>
+        decodeForPath(fullPath, file, keyring, registry),
+      encode: (fullPath, data) =>
+        encodeForPath(fullPath, data, keyring, registry),
+    };
+
+    const out = await runCommand(ctx, "", "cp /root/docs/nota.txt /root");
+    expect(out.error).toBe(true);
+    expect(out.output[0]).toContain("stessa area cifrata");
+    const into = await runCommand(ctx, "", "mv /photos/a.txt /root/docs");
+    expect(into.error).toBe(true);
+    const area = await runCommand(ctx, "", "mv /root/docs /root/altro");
+    expect(area.error).toBe(true);
+
+    expect(
+      (
+        await session(
+          "cp /root/docs/nota.txt /root/docs/copia.txt",
+          "touch /root/docs/nuovo.txt",
+          "cat /root/docs/copia.txt"
+        )
+      ).output
+    ).toEqual(["ciao", "mondo"]);
+    const created = await getOPFSBackend("root", env).read("docs/nuovo.txt");
+    expect(await isEncrypted(created)).toBe(true);
+  });
+
+  it("finds entries and sums their sizes", async () => {
+    expect((await session("find -name *.txt -type f")).output).toEqual([
+      "/root/docs/nota.txt",
+      "/photos/a.txt",
+    ]);
+    expect((await session("du")).output).toEqual([
+      "11 B\t/root",
+      "11 B\t/root/docs",
+      "5 B\t/photos",
+      "16 B\ttotale",
+    ]);
+  });
+
+  it("creates, lists and removes buckets", async () => {
+    const { output } = await session(
+      "bucket create archivio",
+      "bucket ls",
+      "bucket rm photos",
+      "ls"
+    );
+
+    expect(output).toEqual(["photos", "archivio", "root/", "archivio/"]);
+    expect((await session("bucket create root")).output).toEqual([
+      "bucket: Nome riservato: root",
+    ]);
+  });
+
+  it("completes commands and paths", async () => {
+    expect(await completeLine(ctx, "", "mk")).toEqual({
+      line: "mkdir ",
+      candidates: [],
+    });
+    expect(await completeLine(ctx, "", "cat root/do")).toEqual({
+      line: "cat root/docs/",
+      candidates: [],
+    });
+    expect(await completeLine(ctx, "root/docs", "cat ")).toEqual({
+      line: "cat ",
+      candidates: ["foto.png", "nota.txt"],
+    });
+    expect(await completeLine(ctx, "", "bucket rm p")).toEqual({
+      line: "bucket rm photos ",
+      candidates: [],
+    });
+  });
+
+  it("escapes completed names with spaces and quotes", async () => {
+    const root = getOPFSBackend("root", env);
+    await root.mkdir("docs/l'archivio 2024");
+    await root.write("docs/nota bis.txt", "x");
+
+    const quoted = await completeLine(ctx, "root/docs", `cat "nota b`);
+    expect(quoted).toEqual({ line: "cat nota\\ bis.txt ", candidates: [] });
+    expect(parseCommandLine(quoted.line)).toEqual(["cat", "nota bis.txt"]);
+
+    const escaped = await completeLine(ctx, "root/docs", "cd l\\'");
+    expect(escaped.line).toBe("cd l\\'archivio\\ 2024/");
+    expect(parseCommandLine(escaped.line)).toEqual(["cd", "l'archivio 2024/"]);
+
+    expect(await completeLine(ctx, "root/docs", "cat nota")).toEqual({
+      line: "cat nota",
+      candidates: ["nota bis.txt", "nota.txt"],
+    });
+  });
+});
@@ -0,0 +1,636 @@
+import { EntryInfo, StorageBackend, joinPath, splitPath } from "./backend";
+import { BucketRegistry, createBucket, deleteBucket } from "./buckets";
+import { createCappedStore } from "./cappedStore";
+import { sniffContent } from "./content";
+import { requireSameArea } from "./encryption";
+import { visibleBuckets, visibleRoots } from "./history";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+import {
+  BUCKET_SCHEME,
+  RESERVED_BUCKETS,
+  ROOT_SCHEME,
+  normalizePath,
+  parseAddress,
+  toTreePath,
+  validateBucketName,
+} from "./paths";
+import { transferEntry } from "./transfer";
+import { parentPath } from "./tree";
+import { directorySizes, formatBytes } from "./usage";
+import { walkBackend } from "./walk";
+import { ChangeEvent } from "./watch";
+
+// Console a riga di comando sul file system OPFS. I percorsi sono quelli
+// dell'albero ("root/a.txt", "<bucket>/b.txt"): "/" è il primo livello, con
+// la radice OPFS e i bucket, e i percorsi relativi partono dalla cartella
+// corrente.
+
+export type ShellContext = {
+  env: OPFSEnvironment;
+  // Predefinito: quello del browser, con le quote e le aree cifrate
+  registry?: BucketRegistry;
+  // Contenuto in chiaro per `cat`, ad esempio dei file delle aree cifrate
+  decode?: (fullPath: string, file: File) => Promise<File>;
+  // Contenuto da scrivere per `touch`, cifrato nelle aree
+  encode?: (fullPath: string, data: Uint8Array) => Promise<Uint8Array>;
+};
+
+export type ShellResult = {
+  output: string[];
+  cwd: string; // Percorso dell'albero, "" per il primo livello
+  changes: ChangeEvent[]; // Con percorsi completi dell'albero
+  error: boolean;
+};
+
+type Args = { flags: Set<string>; args: string[] };
+
+type Command = {
+  usage: string;
+  rawArgs?: boolean; // Le opzioni hanno un valore: le parole arrivano intatte
+  run: (
+    ctx: ShellContext,
+    cwd: string,
+    args: Args,
+    result: ShellResult
+  ) => Promise<void>;
+};
+
+// Oltre questa dimensione `cat` mostra solo l'inizio del file
+export const CAT_LIMIT = 1024 * 1024;
+
+export const MAX_HISTORY = 500;
+
+const shellError = (message: string, name = "InvalidStateError") =>
+  new DOMException(message, name);
+
+/**
+ * Divide la riga in parole come una shell: gli spazi separano le parole,
+ * tranne tra virgolette singole o doppie o dopo una barra rovesciata.
+ */
+export const parseCommandLine = (line: string): string[] => {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else word += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      word ??= "";
+    } else if (char === "\\" && i + 1 < line.length) {
+      word = (word ?? "") + line[++i];
+    } else if (/\s/.test(char)) {
+      if (word !== null) words.push(word);
+      word = null;
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+  if (quote) throw shellError("Virgolette non chiuse", "SyntaxError");
+  if (word !== null) words.push(word);
+  return words;
+};
+
+// "-rf" diventa le opzioni r e f, "--persisted" l'opzione persisted
+const parseArgs = (words: string[]): Args => {
+  const flags = new Set<string>();
+  const args: string[] = [];
+  for (const word of words) {
+    if (word.startsWith("--") && word.length > 2) flags.add(word.slice(2));
+    else if (word.startsWith("-") && word.length > 1) {
+      for (const flag of word.slice(1)) flags.add(flag);
+    } else args.push(word);
+  }
+  return { flags, args };
+};
+
+// Percorso dell'albero di `arg`: assoluto se inizia con "/", altrimenti
+// relativo a `cwd`. Gestisce "." e ".." e accetta anche gli indirizzi
+// "opfs://..." e "bucket://...". I nomi si validano come nel resto dell'app.
+export const resolveShellPath = (cwd: string, arg = ""): string => {
+  if (arg.startsWith(ROOT_SCHEME) || arg.startsWith(BUCKET_SCHEME)) {
+    return toTreePath(parseAddress(arg));
+  }
+  const parts = arg.startsWith("/") ? [] : splitPath(cwd);
+  for (const part of splitPath(arg)) {
+    if (part === "..") parts.pop();
+    else if (part !== ".") parts.push(part);
+  }
+  return normalizePath(joinPath(...parts), { allowEmpty: true });
+};
+
+const display = (fullPath: string) => `/${fullPath}`;
+
+// Backend e percorso relativo, senza creare un bucket che non esiste:
+// getOPFSBackend lo creerebbe alla prima operazione
+const locate = async (
+  ctx: ShellContext,
+  fullPath: string
+): Promise<{ backend: StorageBackend; path: string; top: string }> => {
+  const [top, ...rest] = splitPath(fullPath);
+  if (!top || !(await visibleRoots(ctx.env)).includes(top)) {
+    throw shellError(
+      `Percorso inesistente: ${display(fullPath)}`,
+      "NotFoundError"
+    );
+  }
+  return {
+    backend: getOPFSBackend(top, ctx.env),
+    path: joinPath(...rest),
+    top,
+  };
+};
+
+const statPath = async (
+  ctx: ShellContext,
+  fullPath: string
+): Promise<EntryInfo> => {
+  if (fullPath === "") return { name: "", path: "", kind: "directory" };
+  const { backend, path } = await locate(ctx, fullPath);
+  return backend.stat(path);
+};
+
+const exists = async (ctx: ShellContext, fullPath: string) => {
+  try {
+    await statPath(ctx, fullPath);
+    return true;
+  } catch (error) {
+    if ((error as DOMException).name === "NotFoundError") return false;
+    throw error;
+  }
+};
+
+const requireDirectory = async (ctx: ShellContext, fullPath: string) => {
+  if ((await statPath(ctx, fullPath)).kind !== "directory") {
+    throw shellError(
+      `Non è una cartella: ${display(fullPath)}`,
+      "TypeMismatchError"
+    );
+  }
+};
+
+// Il primo livello (radice OPFS e bucket) si gestisce con "bucket"
+const requireNested = (fullPath: string, action: string) => {
+  if (splitPath(fullPath).length < 2) {
+    throw shellError(
+      `Impossibile ${action} ${display(fullPath)}: usa il comando bucket`,
+      "InvalidModificationError"
+    );
+  }
+};
+
+const requireArgs = (args: string[], count: number, usage: string) => {
+  if (args.length < count) throw shellError(`Uso: ${usage}`, "SyntaxError");
+};
+
+// Nomi nella cartella, con "/" finale per le sottocartelle
+const listNames = async (
+  ctx: ShellContext,
+  fullPath: string
+): Promise<string[]> => {
+  if (fullPath === "") {
+    return (await visibleRoots(ctx.env)).map((name) => `${name}/`);
+  }
+  const { backend, path } = await locate(ctx, fullPath);
+  return (await backend.list(path))
+    .map((entry) =>
+      entry.kind === "directory" ? `${entry.name}/` : entry.name
+    )
+    .sort((a, b) => a.localeCompare(b));
+};
+
+// Radici da visitare per `du` e `find`: tutte, dal primo livello
+const walkRoots = async (ctx: ShellContext, fullPath: string) => {
+  if (fullPath !== "") {
+    const { backend, path, top } = await locate(ctx, fullPath);
+    return [{ backend, path, top }];
+  }
+  return (await visibleRoots(ctx.env)).map((top) => ({
+    backend: getOPFSBackend(top, ctx.env),
+    path: "",
+    top,
+  }));
+};
+
+// "*" e "?" come nei glob della shell, sul solo nome
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".")}$`
+  );
+
+const transfer = async (
+  ctx: ShellContext,
+  cwd: string,
+  { flags, args }: Args,
+  result: ShellResult,
+  mode: "move" | "copy"
+) => {
+  const usage = `${mode === "move" ? "mv" : "cp"} [-f] origine... destinazione`;
+  requireArgs(args, 2, usage);
+  const destination = resolveShellPath(cwd, args[args.length - 1]);
+  const sources = args.slice(0, -1).map((arg) => resolveShellPath(cwd, arg));
+  const intoDirectory =
+    (await exists(ctx, destination)) &&
+    (await statPath(ctx, destination)).kind === "directory";
+  if (sources.length > 1 && !intoDirectory) {
+    throw shellError(
+      `Con più origini la destinazione deve essere una cartella: ${display(
+        destination
+      )}`,
+      "TypeMismatchError"
+    );
+  }
+
+  for (const source of sources) {
+    requireNested(source, mode === "move" ? "spostare" : "copiare");
+    const target = intoDirectory
+      ? joinPath(destination, splitPath(source).pop() ?? "")
+      : destination;
+    requireNested(target, mode === "move" ? "spostare in" : "copiare in");
+    requireSameArea(source, target, ctx.registry);
+    const from = await locate(ctx, source);
+    const to = await locate(ctx, target);
+    const { kind } = await from.backend.stat(from.path);
+    const { status, path } = await transferEntry(from, to, {
+      mode,
+      conflict: flags.has("f") ? "overwrite" : "skip",
+    });
+    const finalPath = joinPath(to.top, path);
+    if (status === "skipped") {
+      throw shellError(
+        `Esiste già: ${display(finalPath)} (usa -f per sovrascrivere)`,
+        "InvalidModificationError"
+      );
+    }
+    result.changes.push(
+      mode === "move"
+        ? { type: "moved", path: finalPath, oldPath: source, kind }
+        : { type: "created", path: finalPath, kind }
+    );
+  }
+};
+
+const COMMANDS: Record<string, Command> = {
+  help: {
+    usage: "help",
+    run: async (_ctx, _cwd, _args, result) => {
+      result.output.push(
+        ...Object.values(COMMANDS).map(({ usage }) => usage),
+        "history",
+        "clear"
+      );
+    },
+  },
+  pwd: {
+    usage: "pwd",
+    run: async (_ctx, cwd, _args, result) => {
+      result.output.push(display(cwd));
+    },
+  },
+  cd: {
+    usage: "cd [cartella]",
+    run: async (ctx, cwd, { args }, result) => {
+      const target = resolveShellPath(cwd, args[0] ?? "/");
+      await requireDirectory(ctx, target);
+      result.cwd = target;
+    },
+  },
+  ls: {
+    usage: "ls [percorso...]",
+    run: async (ctx, cwd, { args }, result) => {
+      const targets = args.length > 0 ? args : [""];
+      for (const arg of targets) {
+        const target = resolveShellPath(cwd, arg);
+        const info = await statPath(ctx, target);
+        if (targets.length > 1) result.output.push(`${display(target)}:`);
+        result.output.push(
+          ...(info.kind === "file" ? [info.name] : await listNames(ctx, target))
+        );
+      }
+    },
+  },
+  cat: {
+    usage: "cat file...",
+    run: async (ctx, cwd, { args }, result) => {
+      requireArgs(args, 1, COMMANDS.cat.usage);
+      for (const arg of args) {
+        const target = resolveShellPath(cwd, arg);
+        const { backend, path } = await locate(ctx, target);
+        const stored = await backend.read(path);
+        const file = ctx.decode ? await ctx.decode(target, stored) : stored;
+        if ((await sniffContent(file)).kind !== "text") {
+          throw shellError(`File binario: ${display(target)}`, "DataError");
+        }
+        result.output.push(
+          ...(await file.slice(0, CAT_LIMIT).text()).split("\n")
+        );
+        if (file.size > CAT_LIMIT) {
+          result.output.push(
+            `… troncato: mostrati ${formatBytes(CAT_LIMIT)} di ${formatBytes(
+              file.size
+            )}`
+          );
+        }
+      }
+    },
+  },
+  mkdir: {
+    usage: "mkdir [-p] cartella...",
+    run: async (ctx, cwd, { flags, args }, result) => {
+      requireArgs(args, 1, COMMANDS.mkdir.usage);
+      for (const arg of args) {
+        const target = resolveShellPath(cwd, arg);
+        requireNested(target, "creare");
+        if (!flags.has("p")) {
+          await requireDirectory(ctx, parentPath(target));
+          if (await exists(ctx, target)) {
+            throw shellError(
+              `Esiste già: ${display(target)}`,
+              "InvalidModificationError"
+            );
+          }
+        }
+        const { backend, path } = await locate(ctx, target);
+        await backend.mkdir(path);
+        result.changes.push({
+          type: "created",
+          path: target,
+          kind: "directory",
+        });
+      }
+    },
+  },
+  touch: {
+    usage: "touch file...",
+    run: async (ctx, cwd, { args }, result) => {
+      requireArgs(args, 1, COMMANDS.touch.usage);
+      for (const arg of args) {
+        const target = resolveShellPath(cwd, arg);
+        requireNested(target, "creare");
+        const { backend, path } = await locate(ctx, target);
+        if (await exists(ctx, target)) {
+          // OPFS non permette di cambiare la data: si riscrive il contenuto
+          await backend.write(path, await backend.read(path));
+          result.changes.push({ type: "modified", path: target, kind: "file" });
+        } else {
+          await requireDirectory(ctx, parentPath(target));
+          await backend.createFile(path);
+          if (ctx.encode) {
+            await backend.write(
+              path,
+              await ctx.encode(target, new Uint8Array())
+            );
+          }
+          result.changes.push({ type: "created", path: target, kind: "file" });
+        }
+      }
+    },
+  },
+  rm: {
+    usage: "rm [-r] percorso...",
+    run: async (ctx, cwd, { flags, args }, result) => {
+      requireArgs(args, 1, COMMANDS.rm.usage);
+      for (const arg of args) {
+        const target = resolveShellPath(cwd, arg);
+        requireNested(target, "eliminare");
+        const { backend, path } = await locate(ctx, target);
+        const { kind } = await backend.stat(path);
+        if (kind === "directory" && !flags.has("r")) {
+          throw shellError(
+            `È una cartella: ${display(target)} (usa -r)`,
+            "InvalidModificationError"
+          );
+        }
+        await backend.remove(path, { recursive: kind === "directory" });
+        result.changes.push({ type: "deleted", path: target, kind });
+      }
+    },
+  },
+  mv: {
+    usage: "mv [-f] origine... destinazione",
+    run: (ctx, cwd, args, result) => transfer(ctx, cwd, args, result, "move"),
+  },
+  cp: {
+    usage: "cp [-f] origine... destinazione",
+    run: (ctx, cwd, args, result) => transfer(ctx, cwd, args, result, "copy"),
+  },
+  du: {
+    usage: "du [percorso]",
+    run: async (ctx, cwd, { args }, result) => {
+      const target = resolveShellPath(cwd, args[0]);
+      const info = await statPath(ctx, target);
+      if (info.kind === "file") {
+        result.output.push(
+          `${formatBytes(info.size ?? 0)}\t${display(target)}`
+        );
+        return;
+      }
+      let total = 0;
+      for (const { backend, path, top } of await walkRoots(ctx, target)) {
+        const sizes = await directorySizes(backend, path);
+        for (const [directory, size] of [...sizes].sort(([a], [b]) =>
+          a.localeCompare(b)
+        )) {
+          result.output.push(
+            `${formatBytes(size)}\t${display(joinPath(top, directory))}`
+          );
+        }
+        total += sizes.get(path) ?? 0;
+      }
+      if (target === "") result.output.push(`${formatBytes(total)}\ttotale`);
+    },
+  },
+  find: {
+    usage: "find [percorso] [-name modello] [-type f|d]",
+    rawArgs: true,
+    run: async (ctx, cwd, { args }, result) => {
+      let path: string | undefined;
+      let name: RegExp | null = null;
+      let type: string | null = null;
+      for (let i = 0; i < args.length; i++) {
+        if (args[i] === "-name") name = globToRegExp(args[++i] ?? "");
+        else if (args[i] === "-type") type = args[++i] ?? null;
+        else path = args[i];
+      }
+      const target = resolveShellPath(cwd, path);
+      await requireDirectory(ctx, target);
+      for (const root of await walkRoots(ctx, target)) {
+        for await (const entry of walkBackend(root.backend, root.path)) {
+          if (name && !name.test(entry.name)) continue;
+          if (type && entry.kind !== (type === "d" ? "directory" : "file")) {
+            continue;
+          }
+          result.output.push(display(joinPath(root.top, entry.path)));
+        }
+      }
+    },
+  },
+  bucket: {
+    usage: "bucket create [--persisted] nome | bucket ls | bucket rm nome",
+    run: async (ctx, _cwd, { flags, args }, result) => {
+      const [action, name] = args;
+      if (action === "ls") {
+        result.output.push(...(await visibleBuckets(ctx.env)));
+        return;
+      }
+      if ((action !== "create" && action !== "rm") || !name) {
+        throw shellError(`Uso: ${COMMANDS.bucket.usage}`, "SyntaxError");
+      }
+      if (RESERVED_BUCKETS.includes(name)) {
+        throw shellError(`Nome riservato: ${name}`, "InvalidModificationError");
+      }
+      const existing = (await ctx.env.buckets.keys()).includes(name);
+      if (action === "create") {
+        validateBucketName(name);
+        if (existing) {
+          throw shellError(
+            `Bucket già esistente: ${name}`,
+            "InvalidModificationError"
+          );
+        }
+        await createBucket(
+          name,
+          { persisted: flags.has("persisted") },
+          ctx.env,
+          ctx.registry
+        );
+        result.changes.push({ type: "created", path: name, kind: "directory" });
+      } else {
+        if (!existing) {
+          throw shellError(`Bucket inesistente: ${name}`, "NotFoundError");
+        }
+        await deleteBucket(name, ctx.env, ctx.registry);
+        result.changes.push({ type: "deleted", path: name, kind: "directory" });
+      }
+    },
+  },
+};
+
+export const COMMAND_NAMES = [...Object.keys(COMMANDS), "history", "clear"];
+
+/**
+ * Esegue una riga di comando. Gli errori non vengono rilanciati: finiscono
+ * nell'output, insieme alle modifiche fatte prima dell'errore.
+ */
+export const runCommand = async (
+  ctx: ShellContext,
+  cwd: string,
+  line: string
+): Promise<ShellResult> => {
+  const result: ShellResult = { output: [], cwd, changes: [], error: false };
+  let name = "";
+  try {
+    const [command, ...words] = parseCommandLine(line);
+    if (!command) return result;
+    name = command;
+    if (!Object.prototype.hasOwnProperty.call(COMMANDS, command)) {
+      throw shellError(`Comando sconosciuto: ${command}`, "NotFoundError");
+    }
+    const handler = COMMANDS[command];
+    const args = handler.rawArgs
+      ? { flags: new Set<string>(), args: words }
+      : parseArgs(words);
+    await handler.run(ctx, cwd, args, result);
+  } catch (error) {
+    result.output.push(`${name || "errore"}: ${(error as Error).message}`);
+    result.error = true;
+  }
+  return result;
+};
+
+const commonPrefix = (words: string[]) =>
+  words.reduce((prefix, word) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i] === word[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+// Inizio dell'ultima parola della riga e la parola come la legge
+// parseCommandLine; una virgoletta ancora aperta vale fino alla fine
+const lastWord = (line: string): { start: number; word: string } => {
+  let start = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === "\\") i++;
+    else if (/\s/.test(char)) start = i + 1;
+  }
+  const [word = ""] = parseCommandLine(line.slice(start) + (quote ?? ""));
+  return { start, word };
+};
+
+// Spazi, virgolette e barre rovesciate si proteggono con "\", così la riga
+// completata si rilegge con gli stessi nomi
+const escapeWord = (word: string) => word.replace(/[\s"'\\]/g, "\\$&");
+
+// Lo spazio finale di un candidato chiude la parola e resta libero
+const completedWord = (word: string) =>
+  word.endsWith(" ") ? `${escapeWord(word.slice(0, -1))} ` : escapeWord(word);
+
+/**
+ * Completamento con Tab dell'ultima parola: il nome del comando, poi i
+ * percorsi leggendo la cartella indicata. Con più candidati la parola si
+ * allunga fino alla parte comune e i candidati si restituiscono a parte.
+ */
+export const completeLine = async (
+  ctx: ShellContext,
+  cwd: string,
+  line: string
+): Promise<{ line: string; candidates: string[] }> => {
+  const { start, word } = lastWord(line);
+  const head = line.slice(0, start);
+  const words = parseCommandLine(head);
+
+  let names: string[];
+  let base = "";
+  let prefix = word;
+  if (words.length === 0) {
+    names = COMMAND_NAMES.map((name) => `${name} `);
+  } else if (words[0] === "bucket" && words.length === 1) {
+    names = ["create ", "ls ", "rm "];
+  } else if (words[0] === "bucket") {
+    names = (await visibleBuckets(ctx.env)).map((bucket) => `${bucket} `);
+  } else {
+    const slash = word.lastIndexOf("/") + 1;
+    base = word.slice(0, slash);
+    prefix = word.slice(slash);
+    try {
+      names = (await listNames(ctx, resolveShellPath(cwd, base))).map((name) =>
+        name.endsWith("/") ? name : `${name} `
+      );
+    } catch {
+      names = []; // Cartella inesistente: niente da completare
+    }
+  }
+
+  const candidates = names.filter((name) => name.startsWith(prefix));
+  if (candidates.length === 0) return { line, candidates: [] };
+  if (candidates.length === 1) {
+    return { line: head + completedWord(base + candidates[0]), candidates: [] };
+  }
+  return {
+    line: head + escapeWord(base + commonPrefix(candidates)),
+    candidates: candidates.map((name) => name.trimEnd()),
+  };
+};
+
+// Cronologia dei comandi, la più vecchia per prima
+export type ShellHistoryStore = {
+  load(): Promise<string[]>;
+  add(line: string): Promise<void>;
+};
+
+const DB_NAME = "shellHistoryDB";
+const STORE_NAME = "commands";
+
+// Si tengono solo gli ultimi MAX_HISTORY comandi
+export const createIndexedDBShellHistory = (): ShellHistoryStore =>
+  createCappedStore<string>(DB_NAME, STORE_NAME, MAX_HISTORY);
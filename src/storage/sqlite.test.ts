@@ -0,0 +1,129 @@
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+import type { Sqlite3Static } from "@sqlite.org/sqlite-wasm";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import { createMemoryDirectory } from "./memory";
+import { createDirectoryBackend } from "./opfs";
+import {
+  findDatabases,
+  isSQLiteFile,
+  listTables,
+  openDatabase,
+  readRows,
+  runQuery,
+} from "./sqlite";
+
+let sqlite3: Sqlite3Static;
+
+// Un database con una tabella di 5 righe e una vista, come file
+const createDatabaseFile = (sqlite3: Sqlite3Static) => {
+  const db = new sqlite3.oo1.DB();
+  db.exec(`
+    CREATE TABLE notes (id INTEGER PRIMARY KEY, title TEXT NOT NULL);
+    INSERT INTO notes (title) VALUES ('a'), ('b'), ('c'), ('d'), ('e');
+    CREATE VIEW first_notes AS SELECT title FROM notes WHERE id <= 2;
+  `);
+  const bytes = sqlite3.capi.sqlite3_js_db_export(db);
+  db.close();
+  return bytes;
+};
+
+describe("sqlite", () => {
+  let backend: StorageBackend;
+
+  beforeAll(async () => {
+    sqlite3 = await sqlite3InitModule();
+  });
+
+  beforeEach(async () => {
+    backend = createDirectoryBackend(createMemoryDirectory("root"));
+    await backend.mkdir("data");
+    await backend.write("data/app.db", createDatabaseFile(sqlite3));
+    await backend.write("notes.txt", "SQLite? no");
+  });
+
+  const open = (write = false) =>
+    openDatabase(sqlite3, backend, "data/app.db", { write, useOpfsVfs: true });
+
+  it("detects database files by their header", async () => {
+    expect(await isSQLiteFile(await backend.read("data/app.db"))).toBe(true);
+    expect(await isSQLiteFile(await backend.read("notes.txt"))).toBe(false);
+    expect(await findDatabases([{ name: "root", backend }])).toEqual([
+      "root/data/app.db",
+    ]);
+  });
+
+  it("lists tables and views with their columns", async () => {
+    const { db, vfs } = await open();
+
+    // Senza OPFS (come in Node) si usa una copia in memoria
+    expect(vfs).toBe("memory");
+    expect(listTables(db)).toEqual([
+      {
+        name: "first_notes",
+        type: "view",
+        sql: expect.stringContaining("CREATE VIEW"),
+        columns: [
+          { name: "title", type: "TEXT", notNull: false, primaryKey: false },
+        ],
+        rows: null,
+      },
+      {
+        name: "notes",
+        type: "table",
+        sql: expect.stringContaining("CREATE TABLE"),
+        columns: [
+          { name: "id", type: "INTEGER", notNull: false, primaryKey: true },
+          { name: "title", type: "TEXT", notNull: true, primaryKey: false },
+        ],
+        rows: 5,
+      },
+    ]);
+    db.close();
+  });
+
+  it("pages through rows and limits ad-hoc queries", async () => {
+    const { db } = await open();
+
+    expect(readRows(db, "notes", 2, 2)).toEqual({
+      columns: ["id", "title"],
+      rows: [
+        [3, "c"],
+        [4, "d"],
+      ],
+      changes: 0,
+      truncated: false,
+    });
+    const result = runQuery(db, "SELECT title FROM notes ORDER BY id", [], 3);
+    expect(result.rows).toEqual([["a"], ["b"], ["c"]]);
+    expect(result.truncated).toBe(true);
+    db.close();
+  });
+
+  it("refuses changes unless opened for writing", async () => {
+    const readOnly = await open();
+    expect(() =>
+      runQuery(readOnly.db, "DELETE FROM notes WHERE id = 1")
+    ).toThrow(expect.objectContaining({ name: "NoModificationAllowedError" }));
+    readOnly.db.close();
+
+    const writable = await open(true);
+    const result = runQuery(writable.db, "DELETE FROM notes WHERE id <= 2");
+    expect(result.changes).toBe(2);
+    await writable.persist();
+    writable.db.close();
+
+    const reopened = await open();
+    expect(listTables(reopened.db)[1].rows).toBe(3);
+    reopened.db.close();
+  });
+
+  it("rejects files that are not databases", async () => {
+    await expect(
+      openDatabase(sqlite3, backend, "notes.txt", {
+        write: false,
+        useOpfsVfs: false,
+      })
+    ).rejects.toMatchObject({ name: "DataError" });
+  });
+});
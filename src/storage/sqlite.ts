@@ -0,0 +1,223 @@
+import type {
+  Database,
+  SqlValue,
+  Sqlite3Static,
+} from "@sqlite.org/sqlite-wasm";
+import { StorageBackend, joinPath } from "./backend";
+import { walkBackend } from "./walk";
+
+// Database SQLite salvati in OPFS: riconoscimento dei file, apertura con
+// SQLite-wasm e lettura di tabelle e righe per il browser dei database.
+
+export const SQLITE_MIME = "application/vnd.sqlite3";
+
+const HEADER = new TextEncoder().encode("SQLite format 3\0");
+
+export type ColumnInfo = {
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey: boolean;
+};
+
+export type TableSchema = {
+  name: string;
+  type: "table" | "view";
+  sql: string;
+  columns: ColumnInfo[];
+  rows: number | null; // Non contate per le viste
+};
+
+export type QueryResult = {
+  columns: string[];
+  rows: SqlValue[][];
+  changes: number;
+  truncated: boolean; // Righe oltre il limite non restituite
+};
+
+// "opfs": il VFS OPFS di SQLite legge e scrive direttamente il file;
+// "memory": il file è copiato in memoria e riscritto dopo ogni modifica
+export type SQLiteVfs = "opfs" | "memory";
+
+export type SQLiteConnection = {
+  db: Database;
+  vfs: SQLiteVfs;
+  write: boolean;
+  // Riporta su disco le modifiche di una copia in memoria
+  persist: () => Promise<void>;
+};
+
+// Oltre questo numero le righe di una query ad hoc non vengono restituite
+export const MAX_QUERY_ROWS = 1000;
+
+const SQLITE_READONLY = 8; // Codice di errore di SQLite
+
+export const isSQLiteFile = async (blob: Blob): Promise<boolean> => {
+  const bytes = new Uint8Array(
+    await blob.slice(0, HEADER.length).arrayBuffer()
+  );
+  return (
+    bytes.length === HEADER.length &&
+    HEADER.every((byte, i) => bytes[i] === byte)
+  );
+};
+
+// Percorsi completi dell'albero dei database trovati nelle radici indicate
+export const findDatabases = async (
+  roots: { name: string; backend: StorageBackend }[]
+): Promise<string[]> => {
+  const found: string[] = [];
+  for (const { name, backend } of roots) {
+    for await (const entry of walkBackend(backend)) {
+      if (entry.kind !== "file") continue;
+      if (await isSQLiteFile(await backend.read(entry.path))) {
+        found.push(joinPath(name, entry.path));
+      }
+    }
+  }
+  return found;
+};
+
+export const quoteIdentifier = (name: string) =>
+  `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Apre il file `path` del backend. Con `useOpfsVfs` il file è aperto dal VFS
+ * OPFS di SQLite-wasm (che esiste solo in un worker con SharedArrayBuffer e
+ * vede solo la radice OPFS); altrimenti se ne apre una copia in memoria.
+ * Senza `write` il database rifiuta qualsiasi modifica.
+ */
+export const openDatabase = async (
+  sqlite3: Sqlite3Static,
+  backend: StorageBackend,
+  path: string,
+  { write, useOpfsVfs }: { write: boolean; useOpfsVfs: boolean }
+): Promise<SQLiteConnection> => {
+  const { OpfsDb } = sqlite3.oo1 as Partial<Sqlite3Static["oo1"]>;
+  if (useOpfsVfs && OpfsDb) {
+    const db = new OpfsDb(path, write ? "w" : "r");
+    if (!write) db.exec("PRAGMA query_only = ON");
+    return { db, vfs: "opfs", write, persist: async () => {} };
+  }
+
+  const bytes = new Uint8Array(await (await backend.read(path)).arrayBuffer());
+  if (!(await isSQLiteFile(new Blob([bytes])))) {
+    throw new DOMException(`Non è un database SQLite: ${path}`, "DataError");
+  }
+  const { capi, wasm } = sqlite3;
+  const db = new sqlite3.oo1.DB();
+  const rc = capi.sqlite3_deserialize(
+    db,
+    "main",
+    wasm.allocFromTypedArray(bytes),
+    bytes.length,
+    bytes.length,
+    capi.SQLITE_DESERIALIZE_FREEONCLOSE |
+      (write
+        ? capi.SQLITE_DESERIALIZE_RESIZEABLE
+        : capi.SQLITE_DESERIALIZE_READONLY)
+  );
+  if (rc !== capi.SQLITE_OK) {
+    db.close();
+    throw new DOMException(
+      `Impossibile aprire il database ${path}: ${capi.sqlite3_js_rc_str(rc)}`,
+      "DataError"
+    );
+  }
+  if (!write) db.exec("PRAGMA query_only = ON");
+  return {
+    db,
+    vfs: "memory",
+    write,
+    persist: async () => {
+      if (write) await backend.write(path, capi.sqlite3_js_db_export(db));
+    },
+  };
+};
+
+export const listTables = (db: Database): TableSchema[] =>
+  db
+    .selectObjects(
+      `SELECT name, type, sql FROM sqlite_schema
+       WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`
+    )
+    .map((row) => {
+      const name = String(row.name);
+      const type = row.type === "view" ? "view" : "table";
+      const columns = db
+        .selectObjects(`PRAGMA table_info(${quoteIdentifier(name)})`)
+        .map((column) => ({
+          name: String(column.name),
+          type: String(column.type ?? ""),
+          notNull: column.notnull === 1,
+          primaryKey: Number(column.pk) > 0,
+        }));
+      const rows =
+        type === "table"
+          ? Number(
+              db.selectValue(`SELECT count(*) FROM ${quoteIdentifier(name)}`)
+            )
+          : null;
+      return { name, type, sql: String(row.sql ?? ""), columns, rows };
+    });
+
+/**
+ * Esegue una o più istruzioni SQL. Le righe sono quelle della prima
+ * istruzione con delle colonne nel risultato, al più `maxRows`.
+ */
+export const runQuery = (
+  db: Database,
+  sql: string,
+  bind: SqlValue[] = [],
+  maxRows = MAX_QUERY_ROWS
+): QueryResult => {
+  const result: QueryResult = {
+    columns: [],
+    rows: [],
+    changes: 0,
+    truncated: false,
+  };
+  const totalBefore = db.changes(true);
+  const columnNames: string[] = [];
+  try {
+    db.exec({
+      sql,
+      bind: bind.length > 0 ? bind : undefined,
+      rowMode: "array",
+      columnNames,
+      callback: (row) => {
+        if (result.rows.length < maxRows) {
+          result.rows.push(row);
+          return;
+        }
+        result.truncated = true;
+        return false; // Interrompe la lettura delle righe
+      },
+    });
+  } catch (error) {
+    if ((error as { resultCode?: number }).resultCode === SQLITE_READONLY) {
+      throw new DOMException(
+        "Database aperto in sola lettura: attiva la modalità scrittura per modificarlo",
+        "NoModificationAllowedError"
+      );
+    }
+    throw error;
+  }
+  result.columns = columnNames;
+  result.changes = db.changes(true) - totalBefore;
+  return result;
+};
+
+export const readRows = (
+  db: Database,
+  table: string,
+  offset: number,
+  limit: number
+): QueryResult =>
+  runQuery(
+    db,
+    `SELECT * FROM ${quoteIdentifier(table)} LIMIT ? OFFSET ?`,
+    [limit, offset],
+    limit
+  );
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StorageBackend, joinPath } from "./backend";
+import {
+  createMemoryDirectory,
+  createMemoryEnvironment,
+  createMemoryStorage,
+} from "./memory";
+import { createDirectoryBackend, createOPFSRootBackend } from "./opfs";
+import { SyncPair, SyncStateStore, applySync, planSync } from "./sync";
+import { walkBackend } from "./walk";
+
+const writeText = async (
+  backend: StorageBackend,
+  path: string,
+  text: string
+) => {
+  // Ogni scrittura ha una data diversa, come su un disco vero
+  vi.advanceTimersByTime(1000);
+  await backend.createFile(path);
+  await backend.write(path, text);
+};
+
+const contents = async (backend: StorageBackend, path: string) => {
+  const result: Record<string, string> = {};
+  for await (const entry of walkBackend(backend, path)) {
+    const relative = entry.path.slice(path.length + 1);
+    result[relative] =
+      entry.kind === "directory"
+        ? "/"
+        : await (await backend.read(entry.path)).text();
+  }
+  return result;
+};
+
+describe("sync", () => {
+  let pair: SyncPair;
+  let store: SyncStateStore;
+  let local: StorageBackend;
+  let remote: StorageBackend;
+
+  const sync = async (
+    options: Parameters<typeof planSync>[1] = { mode: "twoWay" }
+  ) => {
+    const plan = await planSync(pair, options, store);
+    await applySync(pair, plan, undefined, store);
+    return plan;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    store = createMemoryStorage();
+    const disk = createMemoryDirectory();
+    await disk.getDirectoryHandle("progetto", { create: true });
+    local = createDirectoryBackend(disk);
+    remote = createOPFSRootBackend(createMemoryEnvironment());
+    pair = {
+      local: { backend: local, path: "progetto" },
+      remote: { backend: remote, path: "copie/progetto" },
+    };
+    await writeText(local, "progetto/a.txt", "uno");
+    await writeText(local, "progetto/docs/b.txt", "due");
+    await local.mkdir("progetto/vuota");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("mirrors the local folder into OPFS and removes extra entries", async () => {
+    await writeText(remote, "copie/progetto/vecchio.txt", "x");
+
+    const plan = await sync({ mode: "toRemote" });
+
+    expect(plan.actions.map((action) => [action.type, action.path])).toEqual([
+      ["delete", "vecchio.txt"],
+      ["copy", "docs"],
+      ["copy", "vuota"],
+      ["copy", "a.txt"],
+      ["copy", "docs/b.txt"],
+    ]);
+    expect(await contents(remote, "copie/progetto")).toEqual(
+      await contents(local, "progetto")
+    );
+    expect((await planSync(pair, { mode: "toRemote" }, store)).actions).toEqual(
+      []
+    );
+  });
+
+  it("mirrors OPFS back to the local folder", async () => {
+    await writeText(remote, "copie/progetto/a.txt", "remoto");
+
+    await sync({ mode: "toLocal" });
+
+    expect(await contents(local, "progetto")).toEqual({ "a.txt": "remoto" });
+  });
+
+  it("uses hashes when only the dates differ", async () => {
+    await writeText(remote, "copie/progetto/a.txt", "uno");
+    await writeText(remote, "copie/progetto/docs/b.txt", "due");
+    await remote.mkdir("copie/progetto/vuota");
+
+    expect((await planSync(pair, { mode: "twoWay" }, store)).actions).toEqual(
+      []
+    );
+  });
+
+  it("propagates changes and deletions in both directions", async () => {
+    await sync();
+    await writeText(local, "progetto/a.txt", "uno modificato");
+    await remote.remove("copie/progetto/docs/b.txt");
+    await writeText(remote, "copie/progetto/c.txt", "tre");
+
+    const plan = await sync();
+
+    expect(plan.actions).toEqual([
+      { type: "delete", side: "local", path: "docs/b.txt", kind: "file" },
+      { type: "copy", from: "local", path: "a.txt", kind: "file" },
+      { type: "copy", from: "remote", path: "c.txt", kind: "file" },
+    ]);
+    const expected = {
+      "a.txt": "uno modificato",
+      "c.txt": "tre",
+      docs: "/",
+      vuota: "/",
+    };
+    expect(await contents(local, "progetto")).toEqual(expected);
+    expect(await contents(remote, "copie/progetto")).toEqual(expected);
+    expect((await sync()).actions).toEqual([]);
+  });
+
+  it("leaves conflicts alone by default", async () => {
+    await sync();
+    await writeText(local, "progetto/a.txt", "locale");
+    await writeText(remote, "copie/progetto/a.txt", "remoto");
+
+    expect((await sync()).actions).toEqual([{ type: "skip", path: "a.txt" }]);
+    // Il conflitto resta finché non viene risolto
+    expect((await sync()).actions).toEqual([{ type: "skip", path: "a.txt" }]);
+    expect(await (await local.read("progetto/a.txt")).text()).toBe("locale");
+  });
+
+  it("resolves conflicts with the newer version", async () => {
+    await sync();
+    await writeText(local, "progetto/a.txt", "locale");
+    await writeText(remote, "copie/progetto/a.txt", "remoto");
+
+    await sync({ mode: "twoWay", conflict: "newer" });
+
+    expect(await (await local.read("progetto/a.txt")).text()).toBe("remoto");
+  });
+
+  it("keeps both versions of a conflicting file", async () => {
+    await sync();
+    await writeText(local, "progetto/a.txt", "locale");
+    await writeText(remote, "copie/progetto/a.txt", "remoto");
+
+    const plan = await sync({ mode: "twoWay", conflict: "keepBoth" });
+
+    expect(plan.actions).toEqual([
+      { type: "keepBoth", path: "a.txt", copyPath: "a (conflitto).txt" },
+    ]);
+    for (const [backend, path] of [
+      [local, "progetto"],
+      [remote, "copie/progetto"],
+    ] as const) {
+      expect(await (await backend.read(joinPath(path, "a.txt"))).text()).toBe(
+        "locale"
+      );
+      expect(
+        await (await backend.read(joinPath(path, "a (conflitto).txt"))).text()
+      ).toBe("remoto");
+    }
+    expect((await sync()).actions).toEqual([]);
+  });
+});
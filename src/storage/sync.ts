@@ -0,0 +1,405 @@
+import { EntryKind, joinPath, splitPath } from "./backend";
+import { sha256 } from "./hash";
+import { EntryLocation } from "./transfer";
+import { parentPath } from "./tree";
+import { walkBackend } from "./walk";
+
+// Sincronizzazione tra una cartella scelta con showDirectoryPicker ("locale")
+// e una cartella di OPFS o di un bucket ("remota"). Per ogni coppia si
+// conserva lo stato dell'ultima sincronizzazione: dimensione, data e
+// impronta di ogni file, che permettono di capire da che parte è cambiato.
+
+export type SyncSide = "local" | "remote";
+
+export type SyncPair = Record<SyncSide, EntryLocation>;
+
+// "toRemote" e "toLocal" rendono una parte copia esatta dell'altra
+export type SyncMode = "toRemote" | "toLocal" | "twoWay";
+
+// Solo in "twoWay", quando un file è cambiato da entrambe le parti.
+// "newer" sceglie la data di modifica più recente; con "keepBoth" la versione
+// remota resta accanto all'altra con un nome diverso.
+export type SyncConflictPolicy =
+  "skip" | "local" | "remote" | "newer" | "keepBoth";
+
+export type SyncOptions = {
+  mode: SyncMode;
+  conflict?: SyncConflictPolicy; // Predefinito: "skip"
+};
+
+type FileMeta = { size: number; lastModified: number };
+
+type ScannedEntry = { kind: EntryKind } & Partial<FileMeta>;
+
+export type SyncedEntry = {
+  kind: EntryKind;
+  hash?: string; // Solo per i file, uguale dalle due parti
+  local?: FileMeta;
+  remote?: FileMeta;
+};
+
+// Percorsi relativi alle due cartelle della coppia
+export type SyncState = Record<string, SyncedEntry>;
+
+export type SyncAction =
+  | {
+      type: "copy"; // Crea la cartella o sovrascrive il file dall'altra parte
+      from: SyncSide;
+      path: string;
+      kind: EntryKind;
+      conflict?: boolean;
+    }
+  | {
+      type: "delete";
+      side: SyncSide;
+      path: string;
+      kind: EntryKind;
+      conflict?: boolean;
+    }
+  | { type: "keepBoth"; path: string; copyPath: string }
+  | { type: "skip"; path: string }; // Conflitto lasciato irrisolto
+
+export type SyncPlan = {
+  actions: SyncAction[];
+  state: SyncState; // Stato dei percorsi che non richiedono azioni
+};
+
+export type SyncResult = {
+  applied: number;
+  failed: { path: string; error: Error }[];
+};
+
+export type SyncStateStore = Pick<Storage, "getItem" | "setItem">;
+
+const browserStore = (): SyncStateStore => localStorage;
+
+const stateKey = ({ local, remote }: SyncPair) =>
+  `opfs-poc:sync:${local.backend.id}:${local.path}|${remote.backend.id}:${remote.path}`;
+
+export const loadSyncState = (
+  pair: SyncPair,
+  store: SyncStateStore = browserStore()
+): SyncState => JSON.parse(store.getItem(stateKey(pair)) ?? "{}");
+
+const saveSyncState = (
+  pair: SyncPair,
+  state: SyncState,
+  store: SyncStateStore
+) => store.setItem(stateKey(pair), JSON.stringify(state));
+
+const other = (side: SyncSide): SyncSide =>
+  side === "local" ? "remote" : "local";
+
+const depth = (path: string) => splitPath(path).length;
+
+const sameMeta = (meta: FileMeta | undefined, entry: ScannedEntry) =>
+  meta?.size === entry.size && meta?.lastModified === entry.lastModified;
+
+const metaOf = (entry: ScannedEntry): FileMeta => ({
+  size: entry.size ?? 0,
+  lastModified: entry.lastModified ?? 0,
+});
+
+const scan = async ({
+  backend,
+  path,
+}: EntryLocation): Promise<Map<string, ScannedEntry>> => {
+  const entries = new Map<string, ScannedEntry>();
+  const prefix = splitPath(path).length;
+  for await (const entry of walkBackend(backend, path)) {
+    const relative = joinPath(...splitPath(entry.path).slice(prefix));
+    if (entry.kind === "directory") {
+      entries.set(relative, { kind: "directory" });
+    } else {
+      const { size, lastModified } = await backend.stat(entry.path);
+      entries.set(relative, { kind: "file", size, lastModified });
+    }
+  }
+  return entries;
+};
+
+// Una cartella remota ancora da creare si considera vuota
+const scanOrEmpty = async (location: EntryLocation) => {
+  try {
+    return await scan(location);
+  } catch (error) {
+    if ((error as DOMException).name === "NotFoundError") return new Map();
+    throw error;
+  }
+};
+
+const splitName = (name: string): [string, string] => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+};
+
+// "a/b.txt" -> "a/b (conflitto).txt", "a/b (conflitto 2).txt", ...
+const conflictPath = (path: string, taken: (path: string) => boolean) => {
+  const parts = splitPath(path);
+  const [base, extension] = splitName(parts.pop() ?? "");
+  for (let index = 1; ; index++) {
+    const suffix = index === 1 ? "conflitto" : `conflitto ${index}`;
+    const candidate = joinPath(...parts, `${base} (${suffix})${extension}`);
+    if (!taken(candidate)) return candidate;
+  }
+};
+
+// Prima le eliminazioni, dal più profondo, poi le cartelle, poi i file
+const actionOrder = (action: SyncAction) => {
+  if (action.type === "delete") return -depth(action.path);
+  if (action.type === "copy" && action.kind === "directory") {
+    return 1000 + depth(action.path);
+  }
+  return action.type === "skip" ? 3000 : 2000;
+};
+
+/**
+ * Confronta le due parti con lo stato dell'ultima sincronizzazione e
+ * restituisce le azioni necessarie, senza modificare nulla. Le impronte
+ * SHA-256 si calcolano solo quando dimensione e data non bastano.
+ */
+export const planSync = async (
+  pair: SyncPair,
+  { mode, conflict = "skip" }: SyncOptions,
+  store: SyncStateStore = browserStore()
+): Promise<SyncPlan> => {
+  const previous = loadSyncState(pair, store);
+  const scanned: Record<SyncSide, Map<string, ScannedEntry>> = {
+    local: await scanOrEmpty(pair.local),
+    remote: await scanOrEmpty(pair.remote),
+  };
+
+  const hashes = new Map<string, Promise<string>>();
+  const hashOf = (side: SyncSide, path: string) => {
+    const key = `${side}:${path}`;
+    let hash = hashes.get(key);
+    if (!hash) {
+      const { backend, path: root } = pair[side];
+      hash = backend.read(joinPath(root, path)).then(sha256);
+      hashes.set(key, hash);
+    }
+    return hash;
+  };
+
+  // Impronta comune se le due parti hanno lo stesso contenuto
+  const sameContent = async (path: string): Promise<string | null> => {
+    const local = scanned.local.get(path);
+    const remote = scanned.remote.get(path);
+    if (!local || !remote || local.kind !== remote.kind) return null;
+    if (local.kind === "directory") return "";
+    if (local.size !== remote.size) return null;
+    const base = previous[path];
+    if (
+      base?.hash &&
+      sameMeta(base.local, local) &&
+      sameMeta(base.remote, remote)
+    ) {
+      return base.hash;
+    }
+    const [a, b] = await Promise.all([
+      hashOf("local", path),
+      hashOf("remote", path),
+    ]);
+    return a === b ? a : null;
+  };
+
+  const changed = async (side: SyncSide, path: string): Promise<boolean> => {
+    const entry = scanned[side].get(path);
+    const base = previous[path];
+    if (!entry || !base) return !!entry !== !!base;
+    if (entry.kind !== base.kind) return true;
+    if (entry.kind === "directory" || sameMeta(base[side], entry)) return false;
+    return (await hashOf(side, path)) !== base.hash;
+  };
+
+  const actions: SyncAction[] = [];
+  const state: SyncState = {};
+  const paths = new Set([...scanned.local.keys(), ...scanned.remote.keys()]);
+
+  const settle = (path: string, hash: string) => {
+    const local = scanned.local.get(path)!;
+    state[path] =
+      local.kind === "directory"
+        ? { kind: "directory" }
+        : {
+            kind: "file",
+            hash,
+            local: metaOf(local),
+            remote: metaOf(scanned.remote.get(path)!),
+          };
+  };
+
+  // Porta dall'altra parte lo stato di `from`: copia o eliminazione
+  const propagate = (from: SyncSide, path: string, isConflict = false) => {
+    const source = scanned[from].get(path);
+    const target = scanned[other(from)].get(path);
+    const flag = isConflict ? { conflict: true } : {};
+    if (target && (!source || source.kind !== target.kind)) {
+      actions.push({
+        type: "delete",
+        side: other(from),
+        path,
+        kind: target.kind,
+        ...flag,
+      });
+    }
+    if (
+      source &&
+      !(source.kind === "directory" && target?.kind === "directory")
+    ) {
+      actions.push({ type: "copy", from, path, kind: source.kind, ...flag });
+    }
+  };
+
+  const resolve = (path: string) => {
+    const local = scanned.local.get(path);
+    const remote = scanned.remote.get(path);
+    switch (conflict) {
+      case "local":
+      case "remote":
+        return propagate(conflict, path, true);
+      case "newer":
+        if (!local || !remote)
+          return propagate(local ? "local" : "remote", path, true);
+        return propagate(
+          (local.lastModified ?? 0) >= (remote.lastModified ?? 0)
+            ? "local"
+            : "remote",
+          path,
+          true
+        );
+      case "keepBoth":
+        if (!local || !remote)
+          return propagate(local ? "local" : "remote", path, true);
+        if (local.kind === "file" && remote.kind === "file") {
+          const copyPath = conflictPath(path, (candidate) =>
+            paths.has(candidate)
+          );
+          paths.add(copyPath);
+          actions.push({ type: "keepBoth", path, copyPath });
+          return;
+        }
+        break;
+    }
+    actions.push({ type: "skip", path });
+    if (previous[path]) state[path] = previous[path];
+  };
+
+  for (const path of [...paths]) {
+    if (mode !== "twoWay") {
+      const hash = await sameContent(path);
+      if (hash !== null) settle(path, hash);
+      else propagate(mode === "toRemote" ? "local" : "remote", path);
+      continue;
+    }
+
+    const [localChanged, remoteChanged] = await Promise.all([
+      changed("local", path),
+      changed("remote", path),
+    ]);
+    if (localChanged && remoteChanged) {
+      if (!scanned.local.has(path) && !scanned.remote.has(path)) continue;
+      // Stessa modifica da entrambe le parti: nessun conflitto
+      const hash = await sameContent(path);
+      if (hash !== null) settle(path, hash);
+      else resolve(path);
+    } else if (localChanged) {
+      propagate("local", path);
+    } else if (remoteChanged) {
+      propagate("remote", path);
+    } else {
+      settle(path, previous[path].hash ?? "");
+    }
+  }
+
+  actions.sort((a, b) => actionOrder(a) - actionOrder(b));
+  return { actions, state };
+};
+
+/**
+ * Esegue le azioni del piano e salva il nuovo stato della coppia. Un'azione
+ * che fallisce non ferma le altre: il suo percorso verrà riproposto alla
+ * prossima sincronizzazione.
+ */
+export const applySync = async (
+  pair: SyncPair,
+  plan: SyncPlan,
+  onProgress?: (done: number, total: number) => void,
+  store: SyncStateStore = browserStore()
+): Promise<SyncResult> => {
+  const previous = loadSyncState(pair, store);
+  const state: SyncState = { ...plan.state };
+  const result: SyncResult = { applied: 0, failed: [] };
+  const full = (side: SyncSide, path: string) =>
+    joinPath(pair[side].path, path);
+
+  const writeFile = async (side: SyncSide, path: string, data: File) => {
+    const { backend } = pair[side];
+    await backend.mkdir(parentPath(full(side, path)));
+    await backend.write(full(side, path), data);
+  };
+
+  // Copia il file e registra l'impronta e le date delle due parti
+  const copyFile = async (from: SyncSide, path: string, to = path) => {
+    const data = await pair[from].backend.read(full(from, path));
+    await writeFile(other(from), to, data);
+    const [hash, source, target] = await Promise.all([
+      sha256(data),
+      pair[from].backend.stat(full(from, path)),
+      pair[other(from)].backend.stat(full(other(from), to)),
+    ]);
+    const [local, remote] =
+      from === "local" ? [source, target] : [target, source];
+    state[to] = {
+      kind: "file",
+      hash,
+      local: metaOf(local),
+      remote: metaOf(remote),
+    };
+  };
+
+  const run = async (action: SyncAction) => {
+    switch (action.type) {
+      case "copy":
+        if (action.kind === "directory") {
+          await pair[other(action.from)].backend.mkdir(
+            full(other(action.from), action.path)
+          );
+          state[action.path] = { kind: "directory" };
+        } else {
+          await copyFile(action.from, action.path);
+        }
+        return;
+      case "delete":
+        // Una cartella resta se contiene ancora un conflitto irrisolto
+        await pair[action.side].backend.remove(full(action.side, action.path));
+        delete state[action.path];
+        return;
+      case "keepBoth": {
+        const remote = await pair.remote.backend.read(
+          full("remote", action.path)
+        );
+        await writeFile("remote", action.copyPath, remote);
+        await copyFile("remote", action.copyPath);
+        await copyFile("local", action.path);
+        return;
+      }
+    }
+  };
+
+  const total = plan.actions.filter((action) => action.type !== "skip").length;
+  for (const action of plan.actions) {
+    if (action.type === "skip") continue;
+    try {
+      await run(action);
+      result.applied++;
+    } catch (error) {
+      result.failed.push({ path: action.path, error: error as Error });
+      if (previous[action.path]) state[action.path] = previous[action.path];
+    }
+    onProgress?.(result.applied + result.failed.length, total);
+  }
+
+  saveSyncState(pair, state, store);
+  return result;
+};
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ChangeEvent } from "./watch";
+import {
+  Locks,
+  TabChannel,
+  createTabChannel,
+  editLockName,
+  tryEditLock,
+  waitForEditLock,
+  withWriteLock,
+  writeLockName,
+} from "./tabs";
+
+// LockManager minimale: solo lock esclusivi, concessi in ordine di richiesta
+const createLocks = (): Locks => {
+  const queues = new Map<string, (() => void)[]>();
+  const held = new Set<string>();
+
+  const acquire = (name: string, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (!held.has(name)) {
+        held.add(name);
+        resolve();
+        return;
+      }
+      const grant = () => resolve();
+      queues.set(name, [...(queues.get(name) ?? []), grant]);
+      signal?.addEventListener("abort", () => {
+        queues.set(
+          name,
+          (queues.get(name) ?? []).filter((waiting) => waiting !== grant)
+        );
+        reject(new DOMException("Richiesta annullata", "AbortError"));
+      });
+    });
+
+  const release = (name: string) => {
+    const next = queues.get(name)?.shift();
+    if (next) next();
+    else held.delete(name);
+  };
+
+  return {
+    request: (async (
+      name: string,
+      options: LockOptions,
+      callback: LockGrantedCallback
+    ) => {
+      if (options.ifAvailable && held.has(name)) return callback(null);
+      await acquire(name, options.signal);
+      try {
+        return await callback({ name, mode: "exclusive" });
+      } finally {
+        release(name);
+      }
+    }) as Locks["request"],
+  };
+};
+
+describe("withWriteLock", () => {
+  it("runs writers for the same file one at a time", async () => {
+    const locks = createLocks();
+    const order: string[] = [];
+    const task = (id: string) => async () => {
+      order.push(`${id}:inizio`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      order.push(`${id}:fine`);
+      return id;
+    };
+
+    const results = await Promise.all([
+      withWriteLock("opfs:a.txt", task("uno"), locks),
+      withWriteLock("opfs:a.txt", task("due"), locks),
+    ]);
+
+    expect(results).toEqual(["uno", "due"]);
+    expect(order).toEqual(["uno:inizio", "uno:fine", "due:inizio", "due:fine"]);
+  });
+});
+
+describe("edit locks", () => {
+  it("grants the lock to one tab and leaves the other read-only", async () => {
+    const locks = createLocks();
+    const first = await tryEditLock("opfs:a.txt", locks);
+
+    expect(first).not.toBeNull();
+    expect(await tryEditLock("opfs:a.txt", locks)).toBeNull();
+    expect(await tryEditLock("opfs:b.txt", locks)).not.toBeNull();
+
+    first?.release();
+    await Promise.resolve();
+    expect(await tryEditLock("opfs:a.txt", locks)).not.toBeNull();
+  });
+
+  it("waits until the owner releases the lock", async () => {
+    const locks = createLocks();
+    const owner = await tryEditLock("opfs:a.txt", locks);
+    const granted = vi.fn();
+
+    const waiting = waitForEditLock(
+      "opfs:a.txt",
+      new AbortController().signal,
+      locks
+    ).then(granted);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(granted).not.toHaveBeenCalled();
+
+    owner?.release();
+    await waiting;
+    expect(granted).toHaveBeenCalled();
+  });
+
+  it("rejects with AbortError when waiting is cancelled", async () => {
+    const locks = createLocks();
+    await tryEditLock("opfs:a.txt", locks);
+    const controller = new AbortController();
+
+    const waiting = waitForEditLock("opfs:a.txt", controller.signal, locks);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("keeps edit and write locks separate", () => {
+    expect(editLockName("opfs:a.txt")).not.toBe(writeLockName("opfs:a.txt"));
+  });
+});
+
+describe("createTabChannel", () => {
+  const channels: TabChannel[] = [];
+  afterEach(() => {
+    channels.splice(0).forEach((channel) => channel.close());
+  });
+
+  const open = (scope: string, onChanges: (events: ChangeEvent[]) => void) => {
+    const channel = createTabChannel(
+      scope,
+      onChanges,
+      new BroadcastChannel("opfs-poc:test")
+    );
+    channels.push(channel);
+    return channel;
+  };
+
+  it("delivers changes to the other tabs with the same scope", async () => {
+    const sameScope = vi.fn();
+    const otherScope = vi.fn();
+    const sender = open("opfs", () => {});
+    open("opfs", sameScope);
+    open("picked:docs", otherScope);
+
+    const events: ChangeEvent[] = [
+      { type: "created", path: "root/a.txt", kind: "file" },
+    ];
+    sender.announce(events);
+
+    await vi.waitFor(() => expect(sameScope).toHaveBeenCalledWith(events));
+    expect(otherScope).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { ChangeEvent } from "./watch";
+
+// Coordinamento tra schede della stessa origine: Web Locks per chi scrive o
+// modifica un file, BroadcastChannel per annunciare le modifiche all'albero.
+
+const LOCK_PREFIX = "opfs-poc";
+const CHANNEL_NAME = "opfs-poc:changes";
+
+export type Locks = Pick<LockManager, "request">;
+
+const browserLocks = (): Locks => navigator.locks;
+
+// `key` identifica il file in tutte le schede, ad esempio "opfs:root/a.txt"
+export const writeLockName = (key: string) => `${LOCK_PREFIX}:write:${key}`;
+export const editLockName = (key: string) => `${LOCK_PREFIX}:edit:${key}`;
+
+/**
+ * Esegue `task` con il lock esclusivo di scrittura del file: due schede non
+ * possono controllare e riscrivere lo stesso file nello stesso momento.
+ */
+export const withWriteLock = <T>(
+  key: string,
+  task: () => Promise<T>,
+  locks: Locks = browserLocks()
+): Promise<T> => locks.request(writeLockName(key), { mode: "exclusive" }, task);
+
+export type EditLock = { release: () => void };
+
+const requestEditLock = (
+  key: string,
+  options: LockOptions,
+  locks: Locks
+): Promise<EditLock | null> =>
+  new Promise((resolve, reject) => {
+    locks
+      .request(editLockName(key), options, (lock) => {
+        if (!lock) {
+          resolve(null);
+          return;
+        }
+        // Il lock resta nostro finché la Promise restituita non si risolve
+        return new Promise<void>((release) => resolve({ release }));
+      })
+      .catch(reject);
+  });
+
+// Lock di modifica di un file aperto nell'editor; null se lo tiene un'altra
+// scheda
+export const tryEditLock = (
+  key: string,
+  locks: Locks = browserLocks()
+): Promise<EditLock | null> =>
+  requestEditLock(key, { mode: "exclusive", ifAvailable: true }, locks);
+
+// Attende che l'altra scheda chiuda il file; rifiuta con AbortError se
+// `signal` viene annullato prima
+export const waitForEditLock = async (
+  key: string,
+  signal: AbortSignal,
+  locks: Locks = browserLocks()
+): Promise<EditLock> =>
+  (await requestEditLock(
+    key,
+    { mode: "exclusive", signal },
+    locks
+  )) as EditLock;
+
+export type TabChannel = {
+  announce: (events: ChangeEvent[]) => void;
+  close: () => void;
+};
+
+type TabMessage = { scope: string; events: ChangeEvent[] };
+
+/**
+ * Canale tra le schede che mostrano lo stesso `scope` (l'albero OPFS o una
+ * cartella scelta): ogni modifica fatta da una scheda arriva alle altre.
+ */
+export const createTabChannel = (
+  scope: string,
+  onChanges: (events: ChangeEvent[]) => void,
+  channel: BroadcastChannel = new BroadcastChannel(CHANNEL_NAME)
+): TabChannel => {
+  channel.onmessage = ({ data }: MessageEvent<TabMessage>) => {
+    if (data.scope === scope) onChanges(data.events);
+  };
+  return {
+    announce: (events) => {
+      if (events.length === 0) return;
+      const message: TabMessage = { scope, events };
+      channel.postMessage(message);
+    },
+    close: () => channel.close(),
+  };
+};
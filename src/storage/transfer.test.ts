@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StorageBackend } from "./backend";
+import { createMemoryEnvironment } from "./memory";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+import { transferEntry } from "./transfer";
+
+const readText = async (backend: StorageBackend, path: string) =>
+  (await backend.read(path)).text();
+
+const names = async (backend: StorageBackend, path = "") =>
+  (await backend.list(path)).map((entry) => entry.name).sort();
+
+describe("transferEntry", () => {
+  let env: OPFSEnvironment;
+  let root: StorageBackend;
+  let bucket: StorageBackend;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    root = getOPFSBackend("root", env);
+    bucket = getOPFSBackend("archive", env);
+    await root.mkdir("docs/sub");
+    await root.write("docs/a.txt", "A");
+    await root.write("docs/sub/b.txt", "B");
+  });
+
+  it("renames a file in place", async () => {
+    const result = await transferEntry(
+      { backend: root, path: "docs/a.txt" },
+      { backend: root, path: "docs/renamed.txt" },
+      { mode: "move" }
+    );
+
+    expect(result).toEqual({ status: "done", path: "docs/renamed.txt" });
+    expect(await names(root, "docs")).toEqual(["renamed.txt", "sub"]);
+  });
+
+  it("moves a directory tree from the root into a bucket", async () => {
+    await transferEntry(
+      { backend: root, path: "docs" },
+      { backend: bucket, path: "backup/docs" },
+      { mode: "move" }
+    );
+
+    expect(await names(root)).toEqual([]);
+    expect(await readText(bucket, "backup/docs/sub/b.txt")).toBe("B");
+  });
+
+  it("copies between buckets and leaves the source intact", async () => {
+    const other = getOPFSBackend("other", env);
+    await bucket.write("x.txt", "X");
+
+    await transferEntry(
+      { backend: bucket, path: "x.txt" },
+      { backend: other, path: "y.txt" },
+      { mode: "copy" }
+    );
+
+    expect(await readText(bucket, "x.txt")).toBe("X");
+    expect(await readText(other, "y.txt")).toBe("X");
+  });
+
+  it("falls back to copy and delete when native move is rejected", async () => {
+    const handle = await (await root.root()).getDirectoryHandle("docs");
+    Object.assign(handle, {
+      move: async () => {
+        throw new DOMException("Non supportato", "NotSupportedError");
+      },
+    });
+
+    await transferEntry(
+      { backend: root, path: "docs" },
+      { backend: bucket, path: "docs" },
+      { mode: "move" }
+    );
+
+    expect(await names(root)).toEqual([]);
+    expect(await readText(bucket, "docs/a.txt")).toBe("A");
+  });
+
+  describe("conflicts", () => {
+    beforeEach(async () => {
+      await root.write("docs/sub/a.txt", "vecchio");
+    });
+
+    it("skips by default", async () => {
+      const result = await transferEntry(
+        { backend: root, path: "docs/a.txt" },
+        { backend: root, path: "docs/sub/a.txt" },
+        { mode: "move" }
+      );
+
+      expect(result.status).toBe("skipped");
+      expect(await readText(root, "docs/sub/a.txt")).toBe("vecchio");
+      expect(await readText(root, "docs/a.txt")).toBe("A");
+    });
+
+    it("overwrites the existing entry", async () => {
+      await transferEntry(
+        { backend: root, path: "docs/a.txt" },
+        { backend: root, path: "docs/sub/a.txt" },
+        { mode: "move", conflict: "overwrite" }
+      );
+
+      expect(await readText(root, "docs/sub/a.txt")).toBe("A");
+      expect(await names(root, "docs")).toEqual(["sub"]);
+    });
+
+    it("keeps both by numbering the new entry", async () => {
+      await root.write("docs/sub/a (1).txt", "altro");
+
+      const result = await transferEntry(
+        { backend: root, path: "docs/a.txt" },
+        { backend: root, path: "docs/sub/a.txt" },
+        { mode: "copy", conflict: "keepBoth" }
+      );
+
+      expect(result.path).toBe("docs/sub/a (2).txt");
+      expect(await readText(root, "docs/sub/a (2).txt")).toBe("A");
+      expect(await readText(root, "docs/sub/a.txt")).toBe("vecchio");
+    });
+  });
+
+  it("refuses to replace a directory that contains the source", async () => {
+    for (const mode of ["move", "copy"] as const) {
+      await expect(
+        transferEntry(
+          { backend: root, path: "docs/sub/b.txt" },
+          { backend: root, path: "docs/sub" },
+          { mode, conflict: "overwrite" }
+        )
+      ).rejects.toMatchObject({ name: "InvalidModificationError" });
+    }
+
+    expect(await readText(root, "docs/sub/b.txt")).toBe("B");
+    expect(await readText(root, "docs/a.txt")).toBe("A");
+  });
+
+  it("refuses to move a directory inside itself", async () => {
+    await expect(
+      transferEntry(
+        { backend: root, path: "docs" },
+        { backend: root, path: "docs/sub/docs" },
+        { mode: "move" }
+      )
+    ).rejects.toMatchObject({ name: "InvalidModificationError" });
+  });
+});
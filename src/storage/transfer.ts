@@ -0,0 +1,125 @@
+import { StorageBackend, joinPath, splitPath } from "./backend";
+import {
+  copyHandle,
+  findChild,
+  moveHandle,
+  resolveDirectory,
+  resolveHandle,
+} from "./handleBackend";
+
+export type ConflictPolicy = "overwrite" | "skip" | "keepBoth";
+
+export type EntryLocation = {
+  backend: StorageBackend;
+  path: string;
+};
+
+export type TransferOptions = {
+  mode: "move" | "copy";
+  conflict?: ConflictPolicy; // Predefinito: "skip"
+};
+
+export type TransferResult = {
+  status: "done" | "skipped";
+  path: string; // Percorso finale nel backend di destinazione
+};
+
+const splitName = (name: string): [string, string] => {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+};
+
+// "file.txt" -> "file (1).txt", "cartella" -> "cartella (1)", ...
+export const availableName = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<string> => {
+  const [base, extension] = splitName(name);
+  let candidate = name;
+  for (let index = 1; await findChild(directory, candidate); index++) {
+    candidate = `${base} (${index})${extension}`;
+  }
+  return candidate;
+};
+
+/**
+ * Sposta o copia un file o una cartella, anche tra backend diversi (radice
+ * OPFS, bucket, cartella scelta). Se a destinazione esiste già un elemento
+ * con lo stesso nome decide `conflict`: sovrascriverlo, saltare
+ * l'operazione o tenere entrambi rinominando quello nuovo.
+ */
+export const transferEntry = async (
+  source: EntryLocation,
+  target: EntryLocation,
+  { mode, conflict = "skip" }: TransferOptions
+): Promise<TransferResult> => {
+  const targetParts = splitPath(target.path);
+  const targetName = targetParts.pop();
+  const sourceParts = splitPath(source.path);
+  if (!targetName || sourceParts.length === 0) {
+    throw new DOMException(
+      "Origine e destinazione devono indicare un elemento",
+      "NotFoundError"
+    );
+  }
+
+  const sourceRoot = await source.backend.root();
+  const targetRoot = await target.backend.root();
+  const handle = await resolveHandle(sourceRoot, source.path);
+  const sourceDirectory = await resolveDirectory(
+    sourceRoot,
+    joinPath(...sourceParts.slice(0, -1))
+  );
+
+  const sameBackend = await sourceRoot.isSameEntry(targetRoot);
+  const sourcePath = joinPath(...sourceParts);
+  const targetPath = joinPath(...targetParts, targetName);
+  if (sameBackend && sourcePath === targetPath) {
+    return { status: "done", path: targetPath };
+  }
+  if (sameBackend && targetPath.startsWith(`${sourcePath}/`)) {
+    throw new DOMException(
+      "Impossibile spostare o copiare una cartella dentro se stessa",
+      "InvalidModificationError"
+    );
+  }
+  // Sostituire una cartella che contiene l'origine la cancellerebbe
+  if (sameBackend && sourcePath.startsWith(`${targetPath}/`)) {
+    throw new DOMException(
+      "Impossibile sostituire una cartella con un elemento che contiene",
+      "InvalidModificationError"
+    );
+  }
+
+  const targetDirectory = await resolveDirectory(
+    targetRoot,
+    joinPath(...targetParts),
+    true
+  );
+
+  let name = targetName;
+  const existing = await findChild(targetDirectory, name);
+  if (existing) {
+    if (await existing.isSameEntry(handle)) {
+      throw new DOMException(
+        "Origine e destinazione indicano lo stesso elemento",
+        "InvalidModificationError"
+      );
+    }
+    if (conflict === "skip") return { status: "skipped", path: targetPath };
+    if (conflict === "keepBoth") {
+      name = await availableName(targetDirectory, name);
+    } else {
+      await targetDirectory.removeEntry(name, {
+        recursive: existing.kind === "directory",
+      });
+    }
+  }
+
+  if (mode === "move") {
+    await moveHandle(handle, sourceDirectory, targetDirectory, name);
+  } else {
+    await copyHandle(handle, targetDirectory, name);
+  }
+  return { status: "done", path: joinPath(...targetParts, name) };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { createHandleBackend } from "./handleBackend";
+import { createMemoryDirectory } from "./memory";
+import {
+  FileSystemNode,
+  flattenTree,
+  listNodes,
+  parentPath,
+  pruneTreeCache,
+} from "./tree";
+
+const dir = (name: string): FileSystemNode => ({ name, kind: "directory" });
+const file = (name: string): FileSystemNode => ({ name, kind: "file" });
+
+describe("listNodes", () => {
+  it("lists one level with folders first and the given prefix", async () => {
+    const root = createMemoryDirectory();
+    const backend = createHandleBackend("t", "t", async () => root);
+    await backend.createFile("b.txt");
+    await backend.createFile("z/deep/file.txt");
+    await backend.mkdir("a");
+
+    expect(await listNodes(backend, "root")).toEqual([
+      dir("root/a"),
+      dir("root/z"),
+      file("root/b.txt"),
+    ]);
+    expect(await listNodes(backend, "root", "z")).toEqual([dir("root/z/deep")]);
+  });
+});
+
+describe("flattenTree", () => {
+  const children = new Map<string, FileSystemNode[]>([
+    ["a", [dir("a/b"), file("a/c.txt")]],
+    ["a/b", [file("a/b/d.txt")]],
+  ]);
+
+  it("only descends into expanded and loaded folders", () => {
+    const rows = flattenTree([dir("a"), dir("e")], children, new Set(["a"]));
+
+    expect(rows.map((row) => [row.node.name, row.depth])).toEqual([
+      ["a", 0],
+      ["a/b", 1],
+      ["a/c.txt", 1],
+      ["e", 0],
+    ]);
+  });
+
+  it("keeps children of collapsed ancestors hidden", () => {
+    const rows = flattenTree([dir("a")], children, new Set(["a/b"]));
+
+    expect(rows.map((row) => row.node.name)).toEqual(["a"]);
+  });
+});
+
+describe("pruneTreeCache", () => {
+  it("drops cached folders that no longer exist under the refreshed path", () => {
+    const cache = new Map<string, FileSystemNode[]>([
+      ["", [dir("a"), dir("x")]],
+      ["a", [dir("a/b"), dir("a/gone")]],
+      ["a/b", []],
+      ["a/gone", [dir("a/gone/deep")]],
+      ["a/gone/deep", []],
+      ["x", []],
+    ]);
+
+    pruneTreeCache(cache, "a", [dir("a/b")]);
+
+    expect([...cache.keys()]).toEqual(["", "a", "a/b", "x"]);
+  });
+
+  it("treats the empty path as the top level", () => {
+    const cache = new Map<string, FileSystemNode[]>([
+      ["", []],
+      ["a", []],
+      ["b/c", []],
+    ]);
+
+    pruneTreeCache(cache, "", [dir("b")]);
+
+    expect([...cache.keys()]).toEqual(["", "b/c"]);
+  });
+});
+
+describe("parentPath", () => {
+  it("returns the containing folder or the empty top level", () => {
+    expect(parentPath("root/a/b.txt")).toBe("root/a");
+    expect(parentPath("bucket")).toBe("");
+  });
+});
@@ -0,0 +1,80 @@
+import { StorageBackend, joinPath } from "./backend";
+
+export type FileSystemNode = {
+  name: string; // Percorso completo, usato anche come chiave
+  kind: "file" | "directory" | "bucket";
+};
+
+// Cartelle prima dei file, poi ordine alfabetico
+const compareNodes = (a: FileSystemNode, b: FileSystemNode) =>
+  Number(a.kind === "file") - Number(b.kind === "file") ||
+  a.name.localeCompare(b.name);
+
+/**
+ * Legge un solo livello del backend, senza scendere nelle sottocartelle:
+ * usato dall'albero lazy che carica i figli solo all'espansione.
+ */
+export const listNodes = async (
+  backend: StorageBackend,
+  prefix = "",
+  path = ""
+): Promise<FileSystemNode[]> => {
+  const entries = await backend.list(path);
+  return entries
+    .map((entry) => ({ name: joinPath(prefix, entry.path), kind: entry.kind }))
+    .sort(compareNodes);
+};
+
+export const parentPath = (fullPath: string): string =>
+  fullPath.split("/").slice(0, -1).join("/");
+
+export type TreeRow = {
+  node: FileSystemNode;
+  depth: number;
+  expanded: boolean;
+};
+
+/**
+ * Appiattisce le parti visibili dell'albero in righe, per la lista
+ * virtualizzata. Le cartelle espanse ma non ancora caricate non hanno figli.
+ */
+export const flattenTree = (
+  nodes: FileSystemNode[],
+  children: ReadonlyMap<string, FileSystemNode[]>,
+  expanded: ReadonlySet<string>,
+  depth = 0,
+  rows: TreeRow[] = []
+): TreeRow[] => {
+  for (const node of nodes) {
+    const isOpen = node.kind !== "file" && expanded.has(node.name);
+    rows.push({ node, depth, expanded: isOpen });
+    const loaded = children.get(node.name);
+    if (isOpen && loaded) {
+      flattenTree(loaded, children, expanded, depth + 1, rows);
+    }
+  }
+  return rows;
+};
+
+/**
+ * Rimuove dalla cache le sottocartelle di `path` che non compaiono più tra i
+ * figli appena riletti, insieme a tutto il loro contenuto. La chiave ""
+ * indica il primo livello dell'albero.
+ */
+export const pruneTreeCache = (
+  children: Map<string, FileSystemNode[]>,
+  path: string,
+  nodes: FileSystemNode[]
+): void => {
+  const directories = nodes
+    .filter((node) => node.kind !== "file")
+    .map((node) => node.name);
+  for (const key of [...children.keys()]) {
+    const isDescendant = path === "" ? key !== "" : key.startsWith(`${path}/`);
+    if (!isDescendant) continue;
+    const stillExists = directories.some(
+      (name) => key === name || key.startsWith(`${name}/`)
+    );
+    if (!stillExists) children.delete(key);
+  }
+};
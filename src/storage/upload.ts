@@ -0,0 +1,77 @@
+import { StorageBackend, joinPath } from "./backend";
+import { parentPath } from "./tree";
+
+export type UploadItem = {
+  path: string; // Relativo alla cartella di destinazione
+  file?: File; // Assente per le cartelle vuote
+};
+
+const readAllEntries = async (
+  directory: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries restituisce i figli a blocchi, fino a un array vuoto
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+/**
+ * Raccoglie file e cartelle trascinati dal desktop. Le voci vanno estratte
+ * dal DataTransfer in modo sincrono dentro l'evento drop, poi passate qui.
+ */
+export const collectDroppedItems = async (
+  entries: FileSystemEntry[],
+  basePath = ""
+): Promise<UploadItem[]> => {
+  const items: UploadItem[] = [];
+  for (const entry of entries) {
+    const path = joinPath(basePath, entry.name);
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      items.push({ path, file });
+    } else if (entry.isDirectory) {
+      const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+      items.push({ path });
+      items.push(...(await collectDroppedItems(children, path)));
+    }
+  }
+  return items;
+};
+
+/**
+ * Scrive gli elementi in `path` del backend. `onProgress` riceve i byte
+ * scritti e il totale dopo ogni file; `encode` il contenuto da scrivere per
+ * ogni file, ad esempio cifrato se è in un'area.
+ */
+export const uploadItems = async (
+  backend: StorageBackend,
+  path: string,
+  items: UploadItem[],
+  onProgress?: (loaded: number, total: number) => void,
+  encode?: (path: string, file: File) => Promise<Blob>
+): Promise<void> => {
+  const total = items.reduce((sum, item) => sum + (item.file?.size ?? 0), 0);
+  let loaded = 0;
+  for (const item of items) {
+    const target = joinPath(path, item.path);
+    if (!item.file) {
+      await backend.mkdir(target);
+      continue;
+    }
+    await backend.mkdir(parentPath(target));
+    await backend.write(
+      target,
+      encode ? await encode(item.path, item.file) : item.file
+    );
+    loaded += item.file.size;
+    onProgress?.(loaded, total);
+  }
+};
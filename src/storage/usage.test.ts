@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment } from "./memory";
+import { OPFSEnvironment, getOPFSBackend } from "./opfs";
+import {
+  directorySizes,
+  formatBytes,
+  readStorageUsage,
+  requestPersistence,
+  usageLevel,
+} from "./usage";
+
+describe("storage usage", () => {
+  let env: OPFSEnvironment;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    const root = getOPFSBackend("root", env);
+    await root.mkdir("docs/sub");
+    await root.write("docs/a.txt", "12345");
+    await root.write("docs/sub/b.txt", "123");
+    await root.createFile("c.txt");
+    await root.write("c.txt", "12");
+  });
+
+  it("reports usage, quota and bucket metadata", async () => {
+    const expires = Date.now() + 60_000;
+    await env.buckets.open("media", { quota: 10, expires });
+    await getOPFSBackend("media", env).write("x.bin", "123456789");
+
+    const [root, media] = await readStorageUsage(env);
+
+    expect(root).toMatchObject({ name: "root", usage: 10, persisted: false });
+    expect(media).toEqual({
+      name: "media",
+      usage: 9,
+      quota: 10,
+      remaining: 1,
+      persisted: false,
+      durability: "relaxed",
+      expires,
+      level: "warning",
+    });
+  });
+
+  it("grades usage against the quota", () => {
+    expect(usageLevel(5)).toBe("ok");
+    expect(usageLevel(5, 10)).toBe("ok");
+    expect(usageLevel(9, 10)).toBe("warning");
+    expect(usageLevel(12, 10)).toBe("full");
+  });
+
+  it("requests persistence for the root or a bucket", async () => {
+    await env.buckets.open("media");
+
+    await requestPersistence("root", env);
+    await requestPersistence("media", env);
+
+    const usage = await readStorageUsage(env);
+    expect(usage.map((entry) => entry.persisted)).toEqual([true, true]);
+  });
+
+  it("totals file sizes for every directory", async () => {
+    const sizes = await directorySizes(getOPFSBackend("root", env));
+
+    expect(Object.fromEntries(sizes)).toEqual({
+      "": 10,
+      docs: 8,
+      "docs/sub": 3,
+    });
+  });
+
+  it("formats byte counts", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
@@ -0,0 +1,119 @@
+import { StorageBackend } from "./backend";
+import { readExpiry } from "./buckets";
+import { OPFSEnvironment, OPFS_ROOT, browserEnvironment } from "./opfs";
+
+export type UsageLevel = "ok" | "warning" | "full";
+
+export type StorageUsage = {
+  name: string; // OPFS_ROOT o nome del bucket
+  usage: number;
+  quota?: number;
+  remaining?: number;
+  persisted: boolean;
+  durability?: StorageBucketDurability; // Solo per i bucket
+  expires?: number | null; // Solo per i bucket
+  level: UsageLevel;
+};
+
+// Oltre questa frazione della quota l'uso viene segnalato
+export const USAGE_WARNING_RATIO = 0.9;
+
+export const usageLevel = (usage: number, quota?: number): UsageLevel => {
+  if (!quota) return "ok";
+  if (usage >= quota) return "full";
+  return usage >= quota * USAGE_WARNING_RATIO ? "warning" : "ok";
+};
+
+const describeUsage = (
+  name: string,
+  usage: number,
+  quota: number | undefined
+) => ({
+  name,
+  usage,
+  quota,
+  remaining: quota === undefined ? undefined : Math.max(quota - usage, 0),
+  level: usageLevel(usage, quota),
+});
+
+/**
+ * Uso e quota della radice OPFS e di ogni bucket. Per la radice la stima è
+ * quella di navigator.storage, cioè del bucket predefinito dell'origine.
+ */
+export const readStorageUsage = async (
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<StorageUsage[]> => {
+  const [estimate, persisted] = await Promise.all([
+    env.storage.estimate(),
+    env.storage.persisted(),
+  ]);
+  const root: StorageUsage = {
+    ...describeUsage(OPFS_ROOT, estimate.usage ?? 0, estimate.quota),
+    persisted,
+  };
+
+  const buckets = await Promise.all(
+    (await env.buckets.keys()).map(async (name): Promise<StorageUsage> => {
+      const bucket = await env.buckets.open(name);
+      const [bucketEstimate, bucketPersisted, durability, expires] =
+        await Promise.all([
+          bucket.estimate(),
+          bucket.persisted(),
+          bucket.durability(),
+          readExpiry(bucket),
+        ]);
+      return {
+        ...describeUsage(name, bucketEstimate.usage ?? 0, bucketEstimate.quota),
+        persisted: bucketPersisted,
+        durability,
+        expires,
+      };
+    })
+  );
+  return [root, ...buckets];
+};
+
+// Chiede al browser di non eliminare i dati della radice o del bucket
+export const requestPersistence = async (
+  name: string,
+  env: OPFSEnvironment = browserEnvironment()
+): Promise<boolean> =>
+  name === OPFS_ROOT
+    ? env.storage.persist()
+    : (await env.buckets.open(name)).persist();
+
+/**
+ * Dimensione totale di ogni cartella sotto `path`, inclusa `path` stessa,
+ * sommando le dimensioni dei file lette con stat().
+ */
+export const directorySizes = async (
+  backend: StorageBackend,
+  path = ""
+): Promise<Map<string, number>> => {
+  const sizes = new Map<string, number>();
+  const visit = async (directory: string): Promise<number> => {
+    let total = 0;
+    for (const entry of await backend.list(directory)) {
+      total +=
+        entry.kind === "directory"
+          ? await visit(entry.path)
+          : ((await backend.stat(entry.path)).size ?? 0);
+    }
+    sizes.set(directory, total);
+    return total;
+  };
+  await visit(path);
+  return sizes;
+};
+
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+};
@@ -0,0 +1,16 @@
+import { EntryInfo, StorageBackend } from "./backend";
+
+/**
+ * Visita ricorsiva di un backend a partire da `path`, in pre-ordine: ogni
+ * cartella viene restituita prima del suo contenuto. È un generatore, quindi
+ * anche alberi molto grandi non vengono mai tenuti interi in memoria.
+ */
+export async function* walkBackend(
+  backend: StorageBackend,
+  path = ""
+): AsyncGenerator<EntryInfo> {
+  for (const entry of await backend.list(path)) {
+    yield entry;
+    if (entry.kind === "directory") yield* walkBackend(backend, entry.path);
+  }
+}
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StorageBackend } from "./backend";
+import { createMemoryEnvironment } from "./memory";
+import { getOPFSBackend } from "./opfs";
+import {
+  ChangeEvent,
+  Snapshot,
+  SnapshotEntry,
+  affectsPath,
+  diffSnapshots,
+  watchBackend,
+} from "./watch";
+
+const file = (size: number, lastModified: number): SnapshotEntry => ({
+  kind: "file",
+  size,
+  lastModified,
+});
+
+describe("diffSnapshots", () => {
+  it("reports created, deleted, modified and moved entries", () => {
+    const before: Snapshot = new Map<string, SnapshotEntry>([
+      ["docs", { kind: "directory" }],
+      ["docs/a.txt", file(1, 100)],
+      ["docs/b.txt", file(2, 200)],
+      ["old.txt", file(3, 300)],
+    ]);
+    const after: Snapshot = new Map<string, SnapshotEntry>([
+      ["docs", { kind: "directory" }],
+      ["docs/a.txt", file(5, 150)],
+      ["new.txt", file(4, 400)],
+      ["archive/old.txt", file(3, 300)],
+      ["archive", { kind: "directory" }],
+    ]);
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { type: "created", path: "new.txt", kind: "file" },
+      {
+        type: "moved",
+        path: "archive/old.txt",
+        oldPath: "old.txt",
+        kind: "file",
+      },
+      { type: "created", path: "archive", kind: "directory" },
+      { type: "deleted", path: "docs/b.txt", kind: "file" },
+      { type: "modified", path: "docs/a.txt", kind: "file" },
+    ]);
+  });
+});
+
+describe("affectsPath", () => {
+  it("matches the path itself, its ancestors and move sources", () => {
+    const deleted: ChangeEvent = { type: "deleted", path: "docs" };
+    const moved: ChangeEvent = {
+      type: "moved",
+      path: "b.txt",
+      oldPath: "docs/a.txt",
+    };
+
+    expect(affectsPath(deleted, "docs/a.txt")).toBe(true);
+    expect(affectsPath(deleted, "docs2/a.txt")).toBe(false);
+    expect(affectsPath(moved, "docs/a.txt")).toBe(true);
+  });
+});
+
+describe("watchBackend", () => {
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    backend = getOPFSBackend("root", createMemoryEnvironment());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("falls back to polling snapshots without FileSystemObserver", async () => {
+    const batches: ChangeEvent[][] = [];
+    const watcher = await watchBackend(backend, (e) => batches.push(e), {
+      observer: null,
+      interval: 1000,
+    });
+    expect(watcher.mode).toBe("polling");
+
+    await backend.createFile("a.txt");
+    await vi.advanceTimersByTimeAsync(1000);
+    watcher.stop();
+    await backend.createFile("b.txt");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(batches).toEqual([
+      [{ type: "created", path: "a.txt", kind: "file" }],
+    ]);
+  });
+
+  it("polls only the given directories and backs off when idle", async () => {
+    await backend.mkdir("docs/deep");
+    const directories = [""];
+    const batches: ChangeEvent[][] = [];
+    const watcher = await watchBackend(backend, (e) => batches.push(e), {
+      observer: null,
+      interval: 1000,
+      maxInterval: 4000,
+      directories: () => directories,
+    });
+
+    // Fuori dalle cartelle seguite; "docs" appena aperta non dà "created"
+    await backend.createFile("docs/deep/x.txt");
+    directories.push("docs");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(batches).toEqual([]);
+
+    // Senza modifiche il giro successivo arriva dopo 2 secondi, poi 4
+    await backend.createFile("docs/a.txt");
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(batches).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(batches).toEqual([
+      [{ type: "created", path: "docs/a.txt", kind: "file" }],
+    ]);
+
+    // Dopo una modifica si torna all'intervallo iniziale
+    await backend.createFile("b.txt");
+    await vi.advanceTimersByTimeAsync(1000);
+    watcher.stop();
+    expect(batches).toHaveLength(2);
+  });
+
+  it("translates FileSystemObserver records", async () => {
+    let callback: FileSystemObserverCallback = () => undefined;
+    const disconnect = vi.fn();
+    class FakeObserver {
+      constructor(cb: FileSystemObserverCallback) {
+        callback = cb;
+      }
+      observe = async () => undefined;
+      unobserve = () => undefined;
+      disconnect = disconnect;
+    }
+    const events: ChangeEvent[] = [];
+    const watcher = await watchBackend(backend, (e) => events.push(...e), {
+      observer: FakeObserver,
+    });
+
+    const record = (
+      type: FileSystemChangeType,
+      path: string[],
+      from: string[] | null = null
+    ) =>
+      ({
+        type,
+        relativePathComponents: path,
+        relativePathMovedFrom: from,
+        changedHandle: null,
+      }) as unknown as FileSystemChangeRecord;
+    callback(
+      [
+        record("appeared", ["docs", "a.txt"]),
+        record("moved", ["b.txt"], ["docs", "b.txt"]),
+        record("unknown", []),
+      ],
+      {} as FileSystemObserver
+    );
+    watcher.stop();
+
+    expect(watcher.mode).toBe("observer");
+    expect(events).toEqual([
+      { type: "created", path: "docs/a.txt", oldPath: undefined },
+      { type: "moved", path: "b.txt", oldPath: "docs/b.txt" },
+      { type: "modified", path: "", kind: "directory" },
+    ]);
+    expect(disconnect).toHaveBeenCalled();
+  });
+});
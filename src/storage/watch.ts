@@ -0,0 +1,229 @@
+import { EntryKind, StorageBackend, joinPath } from "./backend";
+import { parentPath } from "./tree";
+
+export type ChangeType = "created" | "modified" | "deleted" | "moved";
+
+// Una cartella "modified" indica che il suo contenuto va riletto per intero:
+// succede quando il browser perde delle notifiche. Le altre modifiche alle
+// cartelle arrivano come created/deleted/moved degli elementi interni.
+export type ChangeEvent = {
+  type: ChangeType;
+  path: string; // Relativo alla radice del backend
+  oldPath?: string; // Solo per "moved"
+  kind?: EntryKind;
+};
+
+export type Watcher = {
+  readonly mode: "observer" | "polling";
+  stop(): void;
+};
+
+export type SnapshotEntry = {
+  kind: EntryKind;
+  size?: number;
+  lastModified?: number;
+};
+
+export type Snapshot = Map<string, SnapshotEntry>;
+
+// Intervallo predefinito del polling; senza modifiche si allunga fino al
+// massimo, e torna a quello iniziale alla prima modifica trovata
+export const POLL_INTERVAL = 5000;
+export const MAX_POLL_INTERVAL = 60_000;
+
+// Contenuto diretto delle sole cartelle indicate, non dell'intero albero:
+// con decine di migliaia di file si seguono solo quelle aperte nella vista
+export type DirectorySnapshot = {
+  listed: Set<string>; // Cartelle lette; quelle sparite nel frattempo mancano
+  entries: Snapshot;
+};
+
+export const takeSnapshot = async (
+  backend: StorageBackend,
+  directories: Iterable<string> = [""]
+): Promise<DirectorySnapshot> => {
+  const listed = new Set<string>();
+  const entries: Snapshot = new Map();
+  for (const directory of new Set(directories)) {
+    let children;
+    try {
+      children = await backend.list(directory);
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (name === "NotFoundError" || name === "TypeMismatchError") continue;
+      throw error;
+    }
+    listed.add(directory);
+    for (const entry of children) {
+      if (entry.kind === "directory") {
+        entries.set(entry.path, { kind: "directory" });
+        continue;
+      }
+      const { size, lastModified } = await backend.stat(entry.path);
+      entries.set(entry.path, { kind: "file", size, lastModified });
+    }
+  }
+  return { listed, entries };
+};
+
+// Solo le cartelle lette in entrambi gli snapshot si possono confrontare:
+// una cartella appena aperta non ha figli "creati"
+const commonEntries = (
+  snapshot: DirectorySnapshot,
+  other: DirectorySnapshot
+): Snapshot =>
+  new Map(
+    [...snapshot.entries].filter(([path]) => {
+      const parent = parentPath(path);
+      return snapshot.listed.has(parent) && other.listed.has(parent);
+    })
+  );
+
+const sameFile = (a: SnapshotEntry, b: SnapshotEntry) =>
+  a.kind === "file" &&
+  b.kind === "file" &&
+  a.size === b.size &&
+  a.lastModified === b.lastModified;
+
+/**
+ * Differenze tra due snapshot. Un file sparito e uno comparso con la stessa
+ * dimensione e data di modifica vengono considerati uno spostamento.
+ */
+export const diffSnapshots = (
+  before: Snapshot,
+  after: Snapshot
+): ChangeEvent[] => {
+  const events: ChangeEvent[] = [];
+  const deleted = [...before].filter(([path]) => !after.has(path));
+  const created = [...after].filter(([path]) => !before.has(path));
+
+  for (const [path, entry] of created) {
+    const index = deleted.findIndex(([, old]) => sameFile(old, entry));
+    if (index === -1) {
+      events.push({ type: "created", path, kind: entry.kind });
+      continue;
+    }
+    const [[oldPath]] = deleted.splice(index, 1);
+    events.push({ type: "moved", path, oldPath, kind: entry.kind });
+  }
+  for (const [path, entry] of deleted) {
+    events.push({ type: "deleted", path, kind: entry.kind });
+  }
+  for (const [path, entry] of after) {
+    const old = before.get(path);
+    if (old && old.kind === "file" && !sameFile(old, entry)) {
+      events.push({ type: "modified", path, kind: entry.kind });
+    }
+  }
+  return events;
+};
+
+const OBSERVER_TYPES: Partial<Record<FileSystemChangeType, ChangeType>> = {
+  appeared: "created",
+  disappeared: "deleted",
+  modified: "modified",
+  moved: "moved",
+};
+
+const toChangeEvent = (record: FileSystemChangeRecord): ChangeEvent => {
+  const type = OBSERVER_TYPES[record.type];
+  // "unknown" ed "errored": il browser ha perso delle notifiche, va riletto
+  // tutto il backend
+  if (!type) return { type: "modified", path: "", kind: "directory" };
+  return {
+    type,
+    path: joinPath(...record.relativePathComponents),
+    oldPath: record.relativePathMovedFrom
+      ? joinPath(...record.relativePathMovedFrom)
+      : undefined,
+    kind: record.changedHandle?.kind,
+  };
+};
+
+export type WatchOptions = {
+  interval?: number;
+  maxInterval?: number;
+  // Cartelle da seguire con il polling, rilette a ogni giro; predefinito il
+  // solo primo livello
+  directories?: () => Iterable<string>;
+  // Costruttore da usare al posto di quello globale; null forza il polling
+  observer?: typeof FileSystemObserver | null;
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Segue le modifiche sotto la radice di un backend, fatte anche da altre
+ * schede, worker o programmi esterni. Usa FileSystemObserver se il browser
+ * lo offre, altrimenti confronta snapshot delle cartelle in `directories`
+ * presi a intervalli crescenti finché non cambia nulla.
+ */
+export const watchBackend = async (
+  backend: StorageBackend,
+  onChanges: (events: ChangeEvent[]) => void,
+  {
+    interval = POLL_INTERVAL,
+    maxInterval = MAX_POLL_INTERVAL,
+    directories = () => [""],
+    observer: Observer = typeof FileSystemObserver === "undefined"
+      ? null
+      : FileSystemObserver,
+    onError,
+  }: WatchOptions = {}
+): Promise<Watcher> => {
+  if (Observer) {
+    const observer = new Observer((records) =>
+      onChanges(records.map(toChangeEvent))
+    );
+    try {
+      await observer.observe(await backend.root(), { recursive: true });
+      return { mode: "observer", stop: () => observer.disconnect() };
+    } catch (error) {
+      // Ad esempio NotSupportedError su una cartella di rete: si ripiega
+      observer.disconnect();
+      onError?.(error);
+    }
+  }
+
+  let snapshot = await takeSnapshot(backend, directories());
+  let stopped = false;
+  let delay = interval;
+  let timer: ReturnType<typeof setTimeout>;
+  const poll = async () => {
+    try {
+      const next = await takeSnapshot(backend, directories());
+      if (stopped) return;
+      const events = diffSnapshots(
+        commonEntries(snapshot, next),
+        commonEntries(next, snapshot)
+      );
+      snapshot = next;
+      delay = events.length > 0 ? interval : Math.min(delay * 2, maxInterval);
+      if (events.length > 0) onChanges(events);
+    } catch (error) {
+      onError?.(error);
+    }
+    if (!stopped) timer = setTimeout(poll, delay);
+  };
+  timer = setTimeout(poll, delay);
+
+  return {
+    mode: "polling",
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+};
+
+// Stessa versione di un file: serve a riconoscere le scritture fatte da
+// altre schede o da programmi esterni
+export const sameVersion = (a: File, b: File) =>
+  a.size === b.size && a.lastModified === b.lastModified;
+
+// True se la modifica riguarda `path` o una cartella che lo contiene
+export const affectsPath = (event: ChangeEvent, path: string) =>
+  [event.path, event.oldPath].some(
+    (changed) =>
+      changed !== undefined &&
+      (changed === path || path.startsWith(`${changed}/`))
+  );
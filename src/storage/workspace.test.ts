@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryDirectory } from "./memory";
+import {
+  WorkspaceRoot,
+  WorkspaceStore,
+  addRoots,
+  createRootBackend,
+  forgetRoot,
+  loadWorkspace,
+  readPermissions,
+  renameRoot,
+} from "./workspace";
+
+const createStore = (): WorkspaceStore => {
+  const roots = new Map<string, WorkspaceRoot>();
+  return {
+    list: async () => [...roots.values()],
+    put: async (root) => void roots.set(root.id, root),
+    remove: async (id) => void roots.delete(id),
+  };
+};
+
+describe("workspace", () => {
+  let store: WorkspaceStore;
+  let folder: FileSystemDirectoryHandle;
+  let file: FileSystemFileHandle;
+
+  beforeEach(async () => {
+    store = createStore();
+    const disk = createMemoryDirectory();
+    folder = await disk.getDirectoryHandle("progetto", { create: true });
+    file = await disk.getFileHandle("note.txt", { create: true });
+  });
+
+  it("adds roots in order without duplicating the same entry", async () => {
+    const [first] = await addRoots([folder], store, 1000);
+    const added = await addRoots([file, folder], store, 2000);
+
+    expect(added.map((root) => root.name)).toEqual(["note.txt", "progetto"]);
+    expect(added[1]).toEqual(first);
+    expect(
+      (await loadWorkspace(store)).map((root) => [root.name, root.addedAt])
+    ).toEqual([
+      ["progetto", 1000],
+      ["note.txt", 2000],
+    ]);
+  });
+
+  it("renames and forgets roots", async () => {
+    const [root] = await addRoots([folder], store);
+
+    expect((await renameRoot(root, "  Lavoro ", store)).name).toBe("Lavoro");
+    expect((await loadWorkspace(store))[0].name).toBe("Lavoro");
+    // Un nome vuoto torna quello della cartella
+    expect((await renameRoot(root, " ", store)).name).toBe("progetto");
+
+    await forgetRoot(root, store);
+    expect(await loadWorkspace(store)).toEqual([]);
+  });
+
+  it("reads the permissions of a root", async () => {
+    const [root] = await addRoots([folder], store);
+    expect(await readPermissions(root)).toEqual({
+      read: "granted",
+      readwrite: "granted",
+    });
+  });
+
+  it("opens a folder root as a directory backend", async () => {
+    const [root] = await addRoots([folder], store);
+    const backend = createRootBackend(root);
+    await backend.createFile("a.txt");
+
+    expect(backend.id).toBe(`workspace:${root.id}`);
+    expect((await backend.list("")).map((entry) => entry.path)).toEqual([
+      "a.txt",
+    ]);
+  });
+
+  it("opens a file root as a backend with only that file", async () => {
+    const [root] = await addRoots([file], store);
+    const backend = createRootBackend(root);
+
+    expect(await backend.list("")).toEqual([
+      { name: "note.txt", path: "note.txt", kind: "file" },
+    ]);
+    await backend.write("note.txt", "ciao");
+    expect(await (await backend.read("note.txt")).text()).toBe("ciao");
+    expect((await backend.stat("note.txt")).size).toBe(4);
+
+    await expect(backend.read("altro.txt")).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+    await expect(backend.list("note.txt")).rejects.toMatchObject({
+      name: "TypeMismatchError",
+    });
+    await expect(backend.createFile("b.txt")).rejects.toMatchObject({
+      name: "NotSupportedError",
+    });
+    await expect(backend.remove("note.txt")).rejects.toMatchObject({
+      name: "NotSupportedError",
+    });
+  });
+});
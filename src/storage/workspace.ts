@@ -0,0 +1,154 @@
+import { IDBPDatabase, openDB } from "idb";
+import { StorageBackend } from "./backend";
+import { createFileBackend } from "./fileBackend";
+import { createDirectoryBackend } from "./opfs";
+
+// Area di lavoro della File System Access API: cartelle e file scelti
+// dall'utente, salvati in IndexedDB per ritrovarli alla riapertura. I
+// permessi non sopravvivono sempre al ricaricamento e vanno richiesti di
+// nuovo, con un gesto dell'utente.
+
+export type WorkspaceRoot = {
+  id: string;
+  name: string; // Scelto dall'utente, all'inizio quello della cartella o del file
+  handle: FileSystemDirectoryHandle | FileSystemFileHandle;
+  addedAt: number;
+};
+
+export type RootPermissions = Record<FileSystemPermissionMode, PermissionState>;
+
+export type WorkspaceStore = {
+  list(): Promise<WorkspaceRoot[]>;
+  put(root: WorkspaceRoot): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+const DB_NAME = "fileSystemDB";
+const DB_VERSION = 2;
+const STORE_NAME = "roots";
+// Versione 1: un solo handle nello store "handles", con questa chiave
+const LEGACY_STORE = "handles";
+const LEGACY_KEY = "directoryHandle";
+
+export const createIndexedDBWorkspaceStore = (): WorkspaceStore => {
+  // Una sola connessione, aperta al primo uso
+  let connection: Promise<IDBPDatabase> | undefined;
+  const db = () =>
+    (connection ??= openDB(DB_NAME, DB_VERSION, {
+      async upgrade(db, _oldVersion, _newVersion, transaction) {
+        const roots = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(LEGACY_STORE)) return;
+        // La cartella scelta con la versione precedente diventa una radice
+        const legacy: FileSystemDirectoryHandle | undefined = await transaction
+          .objectStore(LEGACY_STORE)
+          .get(LEGACY_KEY);
+        if (legacy) {
+          const root: WorkspaceRoot = {
+            id: crypto.randomUUID(),
+            name: legacy.name,
+            handle: legacy,
+            addedAt: Date.now(),
+          };
+          await roots.put(root);
+        }
+        db.deleteObjectStore(LEGACY_STORE);
+      },
+    }));
+  return {
+    list: async () => (await db()).getAll(STORE_NAME),
+    put: async (root) => {
+      await (await db()).put(STORE_NAME, root);
+    },
+    remove: async (id) => (await db()).delete(STORE_NAME, id),
+  };
+};
+
+let defaultStore: WorkspaceStore | undefined;
+
+const browserStore = (): WorkspaceStore =>
+  (defaultStore ??= createIndexedDBWorkspaceStore());
+
+// Radici nell'ordine in cui sono state aggiunte
+export const loadWorkspace = async (
+  store: WorkspaceStore = browserStore()
+): Promise<WorkspaceRoot[]> =>
+  (await store.list()).sort((a, b) => a.addedAt - b.addedAt);
+
+/**
+ * Aggiunge cartelle o file scelti con i picker. Un elemento già presente
+ * nell'area di lavoro non viene duplicato: si restituisce la sua radice.
+ */
+export const addRoots = async (
+  handles: (FileSystemDirectoryHandle | FileSystemFileHandle)[],
+  store: WorkspaceStore = browserStore(),
+  now = Date.now()
+): Promise<WorkspaceRoot[]> => {
+  const roots = await loadWorkspace(store);
+  const added: WorkspaceRoot[] = [];
+  for (const [index, handle] of handles.entries()) {
+    let existing: WorkspaceRoot | undefined;
+    for (const root of roots) {
+      if (await root.handle.isSameEntry(handle)) existing = root;
+    }
+    if (existing) {
+      added.push(existing);
+      continue;
+    }
+    const root: WorkspaceRoot = {
+      id: crypto.randomUUID(),
+      name: handle.name,
+      handle,
+      addedAt: now + index, // Più file scelti insieme restano in ordine
+    };
+    await store.put(root);
+    roots.push(root);
+    added.push(root);
+  }
+  return added;
+};
+
+export const renameRoot = async (
+  root: WorkspaceRoot,
+  name: string,
+  store: WorkspaceStore = browserStore()
+): Promise<WorkspaceRoot> => {
+  const renamed = { ...root, name: name.trim() || root.handle.name };
+  await store.put(renamed);
+  return renamed;
+};
+
+// Toglie la radice dall'area di lavoro; il contenuto su disco non cambia
+export const forgetRoot = (
+  root: WorkspaceRoot,
+  store: WorkspaceStore = browserStore()
+): Promise<void> => store.remove(root.id);
+
+export const readPermissions = async (
+  root: WorkspaceRoot
+): Promise<RootPermissions> => {
+  const [read, readwrite] = await Promise.all([
+    root.handle.queryPermission({ mode: "read" }),
+    root.handle.queryPermission({ mode: "readwrite" }),
+  ]);
+  return { read, readwrite };
+};
+
+// Mostra la richiesta del browser: va chiamata dal gestore di un click
+export const grantPermission = (
+  root: WorkspaceRoot,
+  mode: FileSystemPermissionMode
+): Promise<PermissionState> => root.handle.requestPermission({ mode });
+
+// Id del backend di una radice, negli errori e nel registro delle operazioni
+export const rootBackendId = (root: WorkspaceRoot) => `workspace:${root.id}`;
+
+export const createRootBackend = (root: WorkspaceRoot): StorageBackend =>
+  root.handle.kind === "directory"
+    ? createDirectoryBackend(
+        root.handle as FileSystemDirectoryHandle,
+        rootBackendId(root)
+      )
+    : createFileBackend(
+        rootBackendId(root),
+        root.handle as FileSystemFileHandle
+      );
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { zipEntriesOf } from "./download";
+import { createMemoryEnvironment } from "./memory";
+import { getOPFSBackend } from "./opfs";
+import { uploadItems } from "./upload";
+import { ZipEntry, crc32, createZipStream } from "./zip";
+
+type ParsedEntry = { name: string; crc: number; data: Uint8Array };
+
+// Legge l'archivio partendo dalla central directory, come un vero unzip
+const parseZip = (bytes: Uint8Array): ParsedEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+
+  const entries: ParsedEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const crc = view.getUint32(cursor + 16, true);
+    const size = view.getUint32(cursor + 20, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const offset = view.getUint32(cursor + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(cursor + 46, cursor + 46 + nameLength)
+    );
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, crc, data: bytes.slice(dataStart, dataStart + size) });
+    cursor += 46 + nameLength;
+  }
+  return entries;
+};
+
+const collect = async (stream: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(stream).arrayBuffer());
+
+async function* fromArray(entries: ZipEntry[]) {
+  yield* entries;
+}
+
+describe("crc32", () => {
+  it("matches the reference value and can be computed in chunks", () => {
+    const bytes = new TextEncoder().encode("123456789");
+
+    expect(crc32(bytes)).toBe(0xcbf43926);
+    expect(crc32(bytes.subarray(4), crc32(bytes.subarray(0, 4)))).toBe(
+      0xcbf43926
+    );
+  });
+});
+
+describe("createZipStream", () => {
+  it("writes stored entries readable through the central directory", async () => {
+    const text = new TextEncoder().encode("ciao mondo");
+    const archive = await collect(
+      createZipStream(
+        fromArray([
+          { path: "docs", kind: "directory" },
+          {
+            path: "docs/note è.txt",
+            kind: "file",
+            read: async () => new Blob([text]),
+          },
+        ])
+      )
+    );
+
+    const [directory, file] = parseZip(archive);
+    expect(directory.name).toBe("docs/");
+    expect(file.name).toBe("docs/note è.txt");
+    expect(new TextDecoder().decode(file.data)).toBe("ciao mondo");
+    expect(file.crc).toBe(crc32(text));
+  });
+
+  it("writes CRC and sizes in the local header", async () => {
+    const text = new TextEncoder().encode("stored");
+    const archive = await collect(
+      createZipStream(
+        fromArray([
+          { path: "a.txt", kind: "file", read: async () => new Blob([text]) },
+        ])
+      )
+    );
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint16(6, true) & 0x0008).toBe(0);
+    expect(view.getUint32(14, true)).toBe(crc32(text));
+    expect(view.getUint32(18, true)).toBe(text.length);
+    expect(view.getUint32(22, true)).toBe(text.length);
+    expect(archive.length).toBe(30 + 5 + text.length + 46 + 5 + 22);
+  });
+
+  it("rejects a file over 4 GiB before writing any of it", async () => {
+    const huge = {
+      size: 2 ** 32,
+      stream: () => new Blob(["x"]).stream(),
+    } as unknown as Blob;
+    const reader = createZipStream(
+      fromArray([{ path: "big.bin", kind: "file", read: async () => huge }])
+    ).getReader();
+
+    await expect(reader.read()).rejects.toThrow(RangeError);
+  });
+
+  it("reads each file only when the stream is pulled", async () => {
+    let reads = 0;
+    const stream = createZipStream(
+      fromArray([
+        {
+          path: "a.txt",
+          kind: "file",
+          read: async () => {
+            reads++;
+            return new Blob(["A"]);
+          },
+        },
+      ])
+    );
+
+    expect(reads).toBe(0);
+    await collect(stream);
+    expect(reads).toBe(1);
+  });
+});
+
+describe("backend upload and ZIP export", () => {
+  it("round-trips an uploaded tree through a bucket ZIP", async () => {
+    const bucket = getOPFSBackend("foto", createMemoryEnvironment());
+    const progress: number[] = [];
+
+    await uploadItems(
+      bucket,
+      "import",
+      [
+        { path: "vuota" },
+        { path: "album/a.txt", file: new File(["AAA"], "a.txt") },
+        { path: "b.txt", file: new File(["BB"], "b.txt") },
+      ],
+      (loaded, total) => progress.push(loaded / total)
+    );
+
+    expect(progress).toEqual([0.6, 1]);
+    const entries = parseZip(
+      await collect(createZipStream(zipEntriesOf(bucket, "import")))
+    );
+    expect(entries.map((entry) => entry.name).sort()).toEqual([
+      "album/",
+      "album/a.txt",
+      "b.txt",
+      "vuota/",
+    ]);
+    const a = entries.find((entry) => entry.name === "album/a.txt");
+    expect(new TextDecoder().decode(a?.data)).toBe("AAA");
+  });
+});
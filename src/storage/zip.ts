@@ -0,0 +1,292 @@
+// Scrittura di archivi ZIP in streaming, senza compressione (metodo "stored").
+// Il CRC di ogni file si calcola con una prima lettura a blocchi, così
+// dimensioni e CRC stanno già nell'header locale: niente data descriptor, che
+// alcuni lettori rifiutano per i file "stored". Niente ZIP64: file e archivio
+// devono restare sotto i 4 GiB, e lo si verifica prima di scrivere la voce.
+
+export type ZipEntry = {
+  path: string; // Percorso nell'archivio, separato da "/"
+  kind: "file" | "directory";
+  lastModified?: number;
+  read?: () => Promise<Blob>; // Solo per i file, chiamata quando serve
+};
+
+const ZIP32_LIMIT = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, previous = 0): number => {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Data e ora nel formato MS-DOS usato dagli header ZIP
+const dosDateTime = (timestamp: number): [number, number] => {
+  const date = new Date(timestamp);
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2);
+  const day =
+    (Math.max(date.getFullYear() - 1980, 0) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return [time, day];
+};
+
+const record = (
+  size: number,
+  fill: (view: DataView) => void,
+  name?: Uint8Array
+): Uint8Array => {
+  const bytes = new Uint8Array(size + (name?.length ?? 0));
+  fill(new DataView(bytes.buffer));
+  if (name) bytes.set(name, size);
+  return bytes;
+};
+
+type CentralEntry = {
+  name: Uint8Array;
+  directory: boolean;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+};
+
+const FLAG_UTF8 = 0x0800;
+
+// CRC dell'intero blob letto a blocchi, senza caricarlo in memoria
+const blobCrc = async (blob: Blob): Promise<number> => {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+  }
+};
+
+async function* zipChunks(
+  entries: AsyncIterable<ZipEntry>
+): AsyncGenerator<Uint8Array> {
+  const central: CentralEntry[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const directory = entry.kind === "directory";
+    const name = new TextEncoder().encode(
+      directory ? `${entry.path.replace(/\/$/, "")}/` : entry.path
+    );
+    const blob = directory ? undefined : await entry.read?.();
+    const size = blob?.size ?? 0;
+    if (size > ZIP32_LIMIT) {
+      throw new RangeError(`File troppo grande per lo ZIP: ${entry.path}`);
+    }
+    if (offset + 30 + name.length + size > ZIP32_LIMIT) {
+      throw new RangeError("Archivio ZIP oltre i 4 GiB");
+    }
+    if (central.length === 0xffff) {
+      throw new RangeError("Troppi elementi per un archivio ZIP (max 65535)");
+    }
+    const [time, date] = dosDateTime(
+      entry.lastModified ??
+        (blob instanceof File ? blob.lastModified : Date.now())
+    );
+    const crc = blob ? await blobCrc(blob) : 0;
+    const localOffset = offset;
+
+    const header = record(
+      30,
+      (view) => {
+        view.setUint32(0, 0x04034b50, true);
+        view.setUint16(4, 20, true);
+        view.setUint16(6, FLAG_UTF8, true);
+        view.setUint16(10, time, true);
+        view.setUint16(12, date, true);
+        view.setUint32(14, crc, true);
+        view.setUint32(18, size, true);
+        view.setUint32(22, size, true);
+        view.setUint16(26, name.length, true);
+      },
+      name
+    );
+    yield header;
+    offset += header.length;
+
+    if (blob) {
+      const reader = blob.stream().getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        yield value;
+      }
+      offset += size;
+    }
+
+    central.push({
+      name,
+      directory,
+      time,
+      date,
+      crc,
+      size,
+      offset: localOffset,
+    });
+  }
+
+  const centralOffset = offset;
+  for (const entry of central) {
+    const header = record(
+      46,
+      (view) => {
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, 20, true);
+        view.setUint16(6, 20, true);
+        view.setUint16(8, FLAG_UTF8, true);
+        view.setUint16(12, entry.time, true);
+        view.setUint16(14, entry.date, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.size, true);
+        view.setUint32(24, entry.size, true);
+        view.setUint16(28, entry.name.length, true);
+        view.setUint32(38, entry.directory ? 0x10 : 0, true);
+        view.setUint32(42, entry.offset, true);
+      },
+      entry.name
+    );
+    yield header;
+    offset += header.length;
+  }
+
+  yield record(22, (view) => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, central.length, true);
+    view.setUint16(10, central.length, true);
+    view.setUint32(12, offset - centralOffset, true);
+    view.setUint32(16, centralOffset, true);
+  });
+}
+
+/**
+ * Archivio ZIP come ReadableStream: le voci vengono lette solo quando chi
+ * consuma lo stream chiede altri dati.
+ */
+export const createZipStream = (
+  entries: AsyncIterable<ZipEntry>
+): ReadableStream<Uint8Array> => {
+  const chunks = zipChunks(entries);
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+};
+
+export type ZipArchiveEntry = ZipEntry & { size: number };
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+/**
+ * Legge l'indice di un archivio ZIP senza caricarlo in memoria: i dati di
+ * ogni file vengono estratti solo quando si chiama `read`. Sono supportati
+ * soltanto file non compressi, come quelli prodotti da createZipStream.
+ */
+export const readZip = async (blob: Blob): Promise<ZipArchiveEntry[]> => {
+  // L'end of central directory è in coda, seguito da un commento opzionale
+  const tailStart = Math.max(0, blob.size - EOCD_SIZE - MAX_COMMENT);
+  const tail = await readView(blob, tailStart, blob.size);
+  let end = tail.byteLength - EOCD_SIZE;
+  while (end >= 0 && tail.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) {
+    throw new DOMException("Archivio ZIP non valido", "NotReadableError");
+  }
+
+  const count = tail.getUint16(end + 10, true);
+  const centralSize = tail.getUint32(end + 12, true);
+  const centralOffset = tail.getUint32(end + 16, true);
+  const central = await readView(
+    blob,
+    centralOffset,
+    centralOffset + centralSize
+  );
+  const decoder = new TextDecoder();
+
+  const entries: ZipArchiveEntry[] = [];
+  let cursor = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(cursor, true) !== 0x02014b50) {
+      throw new DOMException("Central directory corrotta", "NotReadableError");
+    }
+    const method = central.getUint16(cursor + 10, true);
+    const [time, date] = [
+      central.getUint16(cursor + 12, true),
+      central.getUint16(cursor + 14, true),
+    ];
+    const size = central.getUint32(cursor + 24, true);
+    const nameLength = central.getUint16(cursor + 28, true);
+    const extraLength = central.getUint16(cursor + 30, true);
+    const commentLength = central.getUint16(cursor + 32, true);
+    const localOffset = central.getUint32(cursor + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(
+        central.buffer,
+        central.byteOffset + cursor + 46,
+        nameLength
+      )
+    );
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    const directory = name.endsWith("/");
+    if (!directory && method !== 0) {
+      throw new DOMException(
+        `Compressione non supportata: ${name}`,
+        "NotSupportedError"
+      );
+    }
+
+    entries.push({
+      path: directory ? name.slice(0, -1) : name,
+      kind: directory ? "directory" : "file",
+      size,
+      lastModified: new Date(
+        (date >> 9) + 1980,
+        ((date >> 5) & 0xf) - 1,
+        date & 0x1f,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+      ).getTime(),
+      read: async () => {
+        // L'header locale può avere un campo extra diverso da quello centrale
+        const local = await readView(blob, localOffset, localOffset + 30);
+        const start =
+          localOffset +
+          30 +
+          local.getUint16(26, true) +
+          local.getUint16(28, true);
+        return blob.slice(start, start + size);
+      },
+    });
+  }
+  return entries;
+};
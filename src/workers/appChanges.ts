@@ -0,0 +1,16 @@
+import { getIntegrityClient } from "./integrityClient";
+import { getSearchClient } from "./searchClient";
+
+// Le modifiche che l'app fa ai file OPFS tengono aggiornati l'indice di
+// ricerca e i manifest delle impronte: la verifica segnala così solo quelle
+// avvenute fuori dall'app. I percorsi sono quelli completi dell'albero.
+
+export const trackUpdated = (paths: string[]) => {
+  getSearchClient().updateIndex(paths);
+  getIntegrityClient().updateManifests(paths);
+};
+
+export const trackRemoved = (paths: string[]) => {
+  getSearchClient().removeFromIndex(paths);
+  getIntegrityClient().removeFromManifests(paths);
+};
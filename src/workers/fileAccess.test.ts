@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment } from "../storage/memory";
+import { OPFSEnvironment, getOPFSBackend } from "../storage/opfs";
+import {
+  FileAccessClient,
+  FileAccessPort,
+  createFileAccessClient,
+  toFileTarget,
+} from "./fileAccessClient";
+import { createFileAccessHost } from "./fileAccessHost";
+import { CHUNK_SIZE, FileAccessResponse } from "./fileAccessProtocol";
+
+// Collega client e host nello stesso processo, al posto di un vero Worker
+const connect = (env: OPFSEnvironment): FileAccessClient => {
+  const port: FileAccessPort = {
+    onmessage: null,
+    postMessage: (message) => host(message),
+  };
+  const host = createFileAccessHost(env, (message: FileAccessResponse) =>
+    port.onmessage?.(new MessageEvent("message", { data: message }))
+  );
+  return createFileAccessClient(port);
+};
+
+describe("file access worker protocol", () => {
+  let env: OPFSEnvironment;
+  let client: FileAccessClient;
+
+  beforeEach(() => {
+    env = createMemoryEnvironment();
+    client = connect(env);
+  });
+
+  it("writes a whole file in chunks and reports progress", async () => {
+    const data = new Uint8Array(CHUNK_SIZE * 2 + 10).map((_, i) => i % 251);
+    const progress: number[] = [];
+
+    await client.writeFile(toFileTarget("root/big.bin"), data, (loaded) =>
+      progress.push(loaded)
+    );
+
+    expect(progress).toEqual([CHUNK_SIZE, CHUNK_SIZE * 2, data.length]);
+    const file = await getOPFSBackend("root", env).read("big.bin");
+    const stored = new Uint8Array(await file.arrayBuffer());
+    expect(stored.length).toBe(data.length);
+    expect(stored.every((byte, i) => byte === data[i])).toBe(true);
+  });
+
+  it("truncates the previous content when saving a shorter file", async () => {
+    const target = toFileTarget("docs/note.txt");
+    await getOPFSBackend("docs", env).write("note.txt", "testo lungo");
+
+    await client.writeFile(target, new TextEncoder().encode("breve"));
+
+    const file = await getOPFSBackend("docs", env).read("note.txt");
+    expect(await file.text()).toBe("breve");
+  });
+
+  it("keeps the previous content when a save is interrupted", async () => {
+    const target = toFileTarget("docs/note.txt");
+    await getOPFSBackend("docs", env).write("note.txt", "vecchio");
+    const data = new Uint8Array(CHUNK_SIZE * 2);
+
+    // Un errore dopo il primo blocco, come una scheda chiusa a metà
+    await expect(
+      client.writeFile(target, data, () => {
+        throw new DOMException("Chiusa", "AbortError");
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+
+    const file = await getOPFSBackend("docs", env).read("note.txt");
+    expect(await file.text()).toBe("vecchio");
+  });
+
+  it("reads a range clamped to the end of the file", async () => {
+    await getOPFSBackend("root", env).write("a.txt", "0123456789");
+
+    const bytes = await client.readRange(toFileTarget("root/a.txt"), 6, 100);
+
+    expect(new TextDecoder().decode(bytes)).toBe("6789");
+  });
+
+  it("supports ranged writes, truncate and flush on an open handle", async () => {
+    const target = toFileTarget("root/data.bin");
+    await client.writeFile(target, new TextEncoder().encode("aaaaaa"));
+
+    const size = await client.withFile(target, async (handleId) => {
+      const data = new TextEncoder().encode("BB").buffer;
+      await client.call({ type: "write", handleId, offset: 2, data });
+      await client.call({ type: "truncate", handleId, size: 5 });
+      await client.call({ type: "flush", handleId });
+      return client.call({ type: "size", handleId });
+    });
+
+    expect(size).toBe(5);
+    const file = await getOPFSBackend("root", env).read("data.bin");
+    expect(await file.text()).toBe("aaBBa");
+  });
+
+  it("rejects with the browser error name for missing files", async () => {
+    await expect(
+      client.readRange(toFileTarget("root/missing.txt"), 0, 10)
+    ).rejects.toMatchObject({ name: "NotFoundError" });
+  });
+});
@@ -0,0 +1,11 @@
+import { browserEnvironment } from "../storage/opfs";
+import { createFileAccessHost } from "./fileAccessHost";
+import { FileAccessEnvelope } from "./fileAccessProtocol";
+
+const handle = createFileAccessHost(browserEnvironment(), (message, transfer) =>
+  self.postMessage(message, { transfer })
+);
+
+self.onmessage = (event: MessageEvent<FileAccessEnvelope>) => {
+  handle(event.data);
+};
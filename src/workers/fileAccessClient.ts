@@ -0,0 +1,124 @@
+import { joinPath, splitPath } from "../storage/backend";
+import { OPFS_ROOT } from "../storage/opfs";
+import {
+  FileAccessEnvelope,
+  FileAccessRequest,
+  FileAccessResponse,
+  FileAccessResults,
+  FileTarget,
+} from "./fileAccessProtocol";
+
+// Converte un percorso dell'albero OPFS ("root/a.txt", "bucket/a.txt")
+export const toFileTarget = (fullPath: string): FileTarget => {
+  const [bucketOrRoot, ...rest] = splitPath(fullPath);
+  return {
+    bucket: bucketOrRoot === OPFS_ROOT ? null : bucketOrRoot,
+    path: joinPath(...rest),
+  };
+};
+
+export type FileAccessPort = {
+  postMessage(message: FileAccessEnvelope, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<FileAccessResponse>) => void) | null;
+};
+
+export type ProgressHandler = (loaded: number, total: number) => void;
+
+type Pending = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressHandler;
+};
+
+/**
+ * Lato React del protocollo: trasforma i messaggi del worker in Promise e
+ * offre letture a intervalli e scritture a blocchi con avanzamento.
+ */
+export const createFileAccessClient = (port: FileAccessPort) => {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+
+  port.onmessage = ({ data: response }) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === "progress") {
+      request.onProgress?.(response.loaded, response.total);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === "result") request.resolve(response.value);
+    else request.reject(new DOMException(response.message, response.name));
+  };
+
+  const call = <T extends FileAccessRequest["type"]>(
+    request: Extract<FileAccessRequest, { type: T }>,
+    onProgress?: ProgressHandler,
+    transfer: Transferable[] = []
+  ): Promise<FileAccessResults[T]> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        onProgress,
+      });
+      port.postMessage({ ...request, id }, transfer);
+    });
+
+  // Apre il file, esegue `task` e rilascia sempre il lock esclusivo del
+  // sync access handle, così il file resta leggibile dal resto dell'app
+  const withFile = async <R>(
+    target: FileTarget,
+    task: (handleId: number, size: number) => Promise<R>,
+    create = false
+  ): Promise<R> => {
+    const { handleId, size } = await call({ type: "open", target, create });
+    try {
+      return await task(handleId, size);
+    } finally {
+      await call({ type: "close", handleId });
+    }
+  };
+
+  const readRange = (
+    target: FileTarget,
+    offset: number,
+    length: number,
+    onProgress?: ProgressHandler
+  ): Promise<Uint8Array> =>
+    withFile(target, async (handleId) => {
+      const buffer = await call(
+        { type: "read", handleId, offset, length },
+        onProgress
+      );
+      return new Uint8Array(buffer);
+    });
+
+  // Sostituisce l'intero contenuto del file, creandolo se non esiste: il
+  // file cambia solo quando tutti i byte sono scritti
+  const writeFile = async (
+    target: FileTarget,
+    data: Uint8Array,
+    onProgress?: ProgressHandler
+  ): Promise<void> => {
+    const buffer = data.slice().buffer;
+    await call({ type: "replace", target, data: buffer }, onProgress, [buffer]);
+  };
+
+  return { call, withFile, readRange, writeFile };
+};
+
+export type FileAccessClient = ReturnType<typeof createFileAccessClient>;
+
+let sharedClient: FileAccessClient | null = null;
+
+export const getFileAccessClient = (): FileAccessClient => {
+  if (!sharedClient) {
+    const worker = new Worker(
+      new URL("./fileAccess.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    sharedClient = createFileAccessClient(worker);
+  }
+  return sharedClient;
+};
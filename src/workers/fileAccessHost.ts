@@ -0,0 +1,131 @@
+import { resolveFileHandle } from "../storage/handleBackend";
+import { OPFSEnvironment, OPFS_ROOT, getOPFSBackend } from "../storage/opfs";
+import {
+  CHUNK_SIZE,
+  FileAccessEnvelope,
+  FileAccessResponse,
+  FileTarget,
+} from "./fileAccessProtocol";
+
+type Post = (message: FileAccessResponse, transfer?: Transferable[]) => void;
+
+/**
+ * Lato worker del protocollo: tiene aperti i FileSystemSyncAccessHandle
+ * finché il client non li chiude. Separato dall'entry point del worker per
+ * poterlo provare in Node con l'ambiente in memoria.
+ */
+export const createFileAccessHost = (env: OPFSEnvironment, post: Post) => {
+  const handles = new Map<number, FileSystemSyncAccessHandle>();
+  let nextHandleId = 1;
+
+  const getHandle = (handleId: number) => {
+    const handle = handles.get(handleId);
+    if (!handle) {
+      throw new DOMException(
+        `Handle ${handleId} non aperto`,
+        "InvalidStateError"
+      );
+    }
+    return handle;
+  };
+
+  const fileHandleOf = async (target: FileTarget, create?: boolean) => {
+    const backend = getOPFSBackend(target.bucket ?? OPFS_ROOT, env);
+    return resolveFileHandle(await backend.root(), target.path, { create });
+  };
+
+  const run = async (request: FileAccessEnvelope): Promise<unknown> => {
+    switch (request.type) {
+      case "open": {
+        const fileHandle = await fileHandleOf(request.target, request.create);
+        const handle = await fileHandle.createSyncAccessHandle();
+        const handleId = nextHandleId++;
+        handles.set(handleId, handle);
+        return { handleId, size: handle.getSize() };
+      }
+      case "size":
+        return getHandle(request.handleId).getSize();
+      case "read": {
+        const handle = getHandle(request.handleId);
+        const length = Math.max(
+          0,
+          Math.min(request.length, handle.getSize() - request.offset)
+        );
+        const buffer = new Uint8Array(length);
+        for (let loaded = 0; loaded < length;) {
+          const chunk = buffer.subarray(loaded, loaded + CHUNK_SIZE);
+          const read = handle.read(chunk, { at: request.offset + loaded });
+          if (read === 0) break;
+          loaded += read;
+          post({ id: request.id, type: "progress", loaded, total: length });
+        }
+        return buffer.buffer;
+      }
+      case "write": {
+        const handle = getHandle(request.handleId);
+        const data = new Uint8Array(request.data);
+        let written = 0;
+        while (written < data.length) {
+          const chunk = data.subarray(written, written + CHUNK_SIZE);
+          written += handle.write(chunk, { at: request.offset + written });
+          post({
+            id: request.id,
+            type: "progress",
+            loaded: written,
+            total: data.length,
+          });
+        }
+        return written;
+      }
+      case "truncate":
+        getHandle(request.handleId).truncate(request.size);
+        return;
+      case "flush":
+        getHandle(request.handleId).flush();
+        return;
+      case "close":
+        getHandle(request.handleId).close();
+        handles.delete(request.handleId);
+        return;
+      case "replace": {
+        // createWritable scrive in un file temporaneo che prende il posto
+        // dell'originale solo su close(): un salvataggio interrotto lascia
+        // il contenuto precedente
+        const fileHandle = await fileHandleOf(request.target, true);
+        const writable = await fileHandle.createWritable();
+        const data = new Uint8Array(request.data);
+        try {
+          for (let written = 0; written < data.length;) {
+            const chunk = data.subarray(written, written + CHUNK_SIZE);
+            await writable.write(chunk);
+            written += chunk.length;
+            post({
+              id: request.id,
+              type: "progress",
+              loaded: written,
+              total: data.length,
+            });
+          }
+        } catch (error) {
+          await writable.abort();
+          throw error;
+        }
+        await writable.close();
+        return data.length;
+      }
+    }
+  };
+
+  return async (request: FileAccessEnvelope) => {
+    try {
+      const value = await run(request);
+      post(
+        { id: request.id, type: "result", value },
+        value instanceof ArrayBuffer ? [value] : []
+      );
+    } catch (error) {
+      const { name = "Error", message = String(error) } = error as Error;
+      post({ id: request.id, type: "error", name, message });
+    }
+  };
+};
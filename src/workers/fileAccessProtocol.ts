@@ -0,0 +1,41 @@
+// Protocollo tra i componenti React e il worker che accede ai file OPFS con
+// FileSystemSyncAccessHandle. Ogni richiesta ha un id; il worker risponde con
+// zero o più messaggi "progress" e poi un "result" oppure un "error".
+
+export type FileTarget = {
+  bucket: string | null; // null = radice OPFS
+  path: string; // Relativo alla radice del bucket o di OPFS
+};
+
+export type FileAccessRequest =
+  | { type: "open"; target: FileTarget; create?: boolean }
+  | { type: "size"; handleId: number }
+  | { type: "read"; handleId: number; offset: number; length: number }
+  | { type: "write"; handleId: number; offset: number; data: ArrayBuffer }
+  | { type: "truncate"; handleId: number; size: number }
+  | { type: "flush"; handleId: number }
+  | { type: "close"; handleId: number }
+  // Sostituisce l'intero file solo a scrittura completata, senza handle
+  | { type: "replace"; target: FileTarget; data: ArrayBuffer };
+
+export type FileAccessResults = {
+  open: { handleId: number; size: number };
+  size: number;
+  read: ArrayBuffer;
+  write: number; // Byte scritti
+  truncate: void;
+  flush: void;
+  close: void;
+  replace: number; // Byte scritti
+};
+
+export type FileAccessEnvelope = FileAccessRequest & { id: number };
+
+export type FileAccessResponse =
+  | { id: number; type: "progress"; loaded: number; total: number }
+  | { id: number; type: "result"; value: unknown }
+  | { id: number; type: "error"; name: string; message: string };
+
+// Letture e scritture vengono spezzate in blocchi di questa dimensione, con
+// un messaggio di avanzamento per ciascuno
+export const CHUNK_SIZE = 1024 * 1024;
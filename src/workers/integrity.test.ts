@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { Manifest } from "../storage/integrity";
+import { createMemoryEnvironment } from "../storage/memory";
+import { OPFSEnvironment, getOPFSBackend } from "../storage/opfs";
+import { HISTORY_BUCKET } from "../storage/history";
+import {
+  IntegrityClient,
+  IntegrityPort,
+  createIntegrityClient,
+} from "./integrityClient";
+import { createIntegrityHost } from "./integrityHost";
+import { IntegrityResponse } from "./integrityProtocol";
+
+// Collega client e host nello stesso processo, al posto di un vero Worker
+const connect = (env: OPFSEnvironment): IntegrityClient => {
+  const manifests = new Map<string, Manifest>();
+  const port: IntegrityPort = {
+    onmessage: null,
+    postMessage: (message) => host(message),
+  };
+  const host = createIntegrityHost(
+    env,
+    {
+      load: async (root) => manifests.get(root),
+      save: async (manifest) => void manifests.set(manifest.root, manifest),
+    },
+    (message: IntegrityResponse) =>
+      port.onmessage?.(new MessageEvent("message", { data: message })),
+    () => 1000
+  );
+  return createIntegrityClient(port);
+};
+
+describe("integrity worker protocol", () => {
+  let env: OPFSEnvironment;
+  let client: IntegrityClient;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    client = connect(env);
+    await getOPFSBackend("root", env).write("a.txt", "uguale");
+    await getOPFSBackend("photos", env).write("b.txt", "uguale");
+    await getOPFSBackend(HISTORY_BUCKET, env).write("v.txt", "uguale");
+  });
+
+  it("builds and verifies a manifest for the root and every bucket", async () => {
+    expect(await client.buildManifests().done).toEqual([
+      { root: "root", createdAt: 1000, files: 1 },
+      { root: "photos", createdAt: 1000, files: 1 },
+    ]);
+
+    await getOPFSBackend("photos", env).write("b.txt", "ugual");
+    const reports = await client.verify().done;
+
+    expect(reports.map((report) => report.mismatched.length)).toEqual([0, 1]);
+  });
+
+  it("keeps manifests current with changes made through the app", async () => {
+    await client.buildManifests(["root"]).done;
+    const root = getOPFSBackend("root", env);
+
+    await root.write("a.txt", "modificato");
+    await root.mkdir("docs");
+    await root.write("docs/c.txt", "nuovo");
+    client.updateManifests(["root/a.txt", "root/docs"]);
+    await root.write("d.txt", "fuori dall'app");
+
+    const [report] = await client.verify(["root"]).done;
+    expect(report).toMatchObject({
+      checked: 2,
+      mismatched: [],
+      missing: [],
+      added: ["d.txt"],
+    });
+
+    await root.remove("docs", { recursive: true });
+    client.removeFromManifests(["root/docs"]);
+    const [after] = await client.verify(["root"]).done;
+    expect(after.missing).toEqual([]);
+  });
+
+  it("reports roots without a manifest", async () => {
+    const [report] = await client.verify(["root"]).done;
+
+    expect(report).toMatchObject({ root: "root", manifestCreatedAt: null });
+  });
+
+  it("finds duplicates outside the history bucket", async () => {
+    const groups = await client.findDuplicates().done;
+
+    expect(groups.map((group) => group.paths)).toEqual([
+      ["root/a.txt", "photos/b.txt"],
+    ]);
+  });
+
+  it("cancels a running task", async () => {
+    const task = client.buildManifests();
+    task.cancel();
+
+    await expect(task.done).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
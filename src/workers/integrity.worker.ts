@@ -0,0 +1,14 @@
+import { createIndexedDBManifestStore } from "../storage/integrity";
+import { browserEnvironment } from "../storage/opfs";
+import { createIntegrityHost } from "./integrityHost";
+import { IntegrityRequest } from "./integrityProtocol";
+
+const handle = createIntegrityHost(
+  browserEnvironment(),
+  createIndexedDBManifestStore(),
+  (message) => self.postMessage(message)
+);
+
+self.onmessage = (event: MessageEvent<IntegrityRequest>) => {
+  handle(event.data);
+};
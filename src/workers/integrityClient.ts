@@ -0,0 +1,108 @@
+import { DuplicateGroup, VerifyReport } from "../storage/integrity";
+import {
+  IntegrityProgress,
+  IntegrityRequest,
+  IntegrityResponse,
+  ManifestSummary,
+} from "./integrityProtocol";
+
+export type IntegrityPort = {
+  postMessage(message: IntegrityRequest): void;
+  onmessage: ((event: MessageEvent<IntegrityResponse>) => void) | null;
+};
+
+type Final = Exclude<IntegrityResponse, { type: "progress" | "error" }>;
+
+type Pending = {
+  resolve: (response: Final) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: IntegrityProgress) => void;
+};
+
+export type IntegrityTask<T> = { done: Promise<T>; cancel: () => void };
+
+/**
+ * Lato React del controllo di integrità: ogni operazione restituisce una
+ * Promise con il risultato e una funzione per annullarla.
+ */
+export const createIntegrityClient = (port: IntegrityPort) => {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+
+  port.onmessage = ({ data: response }) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === "progress") {
+      request.onProgress?.({ files: response.files, bytes: response.bytes });
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === "error") {
+      request.reject(new DOMException(response.message, response.name));
+    } else request.resolve(response);
+  };
+
+  const send = <T>(
+    request: (id: number) => IntegrityRequest,
+    result: (response: Final) => T,
+    onProgress?: (progress: IntegrityProgress) => void
+  ): IntegrityTask<T> => {
+    const id = nextId++;
+    const done = new Promise<Final>((resolve, reject) => {
+      pending.set(id, { resolve, reject, onProgress });
+      port.postMessage(request(id));
+    }).then(result);
+    return { done, cancel: () => port.postMessage({ type: "cancel", id }) };
+  };
+
+  return {
+    // Senza `roots` si considerano la radice OPFS e tutti i bucket
+    buildManifests: (
+      roots?: string[],
+      onProgress?: (progress: IntegrityProgress) => void
+    ) =>
+      send(
+        (id) => ({ type: "build", id, roots }),
+        (response): ManifestSummary[] =>
+          response.type === "built" ? response.manifests : [],
+        onProgress
+      ),
+    verify: (
+      roots?: string[],
+      onProgress?: (progress: IntegrityProgress) => void
+    ) =>
+      send(
+        (id) => ({ type: "verify", id, roots }),
+        (response): VerifyReport[] =>
+          response.type === "verified" ? response.reports : [],
+        onProgress
+      ),
+    findDuplicates: (onProgress?: (progress: IntegrityProgress) => void) =>
+      send(
+        (id) => ({ type: "duplicates", id }),
+        (response): DuplicateGroup[] =>
+          response.type === "duplicates" ? response.groups : [],
+        onProgress
+      ),
+    // Da chiamare quando l'app modifica file OPFS, con i percorsi dell'albero
+    updateManifests: (paths: string[]) =>
+      port.postMessage({ type: "manifestUpdate", paths }),
+    removeFromManifests: (paths: string[]) =>
+      port.postMessage({ type: "manifestRemove", paths }),
+  };
+};
+
+export type IntegrityClient = ReturnType<typeof createIntegrityClient>;
+
+let sharedClient: IntegrityClient | null = null;
+
+export const getIntegrityClient = (): IntegrityClient => {
+  if (!sharedClient) {
+    const worker = new Worker(
+      new URL("./integrity.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    sharedClient = createIntegrityClient(worker);
+  }
+  return sharedClient;
+};
@@ -0,0 +1,163 @@
+import { joinPath, splitPath } from "../storage/backend";
+import { visibleRoots } from "../storage/history";
+import {
+  IntegrityOptions,
+  ManifestStore,
+  VerifyReport,
+  buildManifest,
+  findDuplicates,
+  refreshManifest,
+  verifyManifest,
+} from "../storage/integrity";
+import { OPFSEnvironment, getOPFSBackend } from "../storage/opfs";
+import {
+  IntegrityProgress,
+  IntegrityRequest,
+  IntegrityResponse,
+  PROGRESS_THROTTLE,
+} from "./integrityProtocol";
+
+type Post = (message: IntegrityResponse) => void;
+
+/**
+ * Lato worker del controllo di integrità: calcola le impronte dei file OPFS
+ * senza bloccare l'interfaccia. Le operazioni in corso sono indicizzate per
+ * id, così un "cancel" può interromperle.
+ */
+export const createIntegrityHost = (
+  env: OPFSEnvironment,
+  store: ManifestStore,
+  post: Post,
+  now = () => Date.now()
+) => {
+  const running = new Map<number, AbortController>();
+
+  // L'avanzamento è cumulativo per richiesta e inviato al più ogni
+  // PROGRESS_THROTTLE millisecondi
+  const options = (id: number, signal: AbortSignal): IntegrityOptions => {
+    const total: IntegrityProgress = { files: 0, bytes: 0 };
+    let last = 0;
+    return {
+      signal,
+      onProgress: ({ files, bytes }) => {
+        total.files += files;
+        total.bytes += bytes;
+        if (now() - last < PROGRESS_THROTTLE) return;
+        last = now();
+        post({ id, type: "progress", ...total });
+      },
+    };
+  };
+
+  const rootsOf = async (roots?: string[]) => roots ?? visibleRoots(env);
+
+  // Gli aggiornamenti dei manifest vanno in coda, nell'ordine dei messaggi
+  let manifestQueue: Promise<unknown> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    const next = manifestQueue.then(task);
+    manifestQueue = next.catch((error) =>
+      console.error("Errore durante l'aggiornamento del manifest:", error)
+    );
+    return manifestQueue;
+  };
+
+  // Solo le radici che hanno già un manifest; le altre non si verificano
+  const refresh = (paths: string[], removed: boolean) =>
+    enqueue(async () => {
+      for (const fullPath of paths) {
+        const [root, ...rest] = splitPath(fullPath);
+        const manifest = root && (await store.load(root));
+        if (!manifest) continue;
+        await refreshManifest(
+          getOPFSBackend(root, env),
+          manifest,
+          joinPath(...rest),
+          removed
+        );
+        await store.save(manifest);
+      }
+    });
+
+  const run = async (
+    request: Exclude<
+      IntegrityRequest,
+      { type: "cancel" | "manifestUpdate" | "manifestRemove" }
+    >,
+    signal: AbortSignal
+  ) => {
+    const { id } = request;
+    const progress = options(id, signal);
+    // I manifest si leggono dopo gli aggiornamenti già ricevuti
+    await manifestQueue;
+    switch (request.type) {
+      case "build": {
+        const manifests = [];
+        for (const root of await rootsOf(request.roots)) {
+          const manifest = await buildManifest(
+            getOPFSBackend(root, env),
+            root,
+            progress,
+            now()
+          );
+          await store.save(manifest);
+          manifests.push({
+            root,
+            createdAt: manifest.createdAt,
+            files: Object.keys(manifest.files).length,
+          });
+        }
+        return post({ id, type: "built", manifests });
+      }
+      case "verify": {
+        const reports: VerifyReport[] = [];
+        for (const root of await rootsOf(request.roots)) {
+          const manifest = await store.load(root);
+          reports.push(
+            manifest
+              ? await verifyManifest(
+                  getOPFSBackend(root, env),
+                  manifest,
+                  progress
+                )
+              : {
+                  root,
+                  manifestCreatedAt: null,
+                  checked: 0,
+                  mismatched: [],
+                  missing: [],
+                  added: [],
+                }
+          );
+        }
+        return post({ id, type: "verified", reports });
+      }
+      case "duplicates": {
+        const roots = (await visibleRoots(env)).map((name) => ({
+          name,
+          backend: getOPFSBackend(name, env),
+        }));
+        const groups = await findDuplicates(roots, progress);
+        return post({ id, type: "duplicates", groups });
+      }
+    }
+  };
+
+  return async (request: IntegrityRequest) => {
+    if (request.type === "cancel") {
+      running.get(request.id)?.abort();
+      return;
+    }
+    if (request.type === "manifestUpdate") return refresh(request.paths, false);
+    if (request.type === "manifestRemove") return refresh(request.paths, true);
+    const controller = new AbortController();
+    running.set(request.id, controller);
+    try {
+      await run(request, controller.signal);
+    } catch (error) {
+      const { name = "Error", message = String(error) } = error as Error;
+      post({ id: request.id, type: "error", name, message });
+    } finally {
+      running.delete(request.id);
+    }
+  };
+};
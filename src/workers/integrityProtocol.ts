@@ -0,0 +1,30 @@
+import { DuplicateGroup, Manifest, VerifyReport } from "../storage/integrity";
+
+// Protocollo tra il pannello di integrità e il worker che calcola le
+// impronte. Ogni richiesta produce zero o più "progress", poi la risposta
+// finale o "error"; "cancel" la interrompe.
+
+export type ManifestSummary = Pick<Manifest, "root" | "createdAt"> & {
+  files: number;
+};
+
+export type IntegrityRequest =
+  | { type: "build"; id: number; roots?: string[] } // Predefinito: tutte
+  | { type: "verify"; id: number; roots?: string[] }
+  | { type: "duplicates"; id: number }
+  | { type: "cancel"; id: number }
+  // Modifiche fatte dall'app, con i percorsi completi dell'albero
+  | { type: "manifestUpdate"; paths: string[] }
+  | { type: "manifestRemove"; paths: string[] };
+
+export type IntegrityProgress = { files: number; bytes: number };
+
+export type IntegrityResponse =
+  | ({ id: number; type: "progress" } & IntegrityProgress)
+  | { id: number; type: "built"; manifests: ManifestSummary[] }
+  | { id: number; type: "verified"; reports: VerifyReport[] }
+  | { id: number; type: "duplicates"; groups: DuplicateGroup[] }
+  | { id: number; type: "error"; name: string; message: string };
+
+// Intervallo minimo tra due messaggi di avanzamento, in millisecondi
+export const PROGRESS_THROTTLE = 100;
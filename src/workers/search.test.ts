@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment } from "../storage/memory";
+import { OPFSEnvironment, getOPFSBackend } from "../storage/opfs";
+import { SearchResult } from "../storage/search";
+import { IndexedFile, createSearchIndex } from "../storage/searchIndex";
+import { SearchClient, SearchPort, createSearchClient } from "./searchClient";
+import { createSearchHost } from "./searchHost";
+import { SearchResponse } from "./searchProtocol";
+
+// Collega client e host nello stesso processo, al posto di un vero Worker
+const connect = (env: OPFSEnvironment): SearchClient => {
+  let stored: Record<string, IndexedFile> | undefined;
+  const index = createSearchIndex({
+    load: async () => stored && { version: 1, files: { ...stored } },
+    save: async (changes) => {
+      const files = changes.reset ? {} : { ...stored };
+      for (const path of changes.delete) delete files[path];
+      stored = { ...files, ...structuredClone(changes.put) };
+    },
+    clear: async () => void (stored = undefined),
+  });
+  const port: SearchPort = {
+    onmessage: null,
+    postMessage: (message) => host(message),
+  };
+  const host = createSearchHost(env, index, (message: SearchResponse) =>
+    port.onmessage?.(new MessageEvent("message", { data: message }))
+  );
+  return createSearchClient(port);
+};
+
+describe("search worker protocol", () => {
+  let env: OPFSEnvironment;
+  let client: SearchClient;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    client = connect(env);
+    await getOPFSBackend("root", env).write("a.txt", "ago nel pagliaio");
+    await getOPFSBackend("photos", env).write("b.txt", "solo paglia");
+  });
+
+  it("streams results from the root and every bucket", async () => {
+    const results: SearchResult[] = [];
+
+    const { done } = client.search(
+      { text: "pagli" },
+      { opfs: true },
+      { onResult: (result) => results.push(result) }
+    );
+
+    expect((await done).scanned).toBe(2);
+    expect(results.map((result) => result.path)).toEqual([
+      "root/a.txt",
+      "photos/b.txt",
+    ]);
+  });
+
+  it("cancels a running search", async () => {
+    const search = client.search({ name: "*" }, { opfs: true }, {});
+    search.cancel();
+
+    await expect(search.done).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("keeps the index up to date with changes made through the app", async () => {
+    const rebuilt = await client.rebuildIndex();
+    expect(rebuilt.index).toEqual({ enabled: true, files: 2 });
+
+    await getOPFSBackend("root", env).write("c.txt", "nuovo");
+    client.updateIndex(["root/c.txt"]);
+    client.removeFromIndex(["photos"]);
+
+    expect((await client.indexStatus()).index.files).toBe(2);
+    const results: SearchResult[] = [];
+    await client.search(
+      { text: "nuovo" },
+      { opfs: true },
+      { useIndex: true, onResult: (result) => results.push(result) }
+    ).done;
+    expect(results.map((result) => result.path)).toEqual(["root/c.txt"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { browserEnvironment } from "../storage/opfs";
+import {
+  createIndexedDBStore,
+  createSearchIndex,
+} from "../storage/searchIndex";
+import { createSearchHost } from "./searchHost";
+import { SearchRequest } from "./searchProtocol";
+
+const handle = createSearchHost(
+  browserEnvironment(),
+  createSearchIndex(createIndexedDBStore()),
+  (message) => self.postMessage(message)
+);
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  handle(event.data);
+};
@@ -0,0 +1,100 @@
+import { SearchQuery, SearchResult } from "../storage/search";
+import {
+  IndexStatus,
+  SearchRequest,
+  SearchResponse,
+  SearchScope,
+} from "./searchProtocol";
+
+export type SearchPort = {
+  postMessage(message: SearchRequest): void;
+  onmessage: ((event: MessageEvent<SearchResponse>) => void) | null;
+};
+
+export type SearchSummary = { scanned: number; index: IndexStatus };
+
+type Pending = {
+  resolve: (summary: SearchSummary) => void;
+  reject: (error: Error) => void;
+  onResult?: (result: SearchResult) => void;
+  onProgress?: (scanned: number) => void;
+};
+
+export type SearchHandlers = Omit<Pending, "resolve" | "reject">;
+
+/**
+ * Lato React della ricerca: ogni ricerca restituisce una Promise che si
+ * risolve a ricerca finita, mentre i risultati arrivano a `onResult`.
+ */
+export const createSearchClient = (port: SearchPort) => {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+
+  port.onmessage = ({ data: response }) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    if (response.type === "result") {
+      request.onResult?.(response.result);
+      return;
+    }
+    if (response.type === "progress") {
+      request.onProgress?.(response.scanned);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === "done") {
+      request.resolve({ scanned: response.scanned, index: response.index });
+    } else request.reject(new DOMException(response.message, response.name));
+  };
+
+  const send = (
+    request: (id: number) => SearchRequest,
+    handlers: SearchHandlers = {}
+  ) => {
+    const id = nextId++;
+    const done = new Promise<SearchSummary>((resolve, reject) => {
+      pending.set(id, { resolve, reject, ...handlers });
+      port.postMessage(request(id));
+    });
+    return { id, done };
+  };
+
+  const search = (
+    query: SearchQuery,
+    scope: SearchScope,
+    { useIndex = false, ...handlers }: SearchHandlers & { useIndex?: boolean }
+  ) => {
+    const { id, done } = send(
+      (id) => ({ type: "search", id, query, scope, useIndex }),
+      handlers
+    );
+    return { done, cancel: () => port.postMessage({ type: "cancel", id }) };
+  };
+
+  return {
+    search,
+    indexStatus: () => send((id) => ({ type: "indexStatus", id })).done,
+    rebuildIndex: (onProgress?: (scanned: number) => void) =>
+      send((id) => ({ type: "indexRebuild", id }), { onProgress }).done,
+    disableIndex: () => send((id) => ({ type: "indexDisable", id })).done,
+    // Da chiamare quando l'app modifica file OPFS, con i percorsi dell'albero
+    updateIndex: (paths: string[]) =>
+      port.postMessage({ type: "indexUpdate", paths }),
+    removeFromIndex: (paths: string[]) =>
+      port.postMessage({ type: "indexRemove", paths }),
+  };
+};
+
+export type SearchClient = ReturnType<typeof createSearchClient>;
+
+let sharedClient: SearchClient | null = null;
+
+export const getSearchClient = (): SearchClient => {
+  if (!sharedClient) {
+    const worker = new Worker(new URL("./search.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    sharedClient = createSearchClient(worker);
+  }
+  return sharedClient;
+};
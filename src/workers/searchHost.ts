@@ -0,0 +1,195 @@
+import { StorageBackend, joinPath, splitPath } from "../storage/backend";
+import { sniffContent } from "../storage/content";
+import {
+  OPFSEnvironment,
+  createDirectoryBackend,
+  getOPFSBackend,
+  resolveOPFSPath,
+} from "../storage/opfs";
+import { visibleRoots } from "../storage/history";
+import { SearchOptions, searchBackend } from "../storage/search";
+import { SearchIndex } from "../storage/searchIndex";
+import { walkBackend } from "../storage/walk";
+import {
+  IndexStatus,
+  PROGRESS_INTERVAL,
+  SearchRequest,
+  SearchResponse,
+  SearchScope,
+} from "./searchProtocol";
+
+type Post = (message: SearchResponse) => void;
+
+type Source = { backend: StorageBackend; prefix: string; indexed: boolean };
+
+/**
+ * Lato worker della ricerca. Le ricerche in corso sono indicizzate per id,
+ * così un "cancel" può interromperle con il loro AbortController.
+ */
+export const createSearchHost = (
+  env: OPFSEnvironment,
+  index: SearchIndex,
+  post: Post
+) => {
+  const running = new Map<number, AbortController>();
+  const loaded = index.load();
+  // Le operazioni sull'indice vanno in coda, nell'ordine dei messaggi; le
+  // ricerche invece procedono in parallelo
+  let indexQueue: Promise<unknown> = loaded;
+  const enqueue = (task: () => Promise<void>) => {
+    const next = indexQueue.then(task);
+    indexQueue = next.catch(() => undefined);
+    return next;
+  };
+
+  const status = (): IndexStatus => ({
+    enabled: index.enabled,
+    files: index.size,
+  });
+
+  // Le versioni nel bucket della cronologia non sono risultati di ricerca
+  const searchableRoots = () => visibleRoots(env);
+
+  const sources = async (scope: SearchScope): Promise<Source[]> => {
+    const result: Source[] = [];
+    if (scope.opfs) {
+      for (const name of await searchableRoots()) {
+        result.push({
+          backend: getOPFSBackend(name, env),
+          prefix: name,
+          indexed: true,
+        });
+      }
+    }
+    if (scope.directory) {
+      result.push({
+        backend: createDirectoryBackend(scope.directory),
+        prefix: "",
+        indexed: false,
+      });
+    }
+    return result;
+  };
+
+  const search = async (
+    request: Extract<SearchRequest, { type: "search" }>
+  ) => {
+    const controller = new AbortController();
+    running.set(request.id, controller);
+    let scanned = 0;
+    try {
+      await loaded;
+      for (const source of await sources(request.scope)) {
+        const useIndex = request.useIndex && source.indexed && index.enabled;
+        const options: SearchOptions = {
+          signal: controller.signal,
+          onScanned: () => {
+            if (++scanned % PROGRESS_INTERVAL === 0) {
+              post({ id: request.id, type: "progress", scanned });
+            }
+          },
+          ...(useIndex && {
+            skipContent: (path, file) =>
+              index.excludes(path, file, request.query),
+            onText: index.add,
+          }),
+        };
+        for await (const result of searchBackend(
+          source.backend,
+          source.prefix,
+          request.query,
+          options
+        )) {
+          post({ id: request.id, type: "result", result });
+        }
+      }
+      if (request.useIndex) await index.save();
+      post({ id: request.id, type: "done", scanned, index: status() });
+    } finally {
+      running.delete(request.id);
+    }
+  };
+
+  const indexFile = async (fullPath: string) => {
+    const { backend, path } = resolveOPFSPath(fullPath, env);
+    const file = await backend.read(path);
+    if ((await sniffContent(file)).kind === "text") {
+      index.add(fullPath, file, await file.text());
+    } else {
+      index.remove(fullPath);
+    }
+  };
+
+  // Rilegge un file o, se è una cartella, tutto il suo contenuto
+  const indexPath = async (fullPath: string) => {
+    const [bucketOrRoot] = splitPath(fullPath);
+    const { backend, path } = resolveOPFSPath(fullPath, env);
+    index.remove(fullPath);
+    if ((await backend.stat(path)).kind === "file") return indexFile(fullPath);
+    for await (const entry of walkBackend(backend, path)) {
+      if (entry.kind === "file") {
+        await indexFile(joinPath(bucketOrRoot, entry.path));
+      }
+    }
+  };
+
+  const rebuild = async (id: number) => {
+    index.enable();
+    let scanned = 0;
+    for (const name of await searchableRoots()) {
+      const backend = getOPFSBackend(name, env);
+      for await (const entry of walkBackend(backend)) {
+        if (entry.kind === "file") await indexFile(joinPath(name, entry.path));
+        if (++scanned % PROGRESS_INTERVAL === 0) {
+          post({ id, type: "progress", scanned });
+        }
+      }
+    }
+    await index.save();
+    post({ id, type: "done", scanned, index: status() });
+  };
+
+  const run = async (request: SearchRequest) => {
+    switch (request.type) {
+      case "search":
+        return search(request);
+      case "cancel":
+        running.get(request.id)?.abort();
+        return;
+      case "indexStatus":
+        return enqueue(async () =>
+          post({ id: request.id, type: "done", scanned: 0, index: status() })
+        );
+      case "indexRebuild":
+        return enqueue(() => rebuild(request.id));
+      case "indexDisable":
+        return enqueue(async () => {
+          await index.disable();
+          post({ id: request.id, type: "done", scanned: 0, index: status() });
+        });
+      case "indexUpdate":
+      case "indexRemove":
+        return enqueue(async () => {
+          if (!index.enabled) return;
+          for (const path of request.paths) {
+            if (request.type === "indexRemove") index.remove(path);
+            else await indexPath(path);
+          }
+          await index.save();
+        });
+    }
+  };
+
+  return async (request: SearchRequest) => {
+    try {
+      await run(request);
+    } catch (error) {
+      if (!("id" in request)) {
+        console.error("Errore durante l'aggiornamento dell'indice:", error);
+        return;
+      }
+      const { name = "Error", message = String(error) } = error as Error;
+      post({ id: request.id, type: "error", name, message });
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { SearchQuery, SearchResult } from "../storage/search";
+
+// Protocollo tra il pannello di ricerca e il worker che la esegue. Una
+// ricerca produce zero o più "result" e "progress", poi "done" o "error";
+// "cancel" la interrompe. I messaggi "index" tengono aggiornato l'indice
+// quando l'app modifica i file OPFS.
+
+export type SearchScope = {
+  opfs: boolean; // Radice OPFS e tutti i bucket
+  directory?: FileSystemDirectoryHandle; // Cartella scelta dall'utente
+};
+
+export type SearchRequest =
+  | {
+      type: "search";
+      id: number;
+      query: SearchQuery;
+      scope: SearchScope;
+      useIndex: boolean;
+    }
+  | { type: "cancel"; id: number }
+  | { type: "indexStatus"; id: number }
+  | { type: "indexRebuild"; id: number }
+  | { type: "indexDisable"; id: number }
+  | { type: "indexUpdate"; paths: string[] } // Percorsi completi dell'albero
+  | { type: "indexRemove"; paths: string[] };
+
+export type IndexStatus = { enabled: boolean; files: number };
+
+export type SearchResponse =
+  | { id: number; type: "result"; result: SearchResult }
+  | { id: number; type: "progress"; scanned: number }
+  | { id: number; type: "done"; scanned: number; index: IndexStatus }
+  | { id: number; type: "error"; name: string; message: string };
+
+// Ogni quanti elementi visitati il worker segnala l'avanzamento
+export const PROGRESS_INTERVAL = 100;
@@ -0,0 +1,96 @@
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryEnvironment } from "../storage/memory";
+import { OPFSEnvironment, getOPFSBackend } from "../storage/opfs";
+import { SQLiteClient, SQLitePort, createSQLiteClient } from "./sqliteClient";
+import { createSQLiteHost } from "./sqliteHost";
+
+const sqlite = sqlite3InitModule();
+
+// Collega client e host nello stesso processo, al posto di un vero Worker
+const connect = (env: OPFSEnvironment): SQLiteClient => {
+  const port: SQLitePort = {
+    onmessage: null,
+    postMessage: (message) => host(message),
+  };
+  const host = createSQLiteHost(sqlite, env, (message) =>
+    port.onmessage?.(new MessageEvent("message", { data: message }))
+  );
+  return createSQLiteClient(port);
+};
+
+const databaseFile = async () => {
+  const sqlite3 = await sqlite;
+  const db = new sqlite3.oo1.DB();
+  db.exec(`
+    CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT);
+    INSERT INTO items (name) VALUES ('uno'), ('due'), ('tre');
+  `);
+  const bytes = sqlite3.capi.sqlite3_js_db_export(db);
+  db.close();
+  return bytes;
+};
+
+describe("sqlite worker protocol", () => {
+  let env: OPFSEnvironment;
+  let client: SQLiteClient;
+
+  beforeEach(async () => {
+    env = createMemoryEnvironment();
+    client = connect(env);
+    await getOPFSBackend("root", env).write("app.db", await databaseFile());
+    await getOPFSBackend("photos", env).write(
+      "cache.sqlite",
+      await databaseFile()
+    );
+    await getOPFSBackend("photos", env).write("a.txt", "testo");
+  });
+
+  it("finds databases in the root and in buckets", async () => {
+    expect(await client.findDatabases()).toEqual([
+      "root/app.db",
+      "photos/cache.sqlite",
+    ]);
+  });
+
+  it("opens a database read-only and pages through a table", async () => {
+    const database = await client.open("photos/cache.sqlite");
+
+    expect(database).toMatchObject({ vfs: "memory", write: false });
+    expect(database.tables.map(({ name, rows }) => [name, rows])).toEqual([
+      ["items", 3],
+    ]);
+    expect(
+      (await client.rows("photos/cache.sqlite", "items", 1, 10)).rows
+    ).toEqual([
+      [2, "due"],
+      [3, "tre"],
+    ]);
+    await expect(
+      client.query("photos/cache.sqlite", "DELETE FROM items")
+    ).rejects.toMatchObject({ name: "NoModificationAllowedError" });
+  });
+
+  it("writes changes back to the file in write mode", async () => {
+    await client.open("root/app.db", true);
+    const result = await client.query(
+      "root/app.db",
+      "UPDATE items SET name = 'UNO' WHERE id = 1"
+    );
+    expect(result.changes).toBe(1);
+    await client.close("root/app.db");
+
+    await client.open("root/app.db");
+    const { rows } = await client.query(
+      "root/app.db",
+      "SELECT name FROM items WHERE id = 1"
+    );
+    expect(rows).toEqual([["UNO"]]);
+  });
+
+  it("reports queries on databases that are not open", async () => {
+    await expect(client.query("root/app.db", "SELECT 1")).rejects.toMatchObject(
+      { name: "InvalidStateError" }
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+import { browserEnvironment } from "../storage/opfs";
+import { createSQLiteHost } from "./sqliteHost";
+import { SQLiteRequest } from "./sqliteProtocol";
+
+const handle = createSQLiteHost(
+  sqlite3InitModule(),
+  browserEnvironment(),
+  (message) => self.postMessage(message)
+);
+
+self.onmessage = (event: MessageEvent<SQLiteRequest>) => {
+  handle(event.data);
+};
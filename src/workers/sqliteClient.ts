@@ -0,0 +1,102 @@
+import { QueryResult } from "../storage/sqlite";
+import { DatabaseInfo, SQLiteRequest, SQLiteResponse } from "./sqliteProtocol";
+
+export type SQLitePort = {
+  postMessage(message: SQLiteRequest): void;
+  onmessage: ((event: MessageEvent<SQLiteResponse>) => void) | null;
+};
+
+type Final = Exclude<SQLiteResponse, { type: "error" }>;
+
+type Pending = {
+  resolve: (response: Final) => void;
+  reject: (error: Error) => void;
+};
+
+// Tipo di risposta atteso per ogni richiesta: un'altra è un errore del worker
+const expectResponse =
+  <T extends Final["type"]>(type: T) =>
+  (response: Final) => {
+    if (response.type !== type) {
+      throw new DOMException(
+        `Risposta inattesa: ${response.type}`,
+        "DataError"
+      );
+    }
+    return response as Extract<Final, { type: T }>;
+  };
+
+/**
+ * Lato React del browser dei database: ogni richiesta al worker SQLite
+ * restituisce una Promise con la sua risposta.
+ */
+export const createSQLiteClient = (port: SQLitePort) => {
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+
+  port.onmessage = ({ data: response }) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === "error") {
+      request.reject(new DOMException(response.message, response.name));
+    } else request.resolve(response);
+  };
+
+  const send = (request: (id: number) => SQLiteRequest) => {
+    const id = nextId++;
+    return new Promise<Final>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      port.postMessage(request(id));
+    });
+  };
+
+  return {
+    findDatabases: async (): Promise<string[]> =>
+      expectResponse("found")(await send((id) => ({ type: "find", id }))).paths,
+    // Senza `write` il database rifiuta qualsiasi modifica
+    open: async (path: string, write = false): Promise<DatabaseInfo> =>
+      expectResponse("opened")(
+        await send((id) => ({ type: "open", id, path, write }))
+      ).database,
+    rows: async (
+      path: string,
+      table: string,
+      offset: number,
+      limit: number
+    ): Promise<QueryResult> =>
+      expectResponse("result")(
+        await send((id) => ({
+          type: "rows",
+          id,
+          path,
+          table,
+          offset,
+          limit,
+        }))
+      ).result,
+    query: async (path: string, sql: string): Promise<QueryResult> =>
+      expectResponse("result")(
+        await send((id) => ({ type: "query", id, path, sql }))
+      ).result,
+    close: async (path: string) => {
+      expectResponse("closed")(
+        await send((id) => ({ type: "close", id, path }))
+      );
+    },
+  };
+};
+
+export type SQLiteClient = ReturnType<typeof createSQLiteClient>;
+
+let sharedClient: SQLiteClient | null = null;
+
+export const getSQLiteClient = (): SQLiteClient => {
+  if (!sharedClient) {
+    const worker = new Worker(new URL("./sqlite.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    sharedClient = createSQLiteClient(worker);
+  }
+  return sharedClient;
+};
@@ -0,0 +1,113 @@
+import type { Sqlite3Static } from "@sqlite.org/sqlite-wasm";
+import { splitPath } from "../storage/backend";
+import { visibleRoots } from "../storage/history";
+import {
+  OPFSEnvironment,
+  OPFS_ROOT,
+  getOPFSBackend,
+  resolveOPFSPath,
+} from "../storage/opfs";
+import {
+  SQLiteConnection,
+  findDatabases,
+  listTables,
+  openDatabase,
+  readRows,
+  runQuery,
+} from "../storage/sqlite";
+import { DatabaseInfo, SQLiteRequest, SQLiteResponse } from "./sqliteProtocol";
+
+type Post = (message: SQLiteResponse) => void;
+
+/**
+ * Lato worker del browser dei database. Tiene aperta una connessione per
+ * ogni database e gestisce le richieste una alla volta, nell'ordine dei
+ * messaggi: SQLite-wasm non è rientrante.
+ */
+export const createSQLiteHost = (
+  sqlite: Promise<Sqlite3Static>,
+  env: OPFSEnvironment,
+  post: Post
+) => {
+  const connections = new Map<string, SQLiteConnection>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const connectionOf = (path: string) => {
+    const connection = connections.get(path);
+    if (!connection) {
+      throw new DOMException(
+        `Database non aperto: ${path}`,
+        "InvalidStateError"
+      );
+    }
+    return connection;
+  };
+
+  const infoOf = (path: string): DatabaseInfo => {
+    const { db, vfs, write } = connectionOf(path);
+    return { path, vfs, write, tables: listTables(db) };
+  };
+
+  const close = (path: string) => {
+    connections.get(path)?.db.close();
+    connections.delete(path);
+  };
+
+  const run = async (request: SQLiteRequest) => {
+    const { id } = request;
+    switch (request.type) {
+      case "find": {
+        const roots = (await visibleRoots(env)).map((name) => ({
+          name,
+          backend: getOPFSBackend(name, env),
+        }));
+        return post({ id, type: "found", paths: await findDatabases(roots) });
+      }
+      case "open": {
+        // Riaprire cambia la modalità: una sola connessione per database
+        close(request.path);
+        const { backend, path } = resolveOPFSPath(request.path, env);
+        connections.set(
+          request.path,
+          await openDatabase(await sqlite, backend, path, {
+            write: request.write,
+            // Il VFS OPFS vede solo la radice, non i bucket
+            useOpfsVfs: splitPath(request.path)[0] === OPFS_ROOT,
+          })
+        );
+        return post({ id, type: "opened", database: infoOf(request.path) });
+      }
+      case "rows": {
+        const { db } = connectionOf(request.path);
+        const result = readRows(
+          db,
+          request.table,
+          request.offset,
+          request.limit
+        );
+        return post({ id, type: "result", result });
+      }
+      case "query": {
+        const connection = connectionOf(request.path);
+        const result = runQuery(connection.db, request.sql);
+        await connection.persist();
+        return post({ id, type: "result", result });
+      }
+      case "close":
+        close(request.path);
+        return post({ id, type: "closed" });
+    }
+  };
+
+  return (request: SQLiteRequest) => {
+    queue = queue.then(async () => {
+      try {
+        await run(request);
+      } catch (error) {
+        const { name = "Error", message = String(error) } = error as Error;
+        post({ id: request.id, type: "error", name, message });
+      }
+    });
+    return queue;
+  };
+};
@@ -0,0 +1,33 @@
+import { QueryResult, SQLiteVfs, TableSchema } from "../storage/sqlite";
+
+// Protocollo tra il browser dei database e il worker SQLite. I database si
+// indicano con il percorso completo dell'albero OPFS; ogni richiesta riceve
+// una sola risposta, o "error".
+
+export type SQLiteRequest =
+  | { type: "find"; id: number } // Database nella radice OPFS e nei bucket
+  | { type: "open"; id: number; path: string; write: boolean }
+  | {
+      type: "rows";
+      id: number;
+      path: string;
+      table: string;
+      offset: number;
+      limit: number;
+    }
+  | { type: "query"; id: number; path: string; sql: string }
+  | { type: "close"; id: number; path: string };
+
+export type DatabaseInfo = {
+  path: string;
+  vfs: SQLiteVfs;
+  write: boolean;
+  tables: TableSchema[];
+};
+
+export type SQLiteResponse =
+  | { id: number; type: "found"; paths: string[] }
+  | { id: number; type: "opened"; database: DatabaseInfo }
+  | { id: number; type: "result"; result: QueryResult }
+  | { id: number; type: "closed" }
+  | { id: number; type: "error"; name: string; message: string };